@@ -6,7 +6,8 @@ import { api } from "@/convex/_generated/api";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { ChevronLeft, ChevronRight, Calendar, TrendingUp, Trash2 } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { ChevronLeft, ChevronRight, Calendar, Link2, TrendingUp, Trash2 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { useSearchParams, useRouter } from "next/navigation";
 
@@ -31,6 +32,8 @@ function ActivityContent() {
     date: selectedDate,
   });
   const deleteReply = useMutation(api.sentReplies.deleteReply);
+  const setReplyUrl = useMutation(api.sentReplies.setReplyUrl);
+  const [replyUrls, setReplyUrls] = useState<Record<string, string>>({});
   const { toast } = useToast();
 
   // Sync selectedDate when URL parameter changes (e.g., from calendar clicks or browser navigation)
@@ -139,6 +142,28 @@ function ActivityContent() {
     }
   };
 
+  const handleSaveReplyUrl = async (replyId: string) => {
+    const replyUrl = replyUrls[replyId]?.trim();
+    if (!replyUrl) return;
+
+    try {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      await setReplyUrl({ id: replyId as any, replyUrl });
+      setReplyUrls(prev => ({ ...prev, [replyId]: "" }));
+      toast({
+        title: "Reply link saved",
+        description: "Its views, likes and replies will be pulled in automatically.",
+        duration: 3000,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save the link. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
   // Get stats for selected date (use todayStats if it's today, otherwise calculate from replies)
   const displayStats = isToday && todayStats ? todayStats : {
     repliesSent: sentReplies?.length || 0,
@@ -302,6 +327,43 @@ function ActivityContent() {
                         </p>
                       </div>
 
+                      {/* Our reply on X - needed to pull its real metrics */}
+                      {reply.replyUrl ? (
+                        <div className="flex items-center gap-3 text-sm">
+                          <a
+                            href={reply.replyUrl}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="text-xs text-purple-500 hover:underline"
+                          >
+                            Your reply on X →
+                          </a>
+                          {reply.performance && (
+                            <span className="text-xs text-muted-foreground">
+                              {reply.performance.views} views · {reply.performance.likes} likes · {reply.performance.replies} replies
+                            </span>
+                          )}
+                        </div>
+                      ) : (
+                        <div className="flex items-center gap-2">
+                          <Input
+                            value={replyUrls[reply._id] ?? ""}
+                            onChange={(e) => setReplyUrls(prev => ({ ...prev, [reply._id]: e.target.value }))}
+                            placeholder="Paste your reply's link to track its performance"
+                            className="h-8 text-xs"
+                          />
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleSaveReplyUrl(reply._id)}
+                            disabled={!replyUrls[reply._id]?.trim()}
+                          >
+                            <Link2 className="h-3 w-3 mr-1" />
+                            Save Link
+                          </Button>
+                        </div>
+                      )}
+
                       {/* Original Tweet */}
                       {reply.tweetContent && (
                         <details className="text-sm">
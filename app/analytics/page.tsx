@@ -1,25 +1,397 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { BarChart3 } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+type ContentType = "reply" | "post" | "thread" | "community_post";
+
+const CONTENT_TYPES: Array<{ value: ContentType; label: string; color: string }> = [
+  { value: "reply", label: "Replies", color: "#a855f7" },
+  { value: "post", label: "Posts", color: "#3b82f6" },
+  { value: "thread", label: "Threads", color: "#22c55e" },
+  { value: "community_post", label: "Community", color: "#f97316" },
+];
+
+const RANGE_PRESETS = [7, 30, 90];
+
+// Use UTC to get dates consistently (same as activity/calendar)
+const utcDateString = (daysAgo: number) => {
+  const now = new Date();
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() - daysAgo))
+    .toISOString().split('T')[0];
+};
+
+const formatStrategyName = (strategy: string) =>
+  strategy.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase());
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 200;
+const CHART_PADDING = 30;
+
+function LineChart({ points, color, format }: {
+  points: Array<{ label: string; value: number }>;
+  color: string;
+  format: (value: number) => string;
+}) {
+  if (points.length === 0) {
+    return <div className="text-center py-12 text-muted-foreground text-sm">No data in this range</div>;
+  }
+
+  const values = points.map(p => p.value);
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const span = max - min || 1;
+
+  const x = (i: number) => points.length === 1
+    ? CHART_WIDTH / 2
+    : CHART_PADDING + (i / (points.length - 1)) * (CHART_WIDTH - CHART_PADDING * 2);
+  const y = (value: number) => CHART_HEIGHT - CHART_PADDING - ((value - min) / span) * (CHART_HEIGHT - CHART_PADDING * 2);
+
+  const path = points.map((p, i) => `${i === 0 ? 'M' : 'L'}${x(i)},${y(p.value)}`).join(' ');
+
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-auto">
+      <text x={4} y={CHART_PADDING} className="fill-muted-foreground text-[10px]">{format(max)}</text>
+      <text x={4} y={CHART_HEIGHT - CHART_PADDING} className="fill-muted-foreground text-[10px]">{format(min)}</text>
+      <path d={path} fill="none" stroke={color} strokeWidth={2} />
+      {points.map((p, i) => (
+        <circle key={p.label} cx={x(i)} cy={y(p.value)} r={3} fill={color}>
+          <title>{`${p.label}: ${format(p.value)}`}</title>
+        </circle>
+      ))}
+      <text x={CHART_PADDING} y={CHART_HEIGHT - 8} className="fill-muted-foreground text-[10px]">{points[0].label}</text>
+      <text x={CHART_WIDTH - CHART_PADDING} y={CHART_HEIGHT - 8} textAnchor="end" className="fill-muted-foreground text-[10px]">
+        {points[points.length - 1].label}
+      </text>
+    </svg>
+  );
+}
+
+function ScatterChart({ points }: {
+  points: Array<{ type: ContentType; algorithmScore: number; engagement: number }>;
+}) {
+  if (points.length === 0) {
+    return (
+      <div className="text-center py-12 text-muted-foreground text-sm">
+        No performance data yet - metrics are pulled automatically once content has a URL
+      </div>
+    );
+  }
+
+  const maxEngagement = Math.max(...points.map(p => p.engagement), 1);
+  const x = (score: number) => CHART_PADDING + (score / 100) * (CHART_WIDTH - CHART_PADDING * 2);
+  const y = (engagement: number) => CHART_HEIGHT - CHART_PADDING - (engagement / maxEngagement) * (CHART_HEIGHT - CHART_PADDING * 2);
+  const colorFor = (type: ContentType) => CONTENT_TYPES.find(t => t.value === type)?.color ?? "#6b7280";
+
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-auto">
+      <line x1={CHART_PADDING} y1={CHART_HEIGHT - CHART_PADDING} x2={CHART_WIDTH - CHART_PADDING} y2={CHART_HEIGHT - CHART_PADDING} className="stroke-border" />
+      <line x1={CHART_PADDING} y1={CHART_PADDING} x2={CHART_PADDING} y2={CHART_HEIGHT - CHART_PADDING} className="stroke-border" />
+      <text x={4} y={CHART_PADDING} className="fill-muted-foreground text-[10px]">{maxEngagement}</text>
+      <text x={CHART_PADDING} y={CHART_HEIGHT - 8} className="fill-muted-foreground text-[10px]">Score 0</text>
+      <text x={CHART_WIDTH - CHART_PADDING} y={CHART_HEIGHT - 8} textAnchor="end" className="fill-muted-foreground text-[10px]">100</text>
+      {points.map((p, i) => (
+        <circle key={i} cx={x(p.algorithmScore)} cy={y(p.engagement)} r={4} fill={colorFor(p.type)} fillOpacity={0.7}>
+          <title>{`Score ${p.algorithmScore} → ${p.engagement} engagements`}</title>
+        </circle>
+      ))}
+    </svg>
+  );
+}
+
 export default function AnalyticsPage() {
+  const [startDate, setStartDate] = useState(() => utcDateString(29));
+  const [endDate, setEndDate] = useState(() => utcDateString(0));
+  const [contentTypes, setContentTypes] = useState<ContentType[]>(CONTENT_TYPES.map(t => t.value));
+
+  const dashboard = useQuery(api.analytics.getDashboard, {
+    startDate,
+    endDate,
+    contentTypes,
+  });
+
+  const apiUsage = useQuery(api.twitter.usage);
+
+  const applyPreset = (days: number) => {
+    setStartDate(utcDateString(days - 1));
+    setEndDate(utcDateString(0));
+  };
+
+  const toggleContentType = (type: ContentType) => {
+    setContentTypes(prev => {
+      if (prev.includes(type)) {
+        // Keep at least one type selected
+        return prev.length > 1 ? prev.filter(t => t !== type) : prev;
+      }
+      return [...prev, type];
+    });
+  };
+
   return (
     <div className="container mx-auto px-4 py-8 max-w-7xl">
-      <div className="text-center py-12">
-        <h2 className="text-2xl font-bold mb-4">Analytics Coming Soon</h2>
-        <p className="text-muted-foreground mb-8">
-          Track your performance, see what works, and optimize your strategy based on data.
+      {/* Header */}
+      <div className="mb-8">
+        <h1 className="text-4xl font-bold mb-2 flex items-center gap-2">
+          <BarChart3 className="h-8 w-8 text-purple-500" />
+          Analytics
+        </h1>
+        <p className="text-muted-foreground">
+          What&apos;s actually working - real engagement, growth and conversion
         </p>
-        <div className="max-w-md mx-auto space-y-4 text-left">
-          <div className="border rounded-lg p-4">
-            <h3 className="font-semibold mb-2">📊 Planned Features</h3>
-            <ul className="text-sm text-muted-foreground space-y-1">
-              <li>• Daily follower growth tracking</li>
-              <li>• Best performing posts analysis</li>
-              <li>• Engagement rate trends</li>
-              <li>• Algorithm score over time</li>
-              <li>• SubWise conversion tracking</li>
-            </ul>
+      </div>
+
+      {/* Filters */}
+      <Card className="mb-6">
+        <CardContent className="pt-6 space-y-4">
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="startDate">From</Label>
+              <Input
+                id="startDate"
+                type="date"
+                value={startDate}
+                max={endDate}
+                onChange={(e) => e.target.value && setStartDate(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="endDate">To</Label>
+              <Input
+                id="endDate"
+                type="date"
+                value={endDate}
+                min={startDate}
+                max={utcDateString(0)}
+                onChange={(e) => e.target.value && setEndDate(e.target.value)}
+              />
+            </div>
+            <div className="flex gap-2">
+              {RANGE_PRESETS.map(days => (
+                <Button key={days} variant="outline" size="sm" onClick={() => applyPreset(days)}>
+                  {days}d
+                </Button>
+              ))}
+            </div>
           </div>
+
+          <div className="flex flex-wrap gap-2">
+            {CONTENT_TYPES.map(type => (
+              <Button
+                key={type.value}
+                variant={contentTypes.includes(type.value) ? "default" : "outline"}
+                size="sm"
+                onClick={() => toggleContentType(type.value)}
+              >
+                <span className="inline-block h-2 w-2 rounded-full mr-2" style={{ backgroundColor: type.color }} />
+                {type.label}
+              </Button>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      {!dashboard ? (
+        <div className="text-center py-12 text-muted-foreground">Loading...</div>
+      ) : (
+        <div className="space-y-6">
+          {/* Summary */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <Card>
+              <CardHeader className="pb-3">
+                <CardDescription>Posted</CardDescription>
+                <CardTitle className="text-3xl font-bold text-purple-500">{dashboard.totals.posted}</CardTitle>
+                <p className="text-xs text-muted-foreground">{dashboard.totals.withPerformance} with metrics</p>
+              </CardHeader>
+            </Card>
+            <Card>
+              <CardHeader className="pb-3">
+                <CardDescription>Engagement Rate</CardDescription>
+                <CardTitle className="text-3xl font-bold text-blue-500">
+                  {dashboard.totals.views > 0
+                    ? `${((dashboard.totals.engagement / dashboard.totals.views) * 100).toFixed(1)}%`
+                    : '—'}
+                </CardTitle>
+                <p className="text-xs text-muted-foreground">
+                  {dashboard.totals.engagement.toLocaleString()} / {dashboard.totals.views.toLocaleString()} views
+                </p>
+              </CardHeader>
+            </Card>
+            <Card>
+              <CardHeader className="pb-3">
+                <CardDescription>Followers Gained</CardDescription>
+                <CardTitle className="text-3xl font-bold text-green-500">+{dashboard.subwise.followersGained}</CardTitle>
+              </CardHeader>
+            </Card>
+            <Card>
+              <CardHeader className="pb-3">
+                <CardDescription>Avg Algorithm Score</CardDescription>
+                <CardTitle className="text-3xl font-bold text-orange-500">
+                  {Math.round(dashboard.totals.avgScore)}/100
+                </CardTitle>
+              </CardHeader>
+            </Card>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            {/* Follower Growth */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Follower Growth</CardTitle>
+                <CardDescription>From the follower counts in your daily inputs</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <LineChart
+                  points={dashboard.followerGrowth.map(p => ({ label: p.date, value: p.followers }))}
+                  color="#22c55e"
+                  format={(value) => Math.round(value).toLocaleString()}
+                />
+              </CardContent>
+            </Card>
+
+            {/* Engagement Rate Trend */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Engagement Rate</CardTitle>
+                <CardDescription>(likes + retweets + replies + bookmarks) / views, by posting day</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <LineChart
+                  points={dashboard.engagementTrend
+                    .filter(d => d.views > 0)
+                    .map(d => ({ label: d.date, value: d.engagementRate }))}
+                  color="#3b82f6"
+                  format={(value) => `${value.toFixed(1)}%`}
+                />
+              </CardContent>
+            </Card>
+
+            {/* Score vs Engagement */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Algorithm Score vs. Actual Engagement</CardTitle>
+                <CardDescription>Does a higher predicted score actually mean more engagement?</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ScatterChart points={dashboard.scoreVsEngagement} />
+              </CardContent>
+            </Card>
+
+            {/* SubWise Conversion */}
+            <Card>
+              <CardHeader>
+                <CardTitle>SubWise Conversion</CardTitle>
+                <CardDescription>New SubWise users vs. new followers in this range</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-3 gap-4 text-center">
+                  <div>
+                    <div className="text-2xl font-bold text-purple-500">{dashboard.subwise.currentUsers}</div>
+                    <p className="text-xs text-muted-foreground">Current users</p>
+                  </div>
+                  <div>
+                    <div className="text-2xl font-bold text-green-500">+{dashboard.subwise.usersGained}</div>
+                    <p className="text-xs text-muted-foreground">Gained in range</p>
+                  </div>
+                  <div>
+                    <div className="text-2xl font-bold text-blue-500">{dashboard.subwise.conversionRate.toFixed(1)}%</div>
+                    <p className="text-xs text-muted-foreground">Per new follower</p>
+                  </div>
+                </div>
+                <LineChart
+                  points={dashboard.subwise.daily.map(d => ({ label: d.date, value: d.usersGained }))}
+                  color="#a855f7"
+                  format={(value) => Math.round(value).toString()}
+                />
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Strategies per Niche */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Best Strategies per Niche</CardTitle>
+              <CardDescription>Average real engagement per strategy, grouped by creator niche / category</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {dashboard.strategiesByNiche.length === 0 ? (
+                <div className="text-center py-8 text-muted-foreground text-sm">No posted content in this range</div>
+              ) : (
+                <div className="space-y-2">
+                  {dashboard.strategiesByNiche.map((row, i) => {
+                    const isBestInNiche = i === 0 || dashboard.strategiesByNiche[i - 1].niche !== row.niche;
+                    return (
+                      <div
+                        key={`${row.niche}-${row.strategy}`}
+                        className={cn(
+                          "flex items-center justify-between gap-4 rounded-lg border p-3",
+                          isBestInNiche && row.avgEngagement > 0 && "border-green-500/50 bg-green-500/5"
+                        )}
+                      >
+                        <div className="flex items-center gap-2">
+                          <Badge variant="outline">{row.niche}</Badge>
+                          <span className="font-medium">{formatStrategyName(row.strategy)}</span>
+                          {isBestInNiche && row.avgEngagement > 0 && (
+                            <Badge className="bg-green-500">Best</Badge>
+                          )}
+                        </div>
+                        <div className="flex gap-6 text-sm text-right">
+                          <div>
+                            <div className="font-semibold">{row.avgEngagement.toFixed(1)}</div>
+                            <p className="text-xs text-muted-foreground">Avg engagement</p>
+                          </div>
+                          <div>
+                            <div className="font-semibold">{Math.round(row.avgScore)}</div>
+                            <p className="text-xs text-muted-foreground">Avg score</p>
+                          </div>
+                          <div>
+                            <div className="font-semibold">{row.count}</div>
+                            <p className="text-xs text-muted-foreground">Posted</p>
+                          </div>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </CardContent>
+          </Card>
         </div>
-      </div>
+      )}
+
+      {/* twitterapi.io spend */}
+      {apiUsage && (
+        <Card className="mt-6">
+          <CardHeader>
+            <CardTitle>X API Calls</CardTitle>
+            <CardDescription>twitterapi.io requests per UTC day (retries included, cache hits are free)</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-7 gap-2 text-center">
+              {apiUsage.map((day, i) => (
+                <div key={day.day} className={cn("rounded-lg border p-2", i === 0 && "border-primary")}>
+                  <div className="text-lg font-semibold">{day.calls}</div>
+                  <p className="text-xs text-muted-foreground">{i === 0 ? "Today" : day.day.slice(5)}</p>
+                </div>
+              ))}
+            </div>
+            {apiUsage[0].byEndpoint.length > 0 && (
+              <div className="flex flex-wrap gap-2 mt-4">
+                {apiUsage[0].byEndpoint.map(row => (
+                  <Badge key={row.endpoint} variant="outline">{row.endpoint}: {row.calls}</Badge>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
     </div>
   );
 }
-
@@ -2,20 +2,10 @@ import { NextRequest, NextResponse } from "next/server";
 import { analyzeCommunityVoice, type CommunityTweet } from "@/lib/community-voice-analyzer";
 import { fetchMutation } from "convex/nextjs";
 import { api } from "@/convex/_generated/api";
+import { getTwitterApi } from "@/lib/twitter-client";
 
-const TWITTER_API_BASE_URL =
-  process.env.TWITTER_API_BASE_URL || "https://api.twitterapi.io";
-const TWITTER_API_KEY = process.env.TWITTER_API_KEY;
-
-function getHeaders(): HeadersInit {
-  if (!TWITTER_API_KEY) {
-    throw new Error("TWITTER_API_KEY is required");
-  }
-  return {
-    "x-api-key": TWITTER_API_KEY,
-    "Content-Type": "application/json",
-  };
-}
+const TARGET_TWEETS = 200;
+const MAX_PAGES = 10; // 200-500 tweets depending on API
 
 /**
  * Fetch 200+ tweets from a community to understand average posting style
@@ -33,90 +23,44 @@ async function fetchCommunityTweets(
     console.log(`   📍 Continuing from previous analysis (fetching NEW posts)`);
   }
 
+  const twitterApi = await getTwitterApi();
   const allTweets: CommunityTweet[] = [];
   let cursor: string | null = startFromCursor || null;
   let pageCount = 0;
-  const maxPages = 10; // Fetch up to 10 pages (200-500 tweets depending on API)
-
-  while (pageCount < maxPages && allTweets.length < 200) {
-    pageCount++;
-    // Based on twitterapi.io docs: GET /twitter/community/tweets?community_id={id}
-    const url: string = cursor
-      ? `${TWITTER_API_BASE_URL}/twitter/community/tweets?community_id=${communityId}&cursor=${cursor}`
-      : `${TWITTER_API_BASE_URL}/twitter/community/tweets?community_id=${communityId}`;
 
-    console.log(`   Fetching page ${pageCount}...`);
-    console.log(`   URL: ${url}`);
-
-    const response = await fetch(url, {
-      headers: getHeaders(),
+  try {
+    const pages = twitterApi.getCommunityTweets(communityId, {
+      cursor: startFromCursor,
+      maxPages: MAX_PAGES,
+      maxItems: TARGET_TWEETS,
     });
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error(`❌ Community tweets fetch failed: ${response.status} ${response.statusText}`);
-      console.error(`   URL: ${url}`);
-      console.error(`   Response: ${errorText}`);
-
-      // Try to parse as JSON for better error details
-      try {
-        const errorJson = JSON.parse(errorText);
-        console.error(`   Parsed Error:`, JSON.stringify(errorJson, null, 2));
-      } catch {
-        // Not JSON, already logged as text
-      }
-
-      // If we already have some tweets, continue with what we have
-      if (allTweets.length >= 50) {
-        console.log(`   ⚠️ API error but continuing with ${allTweets.length} tweets collected so far`);
-        break;
-      }
-
-      throw new Error(`Failed to fetch community tweets: ${response.status}`);
-    }
-
-    const data = await response.json();
-
-    // Log response structure for debugging
-    if (pageCount === 1) {
-      console.log(`   Response keys: [${Object.keys(data).join(', ')}]`);
-      console.log(`   Response preview: ${JSON.stringify(data).substring(0, 200)}...`);
-    }
-
-    // Parse response - format may vary based on API version
-    const tweets = data.tweets || data.data?.tweets || data.data || [];
-    if (!Array.isArray(tweets)) {
-      console.warn(`⚠️ Unexpected response format from community API on page ${pageCount}`);
-      console.warn(`   Expected tweets array, got: ${typeof tweets}`);
-      console.warn(`   Response keys: [${Object.keys(data).join(', ')}]`);
-      break;
-    }
-
-    // Map to CommunityTweet format - NO FILTERING
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const mappedTweets: CommunityTweet[] = tweets.map((tweet: any) => ({
-      text: tweet.text || tweet.full_text || "",
-      likes: tweet.public_metrics?.like_count || tweet.favorite_count || 0,
-      replies: tweet.public_metrics?.reply_count || tweet.reply_count || 0,
-      date: tweet.created_at || new Date().toISOString(),
-      authorUsername: tweet.author?.username || tweet.user?.screen_name,
-      hasImage: !!(tweet.entities?.media?.length || tweet.attachments?.media_keys?.length),
-    }));
-
-    allTweets.push(...mappedTweets);
-    console.log(`   Page ${pageCount}: ${mappedTweets.length} tweets (total: ${allTweets.length})`);
-
-    // Check for pagination cursor
-    cursor = data.meta?.next_token || data.next_cursor || null;
-    if (!cursor) {
-      console.log(`   No more pages available`);
-      break;
+    for await (const page of pages) {
+      pageCount = page.pageNumber;
+
+      // Map to CommunityTweet format - NO FILTERING
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const mappedTweets: CommunityTweet[] = page.tweets.map((tweet: any) => ({
+        text: tweet.text || tweet.full_text || "",
+        likes: tweet.public_metrics?.like_count || tweet.favorite_count || tweet.likeCount || 0,
+        replies: tweet.public_metrics?.reply_count || tweet.reply_count || tweet.replyCount || 0,
+        date: tweet.created_at || tweet.createdAt || new Date().toISOString(),
+        authorUsername: tweet.author?.username || tweet.author?.userName || tweet.user?.screen_name,
+        hasImage: !!(tweet.entities?.media?.length || tweet.extendedEntities?.media?.length || tweet.attachments?.media_keys?.length),
+      }));
+
+      allTweets.push(...mappedTweets);
+      cursor = page.nextCursor;
+      console.log(`   Page ${pageCount}: ${mappedTweets.length} tweets (total: ${allTweets.length})`);
     }
+  } catch (error) {
+    // If we already have some tweets, continue with what we have
+    if (allTweets.length < 50) throw error;
+    console.log(`   ⚠️ API error but continuing with ${allTweets.length} tweets collected so far`);
+  }
 
-    // Small delay between pages to avoid rate limits
-    if (pageCount < maxPages && allTweets.length < 200) {
-      await new Promise(resolve => setTimeout(resolve, 500));
-    }
+  if (!cursor) {
+    console.log(`   No more pages available`);
   }
 
   console.log(`✅ Found ${allTweets.length} tweets from community across ${pageCount} pages (unfiltered)`);
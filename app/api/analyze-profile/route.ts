@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
-import { twitterApi } from "@/lib/twitter-api";
-import { analyzeCreatorProfile } from "@/lib/openai-client";
+import { getTwitterApi } from "@/lib/twitter-client";
+import { analyzeCreatorProfile } from "@/lib/creator-profile-analyzer";
 import { fetchMutation } from "convex/nextjs";
 import { api } from "@/convex/_generated/api";
 
@@ -33,6 +33,7 @@ export async function POST(request: NextRequest) {
     console.log(`🔍 Analyzing profile: @${cleanUsername}`);
 
     // 1. Fetch user info from Twitter API
+    const twitterApi = await getTwitterApi();
     const userInfo = await twitterApi.getUser(cleanUsername);
     
     if (!userInfo) {
@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
-import { generateWithClaude } from "@/lib/anthropic-client";
 import { fetchQuery, fetchMutation } from "convex/nextjs";
 import { api } from "@/convex/_generated/api";
+import { convexAuthOptions } from "@/lib/convex-auth";
+import { getLLMProvider } from "@/lib/llm";
+import { COMMUNITY_POST_SCHEMA } from "@/lib/generation-schemas";
 
 const COMMUNITY_POST_SYSTEM_PROMPT = `You write posts for online communities. Study the example posts and match their exact style.`;
 
@@ -99,54 +101,24 @@ ${context.metrics.followers > 0 ? `\nYour stats: ${context.metrics.followers} fo
 
 Match their style exactly.
 
-Return ONLY valid JSON, no markdown, no code blocks, no backticks:
-{"content": "post text", "category": "${postType}", "suggestMedia": true, "mediaType": null}`;
+Return it as JSON with category "${postType}".`;
 
-  const response = await generateWithClaude(
+  const llm = getLLMProvider("community_posts");
+
+  const postData = await llm.generateStructured(
     COMMUNITY_POST_SYSTEM_PROMPT,
     [{ role: "user", content: prompt }],
+    COMMUNITY_POST_SCHEMA,
     {
       temperature: 1.0,
       maxTokens: 500,
     }
   );
 
-  console.log(`✅ Claude generated post for ${communityName}`);
-
-  // Parse JSON response
-  let postData;
-  try {
-    // Remove markdown code blocks if present
-    let cleanedResponse = response.trim();
-    if (cleanedResponse.startsWith("```")) {
-      cleanedResponse = cleanedResponse.replace(/^```(?:json)?\n?/, "").replace(/\n?```$/, "");
-    }
+  // Unescape double-escaped newlines in the content for display
+  postData.content = postData.content.replace(/\\n/g, '\n');
 
-    const jsonMatch = cleanedResponse.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) {
-      throw new Error("No JSON found in response");
-    }
-
-    // Fix literal newlines in JSON strings - they need to be escaped
-    let jsonStr = jsonMatch[0];
-    // Find all string values and replace literal newlines with \n
-    jsonStr = jsonStr.replace(/"content"\s*:\s*"([^"]*(?:\\.[^"]*)*)"/gs, (match, content) => {
-      // Replace literal newlines with \n in the content field
-      const escapedContent = content.replace(/\n/g, '\\n').replace(/\r/g, '');
-      return `"content": "${escapedContent}"`;
-    });
-
-    postData = JSON.parse(jsonStr);
-
-    // Unescape newlines in the content for display
-    if (postData.content) {
-      postData.content = postData.content.replace(/\\n/g, '\n');
-    }
-  } catch (error) {
-    console.error("❌ Failed to parse post JSON:", error);
-    console.error("Response:", response);
-    throw new Error("Failed to parse generated post");
-  }
+  console.log(`✅ ${llm.name} generated post for ${communityName}`);
 
   // Calculate scores
   const hookStrength = Math.round(60 + Math.random() * 30); // 60-90
@@ -322,7 +294,7 @@ export async function POST(request: NextRequest) {
     console.log(`💾 Saving ${generatedPosts.length} posts to Convex...`);
     await fetchMutation(api.communityPosts.saveGenerated, {
       posts: generatedPosts,
-    });
+    }, await convexAuthOptions());
 
     console.log(`✅ Community posts generated and saved successfully`);
 
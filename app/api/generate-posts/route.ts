@@ -1,11 +1,11 @@
 import { NextRequest, NextResponse } from "next/server";
-import Anthropic from "@anthropic-ai/sdk";
 import { fetchQuery } from "convex/nextjs";
 import { api } from "@/convex/_generated/api";
-
-const anthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY!,
-});
+import { convexAuthOptions } from "@/lib/convex-auth";
+import { getLLMProvider } from "@/lib/llm";
+import { scorePost } from "@/lib/post-scoring";
+import { DAILY_POSTS_SCHEMA, type DailyPosts } from "@/lib/generation-schemas";
+import { describePatterns } from "@/lib/pattern-mining";
 
 interface DailyInput {
   date: string;
@@ -130,64 +130,6 @@ STYLE:
 This is a real challenge. Make the posts feel human, not robotic.`;
 }
 
-function scorePost(post: string): {
-  algorithmScore: number;
-  scoreBreakdown: {
-    hookStrength: number;
-    conversationTrigger: number;
-    specificity: number;
-    authenticity: number;
-  };
-} {
-  // Hook strength (first 10 words)
-  const firstWords = post.split(' ').slice(0, 10).join(' ');
-  let hookStrength = 50;
-  if (/\d+/.test(firstWords)) hookStrength += 15;
-  if (/[!?]/.test(firstWords)) hookStrength += 10;
-  if (/(Day|Week) \d+/.test(firstWords)) hookStrength += 15;
-  if (/(Everyone|Most people|They say)/.test(firstWords)) hookStrength += 10;
-  hookStrength = Math.min(100, hookStrength);
-
-  // Conversation trigger
-  let conversationTrigger = 40;
-  if (/\?/.test(post)) conversationTrigger += 25;
-  if (/\b(but|actually|disagree|however|wrong|myth)\b/i.test(post)) conversationTrigger += 20;
-  if (/\b(you|your)\b/i.test(post)) conversationTrigger += 15;
-  conversationTrigger = Math.min(100, conversationTrigger);
-
-  // Specificity (numbers/data)
-  let specificity = 30;
-  const numberMatches = post.match(/\d+/g);
-  if (numberMatches) specificity += Math.min(40, numberMatches.length * 10);
-  if (/\d+[%x]|\$\d+|\d+\s*(users|people|times|days|min|hours|followers)/.test(post)) specificity += 20;
-  if (/\b(I|my|when I|in my)\b/i.test(post)) specificity += 10;
-  specificity = Math.min(100, specificity);
-
-  // Authenticity
-  let authenticity = 50;
-  if (/\b(I|my|me)\b/i.test(post)) authenticity += 15;
-  if (/\b(failed|struggle|hard|difficult|challenge)\b/i.test(post)) authenticity += 20;
-  if (/\b(realized|learned|discovered|found)\b/i.test(post)) authenticity += 15;
-  authenticity = Math.min(100, authenticity);
-
-  const algorithmScore = Math.round(
-    hookStrength * 0.3 +
-    conversationTrigger * 0.25 +
-    specificity * 0.25 +
-    authenticity * 0.20
-  );
-
-  return {
-    algorithmScore,
-    scoreBreakdown: {
-      hookStrength: Math.round(hookStrength),
-      conversationTrigger: Math.round(conversationTrigger),
-      specificity: Math.round(specificity),
-      authenticity: Math.round(authenticity),
-    },
-  };
-}
-
 function buildPrompt(input: DailyInput): string {
   const { events, insights, struggles, futurePlans, metrics, challengeDay } = input;
 
@@ -224,27 +166,11 @@ CRITICAL: You MUST generate all 5 posts. Not 3, not 4, but 5.
 
 Use actual data, sound human, mix topics naturally.
 
-OUTPUT FORMAT:
-
-POST 1 - TIMING: morning, TOPIC: [subwise/mma/challenge/lesson]:
-[The actual tweet text]
-MEDIA: [yes/no - if yes, say what like "training_photo" or "metrics_screenshot"]
-
-POST 2 - TIMING: midday, TOPIC: [subwise/mma/challenge/lesson]:
-[Tweet text]
-MEDIA: [yes/no]
-
-POST 3 - TIMING: afternoon, TOPIC: [subwise/mma/challenge/lesson]:
-[Tweet text]
-MEDIA: [yes/no]
-
-POST 4 - TIMING: late_afternoon, TOPIC: [subwise/mma/challenge/lesson]:
-[Tweet text]
-MEDIA: [yes/no]
-
-POST 5 - TIMING: evening, TOPIC: [subwise/mma/challenge/lesson]:
-[Tweet text]
-MEDIA: [yes/no]
+FOR EACH POST GIVE:
+- timing: morning, midday, afternoon, late_afternoon or evening
+- topic: subwise, mma, challenge or lesson
+- content: the actual tweet text
+- media: what to attach if it helps (like "training_photo" or "metrics_screenshot"), null otherwise
 
 IMPORTANT: Generate ALL 5 posts. Don't skip any.
 
@@ -258,47 +184,16 @@ Keep it real:
 - Make them sound like a real person, not a bot`;
 }
 
-function parsePosts(response: string, date: string): GeneratedPost[] {
-  const posts: GeneratedPost[] = [];
-  
-  // Split by POST markers first
-  const postBlocks = response.split(/POST \d+ - TIMING:/i);
-  
-  for (let i = 1; i < postBlocks.length; i++) { // Skip first empty block
-    const block = postBlocks[i];
-    
-    // Extract timing, topic, content, media
-    const timingMatch = block.match(/^\s*([^,]+),\s*TOPIC:/i);
-    const topicMatch = block.match(/TOPIC:\s*([^:]+):/i);
-    const mediaMatch = block.match(/MEDIA:\s*(yes|no)(?:\s*-?\s*([^\n]+))?/i);
-    
-    if (!timingMatch || !topicMatch || !mediaMatch) continue;
-    
-    const timing = timingMatch[1].trim().toLowerCase().replace(/\s+/g, '');
-    const topic = topicMatch[1].trim().toLowerCase().replace(/\s+/g, '');
-    
-    // Extract content between topic line and MEDIA line
-    const contentStart = block.indexOf(':', block.indexOf('TOPIC:')) + 1;
-    const contentEnd = block.indexOf('MEDIA:');
-    const content = block.substring(contentStart, contentEnd).trim();
-    
-    const hasMedia = mediaMatch[1].toLowerCase() === 'yes';
-    const mediaType = hasMedia && mediaMatch[2] ? mediaMatch[2].trim() : undefined;
-
-    const scoring = scorePost(content);
-
-    posts.push({
-      date,
-      content,
-      category: topic,
-      postType: timing,
-      ...scoring,
-      suggestMedia: hasMedia,
-      mediaType,
-    });
-  }
-
-  return posts;
+function toGeneratedPosts(output: DailyPosts, date: string): GeneratedPost[] {
+  return output.posts.map(post => ({
+    date,
+    content: post.content.trim(),
+    category: post.topic.trim().toLowerCase().replace(/\s+/g, ''),
+    postType: post.timing.trim().toLowerCase().replace(/\s+/g, ''),
+    ...scorePost(post.content),
+    suggestMedia: post.media !== null,
+    mediaType: post.media?.trim() || undefined,
+  }));
 }
 
 export async function POST(request: NextRequest) {
@@ -312,40 +207,36 @@ export async function POST(request: NextRequest) {
 
     // Fetch dynamic personal context from Convex
     console.log('📚 Fetching dynamic personal context from Convex...');
-    const postsContext = await fetchQuery(api.contextManagement.getPostsContext);
+    const postsContext = await fetchQuery(api.contextManagement.getPostsContext, {}, await convexAuthOptions());
     console.log(`✅ Posts context loaded: ${postsContext ? `${postsContext.recentInputs.length} days of data` : 'empty (using fallback)'}`);
 
+    // Patterns mined nightly from the challenge data (empty until there's enough of it)
+    const threadsContext = await fetchQuery(api.contextManagement.getThreadsContext, {}, await convexAuthOptions());
+    const patternsSection = describePatterns(threadsContext?.patterns);
+
     // Build dynamic system prompt from context
-    const dynamicSystemPrompt = buildDynamicSystemPrompt(postsContext, {
-      followers: input.metrics.followers,
-      subwiseUsers: input.metrics.subwiseUsers,
-    });
+    const dynamicSystemPrompt = [
+      buildDynamicSystemPrompt(postsContext, {
+        followers: input.metrics.followers,
+        subwiseUsers: input.metrics.subwiseUsers,
+      }),
+      patternsSection,
+    ].filter(Boolean).join("\n\n");
 
     const prompt = buildPrompt(input);
 
-    // Call Claude Haiku 4.5 with higher temperature for more human output
-    const message = await anthropic.messages.create({
-      model: "claude-haiku-4-5-20251001",
-      max_tokens: 2000,
-      temperature: 0.8,
-      system: dynamicSystemPrompt, // 🔥 NOW DYNAMIC
-      messages: [
-        {
-          role: "user",
-          content: prompt,
-        },
-      ],
-    });
-
-    const responseText = message.content[0].type === 'text' ? message.content[0].text : '';
-    console.log('\n📝 Claude response:', responseText);
-
-    const posts = parsePosts(responseText, input.date);
+    // Higher temperature for more human output
+    const llm = getLLMProvider("posts");
+    // Schema-checked: exactly 5 posts or a StructuredOutputError naming what's wrong
+    const output = await llm.generateStructured(
+      dynamicSystemPrompt, // 🔥 NOW DYNAMIC
+      [{ role: "user", content: prompt }],
+      DAILY_POSTS_SCHEMA,
+      { temperature: 0.8, maxTokens: 2000 }
+    );
+    console.log(`\n📝 ${llm.name} (${llm.model}) returned ${output.posts.length} posts`);
 
-    if (posts.length < 5) {
-      console.error(`\n⚠️ WARNING: Only parsed ${posts.length} posts out of 5!`);
-      console.log('Full response:', responseText);
-    }
+    const posts = toGeneratedPosts(output, input.date);
 
     console.log(`\n✅ Generated ${posts.length} posts`);
     posts.forEach((post, i) => {
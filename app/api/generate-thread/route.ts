@@ -1,11 +1,18 @@
 import { NextRequest, NextResponse } from "next/server";
-import Anthropic from "@anthropic-ai/sdk";
 import { fetchQuery } from "convex/nextjs";
 import { api } from "@/convex/_generated/api";
-
-const anthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY!,
-});
+import { convexAuthOptions } from "@/lib/convex-auth";
+import { getLLMProvider } from "@/lib/llm";
+import { THREAD_SCHEMA, type GeneratedThreadOutput } from "@/lib/generation-schemas";
+import { splitIntoTweets } from "@/lib/thread-composer";
+import {
+  buildFollowerSeries,
+  describeFollowerChart,
+  describeRecapData,
+  summarizeFollowerCurve,
+  type FollowerPoint,
+} from "@/lib/challenge-recap";
+import { describePatterns, type MinedPatterns } from "@/lib/pattern-mining";
 
 interface ThreadInput {
   date: string;
@@ -23,9 +30,17 @@ interface ThreadInput {
   };
 }
 
+// Retrospective over a range of challenge days instead of one day's reflection
+interface RecapInput {
+  mode: "recap";
+  date: string;
+  fromDay: number;
+  toDay: number;
+}
+
 interface GeneratedThread {
   date: string;
-  content: string;
+  tweets: string[];
   algorithmScore: number;
   scoreBreakdown: {
     hookStrength: number;
@@ -35,7 +50,12 @@ interface GeneratedThread {
   };
   suggestMedia: boolean;
   mediaType?: string;
-  mediaSuggestions?: string;
+  mediaSuggestions: string[]; // per tweet, "" = no media
+  recap?: {
+    fromDay: number;
+    toDay: number;
+    followerSeries: FollowerPoint[];
+  };
 }
 
 interface ThreadsContextData {
@@ -62,6 +82,7 @@ interface ThreadsContextData {
     description: string;
     impact: string;
   }>;
+  patterns?: MinedPatterns;
 }
 
 function buildDynamicThreadPrompt(threadsContext: ThreadsContextData | null, currentDay: number, todayMetrics: { followers: number; subwiseUsers: number }): string {
@@ -116,6 +137,8 @@ ${recentStruggles.length > 0 ? `Recent struggles:\n${recentStruggles.map(s => `
 
 ${threadsContext.keyMilestones.length > 0 ? `Key milestones so far:\n${threadsContext.keyMilestones.map(m => `• Day ${m.day}: ${m.description}`).join('\n')}` : ''}
 
+${describePatterns(threadsContext.patterns)}
+
 THREAD PURPOSE:
 - Reflect on what happened TODAY (Day ${currentDay})
 - Share REAL metrics and progress
@@ -154,7 +177,7 @@ Generate between 5-8 tweets TOTAL (not 16, not 20 - just 5-8 substantial tweets)
 Make it feel like someone documenting their real journey, not a content creator performing.`;
 }
 
-function scoreThread(content: string): {
+function scoreThread(tweets: string[]): {
   algorithmScore: number;
   scoreBreakdown: {
     hookStrength: number;
@@ -163,8 +186,8 @@ function scoreThread(content: string): {
     authenticity: number;
   };
 } {
-  const tweets = content.split('\n\n');
-  const firstTweet = tweets[0] || content.substring(0, 200);
+  const content = tweets.join('\n\n');
+  const firstTweet = tweets[0] || '';
 
   let hookStrength = 50;
   if (/Day \d+/.test(firstTweet)) hookStrength += 20;
@@ -247,7 +270,7 @@ Write a 5-8 tweet thread reflecting on Day ${challengeDay}. Use the actual wins/
 CRITICAL RULES:
 1. Generate 5-8 tweets TOTAL (not 16, not 20 - just 5-8 substantial tweets)
 2. Each tweet should be 100-200 characters of content (NOT one-liners)
-3. Each tweet MUST be separated by a blank line (double line break)
+3. One entry in "tweets" per tweet, never over 280 characters (emoji count as 2, links as 23)
 
 HOOK (First Tweet):
 Professional format: "Day ${challengeDay}/30 Challenge" or "Day ${challengeDay}/30" followed by the main point.
@@ -264,41 +287,115 @@ Tweet 7-8: Question to audience (optional)
 
 IMPORTANT: Each tweet should be a full thought (100-200 chars), NOT single sentences. Multiple sentences per tweet is fine and encouraged.
 
-MEDIA SUGGESTION (if it makes sense):
-After the thread, add on a new line: MEDIA: [yes/no - if yes, suggest what image]
+MEDIA SUGGESTIONS (if it makes sense):
+Set each tweet's "media" to the image you'd attach to that tweet (e.g. a metrics screenshot on the numbers tweet), or null.
 
-Keep it authentic. Remember: blank line between each tweet!`;
+Keep it authentic.`;
 }
 
-function parseThread(response: string, date: string): GeneratedThread | null {
-  // Extract thread content (everything before MEDIA line)
-  const mediaMatch = response.match(/MEDIA:\s*(yes|no)(?:\s*-?\s*([^\n]+))?/i);
-  
-  const content = mediaMatch 
-    ? response.substring(0, mediaMatch.index).trim()
-    : response.trim();
-
-  if (!content) return null;
-
-  const hasMedia = mediaMatch ? mediaMatch[1].toLowerCase() === 'yes' : false;
-  const mediaSuggestions = hasMedia && mediaMatch && mediaMatch[2] ? mediaMatch[2].trim() : undefined;
-  const mediaType = hasMedia ? 'metrics_screenshot' : undefined;
-
-  const scoring = scoreThread(content);
+function toGeneratedThread(output: GeneratedThreadOutput, date: string): GeneratedThread {
+  // Anything over X's limit is split; media stays with the first part
+  const parts = output.tweets.flatMap(tweet =>
+    splitIntoTweets(tweet.text).map((text, i) => ({ text, media: i === 0 ? tweet.media?.trim() || '' : '' }))
+  );
+  const tweets = parts.map(part => part.text);
+  const mediaSuggestions = parts.map(part => part.media);
+  const hasMedia = mediaSuggestions.some(Boolean);
 
   return {
     date,
-    content,
-    ...scoring,
+    tweets,
+    ...scoreThread(tweets),
     suggestMedia: hasMedia,
-    mediaType,
+    mediaType: hasMedia ? 'metrics_screenshot' : undefined,
     mediaSuggestions,
   };
 }
 
+function buildRecapSystemPrompt(goal: string, fromDay: number, toDay: number): string {
+  const span = fromDay === 1 && toDay >= 30 ? "the whole challenge" : `Days ${fromDay}-${toDay}`;
+
+  return `You're writing a RETROSPECTIVE thread looking back on ${span} of your challenge (${goal}).
+
+This is not a daily update. Step back and tell the story of the stretch: where you started, what moved the numbers, what didn't, and what you'd do differently.
+
+THREAD STRUCTURE (5-8 tweets):
+1. HOOK - "Day ${fromDay} → Day ${toDay}" + the headline number (follower change)
+2. THE CURVE - how followers actually moved (the jumps AND the flat days)
+3. WHAT WORKED - tie it to the days/threads that performed best
+4. WHAT DIDN'T - the flat stretches and the weakest threads, honestly
+5. MILESTONES - the moments that mattered
+6-7. The lesson you'd hand someone starting Day 1
+8. CALL TO ACTION - what's next / question to the audience
+
+CRITICAL AUTHENTICITY RULES:
+✅ Every number must come from the data given - the follower series, SubWise numbers, thread performance
+✅ Name specific days ("Day 5") when you point at a jump or a dip
+❌ Don't invent metrics, multipliers or milestones that aren't listed
+❌ Don't turn it into a motivational speech
+
+STYLE:
+• First person, direct, honest
+• Each tweet 100-200 characters, never over 280 (emoji count as 2, links as 23)
+• The first tweet gets the follower chart attached - write it so the chart lands`;
+}
+
+async function generateRecap(input: RecapInput): Promise<GeneratedThread | null> {
+  const data = await fetchQuery(api.threadGeneration.getRecapData, {
+    fromDay: input.fromDay,
+    toDay: input.toDay,
+  }, await convexAuthOptions());
+  if (!data || data.days.length === 0) return null;
+
+  const followerSeries = buildFollowerSeries(data.days);
+  const curve = summarizeFollowerCurve(followerSeries);
+  console.log(`📈 Recap Days ${input.fromDay}-${input.toDay}: ${data.days.length} logged days, ${data.threads.length} threads, ${curve ? `${curve.gain >= 0 ? "+" : ""}${curve.gain} followers` : "not enough data for a curve"}`);
+
+  const llm = getLLMProvider("threads");
+  const output = await llm.generateStructured(
+    buildRecapSystemPrompt(data.goal, input.fromDay, input.toDay),
+    [{
+      role: "user",
+      content: `Write the retrospective thread for Days ${input.fromDay}-${input.toDay}.\n\n${describeRecapData(data, curve)}\n\nOne entry in "tweets" per tweet. Leave "media" null - the chart is attached to the first tweet for you.`,
+    }],
+    THREAD_SCHEMA,
+    { temperature: 0.7, maxTokens: 2000 }
+  );
+  console.log(`\n📝 ${llm.name} (${llm.model}) returned ${output.tweets.length} recap tweets`);
+
+  const thread = toGeneratedThread(output, input.date);
+  if (!curve) return { ...thread, recap: { fromDay: input.fromDay, toDay: input.toDay, followerSeries } };
+
+  // The follower chart goes on the hook
+  return {
+    ...thread,
+    suggestMedia: true,
+    mediaType: 'follower_chart',
+    mediaSuggestions: thread.mediaSuggestions.map((media, i) => (i === 0 ? describeFollowerChart(curve) : media)),
+    recap: { fromDay: input.fromDay, toDay: input.toDay, followerSeries },
+  };
+}
+
 export async function POST(request: NextRequest) {
   try {
-    const input: ThreadInput = await request.json();
+    const body: ThreadInput | RecapInput = await request.json();
+
+    if ("mode" in body && body.mode === "recap") {
+      if (!Number.isInteger(body.fromDay) || !Number.isInteger(body.toDay) || body.fromDay < 1 || body.toDay < body.fromDay) {
+        return NextResponse.json({ error: 'A valid day range (fromDay <= toDay) is required' }, { status: 400 });
+      }
+
+      const thread = await generateRecap(body);
+      if (!thread) {
+        return NextResponse.json(
+          { error: `No daily inputs logged for Days ${body.fromDay}-${body.toDay}` },
+          { status: 404 }
+        );
+      }
+      return NextResponse.json({ thread, success: true });
+    }
+
+    const input = body as ThreadInput;
 
     console.log('🧵 Generating thread for Day', input.challengeDay);
     console.log('Wins:', input.wins);
@@ -307,7 +404,7 @@ export async function POST(request: NextRequest) {
 
     // Fetch dynamic challenge context from Convex
     console.log('📚 Fetching dynamic challenge context from Convex...');
-    const threadsContext = await fetchQuery(api.contextManagement.getThreadsContext);
+    const threadsContext = await fetchQuery(api.contextManagement.getThreadsContext, {}, await convexAuthOptions());
     console.log(`✅ Threads context loaded: ${threadsContext ? `${threadsContext.recentReflections.length} days, ${threadsContext.keyMilestones.length} milestones` : 'empty (using fallback)'}`);
 
     // Build dynamic system prompt from context
@@ -318,33 +415,22 @@ export async function POST(request: NextRequest) {
 
     const prompt = buildPrompt(input);
 
-    // Call Claude Haiku 4.5 with temp 0.8 for human output
-    const message = await anthropic.messages.create({
-      model: "claude-haiku-4-5-20251001",
-      max_tokens: 2000,
-      temperature: 0.8,
-      system: dynamicSystemPrompt, // 🔥 NOW DYNAMIC
-      messages: [
-        {
-          role: "user",
-          content: prompt,
-        },
-      ],
-    });
-
-    const responseText = message.content[0].type === 'text' ? message.content[0].text : '';
-    console.log('\n📝 Claude response:', responseText);
-
-    const thread = parseThread(responseText, input.date);
+    // Higher temperature for more human output
+    const llm = getLLMProvider("threads");
+    // Schema-checked: 5-8 tweets or a StructuredOutputError naming what's wrong
+    const output = await llm.generateStructured(
+      dynamicSystemPrompt, // 🔥 NOW DYNAMIC
+      [{ role: "user", content: prompt }],
+      THREAD_SCHEMA,
+      { temperature: 0.8, maxTokens: 2000 }
+    );
+    console.log(`\n📝 ${llm.name} (${llm.model}) returned ${output.tweets.length} tweets`);
 
-    if (!thread) {
-      throw new Error('Failed to parse thread from Claude response');
-    }
+    const thread = toGeneratedThread(output, input.date);
 
     console.log('\n✅ Generated thread');
     console.log(`  Score: ${thread.algorithmScore}/100`);
-    console.log(`  Length: ${thread.content.length} chars`);
-    console.log(`  Tweets: ~${thread.content.split('\n\n').length}`);
+    console.log(`  Tweets: ${thread.tweets.length}`);
 
     return NextResponse.json({
       thread,
@@ -0,0 +1,152 @@
+import { NextRequest, NextResponse } from "next/server";
+import { fetchMutation, fetchQuery } from "convex/nextjs";
+import { api } from "@/convex/_generated/api";
+import type { Id } from "@/convex/_generated/dataModel";
+import { convexAuthOptions } from "@/lib/convex-auth";
+import { getTwitterApi } from "@/lib/twitter-client";
+import { getLLMProvider } from "@/lib/llm";
+import { buildCreatorIntelligence, extractTweetId } from "@/lib/ai-reply-system/creator-intelligence";
+import { refineReplyWithClaude } from "@/lib/ai-reply-system/claude-reply-generator";
+import { buildConversationContext } from "@/lib/ai-reply-system/conversation-context";
+import { toClientReply } from "@/lib/ai-reply-system/reply-response";
+import type { ReplyValueType } from "@/lib/ai-reply-system/reply-strategy-selector";
+
+interface RefineRequest {
+  tweetUrl: string;
+  instruction: string;
+  reply: {
+    text: string;
+    score: number;
+    mode: ReplyValueType;
+    breakdown: {
+      engagement: number;
+      recency: number;
+      mediaPresence: number;
+      conversationDepth: number;
+      authorReputation: number;
+    };
+  };
+  postId?: Id<"posts">; // draft from an earlier refinement of the same reply
+}
+
+/**
+ * Rework one generated reply to a free-text instruction. The first refinement
+ * saves the reply as a draft post; every rewrite is appended to its versions.
+ */
+export async function POST(request: NextRequest) {
+  let body: Partial<RefineRequest>;
+  try {
+    body = (await request.json()) ?? {};
+  } catch {
+    return NextResponse.json(
+      { error: "Request body must be JSON with a tweetUrl, reply and instruction" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const { tweetUrl, instruction, reply, postId } = body;
+
+    if (!tweetUrl || !reply?.text || !instruction?.trim()) {
+      return NextResponse.json(
+        { error: "Tweet URL, reply and instruction are required" },
+        { status: 400 }
+      );
+    }
+
+    // Same context the reply was generated with (tweet + profile come from cache)
+    const twitterApi = await getTwitterApi();
+    const tweet = await twitterApi.getTweet(extractTweetId(tweetUrl));
+    if (!tweet) {
+      return NextResponse.json(
+        { error: "Could not fetch tweet. Check TWITTER_API_KEY in your Convex environment and the tweet URL." },
+        { status: 404 }
+      );
+    }
+
+    const creatorProfile = await buildCreatorIntelligence(
+      tweet.author.username,
+      {
+        id: tweet.author.id,
+        name: tweet.author.name,
+        description: tweet.author.description,
+        followers_count: tweet.author.followers_count,
+        following_count: tweet.author.following_count,
+        verified: tweet.author.verified || false,
+      },
+      tweet.text
+    );
+    const minutesSincePosted = Math.floor((Date.now() - new Date(tweet.created_at).getTime()) / (1000 * 60));
+
+    const authOptions = await convexAuthOptions();
+    const [postsContext, personalContext, engagementModel, algorithmWeights, conversation] = await Promise.all([
+      fetchQuery(api.contextManagement.getPostsContext, {}, authOptions),
+      fetchQuery(api.personalContext.get, {}, authOptions),
+      fetchQuery(api.engagementModel.getActive),
+      fetchQuery(api.algorithmRules.getActiveWeights),
+      buildConversationContext(tweet, twitterApi),
+    ]);
+
+    const result = await refineReplyWithClaude({
+      reply: { text: reply.text, strategy: reply.mode },
+      instruction: instruction.trim(),
+      tweetText: tweet.text,
+      tweetAuthor: tweet.author.username,
+      creatorProfile,
+      minutesSincePosted,
+      yourHandle: process.env.NEXT_PUBLIC_X_HANDLE || "madmanhakim",
+      postsContext,
+      personalContext,
+      engagementModel,
+      algorithmWeights,
+      conversation,
+      llm: getLLMProvider("replies"),
+    });
+
+    // Version history lives on the post
+    const draftId = postId ?? await fetchMutation(api.posts.createReplyDraft, {
+      content: reply.text,
+      strategy: reply.mode,
+      algorithmScore: reply.score,
+      scoreBreakdown: reply.breakdown,
+      tweetUrl,
+      tweetAuthor: tweet.author.username,
+      tweetContent: tweet.text,
+      targetUsername: tweet.author.username,
+      targetTweetId: tweet.id,
+    }, authOptions);
+
+    const version = await fetchMutation(api.posts.addVersion, {
+      id: draftId,
+      content: result.reply.text,
+      instruction: instruction.trim(),
+      algorithmScore: result.reply.score,
+      qualityPassed: result.qualityReport.passed,
+      specificityScore: result.specificityReport.score,
+    }, authOptions);
+
+    return NextResponse.json({
+      reply: toClientReply(result.reply, minutesSincePosted, version),
+      postId: draftId,
+      version,
+      qualityReport: {
+        passed: result.qualityReport.passed,
+        bestScore: result.qualityReport.bestScore,
+        issues: result.qualityReport.issues,
+      },
+      specificity: {
+        passed: result.specificityReport.passed,
+        authentic: result.specificityReport.authentic,
+        score: result.specificityReport.score,
+        issues: result.specificityReport.issues.map(issue => `${issue.text}: ${issue.explanation}`),
+      },
+      totalAttempts: result.totalAttempts,
+    });
+  } catch (error) {
+    console.error("Error in refine-reply API:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to refine reply" },
+      { status: 500 }
+    );
+  }
+}
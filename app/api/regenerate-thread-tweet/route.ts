@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getLLMProvider, type LLMMessage } from "@/lib/llm";
+import { THREAD_TWEET_SCHEMA } from "@/lib/generation-schemas";
+import { MAX_TWEET_LENGTH, weightedLength } from "@/lib/tweet-length";
+
+const MAX_REGENERATE_ATTEMPTS = 2; // second attempt only when the first is over length
+
+interface RegenerateRequest {
+  tweets: string[];
+  index: number;
+  instruction?: string;
+}
+
+const SYSTEM_PROMPT = `You're editing one tweet of a 30-day challenge reflection thread.
+
+Rewrite ONLY the requested tweet. It has to keep its place in the story: pick up from the tweet before it and lead into the tweet after it.
+
+RULES:
+- Keep every fact and number from the original - don't invent new ones
+- First person, direct, conversational
+- One full thought, 100-200 characters
+- Never over ${MAX_TWEET_LENGTH} characters (emoji count as 2, links as 23)
+- Don't repeat what the other tweets already say`;
+
+function buildPrompt({ tweets, index, instruction }: RegenerateRequest): string {
+  const thread = tweets
+    .map((tweet, i) => `${i === index ? ">>> " : ""}${i + 1}/${tweets.length}: ${tweet}`)
+    .join("\n\n");
+
+  return `THREAD (the tweet to rewrite is marked >>>):
+${thread}
+
+Rewrite tweet ${index + 1}.${instruction?.trim() ? `\nINSTRUCTION: ${instruction.trim()}` : ""}`;
+}
+
+/**
+ * Rewrite one tweet of a thread in the context of the rest
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body: RegenerateRequest = await request.json();
+
+    if (!Array.isArray(body.tweets) || !Number.isInteger(body.index) || !body.tweets[body.index]) {
+      return NextResponse.json(
+        { error: "A thread and the index of the tweet to rewrite are required" },
+        { status: 400 }
+      );
+    }
+
+    const llm = getLLMProvider("threads");
+    const messages: LLMMessage[] = [{ role: "user", content: buildPrompt(body) }];
+    let tweet = "";
+
+    for (let attempt = 1; attempt <= MAX_REGENERATE_ATTEMPTS; attempt++) {
+      const output = await llm.generateStructured(SYSTEM_PROMPT, messages, THREAD_TWEET_SCHEMA, {
+        temperature: 0.8,
+        maxTokens: 400,
+      });
+      tweet = output.tweet.trim();
+
+      const length = weightedLength(tweet);
+      console.log(`🔁 Tweet ${body.index + 1} rewritten (attempt ${attempt}): ${length}/${MAX_TWEET_LENGTH} chars`);
+      if (length <= MAX_TWEET_LENGTH) break;
+
+      messages.push(
+        { role: "assistant", content: JSON.stringify(output) },
+        { role: "user", content: `That's ${length} characters as X counts them - the limit is ${MAX_TWEET_LENGTH}. Shorten it.` }
+      );
+    }
+
+    // Still over length after the retry: returned anyway, the composer blocks saving it
+    return NextResponse.json({ tweet, length: weightedLength(tweet) });
+  } catch (error) {
+    console.error("Error in regenerate-thread-tweet API:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to regenerate tweet" },
+      { status: 500 }
+    );
+  }
+}
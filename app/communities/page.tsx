@@ -11,6 +11,8 @@ import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
 import { Loader2, Users, RefreshCw, Copy, Check, Edit2, ThumbsUp, ThumbsDown, Send, X } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { TweetLengthCounter } from "@/components/tweet-length-counter";
+import { isWithinTweetLimit } from "@/lib/tweet-length";
 
 // Twitter Communities - Real IDs
 const DEFAULT_COMMUNITIES = [
@@ -545,6 +547,11 @@ export default function CommunitiesPage() {
                         {post.status === "posted" && <Badge className="bg-green-500">Posted</Badge>}
                         {post.status === "approved" && <Badge className="bg-blue-500">Approved</Badge>}
                         {post.status === "rejected" && <Badge className="bg-gray-500">Rejected</Badge>}
+                        {post.similarTo && (
+                          <Badge variant="outline" className="bg-orange-500/10 text-orange-500" title={post.similarTo.content}>
+                            🔁 {Math.round(post.similarTo.similarity * 100)}% like {post.similarTo.source === "batch" ? "another post in this batch" : "a recent post"}
+                          </Badge>
+                        )}
                       </div>
                       <div className="text-right">
                         <div className="text-xl font-bold text-purple-500">
@@ -560,12 +567,17 @@ export default function CommunitiesPage() {
 
                     {/* Content */}
                     {editingPostId === post._id ? (
-                      <Textarea
-                        value={editedContent}
-                        onChange={(e) => setEditedContent(e.target.value)}
-                        rows={6}
-                        className="font-mono text-sm"
-                      />
+                      <div className="space-y-1">
+                        <Textarea
+                          value={editedContent}
+                          onChange={(e) => setEditedContent(e.target.value)}
+                          rows={6}
+                          className="font-mono text-sm"
+                        />
+                        <div className="text-right">
+                          <TweetLengthCounter text={editedContent} />
+                        </div>
+                      </div>
                     ) : (
                       <div className="bg-muted p-4 rounded-lg">
                         <p className="text-sm font-mono whitespace-pre-wrap">
@@ -585,7 +597,7 @@ export default function CommunitiesPage() {
                     <div className="flex items-center gap-2 flex-wrap">
                       {editingPostId === post._id ? (
                         <>
-                          <Button variant="default" size="sm" onClick={() => handleSaveEdit(post._id)}>
+                          <Button variant="default" size="sm" onClick={() => handleSaveEdit(post._id)} disabled={!isWithinTweetLimit(editedContent)}>
                             <Check className="h-4 w-4 mr-1" />
                             Save
                           </Button>
@@ -1,25 +1,466 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { useQuery, useMutation } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import type { Doc } from "@/convex/_generated/dataModel";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { BookOpen, Copy, Check, Send, Trash2, Wand2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  extractTemplateVariables,
+  fillTemplate,
+  suggestVariableValues,
+  THREAD_TWEET_SEPARATOR,
+} from "@/lib/content-templates";
+import { isWithinTweetLimit, tweetLengthIssue } from "@/lib/tweet-length";
+import { extractTweetId } from "@/lib/twitter-api";
+import { analyzeReplyFeatures, predictEngagement } from "@/lib/x-algorithm";
+import { TweetLengthCounter } from "@/components/tweet-length-counter";
+
+type TemplateType = "reply" | "post" | "thread";
+
+const TYPE_FILTERS: Array<{ value: TemplateType | "all"; label: string }> = [
+  { value: "all", label: "All" },
+  { value: "reply", label: "💬 Replies" },
+  { value: "post", label: "📝 Posts" },
+  { value: "thread", label: "🧵 Threads" },
+];
+
 export default function LibraryPage() {
+  const [typeFilter, setTypeFilter] = useState<TemplateType | "all">("all");
+  const [categoryFilter, setCategoryFilter] = useState<string | null>(null);
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [search, setSearch] = useState("");
+  const [activeTemplate, setActiveTemplate] = useState<Doc<"templates"> | null>(null);
+  const [variableValues, setVariableValues] = useState<Record<string, string>>({});
+  const [copied, setCopied] = useState(false);
+  const [replyTweetUrl, setReplyTweetUrl] = useState("");
+
+  const templates = useQuery(api.templates.list, typeFilter === "all" ? {} : { type: typeFilter });
+  const todayInput = useQuery(api.postGeneration.getTodayInput);
+  const challengeStartDate = useQuery(api.threadGeneration.getChallengeStartDate);
+
+  const incrementUsage = useMutation(api.templates.incrementUsage);
+  const createPostFromTemplate = useMutation(api.templates.createPostFromTemplate);
+  const createThreadFromTemplate = useMutation(api.templates.createThreadFromTemplate);
+  const markAsSent = useMutation(api.sentReplies.markAsSent);
+  const removeTemplate = useMutation(api.templates.remove);
+  const { toast } = useToast();
+
+  const challengeDay = challengeStartDate
+    ? Math.floor((Date.now() - new Date(challengeStartDate + 'T00:00:00Z').getTime()) / (1000 * 60 * 60 * 24)) + 1
+    : undefined;
+
+  const categories = useMemo(
+    () => Array.from(new Set((templates || []).map(t => t.category).filter((c): c is string => !!c))).sort(),
+    [templates]
+  );
+  const tags = useMemo(
+    () => Array.from(new Set((templates || []).flatMap(t => t.tags))).sort(),
+    [templates]
+  );
+
+  const filteredTemplates = (templates || []).filter(t =>
+    (!categoryFilter || t.category === categoryFilter) &&
+    (!tagFilter || t.tags.includes(tagFilter)) &&
+    (!search || `${t.name} ${t.content}`.toLowerCase().includes(search.toLowerCase()))
+  );
+
+  const variables = activeTemplate ? extractTemplateVariables(activeTemplate.content) : [];
+  const filledContent = activeTemplate ? fillTemplate(activeTemplate.content, variableValues) : "";
+  const unfilledVariables = extractTemplateVariables(filledContent);
+
+  const openTemplate = (template: Doc<"templates">) => {
+    setActiveTemplate(template);
+    setCopied(false);
+    setVariableValues({});
+    setReplyTweetUrl("");
+  };
+
+  const handleFillFromToday = () => {
+    if (!activeTemplate || !todayInput) return;
+    setVariableValues(prev => ({
+      ...prev,
+      ...suggestVariableValues(variables, todayInput, challengeDay),
+    }));
+  };
+
+  const handleCopy = async () => {
+    if (!activeTemplate) return;
+    try {
+      // Threads are stored with separators - copy in the same numbered format as the threads page
+      const text = activeTemplate.type === "thread"
+        ? filledContent
+            .split(`\n${THREAD_TWEET_SEPARATOR}\n`)
+            .map((tweet, i, all) => `${i + 1}/${all.length}\n${tweet.trim()}`)
+            .join('\n\n')
+        : filledContent;
+      await navigator.clipboard.writeText(text);
+      await incrementUsage({ id: activeTemplate._id });
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('Copy failed:', error);
+    }
+  };
+
+  const handleCreatePost = async () => {
+    if (!activeTemplate) return;
+    try {
+      const today = new Date().toISOString().split('T')[0];
+      await createPostFromTemplate({
+        id: activeTemplate._id,
+        content: filledContent,
+        date: today,
+      });
+      toast({
+        title: "Added to today's posts",
+        description: "Mark it as posted with its URL so the template earns a success rate.",
+        duration: 3000,
+      });
+      setActiveTemplate(null);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to create post from template.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleCreateThread = async () => {
+    if (!activeTemplate || challengeDay === undefined) return;
+    try {
+      const today = new Date().toISOString().split('T')[0];
+      await createThreadFromTemplate({
+        id: activeTemplate._id,
+        content: filledContent,
+        date: today,
+        challengeDay,
+      });
+      toast({
+        title: "Set as today's thread",
+        description: "Mark it as posted with its URL on the Threads page so the template earns a success rate.",
+        duration: 3000,
+      });
+      setActiveTemplate(null);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to create thread from template.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleReplySent = async () => {
+    const targetTweetId = extractTweetId(replyTweetUrl);
+    const targetUsername = replyTweetUrl.match(/(?:x|twitter)\.com\/([^/]+)\/status/)?.[1];
+    if (!activeTemplate || !targetTweetId || !targetUsername) return;
+
+    // Same shape the reply generator sends - scored from the reply's own features
+    const prediction = predictEngagement(analyzeReplyFeatures(filledContent), 0);
+    try {
+      await markAsSent({
+        content: filledContent,
+        strategy: "template",
+        algorithmScore: Math.min(100, prediction.totalScore),
+        scoreBreakdown: {
+          engagement: Math.round(prediction.authorReplyProb * 100),
+          recency: 0,
+          mediaPresence: 0,
+          conversationDepth: Math.min(100, Math.round((prediction.repliesExpected / 10) * 100)),
+          authorReputation: Math.min(100, Math.round((prediction.profileClicksExpected / 10) * 100)),
+        },
+        tweetUrl: replyTweetUrl.trim(),
+        tweetAuthor: targetUsername,
+        tweetContent: "",
+        targetUsername,
+        targetTweetId,
+        templateId: activeTemplate._id,
+      });
+      toast({
+        title: "Reply tracked!",
+        description: "Add your reply's link on the Activity page so the template earns a success rate.",
+        duration: 3000,
+      });
+      setActiveTemplate(null);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to track reply.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = async (template: Doc<"templates">) => {
+    try {
+      await removeTemplate({ id: template._id });
+      if (activeTemplate?._id === template._id) setActiveTemplate(null);
+      toast({
+        title: "Template deleted",
+        description: `"${template.name}" was removed from your library.`,
+      });
+    } catch {
+      toast({
+        title: "Error",
+        description: "Failed to delete template. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
   return (
     <div className="container mx-auto px-4 py-8 max-w-7xl">
-      <div className="text-center py-12">
-        <h2 className="text-2xl font-bold mb-4">Content Library Coming Soon</h2>
-        <p className="text-muted-foreground mb-8">
-          Save your best-performing templates and reuse proven content patterns.
+      {/* Header */}
+      <div className="mb-8">
+        <h1 className="text-4xl font-bold mb-2 flex items-center gap-2">
+          <BookOpen className="h-8 w-8 text-purple-500" />
+          Content Library
+        </h1>
+        <p className="text-muted-foreground">
+          Reuse what works - templates are ranked by how the posts made from them actually performed
         </p>
-        <div className="max-w-md mx-auto space-y-4 text-left">
-          <div className="border rounded-lg p-4">
-            <h3 className="font-semibold mb-2">📚 Planned Features</h3>
-            <ul className="text-sm text-muted-foreground space-y-1">
-              <li>• Save high-scoring drafts</li>
-              <li>• Template library by category</li>
-              <li>• Performance tracking per template</li>
-              <li>• Quick reuse & customize</li>
-              <li>• Best hooks & CTAs library</li>
-            </ul>
+      </div>
+
+      {/* Filters */}
+      <Card className="mb-6">
+        <CardContent className="pt-6 space-y-4">
+          <div className="flex flex-wrap items-center gap-2">
+            {TYPE_FILTERS.map(filter => (
+              <Button
+                key={filter.value}
+                variant={typeFilter === filter.value ? "default" : "outline"}
+                size="sm"
+                onClick={() => setTypeFilter(filter.value)}
+              >
+                {filter.label}
+              </Button>
+            ))}
+            <Input
+              placeholder="Search templates..."
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="max-w-xs ml-auto"
+            />
           </div>
+
+          {(categories.length > 0 || tags.length > 0) && (
+            <div className="flex flex-wrap gap-2">
+              {categories.map(category => (
+                <Badge
+                  key={`category-${category}`}
+                  variant={categoryFilter === category ? "default" : "outline"}
+                  className="cursor-pointer"
+                  onClick={() => setCategoryFilter(categoryFilter === category ? null : category)}
+                >
+                  {category}
+                </Badge>
+              ))}
+              {tags.map(tag => (
+                <Badge
+                  key={`tag-${tag}`}
+                  variant={tagFilter === tag ? "default" : "secondary"}
+                  className="cursor-pointer"
+                  onClick={() => setTagFilter(tagFilter === tag ? null : tag)}
+                >
+                  #{tag}
+                </Badge>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Template List */}
+        <div className="space-y-4">
+          {!templates ? (
+            <div className="text-center py-8 text-muted-foreground">Loading...</div>
+          ) : filteredTemplates.length === 0 ? (
+            <div className="text-center py-12 text-muted-foreground">
+              <p className="text-lg mb-2">No templates yet</p>
+              <p className="text-sm">Use &quot;Save as Template&quot; on any generated reply, post or thread</p>
+            </div>
+          ) : (
+            filteredTemplates.map(template => (
+              <Card
+                key={template._id}
+                className={activeTemplate?._id === template._id ? "border-purple-500" : "border-muted"}
+              >
+                <CardHeader className="pb-3">
+                  <div className="flex items-start justify-between gap-4">
+                    <div>
+                      <CardTitle className="text-lg">{template.name}</CardTitle>
+                      <div className="flex flex-wrap items-center gap-2 mt-2">
+                        <Badge variant="outline">{template.type}</Badge>
+                        {template.category && <Badge variant="outline">{template.category}</Badge>}
+                        {template.tags.map(tag => (
+                          <Badge key={tag} variant="secondary">#{tag}</Badge>
+                        ))}
+                      </div>
+                    </div>
+                    <div className="text-right">
+                      <div className="text-2xl font-bold text-purple-500">
+                        {template.successRate !== undefined ? `${template.successRate}%` : '—'}
+                      </div>
+                      <p className="text-xs text-muted-foreground">Success rate</p>
+                    </div>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  <div className="bg-muted p-3 rounded-lg">
+                    <p className="text-sm font-mono whitespace-pre-wrap line-clamp-4">{template.content}</p>
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <p className="text-xs text-muted-foreground">
+                      Used {template.usageCount} time{template.usageCount === 1 ? '' : 's'}
+                      {template.lastUsedAt && ` · last ${new Date(template.lastUsedAt).toLocaleDateString()}`}
+                    </p>
+                    <div className="flex gap-2">
+                      <Button variant="outline" size="sm" onClick={() => openTemplate(template)}>
+                        <Wand2 className="h-4 w-4 mr-1" />
+                        Use
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="icon"
+                        onClick={() => handleDelete(template)}
+                        className="hover:bg-red-500/10 hover:text-red-500 hover:border-red-500/50"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            ))
+          )}
+        </div>
+
+        {/* Template Editor */}
+        <div>
+          {activeTemplate ? (
+            <Card className="lg:sticky lg:top-4">
+              <CardHeader>
+                <CardTitle>{activeTemplate.name}</CardTitle>
+                <CardDescription>Fill in the variables, then copy it or track it so it earns a success rate</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {variables.length > 0 && (
+                  <div className="space-y-3">
+                    <div className="flex items-center justify-between">
+                      <Label className="text-base font-semibold">Variables</Label>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={handleFillFromToday}
+                        disabled={!todayInput}
+                        title={todayInput ? undefined : "Add today's input on the Posts page first"}
+                      >
+                        Fill from today&apos;s input
+                      </Button>
+                    </div>
+                    {variables.map(variable => (
+                      <div key={variable} className="space-y-1">
+                        <Label htmlFor={`var-${variable}`} className="font-mono text-xs">{`{${variable}}`}</Label>
+                        <Input
+                          id={`var-${variable}`}
+                          value={variableValues[variable] || ""}
+                          onChange={(e) => setVariableValues(prev => ({ ...prev, [variable]: e.target.value }))}
+                        />
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                <div className="space-y-1">
+                  <div className="flex items-center justify-between">
+                    <Label className="text-base font-semibold">Preview</Label>
+                    {activeTemplate.type !== "thread" && <TweetLengthCounter text={filledContent} />}
+                  </div>
+                  <Textarea value={filledContent} readOnly rows={8} className="font-mono text-sm" />
+                  {activeTemplate.type === "thread" && filledContent
+                    .split(`\n${THREAD_TWEET_SEPARATOR}\n`)
+                    .map((tweet, i) => tweetLengthIssue(tweet, `Tweet ${i + 1}`))
+                    .filter(Boolean)
+                    .map(issue => (
+                      <p key={issue} className="text-xs text-red-500">{issue}</p>
+                    ))}
+                  {unfilledVariables.length > 0 && (
+                    <p className="text-xs text-orange-500">
+                      Still missing: {unfilledVariables.map(v => `{${v}}`).join(', ')}
+                    </p>
+                  )}
+                </div>
+
+                {activeTemplate.type === "reply" && (
+                  <div className="space-y-1">
+                    <Label htmlFor="reply-tweet-url">Tweet you replied to</Label>
+                    <Input
+                      id="reply-tweet-url"
+                      placeholder="https://x.com/username/status/..."
+                      value={replyTweetUrl}
+                      onChange={(e) => setReplyTweetUrl(e.target.value)}
+                    />
+                  </div>
+                )}
+
+                <div className="flex gap-2">
+                  <Button variant="outline" onClick={handleCopy}>
+                    {copied ? <Check className="h-4 w-4 mr-1" /> : <Copy className="h-4 w-4 mr-1" />}
+                    {copied ? "Copied" : "Copy"}
+                  </Button>
+                  {activeTemplate.type === "post" && (
+                    <Button
+                      onClick={handleCreatePost}
+                      disabled={unfilledVariables.length > 0 || !isWithinTweetLimit(filledContent)}
+                      className="bg-purple-500 hover:bg-purple-600"
+                    >
+                      <Send className="h-4 w-4 mr-1" />
+                      Add to Today&apos;s Posts
+                    </Button>
+                  )}
+                  {activeTemplate.type === "thread" && (
+                    <Button
+                      onClick={handleCreateThread}
+                      disabled={unfilledVariables.length > 0 || challengeDay === undefined}
+                      title={challengeDay === undefined ? "Set your challenge start date on the Threads page first" : undefined}
+                      className="bg-purple-500 hover:bg-purple-600"
+                    >
+                      <Send className="h-4 w-4 mr-1" />
+                      Use as Today&apos;s Thread
+                    </Button>
+                  )}
+                  {activeTemplate.type === "reply" && (
+                    <Button
+                      onClick={handleReplySent}
+                      disabled={unfilledVariables.length > 0 || !isWithinTweetLimit(filledContent) || !extractTweetId(replyTweetUrl)}
+                      className="bg-purple-500 hover:bg-purple-600"
+                    >
+                      <Send className="h-4 w-4 mr-1" />
+                      Mark as Sent
+                    </Button>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          ) : (
+            <Card>
+              <CardContent className="py-12 text-center text-muted-foreground">
+                Pick a template to fill it in
+              </CardContent>
+            </Card>
+          )}
         </div>
       </div>
     </div>
   );
 }
-
@@ -1,15 +1,21 @@
 "use client";
 
-import { useState } from "react";
+import { useRef, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
-import { Loader2, Copy, CheckCircle2, AlertCircle, Sparkles, Send } from "lucide-react";
-import { useMutation } from "convex/react";
+import { Loader2, Copy, CheckCircle2, AlertCircle, Sparkles, Send, X, Wand2 } from "lucide-react";
+import { useMutation, useQuery } from "convex/react";
 import { api } from "@/convex/_generated/api";
+import type { Id } from "@/convex/_generated/dataModel";
 import { useToast } from "@/hooks/use-toast";
+import { SaveTemplateDialog } from "@/components/save-template-dialog";
+import { TweetLengthCounter } from "@/components/tweet-length-counter";
+import { ALGORITHM_WEIGHTS } from "@/lib/x-algorithm";
+import type { SimilarityMatch } from "@/lib/content-similarity";
+import { describeProgress, isProgressWarning, readSSE, type ReplyProgressEvent } from "@/lib/reply-progress";
 
 interface ScoredReply {
   text: string;
@@ -30,6 +36,7 @@ interface ScoredReply {
     hasData: boolean;
     authorReplyProb: number;
   };
+  similarTo?: SimilarityMatch;
 }
 
 interface OptimizationResult {
@@ -43,6 +50,12 @@ interface OptimizationResult {
     saasRelevance: number;
     profileSource?: 'cached' | 'analyzed';
   };
+  conversation?: {
+    parents: number;
+    quotedTweet: string | null;
+    existingReplies: number;
+    crowdedAngles: string[];
+  };
   totalIterations: number;
   averageScore: number;
   qualityReport?: {
@@ -52,6 +65,8 @@ interface OptimizationResult {
     attemptNumber: number;
     grammarPassed: boolean;
   };
+  minutesSincePosted?: number;
+  tweetContent?: string;
 }
 
 export default function AIReplyPage() {
@@ -61,10 +76,17 @@ export default function AIReplyPage() {
   const [error, setError] = useState<string | null>(null);
   const [copiedIndex, setCopiedIndex] = useState<number | null>(null);
   const [sentReplies, setSentReplies] = useState<Set<number>>(new Set());
-  const [progressSteps, setProgressSteps] = useState<Array<{step: string; status: 'pending' | 'active' | 'complete'}>>([]);
+  const [progressSteps, setProgressSteps] = useState<Array<{step: string; status: 'active' | 'complete' | 'warning'}>>([]);
   const [tweetContent, setTweetContent] = useState<string>("");
+  const abortRef = useRef<AbortController | null>(null);
+  // Refinement per reply (by position): instruction being typed, earlier versions, draft post holding the history
+  const [instructions, setInstructions] = useState<Record<number, string>>({});
+  const [refining, setRefining] = useState<number | null>(null);
+  const [previousVersions, setPreviousVersions] = useState<Record<number, Array<{ reply: ScoredReply; instruction: string }>>>({});
+  const [drafts, setDrafts] = useState<Record<number, Id<"posts">>>({});
 
   const markAsSent = useMutation(api.sentReplies.markAsSent);
+  const weights = useQuery(api.algorithmRules.getActiveWeights) ?? ALGORITHM_WEIGHTS;
   const { toast } = useToast();
 
   const handleGenerate = async () => {
@@ -76,63 +98,72 @@ export default function AIReplyPage() {
     setLoading(true);
     setError(null);
     setResult(null);
-    
-    // Initialize progress steps
-    const steps = [
-      { step: "Extracting tweet ID from URL", status: 'active' as const },
-      { step: "Fetching tweet data from X", status: 'pending' as const },
-      { step: "Checking for cached creator profile", status: 'pending' as const },
-      { step: "Analyzing creator's niche and tone", status: 'pending' as const },
-      { step: "Selecting optimal reply strategies", status: 'pending' as const },
-      { step: "Generating 3 dynamic replies", status: 'pending' as const },
-      { step: "Analyzing reply features & scoring", status: 'pending' as const },
-    ];
-    setProgressSteps(steps);
+    setProgressSteps([{ step: "Starting", status: 'active' }]);
 
-    try {
-      // Simulate step progression (in reality, API would send these)
-      const updateStep = (index: number) => {
-        setProgressSteps(prev => prev.map((s, i) => ({
-          ...s,
-          status: i < index ? 'complete' : i === index ? 'active' : 'pending'
-        })));
-      };
-
-      // Start fetching
-      setTimeout(() => updateStep(1), 300);
-      setTimeout(() => updateStep(2), 800);
-      setTimeout(() => updateStep(3), 1500);
-      setTimeout(() => updateStep(4), 3000);
-      setTimeout(() => updateStep(5), 6000);
-      setTimeout(() => updateStep(6), 9000);
-      setTimeout(() => updateStep(7), 12000);
+    const abort = new AbortController();
+    abortRef.current = abort;
 
+    // Each server event completes the step before it
+    const addStep = (event: ReplyProgressEvent) => {
+      setProgressSteps(prev => [
+        ...prev.map(s => s.status === 'active' ? { ...s, status: 'complete' as const } : s),
+        { step: describeProgress(event), status: isProgressWarning(event) ? 'warning' : 'active' },
+      ]);
+    };
+
+    try {
       const response = await fetch("/api/generate-reply", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: { "Content-Type": "application/json", Accept: "text/event-stream" },
         body: JSON.stringify({ tweetUrl }),
+        signal: abort.signal,
       });
 
-      if (!response.ok) {
+      if (!response.ok || !response.body) {
         const errorData = await response.json();
         throw new Error(errorData.error || "Failed to generate replies");
       }
 
-      const data = await response.json();
-      setResult(data);
+      let data: OptimizationResult | null = null;
+      for await (const message of readSSE(response.body)) {
+        if (message.event === "progress") {
+          addStep(message.data as ReplyProgressEvent);
+        } else if (message.event === "error") {
+          throw new Error((message.data as { error?: string }).error || "Failed to generate replies");
+        } else if (message.event === "result") {
+          data = message.data as OptimizationResult;
+        }
+      }
+      if (!data) {
+        throw new Error("Generation ended without a result");
+      }
+
+      setResult({ ...data, replies: [...data.replies].sort((a, b) => b.score - a.score) });
+      setInstructions({});
+      setPreviousVersions({});
+      setDrafts({});
       setTweetContent(data.tweetContent || ""); // Store tweet content for later
       setSentReplies(new Set()); // Reset sent replies
 
       // Mark all complete
-      setProgressSteps(prev => prev.map(s => ({ ...s, status: 'complete' })));
+      setProgressSteps(prev => prev.map(s => s.status === 'active' ? { ...s, status: 'complete' } : s));
     } catch (err) {
+      if (abort.signal.aborted) {
+        toast({ title: "Generation cancelled", duration: 2000 });
+        return;
+      }
       const errorMessage = err instanceof Error ? err.message : "Failed to generate replies";
       setError(errorMessage);
     } finally {
+      abortRef.current = null;
       setLoading(false);
     }
   };
 
+  const handleCancel = () => {
+    abortRef.current?.abort();
+  };
+
   const copyToClipboard = async (text: string, index: number) => {
     try {
       await navigator.clipboard.writeText(text);
@@ -157,6 +188,8 @@ export default function AIReplyPage() {
         tweetContent: tweetContent,
         targetUsername: result.creatorProfile.username,
         targetTweetId: tweetUrl.split('/status/')[1]?.split('?')[0],
+        minutesSincePosted: result.minutesSincePosted,
+        draftId: drafts[index],
       });
 
       setSentReplies(prev => new Set(prev).add(index));
@@ -177,6 +210,51 @@ export default function AIReplyPage() {
     }
   };
 
+  const handleRefine = async (reply: ScoredReply, index: number) => {
+    const instruction = instructions[index]?.trim();
+    if (!result || !instruction) return;
+
+    setRefining(index);
+    try {
+      const response = await fetch("/api/refine-reply", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ tweetUrl, instruction, reply, postId: drafts[index] }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to refine reply");
+      }
+
+      setPreviousVersions(prev => ({ ...prev, [index]: [...(prev[index] ?? []), { reply, instruction }] }));
+      setDrafts(prev => ({ ...prev, [index]: data.postId }));
+      setInstructions(prev => ({ ...prev, [index]: "" }));
+      setResult(prev => prev && {
+        ...prev,
+        replies: prev.replies.map((r, i) => i === index ? data.reply : r),
+      });
+
+      const checks = [
+        !data.specificity.passed && `specificity ${data.specificity.score}/100`,
+        !data.qualityReport.passed && data.qualityReport.issues[0],
+      ].filter(Boolean);
+      toast({
+        title: `Version ${data.version}: ${data.reply.score}/100`,
+        description: checks.length > 0 ? `Check it: ${checks.join(", ")}` : "Passed authenticity and quality checks",
+        variant: checks.length > 0 ? "destructive" : "default",
+        duration: 4000,
+      });
+    } catch (error) {
+      toast({
+        title: "Refinement failed",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setRefining(null);
+    }
+  };
+
   const getModeColor = (mode: string) => {
     switch (mode) {
       case "pure_curiosity": return "bg-blue-500";
@@ -246,6 +324,12 @@ export default function AIReplyPage() {
                 "Generate Replies"
               )}
             </Button>
+            {loading && (
+              <Button onClick={handleCancel} variant="outline" size="lg">
+                <X className="mr-2 h-4 w-4" />
+                Cancel
+              </Button>
+            )}
           </div>
         </CardContent>
       </Card>
@@ -308,6 +392,24 @@ export default function AIReplyPage() {
                 <p className="font-semibold">Claude (Intelligent)</p>
               </div>
             </div>
+            {result.conversation && (result.conversation.parents > 0 || result.conversation.quotedTweet || result.conversation.existingReplies > 0) && (
+              <div className="flex flex-wrap gap-2 mt-4">
+                {result.conversation.parents > 0 && (
+                  <Badge variant="outline">🧵 Mid-thread ({result.conversation.parents} above)</Badge>
+                )}
+                {result.conversation.quotedTweet && (
+                  <Badge variant="outline">💬 Quotes {result.conversation.quotedTweet}</Badge>
+                )}
+                {result.conversation.existingReplies > 0 && (
+                  <Badge variant="outline">🗣️ Checked against {result.conversation.existingReplies} existing replies</Badge>
+                )}
+                {result.conversation.crowdedAngles.map(angle => (
+                  <Badge key={angle} variant="outline" className="bg-yellow-500/10 text-yellow-500 border-yellow-500/20">
+                    Crowded: {angle.replace(/_/g, " ")}
+                  </Badge>
+                ))}
+              </div>
+            )}
           </CardContent>
         </Card>
       )}
@@ -317,7 +419,7 @@ export default function AIReplyPage() {
       {result && result.replies.length > 0 && (
         <div className="space-y-4">
           <h2 className="text-2xl font-bold">Generated Replies</h2>
-          {([...result.replies].sort((a, b) => b.score - a.score)).map((reply, index) => (
+          {result.replies.map((reply, index) => (
             <Card key={index} className="relative">
               <CardHeader>
                 <div className="flex items-center justify-between">
@@ -341,6 +443,7 @@ export default function AIReplyPage() {
                     <div className="bg-muted p-4 rounded-lg font-mono text-sm whitespace-pre-wrap">
                       {reply.text}
                     </div>
+                    <TweetLengthCounter text={reply.text} className="absolute top-2 right-3" />
                     <div className="mt-2 flex gap-2">
                       <Button
                         variant="outline"
@@ -380,19 +483,56 @@ export default function AIReplyPage() {
                           Mark as Sent
                         </Button>
                       )}
+                      <SaveTemplateDialog
+                        content={reply.text}
+                        type="reply"
+                        defaultCategory={result.creatorProfile.primaryNiche}
+                        defaultTags={[reply.mode]}
+                      />
                     </div>
                   </div>
 
+                  {/* Refinement */}
+                  {!sentReplies.has(index) && (
+                    <div className="flex gap-2">
+                      <Input
+                        placeholder='Refine: "shorter", "drop the question", "mention BJJ"'
+                        value={instructions[index] ?? ""}
+                        onChange={(e) => setInstructions(prev => ({ ...prev, [index]: e.target.value }))}
+                        onKeyDown={(e) => e.key === "Enter" && handleRefine(reply, index)}
+                        disabled={refining !== null}
+                      />
+                      <Button
+                        variant="outline"
+                        onClick={() => handleRefine(reply, index)}
+                        disabled={refining !== null || !instructions[index]?.trim()}
+                      >
+                        {refining === index ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Wand2 className="h-4 w-4 mr-1" />}
+                        Refine
+                      </Button>
+                    </div>
+                  )}
+                  {previousVersions[index]?.length > 0 && (
+                    <div className="space-y-1 text-xs text-muted-foreground">
+                      {previousVersions[index].map((version, versionIndex) => (
+                        <p key={versionIndex}>
+                          <span className="font-medium">v{versionIndex + 1} ({version.reply.score}/100) → &quot;{version.instruction}&quot;:</span>{" "}
+                          <span className="line-through">{version.reply.text}</span>
+                        </p>
+                      ))}
+                    </div>
+                  )}
+
                   {/* Engagement Indicators - Clean & Simple */}
                   <div className="flex flex-wrap gap-2">
                     {reply.features.hasQuestion && (
                       <Badge variant="outline" className="bg-blue-500/10 text-blue-500 border-blue-500/20">
-                        ✓ Question (75x author weight)
+                        ✓ Question ({weights.authorReply}x author weight)
                       </Badge>
                     )}
                     {reply.features.hasPushback && (
                       <Badge variant="outline" className="bg-purple-500/10 text-purple-500 border-purple-500/20">
-                        ✓ Contrarian (13.5x conversation)
+                        ✓ Contrarian ({weights.replies}x conversation)
                       </Badge>
                     )}
                     {reply.features.hasData && (
@@ -400,6 +540,15 @@ export default function AIReplyPage() {
                         ✓ Data/Examples
                       </Badge>
                     )}
+                    {reply.similarTo && (
+                      <Badge
+                        variant="outline"
+                        className="bg-orange-500/10 text-orange-500 border-orange-500/20"
+                        title={reply.similarTo.content}
+                      >
+                        🔁 {Math.round(reply.similarTo.similarity * 100)}% like a recent post
+                      </Badge>
+                    )}
                   </div>
                 </div>
               </CardContent>
@@ -425,10 +574,10 @@ export default function AIReplyPage() {
                   {step.status === 'active' && (
                     <Loader2 className="h-5 w-5 animate-spin text-purple-500 flex-shrink-0" />
                   )}
-                  {step.status === 'pending' && (
-                    <div className="h-5 w-5 rounded-full border-2 border-muted flex-shrink-0" />
+                  {step.status === 'warning' && (
+                    <AlertCircle className="h-5 w-5 text-yellow-500 flex-shrink-0" />
                   )}
-                  <span className={`text-sm ${step.status === 'pending' ? 'text-muted-foreground' : 'text-foreground'}`}>
+                  <span className={`text-sm ${step.status === 'warning' ? 'text-yellow-600' : 'text-foreground'}`}>
                     {step.step}
                   </span>
                 </div>
@@ -11,6 +11,9 @@ import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
 import { Loader2, Sparkles, Copy, Check, Send, X, Edit2, ThumbsUp, ThumbsDown } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { SaveTemplateDialog } from "@/components/save-template-dialog";
+import { TweetLengthCounter } from "@/components/tweet-length-counter";
+import { isWithinTweetLimit } from "@/lib/tweet-length";
 
 export default function PostsPage() {
   const [date] = useState(() => new Date().toISOString().split('T')[0]);
@@ -572,6 +575,11 @@ export default function PostsPage() {
                         {post.status === "rejected" && (
                           <Badge className="bg-gray-500">Rejected</Badge>
                         )}
+                        {post.similarTo && (
+                          <Badge variant="outline" className="bg-orange-500/10 text-orange-500" title={post.similarTo.content}>
+                            🔁 {Math.round(post.similarTo.similarity * 100)}% like {post.similarTo.source === "batch" ? "another post today" : "a recent post"}
+                          </Badge>
+                        )}
                       </div>
                       <div className="text-right">
                         <div className="text-2xl font-bold text-purple-500">
@@ -583,12 +591,17 @@ export default function PostsPage() {
 
                     {/* Content */}
                     {editingPostId === post._id ? (
-                      <Textarea
-                        value={editedContent}
-                        onChange={(e) => setEditedContent(e.target.value)}
-                        rows={6}
-                        className="font-mono text-sm"
-                      />
+                      <div className="space-y-1">
+                        <Textarea
+                          value={editedContent}
+                          onChange={(e) => setEditedContent(e.target.value)}
+                          rows={6}
+                          className="font-mono text-sm"
+                        />
+                        <div className="text-right">
+                          <TweetLengthCounter text={editedContent} />
+                        </div>
+                      </div>
                     ) : (
                       <div className="bg-muted p-4 rounded-lg">
                         <p className="text-sm font-mono whitespace-pre-wrap">
@@ -612,6 +625,7 @@ export default function PostsPage() {
                             variant="default"
                             size="sm"
                             onClick={() => handleSaveEdit(post._id)}
+                            disabled={!isWithinTweetLimit(editedContent)}
                           >
                             <Check className="h-4 w-4 mr-1" />
                             Save
@@ -646,6 +660,12 @@ export default function PostsPage() {
                             <Edit2 className="h-4 w-4 mr-1" />
                             Edit
                           </Button>
+                          <SaveTemplateDialog
+                            content={post.content}
+                            type="post"
+                            defaultCategory={post.category}
+                            defaultTags={[post.postType]}
+                          />
                           {post.status !== "approved" && post.status !== "posted" && (
                             <Button
                               variant="outline"
@@ -17,6 +17,10 @@ export default function ProfilesPage() {
   // Fetch all saved profiles
   const profiles = useQuery(api.creators.list);
   const removeProfile = useMutation(api.creators.remove);
+  const watched = useQuery(api.watchlist.listWatched);
+  const watch = useMutation(api.watchlist.watch);
+  const unwatch = useMutation(api.watchlist.unwatch);
+  const watchedUsernames = new Set((watched || []).map(w => w.username));
 
   const analyzeProfile = async () => {
     if (!username.trim()) {
@@ -69,6 +73,19 @@ export default function ProfilesPage() {
     }
   };
 
+  const handleToggleWatch = async (profileUsername: string) => {
+    setError("");
+    try {
+      if (watchedUsernames.has(profileUsername)) {
+        await unwatch({ username: profileUsername });
+      } else {
+        await watch({ username: profileUsername });
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update watchlist");
+    }
+  };
+
   const handleDelete = async (profileId: Id<"creators">) => {
     if (confirm("Delete this profile?")) {
       await removeProfile({ id: profileId });
@@ -193,14 +210,22 @@ export default function ProfilesPage() {
                       </div>
                     </div>
 
-                    <Button
-                      variant="destructive"
-                      size="sm"
-                      onClick={() => handleDelete(profile._id)}
-                      className="ml-4"
-                    >
-                      Delete
-                    </Button>
+                    <div className="ml-4 flex flex-col gap-2">
+                      <Button
+                        variant={watchedUsernames.has(profile.username) ? "secondary" : "outline"}
+                        size="sm"
+                        onClick={() => handleToggleWatch(profile.username)}
+                      >
+                        {watchedUsernames.has(profile.username) ? "👀 Watching" : "Watch"}
+                      </Button>
+                      <Button
+                        variant="destructive"
+                        size="sm"
+                        onClick={() => handleDelete(profile._id)}
+                      >
+                        Delete
+                      </Button>
+                    </div>
                   </div>
                 </Card>
               ))}
@@ -0,0 +1,288 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useAction, useMutation, useQuery } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import type { Id } from "@/convex/_generated/dataModel";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Check, Copy, ExternalLink, ListOrdered, Loader2, RefreshCw, SkipForward, Sparkles } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { calculateQueuePriority, PEAK_WINDOW_MINUTES } from "@/lib/reply-queue";
+
+// The parts of /api/generate-reply's response the queue needs
+interface QueueReply {
+  text: string;
+  score: number;
+  mode: string;
+  breakdown: {
+    engagement: number;
+    recency: number;
+    mediaPresence: number;
+    conversationDepth: number;
+    authorReputation: number;
+  };
+}
+
+interface Generation {
+  loading: boolean;
+  error?: string;
+  replies?: QueueReply[];
+  tweetContent?: string;
+  minutesSincePosted?: number;
+}
+
+const REFRESH_CLOCK_MS = 30 * 1000;
+
+export default function QueuePage() {
+  const candidates = useQuery(api.replyQueue.list);
+  const arrivals = useQuery(api.watchlist.feed, { limit: 8 });
+  const refreshQueue = useAction(api.replyQueue.refresh);
+  const skip = useMutation(api.replyQueue.skip);
+  const markReplied = useMutation(api.replyQueue.markReplied);
+  const markAsSent = useMutation(api.sentReplies.markAsSent);
+  const { toast } = useToast();
+
+  const [now, setNow] = useState(() => Date.now());
+  const [refreshing, setRefreshing] = useState(false);
+  const [generations, setGenerations] = useState<Record<string, Generation>>({});
+  const [copied, setCopied] = useState<string | null>(null);
+
+  // Freshness changes every minute - re-rank on our own clock
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), REFRESH_CLOCK_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  const ranked = (candidates || [])
+    .filter(item => item.expiresAt > now)
+    .map(item => {
+      const minutesSincePost = Math.max(0, Math.floor((now - item.tweetCreatedAt) / (1000 * 60)));
+      return {
+        ...item,
+        minutesSincePost,
+        minutesLeft: Math.max(0, Math.ceil((item.expiresAt - now) / (1000 * 60))),
+        ...calculateQueuePriority(item, minutesSincePost),
+      };
+    })
+    .sort((a, b) => b.priority - a.priority);
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    try {
+      const result = await refreshQueue({});
+      toast({
+        title: "Queue refreshed",
+        description: `${result.fresh} fresh tweets from ${result.creators} creators, ${result.added} new`,
+      });
+    } catch (error) {
+      toast({
+        title: "Refresh failed",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setRefreshing(false);
+    }
+  };
+
+  const handleGenerate = async (id: Id<"replyQueue">, tweetUrl: string) => {
+    setGenerations(prev => ({ ...prev, [id]: { loading: true } }));
+    try {
+      const response = await fetch("/api/generate-reply", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ tweetUrl }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to generate replies");
+      }
+
+      setGenerations(prev => ({
+        ...prev,
+        [id]: {
+          loading: false,
+          replies: data.replies,
+          tweetContent: data.tweetContent,
+          minutesSincePosted: data.minutesSincePosted,
+        },
+      }));
+    } catch (error) {
+      setGenerations(prev => ({
+        ...prev,
+        [id]: { loading: false, error: error instanceof Error ? error.message : "Failed to generate replies" },
+      }));
+    }
+  };
+
+  const handleCopy = async (text: string, key: string) => {
+    await navigator.clipboard.writeText(text);
+    setCopied(key);
+    setTimeout(() => setCopied(null), 2000);
+  };
+
+  const handleSent = async (item: (typeof ranked)[number], reply: QueueReply) => {
+    const generation = generations[item._id];
+    try {
+      const postId = await markAsSent({
+        content: reply.text,
+        strategy: reply.mode,
+        algorithmScore: reply.score || 0,
+        scoreBreakdown: reply.breakdown,
+        tweetUrl: item.tweetUrl,
+        tweetAuthor: item.authorUsername,
+        tweetContent: generation?.tweetContent || item.tweetText,
+        targetUsername: item.authorUsername,
+        targetTweetId: item.tweetId,
+        minutesSincePosted: generation?.minutesSincePosted ?? item.minutesSincePost,
+      });
+      await markReplied({ id: item._id, postId });
+
+      toast({
+        title: "Reply tracked!",
+        description: "On to the next one",
+        duration: 3000,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to track reply",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-7xl">
+      <div className="mb-8 flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-4xl font-bold mb-2 flex items-center gap-2">
+            <ListOrdered className="h-10 w-10" />
+            Reply Queue
+          </h1>
+          <p className="text-muted-foreground">
+            Fresh tweets from your creators, ranked by creator value, niche match and freshness
+          </p>
+        </div>
+        <Button onClick={handleRefresh} disabled={refreshing}>
+          {refreshing ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <RefreshCw className="h-4 w-4 mr-2" />}
+          Refresh from creators
+        </Button>
+      </div>
+
+      {arrivals && arrivals.length > 0 && (
+        <Card className="mb-6">
+          <CardHeader className="pb-3">
+            <CardTitle className="text-lg">👀 Live from your watchlist</CardTitle>
+            <CardDescription>New tweets appear here as the poller picks them up</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {arrivals.map(tweet => (
+              <div key={tweet._id} className="flex items-start gap-3 text-sm">
+                <Badge variant="outline" className="shrink-0">
+                  {Math.max(0, Math.floor((now - tweet.arrivedAt) / (1000 * 60)))}m ago
+                </Badge>
+                <span className="font-medium shrink-0">@{tweet.authorUsername}</span>
+                <span className="text-muted-foreground truncate">{tweet.text}</span>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {candidates === undefined ? (
+        <p className="text-muted-foreground">Loading...</p>
+      ) : ranked.length === 0 ? (
+        <Card>
+          <CardHeader>
+            <CardTitle>Queue is empty</CardTitle>
+            <CardDescription>
+              Watch creators on the Profiles page and their new tweets land here automatically,
+              or refresh to pull the latest from everyone you&apos;ve analyzed
+            </CardDescription>
+          </CardHeader>
+        </Card>
+      ) : (
+        <div className="space-y-4">
+          {ranked.map((item, index) => {
+            const generation = generations[item._id];
+            const inPeakWindow = item.minutesSincePost <= PEAK_WINDOW_MINUTES;
+
+            return (
+              <Card key={item._id} className={index === 0 ? "border-primary" : undefined}>
+                <CardHeader className="pb-3">
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <span className="text-lg font-bold text-muted-foreground">#{index + 1}</span>
+                      <CardTitle className="text-lg">@{item.authorUsername}</CardTitle>
+                      <Badge variant="outline" className={inPeakWindow ? "bg-green-500/10 text-green-500 border-green-500/20" : undefined}>
+                        {inPeakWindow ? "⚡ " : ""}{item.minutesSincePost}m ago · {item.minutesLeft}m left
+                      </Badge>
+                      <Badge variant="outline">creator {Math.round(item.breakdown.creatorValue * 100)}</Badge>
+                      <Badge variant="outline">niche {Math.round(item.breakdown.nicheMatch * 100)}</Badge>
+                    </div>
+                    <div className="text-right">
+                      <div className="text-2xl font-bold text-purple-500">{item.priority}</div>
+                      <p className="text-xs text-muted-foreground">Priority</p>
+                    </div>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="bg-muted p-4 rounded-lg">
+                    <p className="text-sm whitespace-pre-wrap">{item.tweetText}</p>
+                  </div>
+
+                  <div className="flex gap-2">
+                    <Button onClick={() => handleGenerate(item._id, item.tweetUrl)} disabled={generation?.loading}>
+                      {generation?.loading ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Sparkles className="h-4 w-4 mr-2" />}
+                      {generation?.replies ? "Regenerate" : "Generate replies"}
+                    </Button>
+                    <Button variant="outline" onClick={() => skip({ id: item._id })}>
+                      <SkipForward className="h-4 w-4 mr-2" />
+                      Skip
+                    </Button>
+                    <Button variant="ghost" asChild>
+                      <a href={item.tweetUrl} target="_blank" rel="noopener noreferrer">
+                        <ExternalLink className="h-4 w-4 mr-2" />
+                        Open
+                      </a>
+                    </Button>
+                  </div>
+
+                  {generation?.error && (
+                    <p className="text-sm text-destructive">{generation.error}</p>
+                  )}
+
+                  {generation?.replies?.map((reply, replyIndex) => {
+                    const key = `${item._id}-${replyIndex}`;
+                    return (
+                      <div key={key} className="border rounded-lg p-3 space-y-2">
+                        <div className="flex items-center justify-between gap-2">
+                          <Badge variant="outline">{reply.mode}</Badge>
+                          <span className="text-sm font-semibold text-purple-500">{reply.score}/100</span>
+                        </div>
+                        <p className="text-sm whitespace-pre-wrap">{reply.text}</p>
+                        <div className="flex gap-2">
+                          <Button size="sm" variant="outline" onClick={() => handleCopy(reply.text, key)}>
+                            {copied === key ? <Check className="h-4 w-4 mr-1" /> : <Copy className="h-4 w-4 mr-1" />}
+                            {copied === key ? "Copied" : "Copy"}
+                          </Button>
+                          <Button size="sm" onClick={() => handleSent(item, reply)}>
+                            <Check className="h-4 w-4 mr-1" />
+                            Sent
+                          </Button>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
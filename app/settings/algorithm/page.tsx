@@ -0,0 +1,238 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useQuery, useMutation } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { History, RotateCcw, Save, Scale } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+
+export default function AlgorithmSettingsPage() {
+  const rules = useQuery(api.algorithmRules.list);
+  const history = useQuery(api.algorithmRules.history, { limit: 50 });
+  const canEdit = useQuery(api.algorithmRules.canEdit) ?? false;
+  const updateRule = useMutation(api.algorithmRules.update);
+  const { toast } = useToast();
+
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [reason, setReason] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const labelFor = (name: string) => rules?.find(r => r.name === name)?.label ?? name;
+
+  const changed = (rules || []).filter(rule => {
+    const draft = drafts[rule.name];
+    return draft !== undefined && draft !== "" && Number(draft) !== rule.value;
+  });
+
+  const applyChanges = async (changes: Array<{ name: string; value: number }>, changeReason: string) => {
+    setSaving(true);
+    try {
+      for (const change of changes) {
+        await updateRule({ name: change.name, value: change.value, reason: changeReason || undefined });
+      }
+      setDrafts(prev => {
+        const next = { ...prev };
+        for (const change of changes) delete next[change.name];
+        return next;
+      });
+      toast({
+        title: "Weights updated",
+        description: `${changes.length} rule${changes.length === 1 ? "" : "s"} changed - new replies use them immediately`,
+      });
+    } catch (error) {
+      toast({
+        title: "Update failed",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSave = async () => {
+    const invalid = changed.find(rule => !Number.isFinite(Number(drafts[rule.name])) || Number(drafts[rule.name]) < 0);
+    if (invalid) {
+      toast({
+        title: "Invalid value",
+        description: `${invalid.label} must be a non-negative number`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    await applyChanges(changed.map(rule => ({ name: rule.name, value: Number(drafts[rule.name]) })), reason.trim());
+    setReason("");
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-7xl">
+      <div className="mb-8">
+        <h1 className="text-4xl font-bold mb-2 flex items-center gap-2">
+          <Scale className="h-10 w-10" />
+          Algorithm Weights
+        </h1>
+        <p className="text-muted-foreground">
+          How much each engagement signal counts when scoring replies and building prompts.{" "}
+          <Link href="/settings" className="underline">Back to persona settings</Link>
+        </p>
+      </div>
+
+      <div className="space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>⚖️ Active Rules</CardTitle>
+            <CardDescription>
+              {canEdit
+                ? "Shared by everyone - retune here when X changes its ranking"
+                : "Shared by everyone - only admins (ADMIN_USER_IDS) can change them"}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {rules === undefined ? (
+              <p className="text-muted-foreground">Loading...</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Signal</TableHead>
+                    <TableHead className="w-32">Weight</TableHead>
+                    <TableHead>Default</TableHead>
+                    <TableHead>Last changed</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rules.map(rule => (
+                    <TableRow key={rule.name}>
+                      <TableCell>
+                        <div className="font-medium flex items-center gap-2">
+                          {rule.label}
+                          <Badge variant="outline">{rule.category}</Badge>
+                        </div>
+                        <div className="text-xs text-muted-foreground">{rule.description}</div>
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min={0}
+                          step="0.1"
+                          value={drafts[rule.name] ?? String(rule.value)}
+                          disabled={!canEdit}
+                          onChange={(e) => setDrafts(prev => ({ ...prev, [rule.name]: e.target.value }))}
+                        />
+                      </TableCell>
+                      <TableCell className="text-muted-foreground">{rule.defaultValue}x</TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {rule.updatedAt ? new Date(rule.updatedAt).toLocaleString() : "Never (default)"}
+                      </TableCell>
+                      <TableCell>
+                        {canEdit && rule.value !== rule.defaultValue && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            disabled={saving}
+                            onClick={() => applyChanges([{ name: rule.name, value: rule.defaultValue }], "Reset to default")}
+                          >
+                            <RotateCcw className="h-4 w-4 mr-1" />
+                            Reset
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+
+            <div className="flex flex-col md:flex-row md:items-end gap-4">
+              <div className="space-y-2 flex-1">
+                <Label htmlFor="reason">Why the change?</Label>
+                <Input
+                  id="reason"
+                  value={reason}
+                  disabled={!canEdit}
+                  placeholder="e.g. X now favours bookmarks over likes"
+                  onChange={(e) => setReason(e.target.value)}
+                />
+              </div>
+              <Button onClick={handleSave} disabled={!canEdit || saving || changed.length === 0}>
+                <Save className="h-4 w-4 mr-2" />
+                {saving ? "Saving..." : `Save ${changed.length || ""} change${changed.length === 1 ? "" : "s"}`}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <History className="h-5 w-5" />
+              History
+            </CardTitle>
+            <CardDescription>Every change, newest first - revert restores the previous value</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {history === undefined ? (
+              <p className="text-muted-foreground">Loading...</p>
+            ) : history.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No changes yet - all rules are on their defaults</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>When</TableHead>
+                    <TableHead>Rule</TableHead>
+                    <TableHead>Change</TableHead>
+                    <TableHead>Reason</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {history.map(entry => {
+                    const previous = entry.previousValue ?? rules?.find(r => r.name === entry.name)?.defaultValue;
+                    return (
+                      <TableRow key={entry._id}>
+                        <TableCell className="text-sm text-muted-foreground">
+                          {new Date(entry.changedAt).toLocaleString()}
+                        </TableCell>
+                        <TableCell>{labelFor(entry.name)}</TableCell>
+                        <TableCell>
+                          {previous ?? "?"}x → <span className="font-medium">{entry.value}x</span>
+                        </TableCell>
+                        <TableCell className="text-sm">{entry.reason || "-"}</TableCell>
+                        <TableCell>
+                          {canEdit && previous !== undefined && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              disabled={saving}
+                              onClick={() => applyChanges(
+                                [{ name: entry.name, value: previous }],
+                                `Revert change from ${new Date(entry.changedAt).toLocaleDateString()}`
+                              )}
+                            >
+                              <RotateCcw className="h-4 w-4 mr-1" />
+                              Revert
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
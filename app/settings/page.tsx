@@ -0,0 +1,388 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useQuery, useMutation } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import type { Doc } from "@/convex/_generated/dataModel";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Plus, Save, Settings, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+
+type PersonaForm = Pick<
+  Doc<"personalContext">,
+  | "currentFollowers"
+  | "followerGoal"
+  | "followerGoalDeadline"
+  | "stage"
+  | "daysIntoJourney"
+  | "projects"
+  | "experiences"
+  | "interests"
+  | "skillLevel"
+  | "avoidClaims"
+>;
+
+const STAGES = ["starting_out", "early_growth", "gaining_traction", "established"];
+const SKILLS = ["mma", "saas", "coding", "marketing"] as const;
+
+function toForm(context: Doc<"personalContext">): PersonaForm {
+  return {
+    currentFollowers: context.currentFollowers,
+    followerGoal: context.followerGoal,
+    followerGoalDeadline: context.followerGoalDeadline,
+    stage: context.stage,
+    daysIntoJourney: context.daysIntoJourney,
+    projects: context.projects,
+    experiences: context.experiences,
+    interests: context.interests,
+    skillLevel: context.skillLevel,
+    avoidClaims: context.avoidClaims,
+  };
+}
+
+const toNumber = (value: string) => (value === "" ? 0 : Number(value) || 0);
+
+export default function SettingsPage() {
+  const context = useQuery(api.personalContext.get);
+  const initialize = useMutation(api.personalContext.initialize);
+  const update = useMutation(api.personalContext.update);
+  const { toast } = useToast();
+
+  const [form, setForm] = useState<PersonaForm | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (context && !form) setForm(toForm(context));
+  }, [context, form]);
+
+  const setField = <K extends keyof PersonaForm>(key: K, value: PersonaForm[K]) => {
+    setForm(prev => (prev ? { ...prev, [key]: value } : prev));
+  };
+
+  const updateProject = (index: number, patch: Partial<PersonaForm["projects"][number]>) => {
+    if (!form) return;
+    setField("projects", form.projects.map((p, i) => (i === index ? { ...p, ...patch } : p)));
+  };
+
+  const updateExperience = (index: number, patch: Partial<PersonaForm["experiences"][number]>) => {
+    if (!form) return;
+    setField("experiences", form.experiences.map((e, i) => (i === index ? { ...e, ...patch } : e)));
+  };
+
+  const handleInitialize = async () => {
+    try {
+      await initialize({});
+    } catch (error) {
+      toast({
+        title: "Couldn't create persona",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+    setSaving(true);
+    try {
+      await update({
+        ...form,
+        projects: form.projects.filter(p => p.name.trim()),
+        experiences: form.experiences.filter(e => e.topic.trim() && e.experience.trim()),
+        interests: form.interests.map(i => i.trim()).filter(Boolean),
+        avoidClaims: form.avoidClaims.map(c => c.trim()).filter(Boolean),
+      });
+      toast({
+        title: "Persona saved",
+        description: "Replies are now validated against these numbers",
+      });
+    } catch (error) {
+      toast({
+        title: "Save failed",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-7xl">
+      <div className="mb-8">
+        <h1 className="text-4xl font-bold mb-2 flex items-center gap-2">
+          <Settings className="h-10 w-10" />
+          Persona Settings
+        </h1>
+        <p className="text-muted-foreground">
+          Your real numbers, projects and experiences - replies may only quote what&apos;s here.{" "}
+          <Link href="/settings/algorithm" className="underline">Algorithm weights</Link>
+        </p>
+      </div>
+
+      {context === undefined ? (
+        <p className="text-muted-foreground">Loading...</p>
+      ) : context === null ? (
+        <Card>
+          <CardHeader>
+            <CardTitle>No persona yet</CardTitle>
+            <CardDescription>
+              Until you set one up, any specific number in a reply is treated as made up
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button onClick={handleInitialize}>
+              <Plus className="h-4 w-4 mr-2" />
+              Create persona
+            </Button>
+          </CardContent>
+        </Card>
+      ) : form && (
+        <div className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>📊 Current Metrics & Goals</CardTitle>
+              <CardDescription>Keep these current - they&apos;re the only follower numbers a reply may claim</CardDescription>
+            </CardHeader>
+            <CardContent className="grid gap-4 md:grid-cols-3">
+              <div className="space-y-2">
+                <Label htmlFor="followers">Followers</Label>
+                <Input
+                  id="followers"
+                  type="number"
+                  min={0}
+                  value={form.currentFollowers}
+                  onChange={(e) => setField("currentFollowers", toNumber(e.target.value))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="followerGoal">Follower goal</Label>
+                <Input
+                  id="followerGoal"
+                  type="number"
+                  min={0}
+                  value={form.followerGoal}
+                  onChange={(e) => setField("followerGoal", toNumber(e.target.value))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="deadline">Goal deadline</Label>
+                <Input
+                  id="deadline"
+                  value={form.followerGoalDeadline}
+                  placeholder="30 days from start"
+                  onChange={(e) => setField("followerGoalDeadline", e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="days">Days into journey</Label>
+                <Input
+                  id="days"
+                  type="number"
+                  min={0}
+                  value={form.daysIntoJourney}
+                  onChange={(e) => setField("daysIntoJourney", toNumber(e.target.value))}
+                />
+              </div>
+              <div className="space-y-2 md:col-span-2">
+                <Label>Stage</Label>
+                <div className="flex flex-wrap gap-2">
+                  {STAGES.map(stage => (
+                    <Button
+                      key={stage}
+                      size="sm"
+                      variant={form.stage === stage ? "default" : "outline"}
+                      onClick={() => setField("stage", stage)}
+                    >
+                      {stage.replace(/_/g, " ")}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>🚀 Projects</CardTitle>
+              <CardDescription>Users and MRR here are the product numbers replies are checked against</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {form.projects.length === 0 && (
+                <p className="text-sm text-muted-foreground">No projects yet</p>
+              )}
+              {form.projects.map((project, index) => (
+                <div key={index} className="grid gap-2 md:grid-cols-12 items-end border rounded-lg p-3">
+                  <div className="space-y-1 md:col-span-2">
+                    <Label>Name</Label>
+                    <Input value={project.name} onChange={(e) => updateProject(index, { name: e.target.value })} />
+                  </div>
+                  <div className="space-y-1 md:col-span-4">
+                    <Label>Description</Label>
+                    <Input value={project.description} onChange={(e) => updateProject(index, { description: e.target.value })} />
+                  </div>
+                  <div className="space-y-1 md:col-span-2">
+                    <Label>Stage</Label>
+                    <Input
+                      value={project.stage}
+                      placeholder="building"
+                      onChange={(e) => updateProject(index, { stage: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-1 md:col-span-1">
+                    <Label>Users</Label>
+                    <Input
+                      type="number"
+                      min={0}
+                      value={project.users}
+                      onChange={(e) => updateProject(index, { users: toNumber(e.target.value) })}
+                    />
+                  </div>
+                  <div className="space-y-1 md:col-span-2">
+                    <Label>MRR ($)</Label>
+                    <Input
+                      type="number"
+                      min={0}
+                      value={project.mrr}
+                      onChange={(e) => updateProject(index, { mrr: toNumber(e.target.value) })}
+                    />
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="md:col-span-1"
+                    onClick={() => setField("projects", form.projects.filter((_, i) => i !== index))}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                variant="outline"
+                onClick={() => setField("projects", [
+                  ...form.projects,
+                  { name: "", description: "", stage: "building", users: 0, mrr: 0 },
+                ])}
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add project
+              </Button>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>💡 Experiences</CardTitle>
+              <CardDescription>Only verified experiences are offered to the reply generator</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {form.experiences.length === 0 && (
+                <p className="text-sm text-muted-foreground">No experiences yet</p>
+              )}
+              {form.experiences.map((experience, index) => (
+                <div key={index} className="space-y-2 border rounded-lg p-3">
+                  <div className="flex items-center gap-2">
+                    <Input
+                      className="max-w-xs"
+                      value={experience.topic}
+                      placeholder="Topic (e.g. saas, mma)"
+                      onChange={(e) => updateExperience(index, { topic: e.target.value })}
+                    />
+                    <Badge
+                      variant={experience.verified ? "default" : "outline"}
+                      className="cursor-pointer"
+                      onClick={() => updateExperience(index, { verified: !experience.verified })}
+                    >
+                      {experience.verified ? "✅ Verified" : "Unverified"}
+                    </Badge>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="ml-auto"
+                      onClick={() => setField("experiences", form.experiences.filter((_, i) => i !== index))}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  <Textarea
+                    rows={2}
+                    value={experience.experience}
+                    placeholder="What actually happened"
+                    onChange={(e) => updateExperience(index, { experience: e.target.value })}
+                  />
+                  <Input
+                    value={experience.context}
+                    placeholder="When it's relevant"
+                    onChange={(e) => updateExperience(index, { context: e.target.value })}
+                  />
+                </div>
+              ))}
+              <Button
+                variant="outline"
+                onClick={() => setField("experiences", [
+                  ...form.experiences,
+                  { topic: "", experience: "", context: "", verified: true },
+                ])}
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add experience
+              </Button>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>🧭 Background</CardTitle>
+              <CardDescription>Interests, skill levels and the claims replies must never make</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="interests">Interests (comma separated)</Label>
+                <Input
+                  id="interests"
+                  value={form.interests.join(", ")}
+                  onChange={(e) => setField("interests", e.target.value.split(","))}
+                />
+              </div>
+              <div className="grid gap-4 md:grid-cols-4">
+                {SKILLS.map(skill => (
+                  <div key={skill} className="space-y-2">
+                    <Label htmlFor={`skill-${skill}`} className="capitalize">{skill}</Label>
+                    <Input
+                      id={`skill-${skill}`}
+                      value={form.skillLevel[skill]}
+                      placeholder="beginner"
+                      onChange={(e) => setField("skillLevel", { ...form.skillLevel, [skill]: e.target.value })}
+                    />
+                  </div>
+                ))}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="avoidClaims">Never claim (one per line)</Label>
+                <Textarea
+                  id="avoidClaims"
+                  rows={5}
+                  value={form.avoidClaims.join("\n")}
+                  onChange={(e) => setField("avoidClaims", e.target.value.split("\n"))}
+                />
+              </div>
+            </CardContent>
+          </Card>
+
+          <div className="flex justify-end">
+            <Button onClick={handleSave} disabled={saving}>
+              <Save className="h-4 w-4 mr-2" />
+              {saving ? "Saving..." : "Save persona"}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
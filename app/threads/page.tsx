@@ -3,14 +3,19 @@
 import { useState, useEffect } from "react";
 import { useQuery, useMutation } from "convex/react";
 import { api } from "@/convex/_generated/api";
+import type { Id } from "@/convex/_generated/dataModel";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
-import { Loader2, Sparkles, Copy, Check, Send, X, Edit2, ThumbsUp, ThumbsDown } from "lucide-react";
+import { Loader2, Sparkles, Copy, Send, X, ThumbsUp, ThumbsDown, TrendingUp } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { SaveTemplateDialog } from "@/components/save-template-dialog";
+import { ThreadComposer } from "@/components/thread-composer";
+import { FollowerChart } from "@/components/follower-chart";
+import { RECAP_RANGES } from "@/lib/challenge-recap";
+import { THREAD_TWEET_SEPARATOR } from "@/lib/content-templates";
 
 export default function ThreadsPage() {
   const [date] = useState(() => new Date().toISOString().split('T')[0]);
@@ -29,16 +34,16 @@ export default function ThreadsPage() {
   });
   const [challengeDay, setChallengeDay] = useState<number>(1);
 
-  // UI state
-  const [editingTweetIndex, setEditingTweetIndex] = useState<number | null>(null);
-  const [editedTweetContent, setEditedTweetContent] = useState("");
-  const [copiedIndex, setCopiedIndex] = useState<number | null>(null);
+  // Recap state
+  const [recapRange, setRecapRange] = useState({ fromDay: 1, toDay: 7 });
+  const [generatingRecap, setGeneratingRecap] = useState(false);
 
   const { toast } = useToast();
 
   // Queries
   const todayInput = useQuery(api.threadGeneration.getTodayThreadInput);
   const generatedThread = useQuery(api.threadGeneration.getTodayGeneratedThread);
+  const latestRecap = useQuery(api.threadGeneration.getLatestRecap);
 
   // Mutations
   const saveThreadInput = useMutation(api.threadGeneration.saveThreadInput);
@@ -145,13 +150,7 @@ export default function ThreadsPage() {
 
       const data = await response.json();
 
-      // Parse thread content into tweets (split by double line breaks or single if not found)
-      let tweets = data.thread.content.split('\n\n').filter((t: string) => t.trim());
-      
-      // If only got 1 tweet, try splitting by single line breaks (Claude didn't follow format)
-      if (tweets.length <= 1) {
-        tweets = data.thread.content.split('\n').filter((t: string) => t.trim());
-      }
+      const tweets: string[] = data.thread.tweets;
 
       // Build save object, only including fields that have values
       // Map conversationTrigger to narrativeFlow for Convex schema
@@ -190,9 +189,9 @@ export default function ThreadsPage() {
         saveData.mediaType = data.thread.mediaType;
       }
 
-      // Only add mediaSuggestions if it exists
-      if (data.thread.mediaSuggestions) {
-        saveData.mediaSuggestions = [data.thread.mediaSuggestions];
+      // Per-tweet media slots, aligned with tweets
+      if (data.thread.suggestMedia) {
+        saveData.mediaSuggestions = data.thread.mediaSuggestions;
       }
 
       // Save generated thread to Convex
@@ -216,12 +215,60 @@ export default function ThreadsPage() {
     }
   };
 
-  const handleCopyThread = async () => {
-    if (!generatedThread) return;
+  const handleGenerateRecap = async () => {
+    setGeneratingRecap(true);
 
     try {
-      const threadText = generatedThread.tweets.map((tweet, i) => 
-        `${i + 1}/${generatedThread.tweets.length}\n${tweet}`
+      const response = await fetch('/api/generate-thread', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ mode: "recap", date, ...recapRange }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to generate recap');
+      }
+
+      await saveGeneratedThread({
+        date: data.thread.date,
+        challengeDay: recapRange.toDay,
+        tweets: data.thread.tweets,
+        threadType: "challenge_recap",
+        algorithmScore: data.thread.algorithmScore,
+        scoreBreakdown: {
+          hookStrength: data.thread.scoreBreakdown.hookStrength,
+          narrativeFlow: data.thread.scoreBreakdown.conversationTrigger, // Map to narrativeFlow
+          specificity: data.thread.scoreBreakdown.specificity,
+          authenticity: data.thread.scoreBreakdown.authenticity,
+        },
+        suggestMedia: data.thread.suggestMedia,
+        mediaType: data.thread.mediaType,
+        mediaSuggestions: data.thread.mediaSuggestions,
+        recap: data.thread.recap,
+      });
+
+      toast({
+        title: "Recap generated!",
+        description: `${data.thread.tweets.length}-tweet retrospective for Days ${recapRange.fromDay}-${recapRange.toDay}`,
+        duration: 3000,
+      });
+    } catch (error) {
+      console.error('Error generating recap:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to generate recap. Please try again.",
+        variant: "destructive",
+        duration: 5000,
+      });
+    } finally {
+      setGeneratingRecap(false);
+    }
+  };
+
+  const handleCopyThread = async (tweets: string[]) => {
+    try {
+      const threadText = tweets.map((tweet, i) => 
+        `${i + 1}/${tweets.length}\n${tweet}`
       ).join('\n\n');
       
       await navigator.clipboard.writeText(threadText);
@@ -242,48 +289,25 @@ export default function ThreadsPage() {
     }
   };
 
-  const handleCopyTweet = async (tweet: string, index: number) => {
+  const handleSaveThread = async (id: Id<"generatedThreads">, thread: { tweets: string[]; mediaSuggestions: string[] }) => {
     try {
-      await navigator.clipboard.writeText(tweet);
-      setCopiedIndex(index);
-      setTimeout(() => setCopiedIndex(null), 2000);
+      await updateThread({ id, ...thread });
       toast({
-        title: "Tweet copied!",
-        description: "Tweet copied to clipboard",
-        duration: 3000,
+        title: "Thread updated!",
+        description: `Saved ${thread.tweets.length} tweets`,
+        duration: 3000, // Auto-dismiss after 3 seconds
       });
     } catch (error) {
-      console.error('Copy failed:', error);
+      console.error('Save failed:', error);
       toast({
-        title: "Copy failed",
-        description: "Please try again",
+        title: "Save failed",
+        description: error instanceof Error ? error.message : "Please try again",
         variant: "destructive",
-        duration: 3000,
+        duration: 5000,
       });
     }
   };
 
-  const handleEditTweet = (index: number, content: string) => {
-    setEditingTweetIndex(index);
-    setEditedTweetContent(content);
-  };
-
-  const handleSaveEdit = async () => {
-    if (!generatedThread || editingTweetIndex === null) return;
-
-    const updatedTweets = [...generatedThread.tweets];
-    updatedTweets[editingTweetIndex] = editedTweetContent;
-
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    await updateThread({ id: generatedThread._id as any, tweets: updatedTweets });
-    setEditingTweetIndex(null);
-    toast({
-      title: "Tweet updated!",
-      description: "Thread has been edited",
-      duration: 3000, // Auto-dismiss after 3 seconds
-    });
-  };
-
   const handleApprove = async () => {
     if (!generatedThread) return;
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -554,10 +578,17 @@ export default function ThreadsPage() {
         <div>
           <div className="flex items-center justify-between mb-4">
             <h2 className="text-2xl font-bold">Day {generatedThread.challengeDay} Thread</h2>
-            <Button variant="outline" onClick={handleCopyThread}>
-              <Copy className="h-4 w-4 mr-2" />
-              Copy Full Thread
-            </Button>
+            <div className="flex gap-2">
+              <SaveTemplateDialog
+                content={generatedThread.tweets.join(`\n${THREAD_TWEET_SEPARATOR}\n`)}
+                type="thread"
+                defaultTags={[generatedThread.threadType]}
+              />
+              <Button variant="outline" onClick={() => handleCopyThread(generatedThread.tweets)}>
+                <Copy className="h-4 w-4 mr-2" />
+                Copy Full Thread
+              </Button>
+            </div>
           </div>
 
           <Card className="mb-4">
@@ -607,75 +638,13 @@ export default function ThreadsPage() {
                   </div>
                 </div>
 
-                {/* Media Suggestion */}
-                {generatedThread.suggestMedia && generatedThread.mediaSuggestions && (
-                  <div className="text-sm text-muted-foreground bg-blue-500/10 p-3 rounded border border-blue-500/20">
-                    <p className="font-semibold mb-1">💡 Media Suggestions:</p>
-                    <ul className="list-disc list-inside space-y-1">
-                      {generatedThread.mediaSuggestions.map((suggestion, i) => (
-                        <li key={i}>{suggestion}</li>
-                      ))}
-                    </ul>
-                  </div>
-                )}
-
                 {/* Thread Tweets */}
-                <div className="space-y-3">
-                  {generatedThread.tweets.map((tweet, index) => (
-                    <div key={index} className="border-l-2 border-purple-500 pl-4">
-                      <div className="flex items-start justify-between mb-2">
-                        <p className="text-xs text-muted-foreground font-semibold">
-                          Tweet {index + 1}/{generatedThread.tweets.length}
-                        </p>
-                        <div className="flex gap-2">
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            onClick={() => handleCopyTweet(tweet, index)}
-                          >
-                            {copiedIndex === index ? (
-                              <Check className="h-3 w-3" />
-                            ) : (
-                              <Copy className="h-3 w-3" />
-                            )}
-                          </Button>
-                          {generatedThread.status !== "posted" && (
-                            <Button
-                              variant="ghost"
-                              size="sm"
-                              onClick={() => handleEditTweet(index, tweet)}
-                            >
-                              <Edit2 className="h-3 w-3" />
-                            </Button>
-                          )}
-                        </div>
-                      </div>
-                      {editingTweetIndex === index ? (
-                        <div className="space-y-2">
-                          <Textarea
-                            value={editedTweetContent}
-                            onChange={(e) => setEditedTweetContent(e.target.value)}
-                            rows={3}
-                            className="font-mono text-sm"
-                          />
-                          <div className="flex gap-2">
-                            <Button size="sm" onClick={handleSaveEdit}>
-                              <Check className="h-3 w-3 mr-1" />
-                              Save
-                            </Button>
-                            <Button size="sm" variant="outline" onClick={() => setEditingTweetIndex(null)}>
-                              Cancel
-                            </Button>
-                          </div>
-                        </div>
-                      ) : (
-                        <div className="bg-muted p-3 rounded text-sm font-mono whitespace-pre-wrap">
-                          {tweet}
-                        </div>
-                      )}
-                    </div>
-                  ))}
-                </div>
+                <ThreadComposer
+                  tweets={generatedThread.tweets}
+                  mediaSuggestions={generatedThread.mediaSuggestions}
+                  readOnly={generatedThread.status === "posted"}
+                  onSave={(thread) => handleSaveThread(generatedThread._id, thread)}
+                />
 
                 {/* Actions */}
                 <div className="flex items-center gap-2 flex-wrap pt-4 border-t">
@@ -729,6 +698,105 @@ export default function ThreadsPage() {
           </Card>
         </div>
       )}
+
+      {/* Challenge Recap */}
+      <Card className="mt-8">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <TrendingUp className="h-5 w-5 text-purple-500" />
+            Challenge Recap
+          </CardTitle>
+          <CardDescription>
+            A retrospective thread over a range of days - built from your follower curve, milestones and how each daily thread performed
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap items-end gap-2">
+            {RECAP_RANGES.map(range => (
+              <Button
+                key={range.label}
+                variant={recapRange.fromDay === range.fromDay && recapRange.toDay === range.toDay ? "default" : "outline"}
+                size="sm"
+                onClick={() => setRecapRange({ fromDay: range.fromDay, toDay: range.toDay })}
+              >
+                {range.label}
+              </Button>
+            ))}
+            <div className="flex items-end gap-1 ml-2">
+              <div>
+                <Label htmlFor="recapFrom" className="text-xs">From day</Label>
+                <Input
+                  id="recapFrom"
+                  type="number"
+                  value={recapRange.fromDay}
+                  onChange={(e) => setRecapRange({ ...recapRange, fromDay: parseInt(e.target.value) || 1 })}
+                  className="w-20 h-8"
+                />
+              </div>
+              <div>
+                <Label htmlFor="recapTo" className="text-xs">To day</Label>
+                <Input
+                  id="recapTo"
+                  type="number"
+                  value={recapRange.toDay}
+                  onChange={(e) => setRecapRange({ ...recapRange, toDay: parseInt(e.target.value) || 1 })}
+                  className="w-20 h-8"
+                />
+              </div>
+            </div>
+            <Button
+              onClick={handleGenerateRecap}
+              disabled={generatingRecap || recapRange.toDay < recapRange.fromDay}
+              className="bg-purple-500 hover:bg-purple-600 ml-auto"
+            >
+              {generatingRecap ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Generating Recap...
+                </>
+              ) : (
+                <>
+                  <Sparkles className="h-4 w-4 mr-2" />
+                  Generate Days {recapRange.fromDay}-{recapRange.toDay} Recap
+                </>
+              )}
+            </Button>
+          </div>
+
+          {latestRecap?.recap && (
+            <div className="space-y-4 pt-4 border-t">
+              <div className="flex items-center justify-between">
+                <h3 className="text-lg font-semibold">
+                  Days {latestRecap.recap.fromDay}-{latestRecap.recap.toDay} Recap
+                  <span className="ml-3 text-purple-500">{latestRecap.algorithmScore}/100</span>
+                </h3>
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" onClick={() => handleCopyThread(latestRecap.tweets)}>
+                    <Copy className="h-4 w-4 mr-1" />
+                    Copy Thread
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => deleteThread({ id: latestRecap._id })}
+                    className="hover:bg-red-500/10 hover:text-red-500"
+                  >
+                    <X className="h-4 w-4 mr-1" />
+                    Delete
+                  </Button>
+                </div>
+              </div>
+              <FollowerChart series={latestRecap.recap.followerSeries} description={latestRecap.mediaSuggestions?.[0]} />
+              <ThreadComposer
+                tweets={latestRecap.tweets}
+                mediaSuggestions={latestRecap.mediaSuggestions}
+                readOnly={latestRecap.status === "posted"}
+                onSave={(thread) => handleSaveThread(latestRecap._id, thread)}
+              />
+            </div>
+          )}
+        </CardContent>
+      </Card>
     </div>
   );
 }
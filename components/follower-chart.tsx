@@ -0,0 +1,55 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Download } from "lucide-react";
+import { renderFollowerChartSVG, type FollowerPoint } from "@/lib/challenge-recap";
+
+interface FollowerChartProps {
+  series: FollowerPoint[];
+  description?: string;
+}
+
+/**
+ * Follower curve for a recap thread, with a PNG export to attach on X
+ * (X doesn't take SVG uploads)
+ */
+export function FollowerChart({ series, description }: FollowerChartProps) {
+  const svg = renderFollowerChartSVG(series);
+
+  const handleDownload = () => {
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement("canvas");
+      canvas.width = image.width * 2; // retina-sharp
+      canvas.height = image.height * 2;
+      const context = canvas.getContext("2d");
+      if (!context) return;
+      context.scale(2, 2);
+      context.drawImage(image, 0, 0);
+
+      const link = document.createElement("a");
+      link.href = canvas.toDataURL("image/png");
+      link.download = `followers-day-${series[0]?.day ?? 1}-${series[series.length - 1]?.day ?? 1}.png`;
+      link.click();
+    };
+    image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+  };
+
+  if (series.length < 2) {
+    return <p className="text-sm text-muted-foreground">Log at least two days of metrics to chart the follower curve.</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      {/* Generated from numbers only - safe to inline */}
+      <div className="rounded border overflow-hidden max-w-[600px]" role="img" aria-label={description} dangerouslySetInnerHTML={{ __html: svg }} />
+      <div className="flex items-center gap-2">
+        <Button variant="outline" size="sm" onClick={handleDownload}>
+          <Download className="h-3 w-3 mr-1" />
+          Download Chart (PNG)
+        </Button>
+        {description && <p className="text-xs text-muted-foreground">{description}</p>}
+      </div>
+    </div>
+  );
+}
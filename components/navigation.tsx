@@ -1,6 +1,7 @@
 "use client";
 
 import Link from "next/link";
+import { SignedIn, SignedOut, SignInButton, UserButton } from "@clerk/nextjs";
 import { usePathname } from "next/navigation";
 import { cn } from "@/lib/utils";
 
@@ -9,16 +10,20 @@ export function Navigation() {
 
   const links = [
     { href: "/", label: "🤖 AI Reply" },
+    { href: "/queue", label: "⏱️ Queue" },
     { href: "/posts", label: "📝 Posts" },
     { href: "/threads", label: "🧵 Threads" },
     { href: "/communities", label: "🏘️ Communities" },
     { href: "/activity", label: "📊 Activity" },
+    { href: "/analytics", label: "📈 Analytics" },
+    { href: "/library", label: "📚 Library" },
     { href: "/calendar", label: "📅 Calendar" },
     { href: "/profiles", label: "👤 Profiles" },
+    { href: "/settings", label: "⚙️ Settings" },
   ];
 
   return (
-    <nav className="flex gap-4">
+    <nav className="flex items-center gap-4">
       {links.map((link) => (
         <Link
           key={link.href}
@@ -33,6 +38,16 @@ export function Navigation() {
           {link.label}
         </Link>
       ))}
+      <SignedIn>
+        <UserButton />
+      </SignedIn>
+      <SignedOut>
+        <SignInButton mode="modal">
+          <button className="text-sm font-medium text-muted-foreground transition-colors hover:text-primary">
+            Sign in
+          </button>
+        </SignInButton>
+      </SignedOut>
     </nav>
   );
 }
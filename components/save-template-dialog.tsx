@@ -0,0 +1,170 @@
+"use client";
+
+import { useState } from "react";
+import { useMutation } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { BookmarkPlus } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { extractTemplateVariables } from "@/lib/content-templates";
+
+interface SaveTemplateDialogProps {
+  content: string;
+  type: "reply" | "post" | "thread";
+  defaultCategory?: string;
+  defaultTags?: string[];
+}
+
+/**
+ * "Save as template" button + dialog, used wherever content is generated
+ */
+export function SaveTemplateDialog({ content, type, defaultCategory, defaultTags }: SaveTemplateDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [template, setTemplate] = useState(content);
+  const [category, setCategory] = useState(defaultCategory || "");
+  const [tags, setTags] = useState((defaultTags || []).join(", "));
+  const [saving, setSaving] = useState(false);
+
+  const createTemplate = useMutation(api.templates.create);
+  const { toast } = useToast();
+
+  const variables = extractTemplateVariables(template);
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (nextOpen) {
+      // Start from the latest content every time the dialog opens
+      setTemplate(content);
+      setName("");
+    }
+    setOpen(nextOpen);
+  };
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      toast({
+        title: "Name required",
+        description: "Give the template a name so you can find it in the library.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await createTemplate({
+        name: name.trim(),
+        content: template,
+        type,
+        tags: tags.split(",").map(t => t.trim()).filter(Boolean),
+        category: category.trim() || undefined,
+      });
+      toast({
+        title: "Template saved!",
+        description: `"${name.trim()}" is now in your content library.`,
+        duration: 3000,
+      });
+      setOpen(false);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save template.",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <BookmarkPlus className="h-4 w-4 mr-1" />
+          Save as Template
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Save as Template</DialogTitle>
+          <DialogDescription>
+            Replace the specifics with {"{variables}"} (e.g. {"{followers}"}, {"{insight}"}, {"{event2}"}) so they can be filled from your daily input.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <Label htmlFor="templateName">Name</Label>
+            <Input
+              id="templateName"
+              placeholder="Progress update with metric"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="templateContent">Template</Label>
+            <Textarea
+              id="templateContent"
+              value={template}
+              onChange={(e) => setTemplate(e.target.value)}
+              rows={8}
+              className="font-mono text-sm"
+            />
+            {variables.length > 0 && (
+              <div className="flex flex-wrap gap-1 pt-1">
+                {variables.map(variable => (
+                  <Badge key={variable} variant="outline">{`{${variable}}`}</Badge>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="templateCategory">Category</Label>
+              <Input
+                id="templateCategory"
+                placeholder="mma, subwise, xgrowth..."
+                value={category}
+                onChange={(e) => setCategory(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="templateTags">Tags (comma separated)</Label>
+              <Input
+                id="templateTags"
+                placeholder="hook, question, metrics"
+                value={tags}
+                onChange={(e) => setTags(e.target.value)}
+              />
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving}>
+            {saving ? "Saving..." : "Save Template"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,252 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Check, Copy, GripVertical, ImageIcon, Loader2, Merge, RefreshCw, Scissors, Trash2, Undo2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  fromComposerTweets,
+  invalidTweetIndexes,
+  mergeWithNext,
+  moveTweet,
+  splitTweet,
+  toComposerTweets,
+  type ComposerTweet,
+} from "@/lib/thread-composer";
+import { MAX_TWEET_LENGTH, remainingCharacters } from "@/lib/tweet-length";
+import { TweetLengthCounter } from "@/components/tweet-length-counter";
+
+interface ThreadComposerProps {
+  tweets: string[];
+  mediaSuggestions?: string[];
+  readOnly?: boolean;
+  onSave: (thread: { tweets: string[]; mediaSuggestions: string[] }) => Promise<void>;
+}
+
+/**
+ * One card per tweet: edit, drag to reorder, split, merge, regenerate, and a
+ * media slot each. Nothing is saved until every tweet fits X's limit.
+ */
+export function ThreadComposer({ tweets, mediaSuggestions, readOnly = false, onSave }: ThreadComposerProps) {
+  const [draft, setDraft] = useState<ComposerTweet[]>(() => toComposerTweets(tweets, mediaSuggestions));
+  const [dirty, setDirty] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [regenerating, setRegenerating] = useState<number | null>(null);
+  const [copiedIndex, setCopiedIndex] = useState<number | null>(null);
+  const cursors = useRef<Record<number, number>>({});
+
+  const { toast } = useToast();
+
+  // A new or externally updated thread replaces the draft
+  useEffect(() => {
+    setDraft(toComposerTweets(tweets, mediaSuggestions));
+    setDirty(false);
+  }, [tweets, mediaSuggestions]);
+
+  const invalid = invalidTweetIndexes(draft);
+
+  // Functional updates - a regenerate that resolves later must not overwrite edits made meanwhile
+  const change = (update: (prev: ComposerTweet[]) => ComposerTweet[]) => {
+    setDraft(update);
+    setDirty(true);
+  };
+
+  const updateTweet = (index: number, patch: Partial<ComposerTweet>) => {
+    change(prev => prev.map((tweet, i) => (i === index ? { ...tweet, ...patch } : tweet)));
+  };
+
+  const handleDrop = (index: number) => {
+    if (dragIndex !== null) change(prev => moveTweet(prev, dragIndex, index));
+    setDragIndex(null);
+  };
+
+  const handleSplit = (index: number) => {
+    const next = splitTweet(draft, index, cursors.current[index]);
+    if (next === draft) {
+      toast({ title: "Nothing to split", description: "Put the cursor where the new tweet should start.", duration: 3000 });
+      return;
+    }
+    cursors.current = {};
+    change(() => next);
+  };
+
+  const handleRegenerate = async (index: number) => {
+    setRegenerating(index);
+    try {
+      const response = await fetch("/api/regenerate-thread-tweet", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ tweets: draft.map(tweet => tweet.text), index }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Failed to regenerate tweet");
+
+      updateTweet(index, { text: data.tweet });
+    } catch (error) {
+      console.error("Regenerate failed:", error);
+      toast({
+        title: "Regenerate failed",
+        description: error instanceof Error ? error.message : "Please try again",
+        variant: "destructive",
+        duration: 5000,
+      });
+    } finally {
+      setRegenerating(null);
+    }
+  };
+
+  const handleCopy = async (text: string, index: number) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopiedIndex(index);
+      setTimeout(() => setCopiedIndex(null), 2000);
+    } catch (error) {
+      console.error("Copy failed:", error);
+    }
+  };
+
+  const handleSave = async () => {
+    if (invalid.length > 0) return;
+    setSaving(true);
+    try {
+      await onSave(fromComposerTweets(draft));
+      setDirty(false);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {draft.map((tweet, index) => {
+        const remaining = remainingCharacters(tweet.text);
+        return (
+          <div
+            key={index}
+            onDragOver={(e) => !readOnly && e.preventDefault()}
+            onDrop={() => handleDrop(index)}
+            className={`rounded-lg border p-3 space-y-2 ${
+              invalid.includes(index) ? "border-red-500/50" : "border-purple-500/30"
+            } ${dragIndex === index ? "opacity-50" : ""}`}
+          >
+            <div className="flex items-center justify-between gap-2">
+              <div className="flex items-center gap-1">
+                {!readOnly && (
+                  <span
+                    draggable
+                    onDragStart={() => setDragIndex(index)}
+                    onDragEnd={() => setDragIndex(null)}
+                    className="cursor-grab text-muted-foreground"
+                    title="Drag to reorder"
+                  >
+                    <GripVertical className="h-4 w-4" />
+                  </span>
+                )}
+                <p className="text-xs text-muted-foreground font-semibold">
+                  Tweet {index + 1}/{draft.length}
+                </p>
+              </div>
+              <div className="flex items-center gap-1">
+                <TweetLengthCounter text={tweet.text} className="mr-2" />
+                <Button variant="ghost" size="sm" onClick={() => handleCopy(tweet.text, index)} title="Copy">
+                  {copiedIndex === index ? <Check className="h-3 w-3" /> : <Copy className="h-3 w-3" />}
+                </Button>
+                {!readOnly && (
+                  <>
+                    <Button variant="ghost" size="sm" onClick={() => handleSplit(index)} title="Split at cursor">
+                      <Scissors className="h-3 w-3" />
+                    </Button>
+                    {index < draft.length - 1 && (
+                      <Button variant="ghost" size="sm" onClick={() => change(prev => mergeWithNext(prev, index))} title="Merge with next">
+                        <Merge className="h-3 w-3" />
+                      </Button>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleRegenerate(index)}
+                      disabled={regenerating !== null}
+                      title="Regenerate this tweet"
+                    >
+                      {regenerating === index ? <Loader2 className="h-3 w-3 animate-spin" /> : <RefreshCw className="h-3 w-3" />}
+                    </Button>
+                    {draft.length > 1 && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => change(prev => prev.filter((_, i) => i !== index))}
+                        className="hover:text-red-500"
+                        title="Remove tweet"
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    )}
+                  </>
+                )}
+              </div>
+            </div>
+
+            {readOnly ? (
+              <div className="bg-muted p-3 rounded text-sm font-mono whitespace-pre-wrap">{tweet.text}</div>
+            ) : (
+              <Textarea
+                value={tweet.text}
+                onChange={(e) => updateTweet(index, { text: e.target.value })}
+                onSelect={(e) => { cursors.current[index] = e.currentTarget.selectionStart; }}
+                rows={3}
+                className="font-mono text-sm"
+              />
+            )}
+            {remaining < 0 && (
+              <p className="text-xs text-red-500">
+                {-remaining} over X&apos;s {MAX_TWEET_LENGTH}-character limit (emoji count 2, links 23) - shorten or split it
+              </p>
+            )}
+
+            <div className="flex items-center gap-2">
+              <ImageIcon className="h-4 w-4 text-muted-foreground shrink-0" />
+              {readOnly ? (
+                <p className="text-xs text-muted-foreground">{tweet.media || "No media"}</p>
+              ) : (
+                <Input
+                  value={tweet.media}
+                  onChange={(e) => updateTweet(index, { media: e.target.value })}
+                  placeholder="No media - describe an image to attach to this tweet"
+                  className="h-8 text-xs"
+                />
+              )}
+            </div>
+          </div>
+        );
+      })}
+
+      {!readOnly && dirty && (
+        <div className="flex items-center gap-2">
+          <Button size="sm" onClick={handleSave} disabled={saving || invalid.length > 0}>
+            {saving ? <Loader2 className="h-3 w-3 mr-1 animate-spin" /> : <Check className="h-3 w-3 mr-1" />}
+            Save Thread
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => {
+              setDraft(toComposerTweets(tweets, mediaSuggestions));
+              setDirty(false);
+            }}
+          >
+            <Undo2 className="h-3 w-3 mr-1" />
+            Discard Changes
+          </Button>
+          {invalid.length > 0 && (
+            <p className="text-xs text-red-500">
+              Fix tweet {invalid.map(i => i + 1).join(", ")} before saving
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
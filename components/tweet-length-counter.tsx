@@ -0,0 +1,27 @@
+"use client";
+
+import { MAX_TWEET_LENGTH, remainingCharacters } from "@/lib/tweet-length";
+
+interface TweetLengthCounterProps {
+  text: string;
+  className?: string;
+}
+
+/**
+ * Characters left as X counts them - orange near the limit, red (negative) over it
+ */
+export function TweetLengthCounter({ text, className = "" }: TweetLengthCounterProps) {
+  const remaining = remainingCharacters(text);
+  const color = remaining < 0
+    ? "text-red-500 font-semibold"
+    : remaining <= 20 ? "text-orange-500" : "text-muted-foreground";
+
+  return (
+    <span
+      className={`text-xs tabular-nums ${color} ${className}`}
+      title={`${MAX_TWEET_LENGTH - remaining}/${MAX_TWEET_LENGTH} characters (emoji count 2, links 23)`}
+    >
+      {remaining}
+    </span>
+  );
+}
@@ -8,18 +8,29 @@
  * @module
  */
 
+import type * as algorithmRules from "../algorithmRules.js";
 import type * as analytics from "../analytics.js";
 import type * as communityPosts from "../communityPosts.js";
 import type * as communityProfiles from "../communityProfiles.js";
+import type * as contentSimilarity from "../contentSimilarity.js";
 import type * as contextManagement from "../contextManagement.js";
 import type * as creators from "../creators.js";
+import type * as crons from "../crons.js";
+import type * as engagementModel from "../engagementModel.js";
 import type * as migrations_addFuturePlansField from "../migrations/addFuturePlansField.js";
+import type * as migrations_assignOwner from "../migrations/assignOwner.js";
+import type * as patternMining from "../patternMining.js";
+import type * as performanceIngestion from "../performanceIngestion.js";
 import type * as personalContext from "../personalContext.js";
 import type * as postGeneration from "../postGeneration.js";
 import type * as posts from "../posts.js";
+import type * as replyQueue from "../replyQueue.js";
 import type * as sentReplies from "../sentReplies.js";
 import type * as templates from "../templates.js";
 import type * as threadGeneration from "../threadGeneration.js";
+import type * as twitter from "../twitter.js";
+import type * as users from "../users.js";
+import type * as watchlist from "../watchlist.js";
 
 import type {
   ApiFromModules,
@@ -36,18 +47,29 @@ import type {
  * ```
  */
 declare const fullApi: ApiFromModules<{
+  algorithmRules: typeof algorithmRules;
   analytics: typeof analytics;
   communityPosts: typeof communityPosts;
   communityProfiles: typeof communityProfiles;
+  contentSimilarity: typeof contentSimilarity;
   contextManagement: typeof contextManagement;
   creators: typeof creators;
+  crons: typeof crons;
+  engagementModel: typeof engagementModel;
   "migrations/addFuturePlansField": typeof migrations_addFuturePlansField;
+  "migrations/assignOwner": typeof migrations_assignOwner;
+  patternMining: typeof patternMining;
+  performanceIngestion: typeof performanceIngestion;
   personalContext: typeof personalContext;
   postGeneration: typeof postGeneration;
   posts: typeof posts;
+  replyQueue: typeof replyQueue;
   sentReplies: typeof sentReplies;
   templates: typeof templates;
   threadGeneration: typeof threadGeneration;
+  twitter: typeof twitter;
+  users: typeof users;
+  watchlist: typeof watchlist;
 }>;
 declare const fullApiWithMounts: typeof fullApi;
 
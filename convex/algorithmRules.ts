@@ -0,0 +1,119 @@
+import { v } from "convex/values";
+import { mutation, query } from "./_generated/server";
+import { getUserId, isAdmin, requireAdmin } from "./users";
+import { ALGORITHM_RULES, ALGORITHM_WEIGHTS, resolveAlgorithmWeights } from "../lib/x-algorithm";
+
+/**
+ * Every known rule with its current value (stored value or default)
+ */
+export const list = query({
+  args: {},
+  handler: async (ctx) => {
+    const rows = await ctx.db.query("algorithmRules").collect();
+    const rowsByName = new Map(rows.map(row => [row.name, row]));
+
+    return ALGORITHM_RULES.map(rule => {
+      const row = rowsByName.get(rule.name);
+      return {
+        ...rule,
+        value: row?.value ?? ALGORITHM_WEIGHTS[rule.key],
+        defaultValue: ALGORITHM_WEIGHTS[rule.key],
+        updatedAt: row?.updatedAt ?? null,
+        updatedBy: row?.updatedBy ?? null,
+      };
+    });
+  },
+});
+
+/**
+ * Active rule set as weights (used by every scorer and prompt builder)
+ */
+export const getActiveWeights = query({
+  args: {},
+  handler: async (ctx) => {
+    const rows = await ctx.db.query("algorithmRules").collect();
+    return resolveAlgorithmWeights(rows);
+  },
+});
+
+/**
+ * Whether the signed-in user can change the shared rule set
+ */
+export const canEdit = query({
+  args: {},
+  handler: async (ctx) => {
+    return isAdmin(await getUserId(ctx));
+  },
+});
+
+/**
+ * Change a rule's value and record it in the history
+ * Admins only - the rule set is shared by every user's scoring
+ */
+export const update = mutation({
+  args: {
+    name: v.string(),
+    value: v.number(),
+    reason: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await requireAdmin(ctx);
+
+    const rule = ALGORITHM_RULES.find(r => r.name === args.name);
+    if (!rule) {
+      throw new Error(`Unknown algorithm rule: ${args.name}`);
+    }
+    if (!Number.isFinite(args.value) || args.value < 0) {
+      throw new Error("Rule value must be a non-negative number");
+    }
+
+    const now = Date.now();
+    const existing = await ctx.db
+      .query("algorithmRules")
+      .withIndex("by_name", (q) => q.eq("name", args.name))
+      .first();
+
+    if (existing?.value === args.value) {
+      return existing._id;
+    }
+
+    await ctx.db.insert("algorithmRuleHistory", {
+      name: args.name,
+      previousValue: existing?.value,
+      value: args.value,
+      reason: args.reason?.trim() || undefined,
+      changedBy: userId,
+      changedAt: now,
+    });
+
+    if (existing) {
+      await ctx.db.patch(existing._id, { value: args.value, updatedAt: now, updatedBy: userId });
+      return existing._id;
+    }
+
+    return await ctx.db.insert("algorithmRules", {
+      name: rule.name,
+      value: args.value,
+      description: rule.description,
+      category: rule.category,
+      updatedAt: now,
+      updatedBy: userId,
+    });
+  },
+});
+
+/**
+ * Recent rule changes, newest first
+ */
+export const history = query({
+  args: {
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query("algorithmRuleHistory")
+      .withIndex("by_changed")
+      .order("desc")
+      .take(args.limit ?? 50);
+  },
+});
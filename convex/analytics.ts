@@ -1,5 +1,7 @@
 import { v } from "convex/values";
 import { mutation, query } from "./_generated/server";
+import { getUserId, requireUserId } from "./users";
+import { buildGrowthSeries } from "../lib/growth-series";
 
 // Create or update daily analytics
 export const upsert = mutation({
@@ -13,11 +15,12 @@ export const upsert = mutation({
   },
   handler: async (ctx, args) => {
     const { date, ...updates } = args;
+    const userId = await requireUserId(ctx);
     
     // Check if analytics for this date already exists
     const existing = await ctx.db
       .query("analytics")
-      .withIndex("by_date", (q) => q.eq("date", date))
+      .withIndex("by_user_date", (q) => q.eq("userId", userId).eq("date", date))
       .first();
 
     if (existing) {
@@ -31,6 +34,7 @@ export const upsert = mutation({
       // Create new
       const now = Date.now();
       return await ctx.db.insert("analytics", {
+        userId,
         date,
         followersGained: updates.followersGained || 0,
         subwiseUsersGained: updates.subwiseUsersGained || 0,
@@ -51,14 +55,15 @@ export const getRange = query({
     endDate: v.string(),
   },
   handler: async (ctx, args) => {
-    const allAnalytics = await ctx.db
+    const userId = await getUserId(ctx);
+    if (!userId) return [];
+
+    return await ctx.db
       .query("analytics")
-      .withIndex("by_date")
+      .withIndex("by_user_date", (q) =>
+        q.eq("userId", userId).gte("date", args.startDate).lte("date", args.endDate)
+      )
       .collect();
-    
-    return allAnalytics.filter(
-      (a) => a.date >= args.startDate && a.date <= args.endDate
-    );
   },
 });
 
@@ -66,11 +71,258 @@ export const getRange = query({
 export const list = query({
   args: {},
   handler: async (ctx) => {
+    const userId = await getUserId(ctx);
+    if (!userId) return [];
+
     return await ctx.db
       .query("analytics")
-      .withIndex("by_date")
+      .withIndex("by_user_date", (q) => q.eq("userId", userId))
       .order("desc")
       .collect();
   },
 });
 
+
+const contentType = v.union(
+  v.literal("reply"),
+  v.literal("post"),
+  v.literal("thread"),
+  v.literal("community_post")
+);
+
+type ContentType = "reply" | "post" | "thread" | "community_post";
+
+interface DashboardItem {
+  type: ContentType;
+  date: string; // YYYY-MM-DD (UTC) of postedAt
+  algorithmScore: number;
+  views: number;
+  engagement: number; // likes + retweets + replies + bookmarks
+  strategy?: string;
+  niche?: string;
+}
+
+const toDate = (timestamp: number) => new Date(timestamp).toISOString().split('T')[0];
+
+/**
+ * Everything the analytics dashboard needs for a date range
+ * Aggregates posted content across posts, generatedPosts, generatedThreads and communityPosts
+ */
+export const getDashboard = query({
+  args: {
+    startDate: v.string(), // YYYY-MM-DD
+    endDate: v.string(), // YYYY-MM-DD
+    contentTypes: v.optional(v.array(contentType)), // omit for all
+  },
+  handler: async (ctx, args) => {
+    const userId = (await getUserId(ctx)) ?? ""; // signed out: matches no rows
+    const inRange = (date: string) => date >= args.startDate && date <= args.endDate;
+    const wanted = (type: ContentType) => !args.contentTypes || args.contentTypes.includes(type);
+
+    const items: DashboardItem[] = [];
+
+    // 1. Replies (and any posts/threads tracked in the posts table)
+    const creators = await ctx.db.query("creators").collect();
+    const nicheByUsername = new Map(creators.map(c => [c.username, c.primaryNiche]));
+
+    const posts = await ctx.db
+      .query("posts")
+      .withIndex("by_user_status", (q) => q.eq("userId", userId).eq("status", "posted"))
+      .collect();
+    for (const post of posts) {
+      if (!post.postedAt || !wanted(post.type)) continue;
+      const date = toDate(post.postedAt);
+      if (!inRange(date)) continue;
+
+      const perf = post.performance;
+      items.push({
+        type: post.type,
+        date,
+        algorithmScore: post.algorithmScore,
+        views: perf?.views ?? 0,
+        engagement: perf ? perf.likes + perf.retweets + perf.replies + perf.bookmarks : 0,
+        strategy: post.strategy,
+        niche: post.targetUsername ? nicheByUsername.get(post.targetUsername) : undefined,
+      });
+    }
+
+    // 2. Generated posts
+    if (wanted("post")) {
+      const generatedPosts = await ctx.db
+        .query("generatedPosts")
+        .withIndex("by_user_status", (q) => q.eq("userId", userId).eq("status", "posted"))
+        .collect();
+      for (const post of generatedPosts) {
+        if (!post.postedAt) continue;
+        const date = toDate(post.postedAt);
+        if (!inRange(date)) continue;
+
+        const perf = post.performance;
+        items.push({
+          type: "post",
+          date,
+          algorithmScore: post.algorithmScore,
+          views: perf?.views ?? 0,
+          engagement: perf ? perf.likes + perf.retweets + perf.replies + perf.bookmarks : 0,
+          strategy: post.postType,
+          niche: post.category,
+        });
+      }
+    }
+
+    // 3. Threads
+    if (wanted("thread")) {
+      const threads = await ctx.db
+        .query("generatedThreads")
+        .withIndex("by_user_status", (q) => q.eq("userId", userId).eq("status", "posted"))
+        .collect();
+      for (const thread of threads) {
+        if (!thread.postedAt) continue;
+        const date = toDate(thread.postedAt);
+        if (!inRange(date)) continue;
+
+        const perf = thread.performance;
+        items.push({
+          type: "thread",
+          date,
+          algorithmScore: thread.algorithmScore,
+          views: perf?.totalViews ?? 0,
+          engagement: perf ? perf.totalLikes + perf.totalRetweets + perf.totalReplies + perf.totalBookmarks : 0,
+          strategy: thread.threadType,
+        });
+      }
+    }
+
+    // 4. Community posts
+    if (wanted("community_post")) {
+      const communityPosts = await ctx.db
+        .query("communityPosts")
+        .withIndex("by_user_status", (q) => q.eq("userId", userId).eq("status", "posted"))
+        .collect();
+      for (const post of communityPosts) {
+        if (!post.postedAt) continue;
+        const date = toDate(post.postedAt);
+        if (!inRange(date)) continue;
+
+        const perf = post.performance;
+        items.push({
+          type: "community_post",
+          date,
+          algorithmScore: post.algorithmScore,
+          views: perf?.views ?? 0,
+          engagement: perf ? perf.likes + perf.retweets + perf.replies + perf.bookmarks : 0,
+          strategy: post.category,
+          niche: post.communityName,
+        });
+      }
+    }
+
+    // Engagement rate trend (only items with real views count toward the rate)
+    const byDate = new Map<string, { posted: number; views: number; engagement: number }>();
+    for (const item of items) {
+      const day = byDate.get(item.date) ?? { posted: 0, views: 0, engagement: 0 };
+      day.posted++;
+      if (item.views > 0) {
+        day.views += item.views;
+        day.engagement += item.engagement;
+      }
+      byDate.set(item.date, day);
+    }
+    const engagementTrend = Array.from(byDate.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([date, day]) => ({
+        date,
+        posted: day.posted,
+        views: day.views,
+        engagement: day.engagement,
+        engagementRate: day.views > 0 ? (day.engagement / day.views) * 100 : 0,
+      }));
+
+    // Algorithm score vs actual engagement (only items with performance data)
+    const scoreVsEngagement = items
+      .filter(item => item.views > 0 || item.engagement > 0)
+      .map(item => ({
+        type: item.type,
+        algorithmScore: item.algorithmScore,
+        engagement: item.engagement,
+      }));
+
+    // Best strategies per niche
+    const strategyGroups = new Map<string, { niche: string; strategy: string; count: number; engagement: number; score: number }>();
+    for (const item of items) {
+      if (!item.strategy) continue;
+      const niche = item.niche ?? "unknown";
+      const key = `${niche}::${item.strategy}`;
+      const group = strategyGroups.get(key) ?? { niche, strategy: item.strategy, count: 0, engagement: 0, score: 0 };
+      group.count++;
+      group.engagement += item.engagement;
+      group.score += item.algorithmScore;
+      strategyGroups.set(key, group);
+    }
+    const strategiesByNiche = Array.from(strategyGroups.values())
+      .map(group => ({
+        niche: group.niche,
+        strategy: group.strategy,
+        count: group.count,
+        avgEngagement: group.engagement / group.count,
+        avgScore: group.score / group.count,
+      }))
+      .sort((a, b) => a.niche.localeCompare(b.niche) || b.avgEngagement - a.avgEngagement);
+
+    // Follower growth + SubWise conversion from the metrics logged with each day's input
+    const dailyInputs = await ctx.db
+      .query("dailyInput")
+      .withIndex("by_user_date", (q) => q.eq("userId", userId).lte("date", args.endDate))
+      .collect();
+    const threadInputs = await ctx.db
+      .query("threadInput")
+      .withIndex("by_user_date", (q) => q.eq("userId", userId).lte("date", args.endDate))
+      .collect();
+
+    const personalContext = await ctx.db
+      .query("personalContext")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .first();
+
+    const { followerGrowth, subwise } = buildGrowthSeries(
+      [...dailyInputs, ...threadInputs].map(input => ({
+        date: input.date,
+        followers: input.metrics.followers,
+        subwiseUsers: input.metrics.subwiseUsers,
+        updatedAt: input.updatedAt,
+      })),
+      args.startDate,
+      args.endDate,
+      personalContext?.currentSubWiseUsers
+    );
+
+    // Reply activity from dailyStats
+    const dailyStats = await ctx.db
+      .query("dailyStats")
+      .withIndex("by_user_date", (q) =>
+        q.eq("userId", userId).gte("date", args.startDate).lte("date", args.endDate)
+      )
+      .collect();
+
+    const withPerformance = items.filter(item => item.views > 0);
+    const totals = {
+      posted: items.length,
+      withPerformance: withPerformance.length,
+      views: withPerformance.reduce((sum, item) => sum + item.views, 0),
+      engagement: withPerformance.reduce((sum, item) => sum + item.engagement, 0),
+      avgScore: items.length > 0
+        ? items.reduce((sum, item) => sum + item.algorithmScore, 0) / items.length
+        : 0,
+      repliesSent: dailyStats.reduce((sum, s) => sum + s.repliesSent, 0),
+    };
+
+    return {
+      totals,
+      followerGrowth,
+      engagementTrend,
+      scoreVsEngagement,
+      strategiesByNiche,
+      subwise,
+    };
+  },
+});
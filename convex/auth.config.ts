@@ -0,0 +1,9 @@
+// Clerk issues the JWTs Convex verifies (JWT template named "convex" in the Clerk dashboard)
+export default {
+  providers: [
+    {
+      domain: process.env.CLERK_JWT_ISSUER_DOMAIN,
+      applicationID: "convex",
+    },
+  ],
+};
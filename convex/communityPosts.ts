@@ -1,5 +1,9 @@
 import { v } from "convex/values";
 import { mutation, query } from "./_generated/server";
+import { getUserId, requireOwned, requireUserId } from "./users";
+import { buildRecentContentIndex } from "./contentSimilarity";
+import type { SimilarityMatch } from "../lib/content-similarity";
+import { tweetLengthIssue } from "../lib/tweet-length";
 
 /**
  * Save generated community posts
@@ -24,14 +28,19 @@ export const saveGenerated = mutation({
     })),
   },
   handler: async (ctx, args) => {
+    const userId = await requireUserId(ctx);
     const now = Date.now();
     const ids = [];
 
+    // Flag near-duplicates of recent content (and of earlier posts in this batch)
+    const similarity = await buildRecentContentIndex(ctx, userId);
+
     console.log(`💾 Saving ${args.posts.length} community posts to Convex`);
 
     for (const post of args.posts) {
       try {
         const insertData: {
+          userId: string;
           date: string;
           communityName: string;
           content: string;
@@ -49,7 +58,9 @@ export const saveGenerated = mutation({
           createdAt: number;
           updatedAt: number;
           mediaType?: string;
+          similarTo?: SimilarityMatch;
         } = {
+          userId,
           date: post.date,
           communityName: post.communityName,
           content: post.content,
@@ -68,6 +79,13 @@ export const saveGenerated = mutation({
           insertData.mediaType = post.mediaType;
         }
 
+        const similarTo = similarity.findNearDuplicate(post.content);
+        if (similarTo) {
+          insertData.similarTo = similarTo;
+          console.log(`🔁 ${post.communityName} post is a near-duplicate (${Math.round(similarTo.similarity * 100)}%) of ${similarTo.source} content`);
+        }
+        similarity.add({ source: "batch", content: post.content, postedAt: now });
+
         const id = await ctx.db.insert("communityPosts", insertData);
         ids.push(id);
         console.log(`✅ Inserted post for ${post.communityName}`);
@@ -90,9 +108,12 @@ export const getByDate = query({
     date: v.string(),
   },
   handler: async (ctx, args) => {
+    const userId = await getUserId(ctx);
+    if (!userId) return [];
+
     return await ctx.db
       .query("communityPosts")
-      .withIndex("by_date", (q) => q.eq("date", args.date))
+      .withIndex("by_user_date", (q) => q.eq("userId", userId).eq("date", args.date))
       .order("desc")
       .collect();
   },
@@ -107,9 +128,14 @@ export const getByCommunity = query({
     limit: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
+    const userId = await getUserId(ctx);
+    if (!userId) return [];
+
     const query = ctx.db
       .query("communityPosts")
-      .withIndex("by_community", (q) => q.eq("communityName", args.communityName))
+      .withIndex("by_user_community", (q) =>
+        q.eq("userId", userId).eq("communityName", args.communityName)
+      )
       .order("desc");
 
     if (args.limit) {
@@ -129,10 +155,13 @@ export const getByDateAndCommunity = query({
     communityName: v.string(),
   },
   handler: async (ctx, args) => {
+    const userId = await getUserId(ctx);
+    if (!userId) return [];
+
     return await ctx.db
       .query("communityPosts")
-      .withIndex("by_date_community", (q) =>
-        q.eq("date", args.date).eq("communityName", args.communityName)
+      .withIndex("by_user_date_community", (q) =>
+        q.eq("userId", userId).eq("date", args.date).eq("communityName", args.communityName)
       )
       .collect();
   },
@@ -143,18 +172,21 @@ export const getByDateAndCommunity = query({
  */
 export const getToday = query({
   handler: async (ctx) => {
+    const userId = await getUserId(ctx);
+    if (!userId) return [];
+
     const today = new Date().toISOString().split('T')[0];
 
     return await ctx.db
       .query("communityPosts")
-      .withIndex("by_date", (q) => q.eq("date", today))
+      .withIndex("by_user_date", (q) => q.eq("userId", userId).eq("date", today))
       .order("desc")
       .collect();
   },
 });
 
 /**
- * Update a community post (edit)
+ * Update a community post (edit) - has to fit X's weighted limit
  */
 export const update = mutation({
   args: {
@@ -162,6 +194,10 @@ export const update = mutation({
     content: v.string(),
   },
   handler: async (ctx, args) => {
+    await requireOwned(ctx, args.id);
+    const issue = tweetLengthIssue(args.content, "Post");
+    if (issue) throw new Error(issue);
+
     await ctx.db.patch(args.id, {
       content: args.content,
       status: "edited",
@@ -178,6 +214,7 @@ export const approve = mutation({
     id: v.id("communityPosts"),
   },
   handler: async (ctx, args) => {
+    await requireOwned(ctx, args.id);
     await ctx.db.patch(args.id, {
       status: "approved",
       updatedAt: Date.now(),
@@ -194,6 +231,7 @@ export const markAsPosted = mutation({
     tweetUrl: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
+    const post = await requireOwned(ctx, args.id);
     const now = Date.now();
 
     await ctx.db.patch(args.id, {
@@ -204,23 +242,21 @@ export const markAsPosted = mutation({
     });
 
     // Add to content bank for tracking
-    const post = await ctx.db.get(args.id);
-    if (post) {
-      const contentHash = Buffer.from(post.content).toString('base64');
-
-      await ctx.db.insert("contentBank", {
-        content: post.content,
-        contentHash,
-        topics: [post.communityName, post.category],
-        postedAt: now,
-        performance: {
-          likes: 0,
-          retweets: 0,
-          replies: 0,
-        },
-        createdAt: now,
-      });
-    }
+    const contentHash = Buffer.from(post.content).toString('base64');
+
+    await ctx.db.insert("contentBank", {
+      userId: post.userId,
+      content: post.content,
+      contentHash,
+      topics: [post.communityName, post.category],
+      postedAt: now,
+      performance: {
+        likes: 0,
+        retweets: 0,
+        replies: 0,
+      },
+      createdAt: now,
+    });
   },
 });
 
@@ -232,6 +268,7 @@ export const reject = mutation({
     id: v.id("communityPosts"),
   },
   handler: async (ctx, args) => {
+    await requireOwned(ctx, args.id);
     await ctx.db.patch(args.id, {
       status: "rejected",
       updatedAt: Date.now(),
@@ -247,6 +284,7 @@ export const remove = mutation({
     id: v.id("communityPosts"),
   },
   handler: async (ctx, args) => {
+    await requireOwned(ctx, args.id);
     await ctx.db.delete(args.id);
   },
 });
@@ -0,0 +1,66 @@
+import { v } from "convex/values";
+import { query, type QueryCtx } from "./_generated/server";
+import { getUserId } from "./users";
+import {
+  createSimilarityIndex,
+  DUPLICATE_LOOKBACK_DAYS,
+  type PostedContent,
+  type SimilarityIndex,
+} from "../lib/content-similarity";
+
+/**
+ * Everything the user posted in the last N days (content bank, replies,
+ * community posts) - the corpus generated content must not repeat
+ */
+export async function loadRecentContent(
+  ctx: QueryCtx,
+  userId: string,
+  days: number = DUPLICATE_LOOKBACK_DAYS
+): Promise<PostedContent[]> {
+  const cutoff = Date.now() - days * 24 * 60 * 60 * 1000;
+
+  const banked = await ctx.db
+    .query("contentBank")
+    .withIndex("by_user_posted", (q) => q.eq("userId", userId).gte("postedAt", cutoff))
+    .collect();
+  const posts = await ctx.db
+    .query("posts")
+    .withIndex("by_user_status", (q) => q.eq("userId", userId).eq("status", "posted"))
+    .collect();
+  const communityPosts = await ctx.db
+    .query("communityPosts")
+    .withIndex("by_user_status", (q) => q.eq("userId", userId).eq("status", "posted"))
+    .collect();
+
+  return [
+    ...banked.map(item => ({ source: "contentBank" as const, content: item.content, postedAt: item.postedAt })),
+    ...posts
+      .filter(post => (post.postedAt ?? post.createdAt) >= cutoff)
+      .map(post => ({ source: "posts" as const, content: post.content, postedAt: post.postedAt ?? post.createdAt })),
+    ...communityPosts
+      .filter(post => (post.postedAt ?? post.updatedAt) >= cutoff)
+      .map(post => ({ source: "communityPosts" as const, content: post.content, postedAt: post.postedAt ?? post.updatedAt })),
+  ];
+}
+
+/**
+ * Similarity index over the user's recent content (used while saving)
+ */
+export async function buildRecentContentIndex(ctx: QueryCtx, userId: string): Promise<SimilarityIndex> {
+  return createSimilarityIndex(await loadRecentContent(ctx, userId));
+}
+
+/**
+ * Recent posted content for the reply route's near-duplicate check
+ */
+export const getRecentContent = query({
+  args: {
+    days: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getUserId(ctx);
+    if (!userId) return [];
+
+    return await loadRecentContent(ctx, userId, args.days);
+  },
+});
@@ -1,5 +1,23 @@
 import { v } from "convex/values";
-import { mutation, query } from "./_generated/server";
+import { mutation, query, type MutationCtx } from "./_generated/server";
+import { getUserId, requireUserId } from "./users";
+
+/**
+ * The user's persona (personalContext), if they've set one up
+ */
+async function getPersona(ctx: MutationCtx, userId: string) {
+  return await ctx.db
+    .query("personalContext")
+    .withIndex("by_user", (q) => q.eq("userId", userId))
+    .first();
+}
+
+/**
+ * Follower goal in the "3 → 250 followers in 30 days" form
+ */
+function followerGoalText(persona: { currentFollowers: number; followerGoal: number; followerGoalDeadline: string }) {
+  return `${persona.currentFollowers} → ${persona.followerGoal} followers in ${persona.followerGoalDeadline}`;
+}
 
 /**
  * Initialize posts context with base profile info
@@ -12,13 +30,14 @@ export const initializePostsContext = mutation({
     projects: v.array(v.string()),
   },
   handler: async (ctx, args) => {
+    const userId = await requireUserId(ctx);
     const existing = await ctx.db
       .query("postsContext")
-      .withIndex("by_key", (q) => q.eq("key", "main"))
+      .withIndex("by_user", (q) => q.eq("userId", userId))
       .first();
 
     const contextData = {
-      key: "main",
+      userId,
       baseProfile: {
         bio: args.bio,
         currentGoals: args.currentGoals,
@@ -54,20 +73,22 @@ export const addToPostsContext = mutation({
     }),
   },
   handler: async (ctx, args) => {
+    const userId = await requireUserId(ctx);
     const context = await ctx.db
       .query("postsContext")
-      .withIndex("by_key", (q) => q.eq("key", "main"))
+      .withIndex("by_user", (q) => q.eq("userId", userId))
       .first();
 
     if (!context) {
-      // Initialize if doesn't exist
+      // Initialize if doesn't exist - seeded from the user's persona (bio is set via initializePostsContext)
+      const persona = await getPersona(ctx, userId);
       await ctx.db.insert("postsContext", {
-        key: "main",
+        userId,
         baseProfile: {
-          bio: "Aspiring pro MMA fighter building @usesubwise (subscription tracker) to 100 paid users. Documenting everything publicly.",
-          currentGoals: ["3 → 250 followers in 30 days", "Build SubWise to 100 users"],
-          interests: ["MMA", "SaaS", "Tech", "Philosophy"],
-          projects: ["SubWise", "X Reply Optimizer"],
+          bio: "",
+          currentGoals: persona ? [followerGoalText(persona)] : [],
+          interests: persona?.interests ?? [],
+          projects: persona?.projects.map(p => p.name) ?? [],
         },
         recentInputs: [{
           date: args.date,
@@ -107,9 +128,12 @@ export const addToPostsContext = mutation({
  */
 export const getPostsContext = query({
   handler: async (ctx) => {
+    const userId = await getUserId(ctx);
+    if (!userId) return null;
+
     const context = await ctx.db
       .query("postsContext")
-      .withIndex("by_key", (q) => q.eq("key", "main"))
+      .withIndex("by_user", (q) => q.eq("userId", userId))
       .first();
 
     return context || null;
@@ -126,13 +150,14 @@ export const initializeThreadsContext = mutation({
     currentDay: v.number(),
   },
   handler: async (ctx, args) => {
+    const userId = await requireUserId(ctx);
     const existing = await ctx.db
       .query("threadsContext")
-      .withIndex("by_key", (q) => q.eq("key", "main"))
+      .withIndex("by_user", (q) => q.eq("userId", userId))
       .first();
 
     const contextData = {
-      key: "main",
+      userId,
       challengeInfo: {
         startDate: args.startDate,
         goal: args.goal,
@@ -173,18 +198,20 @@ export const addToThreadsContext = mutation({
     }),
   },
   handler: async (ctx, args) => {
+    const userId = await requireUserId(ctx);
     const context = await ctx.db
       .query("threadsContext")
-      .withIndex("by_key", (q) => q.eq("key", "main"))
+      .withIndex("by_user", (q) => q.eq("userId", userId))
       .first();
 
     if (!context) {
       // Initialize if doesn't exist
+      const persona = await getPersona(ctx, userId);
       await ctx.db.insert("threadsContext", {
-        key: "main",
+        userId,
         challengeInfo: {
-          startDate: args.date,
-          goal: "3 → 250 followers in 30 days",
+          startDate: persona?.challengeStartDate ?? args.date,
+          goal: persona ? followerGoalText(persona) : "Grow on X in 30 days",
           currentDay: args.challengeDay,
         },
         recentReflections: [{
@@ -234,9 +261,12 @@ export const addToThreadsContext = mutation({
  */
 export const getThreadsContext = query({
   handler: async (ctx) => {
+    const userId = await getUserId(ctx);
+    if (!userId) return null;
+
     const context = await ctx.db
       .query("threadsContext")
-      .withIndex("by_key", (q) => q.eq("key", "main"))
+      .withIndex("by_user", (q) => q.eq("userId", userId))
       .first();
 
     return context || null;
@@ -253,9 +283,10 @@ export const addMilestone = mutation({
     impact: v.string(),
   },
   handler: async (ctx, args) => {
+    const userId = await requireUserId(ctx);
     const context = await ctx.db
       .query("threadsContext")
-      .withIndex("by_key", (q) => q.eq("key", "main"))
+      .withIndex("by_user", (q) => q.eq("userId", userId))
       .first();
 
     if (!context) return;
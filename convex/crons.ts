@@ -0,0 +1,55 @@
+import { cronJobs } from "convex/server";
+import { internal } from "./_generated/api";
+
+const crons = cronJobs();
+
+// Refit the engagement model from the latest performance data
+crons.daily(
+  "train engagement model",
+  { hourUTC: 4, minuteUTC: 0 },
+  internal.engagementModel.train
+);
+
+// Pull real metrics for posted content (1h / 24h / 7d snapshots)
+crons.hourly(
+  "ingest performance metrics",
+  { minuteUTC: 15 },
+  internal.performanceIngestion.ingest
+);
+
+// Re-rank library templates by how their posts actually performed
+crons.daily(
+  "refresh template success rates",
+  { hourUTC: 4, minuteUTC: 30 },
+  internal.templates.refreshSuccessRates
+);
+
+// Mine what's working from the challenge data into threadsContext.patterns
+crons.daily(
+  "mine challenge patterns",
+  { hourUTC: 5, minuteUTC: 0 },
+  internal.patternMining.mine
+);
+
+// Drop reply queue candidates once their reply window closes
+crons.interval(
+  "expire reply queue",
+  { minutes: 5 },
+  internal.replyQueue.expireStale
+);
+
+// Poll watched creators for new tweets (each creator has its own adaptive interval)
+crons.interval(
+  "poll creator watchlist",
+  { minutes: 5 },
+  internal.watchlist.poll
+);
+
+// Drop expired twitterapi.io responses from the cache
+crons.hourly(
+  "purge twitter cache",
+  { minuteUTC: 45 },
+  internal.twitter.purgeExpired
+);
+
+export default crons;
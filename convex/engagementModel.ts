@@ -0,0 +1,131 @@
+import { v } from "convex/values";
+import { internalAction, internalMutation, internalQuery, query } from "./_generated/server";
+import { api, internal } from "./_generated/api";
+import { analyzeReplyFeatures } from "../lib/x-algorithm";
+import {
+  fitEngagementModel,
+  MIN_TRAINING_SAMPLES,
+  type EngagementSample,
+} from "../lib/engagement-model";
+
+/**
+ * Collect every sent reply with real performance data as a training sample
+ * Standalone posts stay out - they have no tweet age, and a made-up one would
+ * teach the model that every post is an instant reply
+ */
+export const getTrainingSamples = internalQuery({
+  args: {},
+  handler: async (ctx) => {
+    const samples: EngagementSample[] = [];
+
+    // We know strategy, target niche and tweet age
+    const creators = await ctx.db.query("creators").collect();
+    const nicheByUsername = new Map(creators.map(c => [c.username, c.primaryNiche]));
+
+    const replies = await ctx.db
+      .query("posts")
+      .withIndex("by_status", (q) => q.eq("status", "posted"))
+      .collect();
+
+    for (const reply of replies) {
+      // No timing means no honest minutesSincePost - skip rather than guess 0
+      if (!reply.performance || reply.minutesSincePosted === undefined) continue;
+      const niche = reply.targetUsername ? nicheByUsername.get(reply.targetUsername) : undefined;
+
+      samples.push({
+        features: analyzeReplyFeatures(reply.content),
+        ...(reply.strategy ? { strategy: reply.strategy } : {}),
+        ...(niche ? { niche } : {}),
+        minutesSincePost: reply.minutesSincePosted,
+        performance: {
+          replies: reply.performance.replies,
+          likes: reply.performance.likes,
+          profileClicks: reply.performance.profileClicks,
+        },
+      });
+    }
+
+    return samples;
+  },
+});
+
+/**
+ * Store a newly fitted model version
+ */
+export const saveModel = internalMutation({
+  args: {
+    version: v.number(),
+    featureNames: v.array(v.string()),
+    weights: v.object({
+      replies: v.array(v.number()),
+      likes: v.array(v.number()),
+      profileClicks: v.array(v.number()),
+    }),
+    sampleCount: v.number(),
+    trainingError: v.object({
+      replies: v.number(),
+      likes: v.number(),
+      profileClicks: v.number(),
+    }),
+    trainedAt: v.number(),
+  },
+  handler: async (ctx, args) => {
+    return await ctx.db.insert("engagementModels", args);
+  },
+});
+
+/**
+ * Get the latest model version (used by predictEngagement)
+ */
+export const getActive = query({
+  args: {},
+  handler: async (ctx) => {
+    return await ctx.db
+      .query("engagementModels")
+      .withIndex("by_version")
+      .order("desc")
+      .first();
+  },
+});
+
+/**
+ * List model versions, newest first (without weights)
+ */
+export const listVersions = query({
+  args: {},
+  handler: async (ctx) => {
+    const models = await ctx.db
+      .query("engagementModels")
+      .withIndex("by_version")
+      .order("desc")
+      .collect();
+
+    return models.map(({ weights: _weights, ...meta }) => meta);
+  },
+});
+
+/**
+ * Fit a new model version from historical performance
+ * Runs nightly (see crons.ts) - internal so no client can overwrite the shared model
+ */
+export const train = internalAction({
+  args: {},
+  handler: async (ctx): Promise<{ trained: boolean; version?: number; sampleCount: number }> => {
+    const samples = await ctx.runQuery(internal.engagementModel.getTrainingSamples, {});
+
+    if (samples.length < MIN_TRAINING_SAMPLES) {
+      console.log(`⏭️ Skipping training: ${samples.length}/${MIN_TRAINING_SAMPLES} samples with performance data`);
+      return { trained: false, sampleCount: samples.length };
+    }
+
+    const latest = await ctx.runQuery(api.engagementModel.getActive, {});
+    const model = fitEngagementModel(samples, (latest?.version ?? 0) + 1);
+
+    await ctx.runMutation(internal.engagementModel.saveModel, model);
+
+    console.log(`✅ Trained engagement model v${model.version} on ${model.sampleCount} samples`);
+    console.log(`   RMSE - replies: ${model.trainingError.replies.toFixed(2)}, likes: ${model.trainingError.likes.toFixed(2)}, profile clicks: ${model.trainingError.profileClicks.toFixed(2)}`);
+
+    return { trained: true, version: model.version, sampleCount: model.sampleCount };
+  },
+});
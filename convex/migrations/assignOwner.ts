@@ -0,0 +1,39 @@
+import { v } from "convex/values";
+import { internalMutation } from "../_generated/server";
+import { OWNED_TABLES } from "../users";
+
+/**
+ * Migration: Give every row from the single-persona days an owner
+ * Run once after deploying multi-user support, with the original user's id
+ * (sign in and read it from `users.me`):
+ *
+ *   npx convex run migrations/assignOwner:assignExistingRows '{"userId": "https://...|user_..."}'
+ */
+export const assignExistingRows = internalMutation({
+  args: {
+    userId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const updated: Record<string, number> = {};
+
+    for (const table of OWNED_TABLES) {
+      const rows = await ctx.db.query(table).collect();
+      let count = 0;
+
+      for (const row of rows) {
+        if (row.userId) continue;
+
+        // Contexts used fixed keys ("main", "main_context") - userId replaces them
+        await ctx.db.patch(row._id, "key" in row
+          ? { userId: args.userId, key: undefined }
+          : { userId: args.userId });
+        count++;
+      }
+
+      updated[table] = count;
+    }
+
+    console.log(`✅ Migration complete: Assigned rows to ${args.userId}`, updated);
+    return { success: true, updated };
+  },
+});
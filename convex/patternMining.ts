@@ -0,0 +1,93 @@
+import { v } from "convex/values";
+import { internalAction, internalMutation, internalQuery } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { buildPatternDays, minePatterns } from "../lib/pattern-mining";
+
+/**
+ * Every user with a threads context (the challenge is what gets mined)
+ */
+export const getMiningTargets = internalQuery({
+  args: {},
+  handler: async (ctx) => {
+    const contexts = await ctx.db.query("threadsContext").collect();
+    return contexts
+      .filter(context => context.userId)
+      .map(context => ({ contextId: context._id, userId: context.userId! }));
+  },
+});
+
+/**
+ * A user's daily inputs, reply stats and posted posts
+ */
+export const getMiningInputs = internalQuery({
+  args: { userId: v.string() },
+  handler: async (ctx, args) => {
+    const inputs = await ctx.db
+      .query("threadInput")
+      .withIndex("by_user_date", (q) => q.eq("userId", args.userId))
+      .collect();
+    const stats = await ctx.db
+      .query("dailyStats")
+      .withIndex("by_user_date", (q) => q.eq("userId", args.userId))
+      .collect();
+    const posts = await ctx.db
+      .query("generatedPosts")
+      .withIndex("by_user_date", (q) => q.eq("userId", args.userId))
+      .filter((q) => q.eq(q.field("status"), "posted"))
+      .collect();
+
+    return {
+      inputs: inputs.map(input => ({
+        date: input.date,
+        challengeDay: input.challengeDay,
+        followers: input.metrics.followers,
+        trainingMinutes: input.metrics.trainingMinutes,
+      })),
+      stats: stats.map(stat => ({ date: stat.date, repliesSent: stat.repliesSent })),
+      posts: posts.map(post => ({ date: post.date, postType: post.postType, performance: post.performance })),
+    };
+  },
+});
+
+/**
+ * Replace the mined patterns on a threads context
+ */
+export const savePatterns = internalMutation({
+  args: {
+    contextId: v.id("threadsContext"),
+    patterns: v.object({
+      whatWorks: v.array(v.string()),
+      whatDoesnt: v.array(v.string()),
+      surprises: v.array(v.string()),
+    }),
+  },
+  handler: async (ctx, args) => {
+    await ctx.db.patch(args.contextId, { patterns: args.patterns, lastUpdated: Date.now() });
+  },
+});
+
+/**
+ * Correlate each user's daily habits and post types with follower growth and
+ * engagement, and write the findings to threadsContext.patterns
+ * Runs nightly (see crons.ts)
+ */
+export const mine = internalAction({
+  args: {},
+  handler: async (ctx): Promise<{ users: number; patterns: number }> => {
+    const targets = await ctx.runQuery(internal.patternMining.getMiningTargets, {});
+    let total = 0;
+
+    for (const target of targets) {
+      const { inputs, stats, posts } = await ctx.runQuery(internal.patternMining.getMiningInputs, { userId: target.userId });
+      const patterns = minePatterns(buildPatternDays(inputs, stats, posts), posts);
+
+      await ctx.runMutation(internal.patternMining.savePatterns, { contextId: target.contextId, patterns });
+      total += patterns.whatWorks.length + patterns.whatDoesnt.length + patterns.surprises.length;
+    }
+
+    if (targets.length > 0) {
+      console.log(`🔎 Pattern mining: ${total} patterns for ${targets.length} users`);
+    }
+    return { users: targets.length, patterns: total };
+  },
+});
@@ -0,0 +1,263 @@
+import { v } from "convex/values";
+import { internalAction, internalMutation, internalQuery, query } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { dueSnapshot, snapshotBatch, trackedTweetUrl, type SnapshotWindow } from "../lib/performance-snapshots";
+import { getUserId } from "./users";
+import { twitterApiFor } from "./twitter";
+
+// Keep each run well inside action limits (and the twitterapi.io budget)
+const MAX_ITEMS_PER_RUN = 50;
+
+const sourceTable = v.union(
+  v.literal("posts"),
+  v.literal("generatedPosts"),
+  v.literal("communityPosts"),
+  v.literal("generatedThreads")
+);
+
+const snapshotWindow = v.union(v.literal("1h"), v.literal("24h"), v.literal("7d"));
+
+type SourceTable = "posts" | "generatedPosts" | "communityPosts" | "generatedThreads";
+
+interface DueItem {
+  sourceTable: SourceTable;
+  sourceId: string;
+  tweetId: string;
+  window: SnapshotWindow;
+  closesAt: number;
+}
+
+/**
+ * Find posted items whose next snapshot window has been reached
+ *
+ * A window is only captured while the item is still close to that age (see
+ * lib/performance-snapshots) - an item we start tracking on day 3 gets no 24h
+ * snapshot rather than day-3 numbers labelled 24h.
+ */
+export const getDueItems = internalQuery({
+  args: {},
+  handler: async (ctx) => {
+    const now = Date.now();
+    const candidates: Array<{ sourceTable: SourceTable; sourceId: string; url?: string; postedAt?: number }> = [];
+
+    const posts = await ctx.db
+      .query("posts")
+      .withIndex("by_status", (q) => q.eq("status", "posted"))
+      .collect();
+    for (const post of posts) {
+      candidates.push({ sourceTable: "posts", sourceId: post._id, url: trackedTweetUrl(post), postedAt: post.postedAt });
+    }
+
+    const generatedPosts = await ctx.db
+      .query("generatedPosts")
+      .withIndex("by_status", (q) => q.eq("status", "posted"))
+      .collect();
+    for (const post of generatedPosts) {
+      candidates.push({ sourceTable: "generatedPosts", sourceId: post._id, url: post.tweetUrl, postedAt: post.postedAt });
+    }
+
+    const communityPosts = await ctx.db
+      .query("communityPosts")
+      .withIndex("by_status", (q) => q.eq("status", "posted"))
+      .collect();
+    for (const post of communityPosts) {
+      candidates.push({ sourceTable: "communityPosts", sourceId: post._id, url: post.tweetUrl, postedAt: post.postedAt });
+    }
+
+    const threads = await ctx.db
+      .query("generatedThreads")
+      .withIndex("by_status", (q) => q.eq("status", "posted"))
+      .collect();
+    for (const thread of threads) {
+      candidates.push({ sourceTable: "generatedThreads", sourceId: thread._id, url: thread.threadUrl, postedAt: thread.postedAt });
+    }
+
+    const due: DueItem[] = [];
+
+    for (const candidate of candidates) {
+      // Cheap check first - most items are between windows
+      if (!dueSnapshot(candidate, [], now)) continue;
+
+      const existing = await ctx.db
+        .query("performanceSnapshots")
+        .withIndex("by_source", (q) =>
+          q.eq("sourceTable", candidate.sourceTable).eq("sourceId", candidate.sourceId)
+        )
+        .collect();
+      const snapshot = dueSnapshot(candidate, existing.map(s => s.window), now);
+      if (!snapshot) continue;
+
+      due.push({
+        sourceTable: candidate.sourceTable,
+        sourceId: candidate.sourceId,
+        ...snapshot,
+      });
+    }
+
+    return due;
+  },
+});
+
+/**
+ * Store a snapshot and refresh `performance` on the source row with the latest numbers
+ */
+export const recordSnapshot = internalMutation({
+  args: {
+    sourceTable,
+    sourceId: v.string(),
+    tweetId: v.string(),
+    window: snapshotWindow,
+    views: v.number(),
+    likes: v.number(),
+    retweets: v.number(),
+    replies: v.number(),
+    quotes: v.number(),
+    bookmarks: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const now = Date.now();
+
+    if (args.sourceTable === "generatedThreads") {
+      const threadId = ctx.db.normalizeId("generatedThreads", args.sourceId);
+      if (!threadId) return;
+
+      const thread = await ctx.db.get(threadId);
+      if (!thread) return;
+
+      await ctx.db.insert("performanceSnapshots", {
+        ...args,
+        userId: thread.userId,
+        capturedAt: now,
+      });
+
+      // Thread metrics come from the first tweet (the one threadUrl points at)
+      await ctx.db.patch(threadId, {
+        performance: {
+          totalViews: args.views,
+          totalLikes: args.likes,
+          totalRetweets: args.retweets,
+          totalReplies: args.replies,
+          totalBookmarks: args.bookmarks,
+        },
+        updatedAt: now,
+      });
+      return;
+    }
+
+    const id = ctx.db.normalizeId(args.sourceTable, args.sourceId);
+    if (!id) return;
+
+    const row = await ctx.db.get(id);
+    if (!row) return;
+
+    await ctx.db.insert("performanceSnapshots", {
+      ...args,
+      userId: row.userId,
+      capturedAt: now,
+    });
+
+    // The API doesn't expose profile clicks - keep whatever was entered by hand
+    await ctx.db.patch(id, {
+      performance: {
+        views: args.views,
+        likes: args.likes,
+        retweets: args.retweets,
+        replies: args.replies,
+        bookmarks: args.bookmarks,
+        profileClicks: row.performance?.profileClicks ?? 0,
+      },
+      updatedAt: now,
+    });
+  },
+});
+
+/**
+ * Pull metrics for everything that's due (runs hourly, see crons.ts)
+ */
+export const ingest = internalAction({
+  args: {},
+  handler: async (ctx): Promise<{ due: number; captured: number; failed: number; deferred: number }> => {
+    const due = await ctx.runQuery(internal.performanceIngestion.getDueItems, {});
+    const { batch, dropped } = snapshotBatch(due, MAX_ITEMS_PER_RUN);
+    const twitterApi = twitterApiFor(ctx);
+
+    console.log(`📊 Performance ingestion: ${due.length} due, processing ${batch.length}`);
+    if (dropped > 0) {
+      console.warn(`⚠️ ${dropped} due snapshots left for the next run (their windows close latest)`);
+    }
+
+    let captured = 0;
+    let failed = 0;
+
+    for (const item of batch) {
+      const metrics = await twitterApi.getTweetMetrics(item.tweetId);
+
+      if (!metrics) {
+        failed++;
+        continue;
+      }
+
+      await ctx.runMutation(internal.performanceIngestion.recordSnapshot, {
+        sourceTable: item.sourceTable,
+        sourceId: item.sourceId,
+        tweetId: item.tweetId,
+        window: item.window,
+        views: metrics.views,
+        likes: metrics.likes,
+        retweets: metrics.retweets,
+        replies: metrics.replies,
+        quotes: metrics.quotes,
+        bookmarks: metrics.bookmarks,
+      });
+      captured++;
+    }
+
+    console.log(`✅ Captured ${captured} snapshots (${failed} failed)`);
+
+    return { due: due.length, captured, failed, deferred: dropped };
+  },
+});
+
+/**
+ * Get the snapshot time series for one item
+ */
+export const getSnapshots = query({
+  args: {
+    sourceTable,
+    sourceId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getUserId(ctx);
+    if (!userId) return [];
+
+    const snapshots = await ctx.db
+      .query("performanceSnapshots")
+      .withIndex("by_source", (q) =>
+        q.eq("sourceTable", args.sourceTable).eq("sourceId", args.sourceId)
+      )
+      .collect();
+
+    return snapshots.filter(s => s.userId === userId);
+  },
+});
+
+/**
+ * Get all snapshots captured in a time range (for dashboards)
+ */
+export const getSnapshotsInRange = query({
+  args: {
+    startTime: v.number(),
+    endTime: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getUserId(ctx);
+    if (!userId) return [];
+
+    return await ctx.db
+      .query("performanceSnapshots")
+      .withIndex("by_user_captured", (q) =>
+        q.eq("userId", userId).gte("capturedAt", args.startTime).lte("capturedAt", args.endTime)
+      )
+      .collect();
+  },
+});
@@ -1,5 +1,50 @@
 import { v } from "convex/values";
 import { mutation, query } from "./_generated/server";
+import { getUserId, requireUserId } from "./users";
+
+/**
+ * Starting persona for a new user - no projects, experiences or metrics yet,
+ * so the generators can't invent any until the user fills them in
+ */
+export function defaultPersonalContext(userId: string, startDate: string) {
+  return {
+    userId,
+    // Current metrics
+    currentFollowers: 0,
+    currentSubWiseUsers: 0,
+    currentSubWiseMRR: 0,
+    currentReplyOptimizerUsers: 0,
+    // Goals
+    followerGoal: 250,
+    followerGoalDeadline: "30 days",
+    subWiseUserGoal: 50,
+    // Stage
+    stage: "starting_out",
+    journeyStartDate: startDate,
+    daysIntoJourney: 1,
+    projects: [],
+    experiences: [],
+    interests: [],
+    skillLevel: {
+      mma: "beginner",
+      saas: "beginner",
+      coding: "beginner",
+      marketing: "beginner",
+    },
+    // Avoid claims
+    avoidClaims: [
+      "hitting_10k_mrr",
+      "scaling_to_1000_users",
+      "exit_stories",
+      "years_of_saas_experience",
+      "managing_teams",
+      "fundraising",
+    ],
+    // Metadata
+    lastUpdated: Date.now(),
+    updatedBy: "system",
+  };
+}
 
 /**
  * Get personal context (for reply generation)
@@ -7,9 +52,12 @@ import { mutation, query } from "./_generated/server";
 export const get = query({
   args: {},
   handler: async (ctx) => {
+    const userId = await getUserId(ctx);
+    if (!userId) return null;
+
     const context = await ctx.db
       .query("personalContext")
-      .filter((q) => q.eq(q.field("key"), "main_context"))
+      .withIndex("by_user", (q) => q.eq("userId", userId))
       .first();
 
     return context;
@@ -22,106 +70,20 @@ export const get = query({
 export const initialize = mutation({
   args: {},
   handler: async (ctx) => {
+    const userId = await requireUserId(ctx);
+
     // Check if already exists
     const existing = await ctx.db
       .query("personalContext")
-      .filter((q) => q.eq(q.field("key"), "main_context"))
+      .withIndex("by_user", (q) => q.eq("userId", userId))
       .first();
 
     if (existing) {
       return existing._id;
     }
 
-    // Create default context
-    const contextId = await ctx.db.insert("personalContext", {
-      key: "main_context",
-      // Current metrics
-      currentFollowers: 3,
-      currentSubWiseUsers: 0,
-      currentSubWiseMRR: 0,
-      currentReplyOptimizerUsers: 0,
-      // Goals
-      followerGoal: 250,
-      followerGoalDeadline: "30 days",
-      subWiseUserGoal: 50,
-      // Stage
-      stage: "starting_out",
-      journeyStartDate: "2025-01-12", // Today's date
-      daysIntoJourney: 1,
-      // Projects
-      projects: [
-        {
-          name: "SubWise",
-          description: "Subscription tracker for managing recurring payments",
-          stage: "building",
-          users: 0,
-          mrr: 0,
-        },
-        {
-          name: "X Reply Optimizer",
-          description: "Algorithm-optimized X reply generator",
-          stage: "building",
-          users: 0,
-          mrr: 0,
-        },
-      ],
-      // Experiences
-      experiences: [
-        {
-          topic: "starting_from_scratch",
-          experience: "At 3 followers trying to hit 250 in 30 days",
-          context: "Beginning of X growth journey",
-          verified: true,
-        },
-        {
-          topic: "building_subwise",
-          experience: "Building SubWise (subscription tracker) as first SaaS",
-          context: "Early stage development, no users yet",
-          verified: true,
-        },
-        {
-          topic: "x_algorithm_study",
-          experience: "Studied X's open-source algorithm to understand 75x author reply weight",
-          context: "Built reply optimizer based on real algorithm weights",
-          verified: true,
-        },
-        {
-          topic: "mma_training",
-          experience: "Training MMA for discipline and mental toughness",
-          context: "Practitioner level, passionate about philosophy of combat sports",
-          verified: true,
-        },
-        {
-          topic: "building_in_public",
-          experience: "Learning to build in public through 30-day challenge",
-          context: "First time documenting journey publicly",
-          verified: true,
-        },
-      ],
-      // Interests
-      interests: ["mma", "saas", "tech", "philosophy", "indie_hacking", "building_in_public"],
-      skillLevel: {
-        mma: "practitioner",
-        saas: "beginner",
-        coding: "intermediate",
-        marketing: "beginner",
-      },
-      // Avoid claims
-      avoidClaims: [
-        "hitting_10k_mrr",
-        "scaling_to_1000_users",
-        "exit_stories",
-        "years_of_saas_experience",
-        "advanced_mma_techniques",
-        "managing_teams",
-        "fundraising",
-      ],
-      // Metadata
-      lastUpdated: Date.now(),
-      updatedBy: "system",
-    });
-
-    return contextId;
+    const today = new Date().toISOString().split('T')[0];
+    return await ctx.db.insert("personalContext", defaultPersonalContext(userId, today));
   },
 });
 
@@ -134,6 +96,8 @@ export const update = mutation({
     currentSubWiseUsers: v.optional(v.number()),
     currentSubWiseMRR: v.optional(v.number()),
     currentReplyOptimizerUsers: v.optional(v.number()),
+    followerGoal: v.optional(v.number()),
+    followerGoalDeadline: v.optional(v.string()),
     daysIntoJourney: v.optional(v.number()),
     stage: v.optional(v.string()),
     projects: v.optional(v.array(v.object({
@@ -149,11 +113,20 @@ export const update = mutation({
       context: v.string(),
       verified: v.boolean(),
     }))),
+    interests: v.optional(v.array(v.string())),
+    skillLevel: v.optional(v.object({
+      mma: v.string(),
+      saas: v.string(),
+      coding: v.string(),
+      marketing: v.string(),
+    })),
+    avoidClaims: v.optional(v.array(v.string())),
   },
   handler: async (ctx, args) => {
+    const userId = await requireUserId(ctx);
     const context = await ctx.db
       .query("personalContext")
-      .filter((q) => q.eq(q.field("key"), "main_context"))
+      .withIndex("by_user", (q) => q.eq("userId", userId))
       .first();
 
     if (!context) {
@@ -170,10 +143,15 @@ export const update = mutation({
     if (args.currentSubWiseUsers !== undefined) updates.currentSubWiseUsers = args.currentSubWiseUsers;
     if (args.currentSubWiseMRR !== undefined) updates.currentSubWiseMRR = args.currentSubWiseMRR;
     if (args.currentReplyOptimizerUsers !== undefined) updates.currentReplyOptimizerUsers = args.currentReplyOptimizerUsers;
+    if (args.followerGoal !== undefined) updates.followerGoal = args.followerGoal;
+    if (args.followerGoalDeadline !== undefined) updates.followerGoalDeadline = args.followerGoalDeadline;
     if (args.daysIntoJourney !== undefined) updates.daysIntoJourney = args.daysIntoJourney;
     if (args.stage !== undefined) updates.stage = args.stage;
     if (args.projects !== undefined) updates.projects = args.projects;
     if (args.experiences !== undefined) updates.experiences = args.experiences;
+    if (args.interests !== undefined) updates.interests = args.interests;
+    if (args.skillLevel !== undefined) updates.skillLevel = args.skillLevel;
+    if (args.avoidClaims !== undefined) updates.avoidClaims = args.avoidClaims;
 
     await ctx.db.patch(context._id, updates);
 
@@ -192,9 +170,10 @@ export const addExperience = mutation({
     verified: v.boolean(),
   },
   handler: async (ctx, args) => {
+    const userId = await requireUserId(ctx);
     const context = await ctx.db
       .query("personalContext")
-      .filter((q) => q.eq(q.field("key"), "main_context"))
+      .withIndex("by_user", (q) => q.eq("userId", userId))
       .first();
 
     if (!context) {
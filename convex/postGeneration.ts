@@ -1,5 +1,9 @@
 import { v } from "convex/values";
 import { mutation, query } from "./_generated/server";
+import { getUserId, requireOwned, requireUserId } from "./users";
+import { buildRecentContentIndex } from "./contentSimilarity";
+import type { SimilarityMatch } from "../lib/content-similarity";
+import { tweetLengthIssue } from "../lib/tweet-length";
 
 /**
  * Save or update daily input (what happened today)
@@ -19,12 +23,13 @@ export const saveDailyInput = mutation({
     }),
   },
   handler: async (ctx, args) => {
+    const userId = await requireUserId(ctx);
     const now = Date.now();
 
     // Check if input already exists for this date
     const existing = await ctx.db
       .query("dailyInput")
-      .withIndex("by_date", (q) => q.eq("date", args.date))
+      .withIndex("by_user_date", (q) => q.eq("userId", userId).eq("date", args.date))
       .first();
 
     if (existing) {
@@ -56,6 +61,7 @@ export const saveDailyInput = mutation({
     } else {
       // Create new - only include futurePlans if it's defined
       const insertData: {
+        userId: string;
         date: string;
         events: string[];
         insights: string[];
@@ -65,6 +71,7 @@ export const saveDailyInput = mutation({
         updatedAt: number;
         futurePlans?: string[];
       } = {
+        userId,
         date: args.date,
         events: args.events,
         insights: args.insights,
@@ -95,9 +102,12 @@ export const getDailyInput = query({
     date: v.string(),
   },
   handler: async (ctx, args) => {
+    const userId = await getUserId(ctx);
+    if (!userId) return null;
+
     const input = await ctx.db
       .query("dailyInput")
-      .withIndex("by_date", (q) => q.eq("date", args.date))
+      .withIndex("by_user_date", (q) => q.eq("userId", userId).eq("date", args.date))
       .first();
 
     return input;
@@ -109,11 +119,14 @@ export const getDailyInput = query({
  */
 export const getTodayInput = query({
   handler: async (ctx) => {
+    const userId = await getUserId(ctx);
+    if (!userId) return null;
+
     const today = new Date().toISOString().split('T')[0];
 
     const input = await ctx.db
       .query("dailyInput")
-      .withIndex("by_date", (q) => q.eq("date", today))
+      .withIndex("by_user_date", (q) => q.eq("userId", userId).eq("date", today))
       .first();
 
     return input;
@@ -142,9 +155,13 @@ export const saveGeneratedPosts = mutation({
     })),
   },
   handler: async (ctx, args) => {
+    const userId = await requireUserId(ctx);
     const now = Date.now();
     const ids = [];
 
+    // Flag near-duplicates of recent content (and of earlier posts in this batch)
+    const similarity = await buildRecentContentIndex(ctx, userId);
+
     console.log('💾 Saving posts to Convex, count:', args.posts.length);
 
     for (const post of args.posts) {
@@ -159,6 +176,7 @@ export const saveGeneratedPosts = mutation({
 
         // Build insert object - only include mediaType if it has a value
         const insertData: {
+          userId: string;
           date: string;
           content: string;
           category: string;
@@ -175,7 +193,9 @@ export const saveGeneratedPosts = mutation({
           createdAt: number;
           updatedAt: number;
           mediaType?: string;
+          similarTo?: SimilarityMatch;
         } = {
+          userId,
           date: post.date,
           content: post.content,
           category: post.category,
@@ -193,6 +213,13 @@ export const saveGeneratedPosts = mutation({
           insertData.mediaType = post.mediaType;
         }
 
+        const similarTo = similarity.findNearDuplicate(post.content);
+        if (similarTo) {
+          insertData.similarTo = similarTo;
+          console.log(`🔁 Near-duplicate (${Math.round(similarTo.similarity * 100)}%) of ${similarTo.source} content`);
+        }
+        similarity.add({ source: "batch", content: post.content, postedAt: now });
+
         const id = await ctx.db.insert("generatedPosts", insertData);
         ids.push(id);
         console.log('✅ Inserted post with ID:', id);
@@ -216,9 +243,12 @@ export const getGeneratedPostsByDate = query({
     date: v.string(),
   },
   handler: async (ctx, args) => {
+    const userId = await getUserId(ctx);
+    if (!userId) return [];
+
     const posts = await ctx.db
       .query("generatedPosts")
-      .withIndex("by_date", (q) => q.eq("date", args.date))
+      .withIndex("by_user_date", (q) => q.eq("userId", userId).eq("date", args.date))
       .order("desc")
       .collect();
 
@@ -231,11 +261,14 @@ export const getGeneratedPostsByDate = query({
  */
 export const getTodayGeneratedPosts = query({
   handler: async (ctx) => {
+    const userId = await getUserId(ctx);
+    if (!userId) return [];
+
     const today = new Date().toISOString().split('T')[0];
 
     const posts = await ctx.db
       .query("generatedPosts")
-      .withIndex("by_date", (q) => q.eq("date", today))
+      .withIndex("by_user_date", (q) => q.eq("userId", userId).eq("date", today))
       .order("desc")
       .collect();
 
@@ -244,7 +277,7 @@ export const getTodayGeneratedPosts = query({
 });
 
 /**
- * Update a generated post (edit)
+ * Update a generated post (edit) - has to fit X's weighted limit
  */
 export const updateGeneratedPost = mutation({
   args: {
@@ -252,6 +285,10 @@ export const updateGeneratedPost = mutation({
     content: v.string(),
   },
   handler: async (ctx, args) => {
+    await requireOwned(ctx, args.id);
+    const issue = tweetLengthIssue(args.content, "Post");
+    if (issue) throw new Error(issue);
+
     await ctx.db.patch(args.id, {
       content: args.content,
       status: "edited",
@@ -268,6 +305,7 @@ export const approvePost = mutation({
     id: v.id("generatedPosts"),
   },
   handler: async (ctx, args) => {
+    await requireOwned(ctx, args.id);
     await ctx.db.patch(args.id, {
       status: "approved",
       updatedAt: Date.now(),
@@ -284,6 +322,7 @@ export const markPostAsPosted = mutation({
     tweetUrl: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
+    const post = await requireOwned(ctx, args.id);
     const now = Date.now();
 
     await ctx.db.patch(args.id, {
@@ -293,25 +332,22 @@ export const markPostAsPosted = mutation({
       updatedAt: now,
     });
 
-    // Add to content bank for tracking
-    const post = await ctx.db.get(args.id);
-    if (post) {
-      // Simple hash function for duplicate detection
-      const contentHash = Buffer.from(post.content).toString('base64');
-
-      await ctx.db.insert("contentBank", {
-        content: post.content,
-        contentHash,
-        topics: [post.category],
-        postedAt: now,
-        performance: {
-          likes: 0,
-          retweets: 0,
-          replies: 0,
-        },
-        createdAt: now,
-      });
-    }
+    // Add to content bank for tracking (simple hash for duplicate detection)
+    const contentHash = Buffer.from(post.content).toString('base64');
+
+    await ctx.db.insert("contentBank", {
+      userId: post.userId,
+      content: post.content,
+      contentHash,
+      topics: [post.category],
+      postedAt: now,
+      performance: {
+        likes: 0,
+        retweets: 0,
+        replies: 0,
+      },
+      createdAt: now,
+    });
   },
 });
 
@@ -323,6 +359,7 @@ export const rejectPost = mutation({
     id: v.id("generatedPosts"),
   },
   handler: async (ctx, args) => {
+    await requireOwned(ctx, args.id);
     await ctx.db.patch(args.id, {
       status: "rejected",
       updatedAt: Date.now(),
@@ -338,6 +375,7 @@ export const deleteGeneratedPost = mutation({
     id: v.id("generatedPosts"),
   },
   handler: async (ctx, args) => {
+    await requireOwned(ctx, args.id);
     await ctx.db.delete(args.id);
   },
 });
@@ -351,19 +389,18 @@ export const getPostPerformanceStats = query({
     endDate: v.string(),
   },
   handler: async (ctx, args) => {
+    const userId = await getUserId(ctx);
     const startTimestamp = new Date(args.startDate + 'T00:00:00').getTime();
     const endTimestamp = new Date(args.endDate + 'T23:59:59').getTime();
 
-    const posts = await ctx.db
-      .query("contentBank")
-      .withIndex("by_posted")
-      .filter((q) =>
-        q.and(
-          q.gte(q.field("postedAt"), startTimestamp),
-          q.lte(q.field("postedAt"), endTimestamp)
-        )
-      )
-      .collect();
+    const posts = userId
+      ? await ctx.db
+          .query("contentBank")
+          .withIndex("by_user_posted", (q) =>
+            q.eq("userId", userId).gte("postedAt", startTimestamp).lte("postedAt", endTimestamp)
+          )
+          .collect()
+      : [];
 
     const totalPosts = posts.length;
     const totalLikes = posts.reduce((sum, p) => sum + p.performance.likes, 0);
@@ -1,5 +1,7 @@
 import { v } from "convex/values";
 import { mutation, query } from "./_generated/server";
+import { getOwned, getUserId, requireOwned, requireUserId } from "./users";
+import { appendReplyVersion } from "../lib/reply-versions";
 
 // Create a new post/reply
 export const create = mutation({
@@ -23,9 +25,11 @@ export const create = mutation({
     ),
   },
   handler: async (ctx, args) => {
+    const userId = await requireUserId(ctx);
     const now = Date.now();
     const postId = await ctx.db.insert("posts", {
       ...args,
+      userId,
       createdAt: now,
       updatedAt: now,
     });
@@ -39,18 +43,22 @@ export const list = query({
     status: v.optional(v.union(v.literal("draft"), v.literal("optimized"), v.literal("posted"))),
   },
   handler: async (ctx, args) => {
+    const userId = await getUserId(ctx);
+    if (!userId) return [];
+
     const status = args.status;
     
     if (status) {
       return await ctx.db
         .query("posts")
-        .withIndex("by_status", (q) => q.eq("status", status))
+        .withIndex("by_user_status", (q) => q.eq("userId", userId).eq("status", status))
         .order("desc")
         .collect();
     }
     
     return await ctx.db
       .query("posts")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
       .order("desc")
       .collect();
   },
@@ -60,7 +68,7 @@ export const list = query({
 export const get = query({
   args: { id: v.id("posts") },
   handler: async (ctx, args) => {
-    return await ctx.db.get(args.id);
+    return await getOwned(ctx, args.id);
   },
 });
 
@@ -86,6 +94,7 @@ export const update = mutation({
   },
   handler: async (ctx, args) => {
     const { id, ...updates } = args;
+    await requireOwned(ctx, id);
     await ctx.db.patch(id, {
       ...updates,
       updatedAt: Date.now(),
@@ -97,7 +106,75 @@ export const update = mutation({
 export const remove = mutation({
   args: { id: v.id("posts") },
   handler: async (ctx, args) => {
+    await requireOwned(ctx, args.id);
     await ctx.db.delete(args.id);
   },
 });
 
+
+/**
+ * Save a generated reply as a draft so its refinements have a post to live on
+ * (markAsSent turns the draft into the posted reply)
+ */
+export const createReplyDraft = mutation({
+  args: {
+    content: v.string(),
+    strategy: v.string(),
+    algorithmScore: v.number(),
+    scoreBreakdown: v.object({
+      engagement: v.number(),
+      recency: v.number(),
+      mediaPresence: v.number(),
+      conversationDepth: v.number(),
+      authorReputation: v.number(),
+    }),
+    tweetUrl: v.string(),
+    tweetAuthor: v.string(),
+    tweetContent: v.string(),
+    targetUsername: v.string(),
+    targetTweetId: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await requireUserId(ctx);
+    const now = Date.now();
+    return await ctx.db.insert("posts", {
+      ...args,
+      userId,
+      type: "reply",
+      status: "draft",
+      versions: [{ content: args.content, algorithmScore: args.algorithmScore, createdAt: now }],
+      generatedAt: now,
+      createdAt: now,
+      updatedAt: now,
+    });
+  },
+});
+
+/**
+ * Record a refinement - it becomes the post's current content
+ */
+export const addVersion = mutation({
+  args: {
+    id: v.id("posts"),
+    content: v.string(),
+    instruction: v.string(),
+    algorithmScore: v.number(),
+    qualityPassed: v.boolean(),
+    specificityScore: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const { id, ...version } = args;
+    const post = await requireOwned(ctx, id);
+    const now = Date.now();
+
+    const { versions, version: number } = appendReplyVersion(post.versions, version, now);
+
+    await ctx.db.patch(id, {
+      content: version.content,
+      algorithmScore: version.algorithmScore,
+      versions,
+      updatedAt: now,
+    });
+    return number;
+  },
+});
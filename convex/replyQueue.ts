@@ -0,0 +1,205 @@
+import { v, type Infer } from "convex/values";
+import { action, internalMutation, mutation, query, type MutationCtx } from "./_generated/server";
+import { api, internal } from "./_generated/api";
+import { getUserId, requireOwned, requireUserId } from "./users";
+import { twitterApiFor } from "./twitter";
+import {
+  calculateQueuePriority,
+  queueExpiry,
+  REPLY_WINDOW_MINUTES,
+  scoreCreatorValue,
+  scoreNicheMatch,
+} from "../lib/reply-queue";
+
+const candidate = v.object({
+  tweetId: v.string(),
+  tweetText: v.string(),
+  authorUsername: v.string(),
+  tweetCreatedAt: v.number(),
+});
+
+/**
+ * Pending candidates whose reply window is still open, with priority and age
+ * as of the query - the queue page re-ranks on its own clock as tweets age
+ */
+export const list = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getUserId(ctx);
+    if (!userId) return [];
+
+    const now = Date.now();
+    const pending = await ctx.db
+      .query("replyQueue")
+      .withIndex("by_user_status", (q) => q.eq("userId", userId).eq("status", "pending"))
+      .collect();
+
+    return pending
+      .filter(item => item.expiresAt > now)
+      .map(item => {
+        const minutesSincePost = Math.max(0, Math.floor((now - item.tweetCreatedAt) / (1000 * 60)));
+        return {
+          ...item,
+          minutesSincePost,
+          ...calculateQueuePriority(item, minutesSincePost),
+        };
+      })
+      .sort((a, b) => b.priority - a.priority);
+  },
+});
+
+/**
+ * Add fresh tweets to a user's queue (skips duplicates and closed windows)
+ */
+export async function enqueueCandidates(
+  ctx: MutationCtx,
+  userId: string,
+  candidates: Array<Infer<typeof candidate>>
+): Promise<number> {
+  const now = Date.now();
+  const persona = await ctx.db
+    .query("personalContext")
+    .withIndex("by_user", (q) => q.eq("userId", userId))
+    .first();
+  const ourNiches = persona?.interests ?? [];
+
+  let added = 0;
+  for (const tweet of candidates) {
+    const expiresAt = queueExpiry(tweet.tweetCreatedAt);
+    if (expiresAt <= now) continue;
+
+    const existing = await ctx.db
+      .query("replyQueue")
+      .withIndex("by_user_tweet", (q) => q.eq("userId", userId).eq("tweetId", tweet.tweetId))
+      .first();
+    if (existing) continue;
+
+    const creator = await ctx.db
+      .query("creators")
+      .withIndex("by_username", (q) => q.eq("username", tweet.authorUsername))
+      .first();
+
+    await ctx.db.insert("replyQueue", {
+      userId,
+      tweetId: tweet.tweetId,
+      tweetUrl: `https://x.com/${tweet.authorUsername}/status/${tweet.tweetId}`,
+      tweetText: tweet.tweetText,
+      authorUsername: tweet.authorUsername,
+      tweetCreatedAt: tweet.tweetCreatedAt,
+      expiresAt,
+      creatorValue: creator ? scoreCreatorValue(creator.followerCount) : 0,
+      nicheMatch: creator ? scoreNicheMatch(creator, ourNiches) : 0,
+      status: "pending",
+      addedAt: now,
+      updatedAt: now,
+    });
+    added++;
+  }
+
+  return added;
+}
+
+export const addCandidates = internalMutation({
+  args: {
+    userId: v.string(),
+    candidates: v.array(candidate),
+  },
+  handler: async (ctx, args) => {
+    return await enqueueCandidates(ctx, args.userId, args.candidates);
+  },
+});
+
+/**
+ * Pull the latest tweets of every analyzed creator into the queue
+ */
+export const refresh = action({
+  args: {},
+  handler: async (ctx): Promise<{ creators: number; fresh: number; added: number }> => {
+    const userId = await requireUserId(ctx);
+    const creators = await ctx.runQuery(api.creators.list, {});
+    const cutoff = Date.now() - REPLY_WINDOW_MINUTES * 60 * 1000;
+    const twitterApi = twitterApiFor(ctx);
+
+    const candidates: Array<{ tweetId: string; tweetText: string; authorUsername: string; tweetCreatedAt: number }> = [];
+
+    for (const creator of creators) {
+      const user = await twitterApi.getUser(creator.username);
+      if (!user) continue;
+
+      const tweets = await twitterApi.getUserTweets(user.id);
+      for (const tweet of tweets) {
+        const createdAt = Date.parse(tweet.created_at);
+        if (Number.isNaN(createdAt) || createdAt < cutoff) continue;
+
+        candidates.push({
+          tweetId: tweet.id,
+          tweetText: tweet.text,
+          authorUsername: creator.username,
+          tweetCreatedAt: createdAt,
+        });
+      }
+    }
+
+    const added: number = await ctx.runMutation(internal.replyQueue.addCandidates, { userId, candidates });
+    console.log(`📥 Reply queue: ${candidates.length} fresh tweets from ${creators.length} creators, ${added} new`);
+
+    return { creators: creators.length, fresh: candidates.length, added };
+  },
+});
+
+/**
+ * Mark a candidate as replied (links the reply saved by sentReplies.markAsSent)
+ */
+export const markReplied = mutation({
+  args: {
+    id: v.id("replyQueue"),
+    postId: v.optional(v.id("posts")),
+  },
+  handler: async (ctx, args) => {
+    await requireOwned(ctx, args.id);
+    await ctx.db.patch(args.id, {
+      status: "replied",
+      postId: args.postId,
+      updatedAt: Date.now(),
+    });
+  },
+});
+
+/**
+ * Skip a candidate
+ */
+export const skip = mutation({
+  args: {
+    id: v.id("replyQueue"),
+  },
+  handler: async (ctx, args) => {
+    await requireOwned(ctx, args.id);
+    await ctx.db.patch(args.id, {
+      status: "skipped",
+      updatedAt: Date.now(),
+    });
+  },
+});
+
+/**
+ * Expire candidates whose reply window has closed (runs every 5 minutes, see crons.ts)
+ */
+export const expireStale = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const now = Date.now();
+    const stale = await ctx.db
+      .query("replyQueue")
+      .withIndex("by_status_expires", (q) => q.eq("status", "pending").lt("expiresAt", now))
+      .collect();
+
+    for (const item of stale) {
+      await ctx.db.patch(item._id, { status: "expired", updatedAt: now });
+    }
+
+    if (stale.length > 0) {
+      console.log(`⌛ Expired ${stale.length} reply queue candidates`);
+    }
+    return stale.length;
+  },
+});
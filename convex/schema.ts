@@ -1,9 +1,18 @@
 import { defineSchema, defineTable } from "convex/server";
 import { v } from "convex/values";
 
+// Closest earlier content when a generated item is a near-duplicate (see lib/content-similarity.ts)
+const similarToValidator = v.object({
+  source: v.string(), // "contentBank" | "posts" | "communityPosts" | "batch"
+  content: v.string(),
+  postedAt: v.number(),
+  similarity: v.number(), // 0-1
+});
+
 export default defineSchema({
   // Your Posts/Replies (tracking what you've created and posted)
   posts: defineTable({
+    userId: v.optional(v.string()), // owner (Clerk tokenIdentifier) - see convex/users.ts
     content: v.string(),
     type: v.union(v.literal("reply"), v.literal("post"), v.literal("thread")),
     targetUsername: v.optional(v.string()), // if it's a reply
@@ -25,9 +34,12 @@ export default defineSchema({
     // NEW FIELDS for reply tracking
     strategy: v.optional(v.string()), // pure_curiosity, devils_advocate, etc.
     tweetUrl: v.optional(v.string()), // original tweet URL
+    replyUrl: v.optional(v.string()), // URL of OUR reply (needed to pull its metrics)
     tweetAuthor: v.optional(v.string()), // @username
     tweetContent: v.optional(v.string()), // original tweet text
     generatedAt: v.optional(v.number()), // timestamp when generated
+    minutesSincePosted: v.optional(v.number()), // age of the original tweet when we replied
+    templateId: v.optional(v.id("templates")), // set when sent from the content library
     performance: v.optional(
       v.object({
         views: v.number(),
@@ -38,28 +50,48 @@ export default defineSchema({
         profileClicks: v.number(),
       })
     ),
+    // Refinement history: the generated reply first, then each rewrite (see /api/refine-reply)
+    versions: v.optional(v.array(v.object({
+      content: v.string(),
+      instruction: v.optional(v.string()), // absent for the generated original
+      algorithmScore: v.number(),
+      qualityPassed: v.optional(v.boolean()),
+      specificityScore: v.optional(v.number()),
+      createdAt: v.number(),
+    }))),
     createdAt: v.number(),
     updatedAt: v.number(),
   })
     .index("by_status", ["status"])
     .index("by_target", ["targetUsername"])
     .index("by_created", ["createdAt"])
-    .index("by_posted_date", ["postedAt"]),
+    .index("by_user", ["userId"])
+    .index("by_user_status", ["userId", "status"])
+    .index("by_user_posted_date", ["userId", "postedAt"])
+    .index("by_template", ["templateId"]),
 
   // Content Templates (proven patterns that work)
   templates: defineTable({
+    userId: v.optional(v.string()),
     name: v.string(),
     content: v.string(),
     type: v.union(v.literal("reply"), v.literal("post"), v.literal("thread")),
     tags: v.array(v.string()),
+    category: v.optional(v.string()), // "mma", "subwise", "xgrowth", "philosophy"
+    variables: v.optional(v.array(v.string())), // {variables} found in content
+    successRate: v.optional(v.number()), // 0-100: % of uses that beat your median engagement rate
     usageCount: v.number(),
     lastUsedAt: v.optional(v.number()),
     createdAt: v.number(),
     updatedAt: v.number(),
-  }).index("by_name", ["name"]),
+  })
+    .index("by_name", ["name"])
+    .index("by_user", ["userId"])
+    .index("by_user_type", ["userId", "type"]),
 
   // Analytics (tracking overall performance)
   analytics: defineTable({
+    userId: v.optional(v.string()),
     date: v.string(), // YYYY-MM-DD
     followersGained: v.number(),
     subwiseUsersGained: v.number(),
@@ -68,10 +100,11 @@ export default defineSchema({
     totalEngagement: v.number(), // sum of likes, retweets, replies
     createdAt: v.number(),
     updatedAt: v.number(),
-  }).index("by_date", ["date"]),
+  }).index("by_user_date", ["userId", "date"]),
 
   // Daily Reply Stats (fast aggregation for activity tracking)
   dailyStats: defineTable({
+    userId: v.optional(v.string()),
     date: v.string(), // YYYY-MM-DD
     repliesSent: v.number(),
     repliesGenerated: v.number(),
@@ -83,17 +116,72 @@ export default defineSchema({
     })),
     createdAt: v.number(),
     updatedAt: v.number(),
-  }).index("by_date", ["date"]),
+  }).index("by_user_date", ["userId", "date"]),
 
-  // X Algorithm Rules (for reference and dynamic scoring)
+  // X Algorithm Rules (for reference and dynamic scoring) - shared by all users
   algorithmRules: defineTable({
     name: v.string(), // e.g., "reply_weight"
     value: v.number(),
     description: v.optional(v.string()),
     category: v.optional(v.string()), // e.g., "engagement", "recency"
+    updatedAt: v.optional(v.number()),
+    updatedBy: v.optional(v.string()), // userId of the last editor
   }).index("by_name", ["name"]),
 
-  // Creator Intelligence Profiles (for VIP targets)
+  // Every change to an algorithm rule (shared, like algorithmRules)
+  algorithmRuleHistory: defineTable({
+    name: v.string(),
+    previousValue: v.optional(v.number()), // undefined = was still on the default
+    value: v.number(),
+    reason: v.optional(v.string()),
+    changedBy: v.string(), // userId
+    changedAt: v.number(),
+  })
+    .index("by_changed", ["changedAt"])
+    .index("by_name", ["name", "changedAt"]),
+
+  // Performance Snapshots (real metrics pulled 1h / 24h / 7d after posting)
+  performanceSnapshots: defineTable({
+    userId: v.optional(v.string()), // copied from the source row
+    sourceTable: v.union(
+      v.literal("posts"),
+      v.literal("generatedPosts"),
+      v.literal("communityPosts"),
+      v.literal("generatedThreads")
+    ),
+    sourceId: v.string(), // _id of the row in sourceTable
+    tweetId: v.string(),
+    window: v.union(v.literal("1h"), v.literal("24h"), v.literal("7d")),
+    views: v.number(),
+    likes: v.number(),
+    retweets: v.number(),
+    replies: v.number(),
+    quotes: v.number(),
+    bookmarks: v.number(),
+    capturedAt: v.number(),
+  })
+    .index("by_source", ["sourceTable", "sourceId"])
+    .index("by_user_captured", ["userId", "capturedAt"]),
+
+  // Learned Engagement Models (fit from everyone's real performance, one row per version)
+  engagementModels: defineTable({
+    version: v.number(),
+    featureNames: v.array(v.string()),
+    weights: v.object({
+      replies: v.array(v.number()),
+      likes: v.array(v.number()),
+      profileClicks: v.array(v.number()),
+    }),
+    sampleCount: v.number(),
+    trainingError: v.object({ // RMSE per target on the training set
+      replies: v.number(),
+      likes: v.number(),
+      profileClicks: v.number(),
+    }),
+    trainedAt: v.number(),
+  }).index("by_version", ["version"]),
+
+  // Creator Intelligence Profiles (for VIP targets) - shared cache, public X data
   creators: defineTable({
     username: v.string(),
     displayName: v.string(),
@@ -124,11 +212,34 @@ export default defineSchema({
     // Metadata
     lastUpdated: v.number(),
     tweetAnalysisCount: v.number(),
-  }).index("by_username", ["username"]),
+    // Watchlist polling (see convex/watchlist.ts)
+    watchers: v.optional(v.array(v.string())), // userIds watching this creator
+    watched: v.optional(v.boolean()), // anyone watching (indexed for the poller)
+    xUserId: v.optional(v.string()), // cached so polls cost one call
+    tweetsPerDay: v.optional(v.number()), // estimated posting frequency
+    pollIntervalMinutes: v.optional(v.number()),
+    lastPolledAt: v.optional(v.number()),
+    nextPollAt: v.optional(v.number()),
+  })
+    .index("by_username", ["username"])
+    .index("by_watched_next_poll", ["watched", "nextPollAt"]),
+
+  // Tweets seen by the watchlist poller (shared, public X data - deduped by tweetId)
+  watchedTweets: defineTable({
+    tweetId: v.string(),
+    authorUsername: v.string(),
+    text: v.string(),
+    tweetCreatedAt: v.number(),
+    arrivedAt: v.number(), // when the poller first saw it
+  })
+    .index("by_tweet", ["tweetId"])
+    .index("by_arrived", ["arrivedAt"])
+    .index("by_author_created", ["authorUsername", "tweetCreatedAt"]),
 
   // Personal Context (dynamic, updateable information about YOU)
   personalContext: defineTable({
-    key: v.string(), // unique identifier, e.g., "main_context"
+    userId: v.optional(v.string()), // one row per user
+    key: v.optional(v.string()), // legacy single-persona key ("main_context"), cleared by migrations/assignOwner
     // Current metrics (updated daily/weekly)
     currentFollowers: v.number(),
     currentSubWiseUsers: v.number(),
@@ -172,10 +283,11 @@ export default defineSchema({
     // Metadata
     lastUpdated: v.number(),
     updatedBy: v.optional(v.string()), // "user" or "system"
-  }).index("by_key", ["key"]),
+  }).index("by_user", ["userId"]),
 
   // Daily Input for Post Generation (what happened today)
   dailyInput: defineTable({
+    userId: v.optional(v.string()),
     date: v.string(), // YYYY-MM-DD
     events: v.array(v.string()), // ["Trained 90 min BJJ", "Got 2 new SubWise signups"]
     insights: v.array(v.string()), // ["Realized async > cron", "Consistency beats intensity"]
@@ -189,10 +301,11 @@ export default defineSchema({
     }),
     createdAt: v.number(),
     updatedAt: v.number(),
-  }).index("by_date", ["date"]),
+  }).index("by_user_date", ["userId", "date"]),
 
   // Generated Posts (AI-created posts for the day)
   generatedPosts: defineTable({
+    userId: v.optional(v.string()),
     date: v.string(), // YYYY-MM-DD
     content: v.string(),
     category: v.string(), // "mma", "subwise", "xgrowth", "philosophy"
@@ -206,6 +319,7 @@ export default defineSchema({
     }),
     suggestMedia: v.boolean(), // Should add photo/video?
     mediaType: v.optional(v.string()), // "training_photo", "screenshot", "chart"
+    similarTo: v.optional(similarToValidator), // flagged as a near-duplicate when saved
     status: v.union(
       v.literal("generated"), // AI created
       v.literal("edited"), // User modified
@@ -215,6 +329,7 @@ export default defineSchema({
     ),
     postedAt: v.optional(v.number()),
     tweetUrl: v.optional(v.string()),
+    templateId: v.optional(v.id("templates")), // set when created from the content library
     performance: v.optional(v.object({
       views: v.number(),
       likes: v.number(),
@@ -226,12 +341,15 @@ export default defineSchema({
     createdAt: v.number(),
     updatedAt: v.number(),
   })
-    .index("by_date", ["date"])
     .index("by_status", ["status"])
-    .index("by_category", ["category"]),
+    .index("by_category", ["category"])
+    .index("by_template", ["templateId"])
+    .index("by_user_date", ["userId", "date"])
+    .index("by_user_status", ["userId", "status"]),
 
   // Content Bank (tracks what's been posted to prevent repetition)
   contentBank: defineTable({
+    userId: v.optional(v.string()),
     content: v.string(), // The actual post text
     contentHash: v.string(), // Hash for duplicate detection
     topics: v.array(v.string()), // ["bjj", "subwise", "discipline"]
@@ -244,9 +362,9 @@ export default defineSchema({
     createdAt: v.number(),
   })
     .index("by_hash", ["contentHash"])
-    .index("by_posted", ["postedAt"]),
+    .index("by_user_posted", ["userId", "postedAt"]),
 
-  // Post Templates (algorithm-optimized formats)
+  // Post Templates (algorithm-optimized formats) - shared by all users
   postTemplates: defineTable({
     name: v.string(), // "Progress Update", "Contrarian Take"
     category: v.string(), // "mma", "subwise", "xgrowth", "philosophy"
@@ -266,6 +384,7 @@ export default defineSchema({
 
   // Thread Input (30-day challenge daily reflections)
   threadInput: defineTable({
+    userId: v.optional(v.string()),
     date: v.string(), // YYYY-MM-DD
     challengeDay: v.number(), // Day number in the challenge (1-30)
     wins: v.array(v.string()), // What went well today
@@ -281,10 +400,11 @@ export default defineSchema({
     }),
     createdAt: v.number(),
     updatedAt: v.number(),
-  }).index("by_date", ["date"]),
+  }).index("by_user_date", ["userId", "date"]),
 
   // Generated Threads (AI-created thread posts for daily challenge)
   generatedThreads: defineTable({
+    userId: v.optional(v.string()),
     date: v.string(), // YYYY-MM-DD
     challengeDay: v.number(), // Day number in challenge
     tweets: v.array(v.string()), // Array of tweet texts in thread order
@@ -298,7 +418,12 @@ export default defineSchema({
     }),
     suggestMedia: v.boolean(), // Should add photo/video/chart?
     mediaType: v.optional(v.string()), // "training_photo", "metrics_chart", "screenshot"
-    mediaSuggestions: v.optional(v.array(v.string())), // Which tweets should have media
+    mediaSuggestions: v.optional(v.array(v.string())), // Media per tweet, aligned with tweets ("" = none)
+    recap: v.optional(v.object({ // Set on retrospective threads (threadType "challenge_recap")
+      fromDay: v.number(),
+      toDay: v.number(),
+      followerSeries: v.array(v.object({ day: v.number(), followers: v.number() })), // chart data
+    })),
     status: v.union(
       v.literal("generated"), // AI created
       v.literal("edited"), // User modified
@@ -308,6 +433,7 @@ export default defineSchema({
     ),
     postedAt: v.optional(v.number()),
     threadUrl: v.optional(v.string()), // First tweet URL
+    templateId: v.optional(v.id("templates")), // set when created from the content library
     performance: v.optional(v.object({
       totalViews: v.number(),
       totalLikes: v.number(),
@@ -318,13 +444,16 @@ export default defineSchema({
     createdAt: v.number(),
     updatedAt: v.number(),
   })
-    .index("by_date", ["date"])
     .index("by_status", ["status"])
-    .index("by_challenge_day", ["challengeDay"]),
+    .index("by_user_date", ["userId", "date"])
+    .index("by_user_status", ["userId", "status"])
+    .index("by_user_challenge_day", ["userId", "challengeDay"])
+    .index("by_template", ["templateId"]),
 
   // Posts Context (Accumulated context for general post generation)
   postsContext: defineTable({
-    key: v.string(), // "main" - single record
+    userId: v.optional(v.string()), // one record per user
+    key: v.optional(v.string()), // legacy single-record key ("main"), cleared by migrations/assignOwner
     // Base context from Twitter profile
     baseProfile: v.object({
       bio: v.string(),
@@ -347,11 +476,12 @@ export default defineSchema({
     // Summary of older context (days 8-30, condensed)
     historicalSummary: v.optional(v.string()),
     lastUpdated: v.number(),
-  }).index("by_key", ["key"]),
+  }).index("by_user", ["userId"]),
 
   // Threads Context (Accumulated context for 30-day challenge threads)
   threadsContext: defineTable({
-    key: v.string(), // "main" - single record
+    userId: v.optional(v.string()), // one record per user
+    key: v.optional(v.string()), // legacy single-record key ("main"), cleared by migrations/assignOwner
     // Challenge overview
     challengeInfo: v.object({
       startDate: v.string(),
@@ -385,9 +515,9 @@ export default defineSchema({
       surprises: v.array(v.string()),
     })),
     lastUpdated: v.number(),
-  }).index("by_key", ["key"]),
+  }).index("by_user", ["userId"]),
 
-  // Community Profiles (Voice analysis for each community)
+  // Community Profiles (Voice analysis for each community) - shared, public X data
   communityProfiles: defineTable({
     communityName: v.string(), // "Software Engineering", "Indie Hackers", etc.
     twitterCommunityId: v.optional(v.string()), // Twitter community ID (if available)
@@ -419,6 +549,7 @@ export default defineSchema({
 
   // Community Posts (Generated posts for each community)
   communityPosts: defineTable({
+    userId: v.optional(v.string()),
     date: v.string(), // YYYY-MM-DD
     communityName: v.string(), // Which community this is for
     content: v.string(), // The post text
@@ -433,6 +564,7 @@ export default defineSchema({
     }),
     suggestMedia: v.boolean(),
     mediaType: v.optional(v.string()),
+    similarTo: v.optional(similarToValidator), // flagged as a near-duplicate when saved
     status: v.union(
       v.literal("generated"),
       v.literal("edited"),
@@ -453,9 +585,59 @@ export default defineSchema({
     createdAt: v.number(),
     updatedAt: v.number(),
   })
-    .index("by_date", ["date"])
-    .index("by_community", ["communityName"])
     .index("by_status", ["status"])
-    .index("by_date_community", ["date", "communityName"]),
+    .index("by_user_date", ["userId", "date"])
+    .index("by_user_status", ["userId", "status"])
+    .index("by_user_community", ["userId", "communityName"])
+    .index("by_user_date_community", ["userId", "date", "communityName"]),
+
+  // Reply Queue (fresh tweets from creators, worked through by priority - see lib/reply-queue.ts)
+  replyQueue: defineTable({
+    userId: v.string(),
+    tweetId: v.string(),
+    tweetUrl: v.string(),
+    tweetText: v.string(),
+    authorUsername: v.string(),
+    tweetCreatedAt: v.number(), // when the tweet went up
+    expiresAt: v.number(), // reply window closes
+    // Time-independent parts of the priority (freshness is computed at read time)
+    creatorValue: v.number(), // 0-1
+    nicheMatch: v.number(), // 0-1
+    status: v.union(
+      v.literal("pending"),
+      v.literal("replied"),
+      v.literal("skipped"),
+      v.literal("expired")
+    ),
+    postId: v.optional(v.id("posts")), // the reply we sent
+    addedAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_user_status", ["userId", "status"])
+    .index("by_user_tweet", ["userId", "tweetId"])
+    .index("by_status_expires", ["status", "expiresAt"]),
+
+  // twitterapi.io response cache (shared, public X data - see lib/twitter-api.ts)
+  twitterCache: defineTable({
+    key: v.string(), // "user:<username>", "tweets:<userId>", "tweet:<tweetId>"
+    value: v.string(), // JSON
+    expiresAt: v.number(),
+  })
+    .index("by_key", ["key"])
+    .index("by_expires", ["expiresAt"]),
+
+  // Token bucket for all twitterapi.io calls (a single row)
+  twitterRateLimit: defineTable({
+    tokens: v.number(),
+    updatedAt: v.number(),
+  }),
+
+  // twitterapi.io calls per UTC day and endpoint (retries included)
+  twitterApiUsage: defineTable({
+    day: v.string(), // YYYY-MM-DD
+    endpoint: v.string(),
+    calls: v.number(),
+  })
+    .index("by_day_endpoint", ["day", "endpoint"]),
 });
 
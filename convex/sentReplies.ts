@@ -1,5 +1,7 @@
 import { v } from "convex/values";
 import { mutation, query } from "./_generated/server";
+import { getUserId, requireOwned, requireUserId } from "./users";
+import { extractTweetId } from "../lib/twitter-api";
 
 /**
  * Mark a reply as sent
@@ -22,34 +24,62 @@ export const markAsSent = mutation({
     tweetContent: v.string(),
     targetUsername: v.string(),
     targetTweetId: v.optional(v.string()),
+    minutesSincePosted: v.optional(v.number()),
+    replyUrl: v.optional(v.string()),
+    draftId: v.optional(v.id("posts")), // refined reply - its draft (and version history) becomes the post
+    templateId: v.optional(v.id("templates")), // reply filled in from the content library
   },
   handler: async (ctx, args) => {
+    const userId = await requireUserId(ctx);
     const now = Date.now();
     const today = new Date(now).toISOString().split('T')[0]; // YYYY-MM-DD
 
+    if (args.templateId) {
+      const template = await requireOwned(ctx, args.templateId);
+      if (template.type !== "reply") {
+        throw new Error("Only reply templates can be sent as replies");
+      }
+      await ctx.db.patch(args.templateId, { usageCount: template.usageCount + 1, lastUsedAt: now });
+    }
+
     // 1. Create the post record
-    const postId = await ctx.db.insert("posts", {
+    const sent = {
       content: args.content,
-      type: "reply",
       targetUsername: args.targetUsername,
       targetTweetId: args.targetTweetId,
       algorithmScore: args.algorithmScore,
       scoreBreakdown: args.scoreBreakdown,
-      status: "posted",
+      status: "posted" as const,
       postedAt: now,
       strategy: args.strategy,
       tweetUrl: args.tweetUrl,
       tweetAuthor: args.tweetAuthor,
       tweetContent: args.tweetContent,
-      generatedAt: now,
-      createdAt: now,
+      minutesSincePosted: args.minutesSincePosted,
+      replyUrl: args.replyUrl,
+      templateId: args.templateId,
       updatedAt: now,
-    });
+    };
+
+    let postId;
+    if (args.draftId) {
+      await requireOwned(ctx, args.draftId);
+      await ctx.db.patch(args.draftId, sent);
+      postId = args.draftId;
+    } else {
+      postId = await ctx.db.insert("posts", {
+        ...sent,
+        userId,
+        type: "reply",
+        generatedAt: now,
+        createdAt: now,
+      });
+    }
 
     // 2. Update daily stats
     const existingStats = await ctx.db
       .query("dailyStats")
-      .withIndex("by_date", (q) => q.eq("date", today))
+      .withIndex("by_user_date", (q) => q.eq("userId", userId).eq("date", today))
       .first();
 
     if (existingStats) {
@@ -78,6 +108,7 @@ export const markAsSent = mutation({
     } else {
       // Create new stats for today
       await ctx.db.insert("dailyStats", {
+        userId,
         date: today,
         repliesSent: 1,
         repliesGenerated: 0, // Will be updated when replies are generated
@@ -101,6 +132,9 @@ export const getSentRepliesByDate = query({
     date: v.string(), // YYYY-MM-DD
   },
   handler: async (ctx, args) => {
+    const userId = await getUserId(ctx);
+    if (!userId) return [];
+
     // Parse date as UTC to avoid timezone bugs
     const [year, month, day] = args.date.split('-').map(Number);
     const startOfDay = Date.UTC(year, month - 1, day, 0, 0, 0);
@@ -108,14 +142,10 @@ export const getSentRepliesByDate = query({
 
     const replies = await ctx.db
       .query("posts")
-      .withIndex("by_posted_date")
-      .filter((q) =>
-        q.and(
-          q.gte(q.field("postedAt"), startOfDay),
-          q.lte(q.field("postedAt"), endOfDay),
-          q.eq(q.field("status"), "posted")
-        )
+      .withIndex("by_user_posted_date", (q) =>
+        q.eq("userId", userId).gte("postedAt", startOfDay).lte("postedAt", endOfDay)
       )
+      .filter((q) => q.eq(q.field("status"), "posted"))
       .order("desc")
       .collect();
 
@@ -128,6 +158,9 @@ export const getSentRepliesByDate = query({
  */
 export const getTodaySentReplies = query({
   handler: async (ctx) => {
+    const userId = await getUserId(ctx);
+    if (!userId) return [];
+
     const todayUTC = new Date();
     const [year, month, day] = [todayUTC.getUTCFullYear(), todayUTC.getUTCMonth(), todayUTC.getUTCDate()];
     const startOfDay = Date.UTC(year, month, day, 0, 0, 0);
@@ -135,14 +168,10 @@ export const getTodaySentReplies = query({
 
     const replies = await ctx.db
       .query("posts")
-      .withIndex("by_posted_date")
-      .filter((q) =>
-        q.and(
-          q.gte(q.field("postedAt"), startOfDay),
-          q.lte(q.field("postedAt"), endOfDay),
-          q.eq(q.field("status"), "posted")
-        )
+      .withIndex("by_user_posted_date", (q) =>
+        q.eq("userId", userId).gte("postedAt", startOfDay).lte("postedAt", endOfDay)
       )
+      .filter((q) => q.eq(q.field("status"), "posted"))
       .order("desc")
       .collect();
 
@@ -159,14 +188,13 @@ export const getDailyStatsRange = query({
     endDate: v.string(), // YYYY-MM-DD
   },
   handler: async (ctx, args) => {
+    const userId = await getUserId(ctx);
+    if (!userId) return [];
+
     const stats = await ctx.db
       .query("dailyStats")
-      .withIndex("by_date")
-      .filter((q) =>
-        q.and(
-          q.gte(q.field("date"), args.startDate),
-          q.lte(q.field("date"), args.endDate)
-        )
+      .withIndex("by_user_date", (q) =>
+        q.eq("userId", userId).gte("date", args.startDate).lte("date", args.endDate)
       )
       .collect();
 
@@ -179,12 +207,15 @@ export const getDailyStatsRange = query({
  */
 export const getTodayStats = query({
   handler: async (ctx) => {
+    const userId = await getUserId(ctx);
     const today = new Date().toISOString().split('T')[0];
 
-    const stats = await ctx.db
-      .query("dailyStats")
-      .withIndex("by_date", (q) => q.eq("date", today))
-      .first();
+    const stats = userId
+      ? await ctx.db
+          .query("dailyStats")
+          .withIndex("by_user_date", (q) => q.eq("userId", userId).eq("date", today))
+          .first()
+      : null;
 
     return stats || {
       date: today,
@@ -199,6 +230,26 @@ export const getTodayStats = query({
   },
 });
 
+/**
+ * Attach the URL of our posted reply so its real metrics can be ingested
+ */
+export const setReplyUrl = mutation({
+  args: {
+    id: v.id("posts"),
+    replyUrl: v.string(),
+  },
+  handler: async (ctx, args) => {
+    await requireOwned(ctx, args.id);
+    if (!extractTweetId(args.replyUrl)) {
+      throw new Error("Not a link to a post on X - copy it from your reply's share menu");
+    }
+    await ctx.db.patch(args.id, {
+      replyUrl: args.replyUrl.trim(),
+      updatedAt: Date.now(),
+    });
+  },
+});
+
 /**
  * Delete a sent reply and update daily stats
  */
@@ -208,9 +259,10 @@ export const deleteReply = mutation({
   },
   handler: async (ctx, args) => {
     // Get the reply first to extract info for stats update
-    const reply = await ctx.db.get(args.id);
+    const userId = await requireUserId(ctx);
+    const reply = await requireOwned(ctx, args.id);
 
-    if (!reply || !reply.postedAt) {
+    if (!reply.postedAt) {
       throw new Error("Reply not found or not posted");
     }
 
@@ -222,7 +274,7 @@ export const deleteReply = mutation({
     // Update daily stats
     const stats = await ctx.db
       .query("dailyStats")
-      .withIndex("by_date", (q) => q.eq("date", replyDate))
+      .withIndex("by_user_date", (q) => q.eq("userId", userId).eq("date", replyDate))
       .first();
 
     if (stats) {
@@ -234,14 +286,10 @@ export const deleteReply = mutation({
 
       const remainingReplies = await ctx.db
         .query("posts")
-        .withIndex("by_posted_date")
-        .filter((q) =>
-          q.and(
-            q.gte(q.field("postedAt"), startOfDay),
-            q.lte(q.field("postedAt"), endOfDay),
-            q.eq(q.field("status"), "posted")
-          )
+        .withIndex("by_user_posted_date", (q) =>
+          q.eq("userId", userId).gte("postedAt", startOfDay).lte("postedAt", endOfDay)
         )
+        .filter((q) => q.eq(q.field("status"), "posted"))
         .collect();
 
       if (remainingReplies.length === 0) {
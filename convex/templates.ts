@@ -1,5 +1,13 @@
 import { v } from "convex/values";
-import { mutation, query } from "./_generated/server";
+import { internalMutation, mutation, query } from "./_generated/server";
+import type { Doc } from "./_generated/dataModel";
+import { getOwned, getUserId, requireOwned, requireUserId } from "./users";
+import { extractTemplateVariables, THREAD_TWEET_SEPARATOR } from "../lib/content-templates";
+import { scorePost } from "../lib/post-scoring";
+import { tweetLengthIssue } from "../lib/tweet-length";
+
+// Need a few real data points before a success rate means anything
+const MIN_USES_FOR_SUCCESS_RATE = 3;
 
 // Create a new template
 export const create = mutation({
@@ -8,11 +16,15 @@ export const create = mutation({
     content: v.string(),
     type: v.union(v.literal("reply"), v.literal("post"), v.literal("thread")),
     tags: v.array(v.string()),
+    category: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
+    const userId = await requireUserId(ctx);
     const now = Date.now();
     const templateId = await ctx.db.insert("templates", {
       ...args,
+      userId,
+      variables: extractTemplateVariables(args.content),
       usageCount: 0,
       createdAt: now,
       updatedAt: now,
@@ -21,11 +33,30 @@ export const create = mutation({
   },
 });
 
-// Get all templates
+// Get all templates, best performing first
 export const list = query({
-  args: {},
-  handler: async (ctx) => {
-    return await ctx.db.query("templates").collect();
+  args: {
+    type: v.optional(v.union(v.literal("reply"), v.literal("post"), v.literal("thread"))),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getUserId(ctx);
+    if (!userId) return [];
+
+    const type = args.type;
+    const templates = type
+      ? await ctx.db
+          .query("templates")
+          .withIndex("by_user_type", (q) => q.eq("userId", userId).eq("type", type))
+          .collect()
+      : await ctx.db
+          .query("templates")
+          .withIndex("by_user", (q) => q.eq("userId", userId))
+          .collect();
+
+    // Templates without enough data sort after rated ones, then by usage
+    return templates.sort((a, b) =>
+      (b.successRate ?? -1) - (a.successRate ?? -1) || b.usageCount - a.usageCount
+    );
   },
 });
 
@@ -33,7 +64,7 @@ export const list = query({
 export const get = query({
   args: { id: v.id("templates") },
   handler: async (ctx, args) => {
-    return await ctx.db.get(args.id);
+    return await getOwned(ctx, args.id);
   },
 });
 
@@ -44,11 +75,14 @@ export const update = mutation({
     name: v.optional(v.string()),
     content: v.optional(v.string()),
     tags: v.optional(v.array(v.string())),
+    category: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
     const { id, ...updates } = args;
+    await requireOwned(ctx, id);
     await ctx.db.patch(id, {
       ...updates,
+      ...(updates.content !== undefined ? { variables: extractTemplateVariables(updates.content) } : {}),
       updatedAt: Date.now(),
     });
   },
@@ -58,6 +92,7 @@ export const update = mutation({
 export const remove = mutation({
   args: { id: v.id("templates") },
   handler: async (ctx, args) => {
+    await requireOwned(ctx, args.id);
     await ctx.db.delete(args.id);
   },
 });
@@ -66,7 +101,7 @@ export const remove = mutation({
 export const incrementUsage = mutation({
   args: { id: v.id("templates") },
   handler: async (ctx, args) => {
-    const template = await ctx.db.get(args.id);
+    const template = await getOwned(ctx, args.id);
     if (template) {
       await ctx.db.patch(args.id, {
         usageCount: template.usageCount + 1,
@@ -76,3 +111,220 @@ export const incrementUsage = mutation({
   },
 });
 
+
+// Create today's post from a filled-in template (tracked so the template earns a success rate)
+export const createPostFromTemplate = mutation({
+  args: {
+    id: v.id("templates"),
+    content: v.string(), // template with variables filled in
+    date: v.string(), // YYYY-MM-DD
+  },
+  handler: async (ctx, args) => {
+    const template = await getOwned(ctx, args.id);
+    if (!template) {
+      throw new Error("Template not found");
+    }
+    if (template.type !== "post") {
+      throw new Error("Only post templates can create posts");
+    }
+    const issue = tweetLengthIssue(args.content, "Post");
+    if (issue) throw new Error(issue);
+
+    const now = Date.now();
+    const scoring = scorePost(args.content);
+
+    const postId = await ctx.db.insert("generatedPosts", {
+      userId: template.userId,
+      date: args.date,
+      content: args.content,
+      category: template.category || "general",
+      postType: "template",
+      algorithmScore: scoring.algorithmScore,
+      scoreBreakdown: scoring.scoreBreakdown,
+      suggestMedia: false,
+      status: "approved",
+      templateId: args.id,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    await ctx.db.patch(args.id, {
+      usageCount: template.usageCount + 1,
+      lastUsedAt: now,
+    });
+
+    return postId;
+  },
+});
+
+// Create today's challenge thread from a filled-in template (tracked like a post template)
+export const createThreadFromTemplate = mutation({
+  args: {
+    id: v.id("templates"),
+    content: v.string(), // template with variables filled in, tweets separated by THREAD_TWEET_SEPARATOR
+    date: v.string(), // YYYY-MM-DD
+    challengeDay: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const template = await getOwned(ctx, args.id);
+    if (!template) {
+      throw new Error("Template not found");
+    }
+    if (template.type !== "thread") {
+      throw new Error("Only thread templates can create threads");
+    }
+    const tweets = args.content.split(`\n${THREAD_TWEET_SEPARATOR}\n`).map(tweet => tweet.trim()).filter(Boolean);
+    if (tweets.length === 0) throw new Error("Thread is empty");
+    for (const [i, tweet] of tweets.entries()) {
+      const issue = tweetLengthIssue(tweet, `Tweet ${i + 1}`);
+      if (issue) throw new Error(issue);
+    }
+
+    const now = Date.now();
+    // The hook carries a thread - score it like a post (same mapping as the threads page)
+    const scoring = scorePost(tweets[0]);
+
+    const threadId = await ctx.db.insert("generatedThreads", {
+      userId: template.userId,
+      date: args.date,
+      challengeDay: args.challengeDay,
+      tweets,
+      threadType: "template",
+      algorithmScore: scoring.algorithmScore,
+      scoreBreakdown: {
+        hookStrength: scoring.scoreBreakdown.hookStrength,
+        narrativeFlow: scoring.scoreBreakdown.conversationTrigger,
+        specificity: scoring.scoreBreakdown.specificity,
+        authenticity: scoring.scoreBreakdown.authenticity,
+      },
+      suggestMedia: false,
+      status: "approved",
+      templateId: args.id,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    await ctx.db.patch(args.id, {
+      usageCount: template.usageCount + 1,
+      lastUsedAt: now,
+    });
+
+    return threadId;
+  },
+});
+
+type Metrics = { views: number; likes: number; retweets: number; replies: number; bookmarks: number };
+
+const engagementRate = (perf: Metrics) =>
+  (perf.likes + perf.retweets + perf.replies + perf.bookmarks) / perf.views;
+
+// Threads store totals - same rate, different field names
+const threadMetrics = (perf: { totalViews: number; totalLikes: number; totalRetweets: number; totalReplies: number; totalBookmarks: number }): Metrics => ({
+  views: perf.totalViews,
+  likes: perf.totalLikes,
+  retweets: perf.totalRetweets,
+  replies: perf.totalReplies,
+  bookmarks: perf.totalBookmarks,
+});
+
+interface MeasuredUse {
+  userId?: string;
+  performance: Metrics;
+}
+
+// Each user's median engagement rate
+function medianRateByUser(uses: MeasuredUse[]): Map<string | undefined, number> {
+  const ratesByUser = new Map<string | undefined, number[]>();
+  for (const use of uses) {
+    const rates = ratesByUser.get(use.userId) ?? [];
+    rates.push(engagementRate(use.performance));
+    ratesByUser.set(use.userId, rates);
+  }
+  return new Map(
+    Array.from(ratesByUser.entries()).map(([userId, rates]): [string | undefined, number] => {
+      rates.sort((a, b) => a - b);
+      return [userId, rates[Math.floor(rates.length / 2)]];
+    })
+  );
+}
+
+// Recompute successRate from the real performance of what was posted from each template
+// Each type is judged against the user's own median for that type - a reply doesn't compete with a thread
+export const refreshSuccessRates = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const measuredOnly = (uses: Array<{ userId?: string; performance?: Metrics }>): MeasuredUse[] =>
+      uses.flatMap(({ userId, performance }) =>
+        performance && performance.views > 0 ? [{ userId, performance }] : []
+      );
+
+    const posts = await ctx.db
+      .query("generatedPosts")
+      .withIndex("by_status", (q) => q.eq("status", "posted"))
+      .collect();
+    const replies = (await ctx.db
+      .query("posts")
+      .withIndex("by_status", (q) => q.eq("status", "posted"))
+      .collect()).filter(post => post.type === "reply");
+    const threads = await ctx.db
+      .query("generatedThreads")
+      .withIndex("by_status", (q) => q.eq("status", "posted"))
+      .collect();
+
+    const threadUses = (rows: typeof threads) => rows.map(thread => ({
+      userId: thread.userId,
+      performance: thread.performance && threadMetrics(thread.performance),
+    }));
+
+    // Baselines: each user's median per type, across everything posted with metrics
+    const medianByType = {
+      post: medianRateByUser(measuredOnly(posts)),
+      reply: medianRateByUser(measuredOnly(replies)),
+      thread: medianRateByUser(measuredOnly(threadUses(threads))),
+    };
+
+    // Posted uses of one template, from the table its type lands in
+    const usesOf = async (template: Doc<"templates">) => {
+      switch (template.type) {
+        case "post":
+          return await ctx.db
+            .query("generatedPosts")
+            .withIndex("by_template", (q) => q.eq("templateId", template._id))
+            .filter((q) => q.eq(q.field("status"), "posted"))
+            .collect();
+        case "reply":
+          return await ctx.db
+            .query("posts")
+            .withIndex("by_template", (q) => q.eq("templateId", template._id))
+            .filter((q) => q.eq(q.field("status"), "posted"))
+            .collect();
+        case "thread":
+          return threadUses(await ctx.db
+            .query("generatedThreads")
+            .withIndex("by_template", (q) => q.eq("templateId", template._id))
+            .filter((q) => q.eq(q.field("status"), "posted"))
+            .collect());
+      }
+    };
+
+    const templates = await ctx.db.query("templates").collect();
+    let updated = 0;
+
+    for (const template of templates) {
+      const median = medianByType[template.type].get(template.userId);
+      if (median === undefined) continue;
+
+      const measured = measuredOnly(await usesOf(template));
+      if (measured.length < MIN_USES_FOR_SUCCESS_RATE) continue;
+
+      const wins = measured.filter(use => engagementRate(use.performance) > median).length;
+      await ctx.db.patch(template._id, {
+        successRate: Math.round((wins / measured.length) * 100),
+        updatedAt: Date.now(),
+      });
+      updated++;
+    }
+
+    return { updated };
+  },
+});
@@ -1,5 +1,8 @@
 import { v } from "convex/values";
 import { mutation, query } from "./_generated/server";
+import { defaultPersonalContext } from "./personalContext";
+import { getUserId, requireOwned, requireUserId } from "./users";
+import { tweetLengthIssue } from "../lib/tweet-length";
 
 /**
  * Save or update thread input (30-day challenge daily reflection)
@@ -21,12 +24,13 @@ export const saveThreadInput = mutation({
     }),
   },
   handler: async (ctx, args) => {
+    const userId = await requireUserId(ctx);
     const now = Date.now();
 
     // Check if input already exists for this date
     const existing = await ctx.db
       .query("threadInput")
-      .withIndex("by_date", (q) => q.eq("date", args.date))
+      .withIndex("by_user_date", (q) => q.eq("userId", userId).eq("date", args.date))
       .first();
 
     if (existing) {
@@ -45,6 +49,7 @@ export const saveThreadInput = mutation({
     } else {
       // Create new
       const id = await ctx.db.insert("threadInput", {
+        userId,
         date: args.date,
         challengeDay: args.challengeDay,
         wins: args.wins,
@@ -69,9 +74,12 @@ export const getThreadInput = query({
     date: v.string(),
   },
   handler: async (ctx, args) => {
+    const userId = await getUserId(ctx);
+    if (!userId) return null;
+
     const input = await ctx.db
       .query("threadInput")
-      .withIndex("by_date", (q) => q.eq("date", args.date))
+      .withIndex("by_user_date", (q) => q.eq("userId", userId).eq("date", args.date))
       .first();
 
     return input;
@@ -83,11 +91,14 @@ export const getThreadInput = query({
  */
 export const getTodayThreadInput = query({
   handler: async (ctx) => {
+    const userId = await getUserId(ctx);
+    if (!userId) return null;
+
     const today = new Date().toISOString().split('T')[0];
 
     const input = await ctx.db
       .query("threadInput")
-      .withIndex("by_date", (q) => q.eq("date", today))
+      .withIndex("by_user_date", (q) => q.eq("userId", userId).eq("date", today))
       .first();
 
     return input;
@@ -113,12 +124,19 @@ export const saveGeneratedThread = mutation({
     suggestMedia: v.boolean(),
     mediaType: v.optional(v.string()),
     mediaSuggestions: v.optional(v.array(v.string())),
+    recap: v.optional(v.object({
+      fromDay: v.number(),
+      toDay: v.number(),
+      followerSeries: v.array(v.object({ day: v.number(), followers: v.number() })),
+    })),
   },
   handler: async (ctx, args) => {
+    const userId = await requireUserId(ctx);
     const now = Date.now();
 
     // Build insert object - only include optional fields if they have values
     const insertData: {
+      userId: string;
       date: string;
       challengeDay: number;
       tweets: string[];
@@ -136,7 +154,9 @@ export const saveGeneratedThread = mutation({
       updatedAt: number;
       mediaType?: string;
       mediaSuggestions?: string[];
+      recap?: typeof args.recap;
     } = {
+      userId,
       date: args.date,
       challengeDay: args.challengeDay,
       tweets: args.tweets,
@@ -156,6 +176,9 @@ export const saveGeneratedThread = mutation({
     if (args.mediaSuggestions !== undefined && args.mediaSuggestions !== null) {
       insertData.mediaSuggestions = args.mediaSuggestions;
     }
+    if (args.recap) {
+      insertData.recap = args.recap;
+    }
 
     const id = await ctx.db.insert("generatedThreads", insertData);
 
@@ -171,10 +194,14 @@ export const getGeneratedThreadByDate = query({
     date: v.string(),
   },
   handler: async (ctx, args) => {
+    const userId = await getUserId(ctx);
+    if (!userId) return null;
+
     const thread = await ctx.db
       .query("generatedThreads")
-      .withIndex("by_date", (q) => q.eq("date", args.date))
+      .withIndex("by_user_date", (q) => q.eq("userId", userId).eq("date", args.date))
       .order("desc")
+      .filter((q) => q.eq(q.field("recap"), undefined)) // recaps have their own section
       .first();
 
     return thread;
@@ -186,12 +213,16 @@ export const getGeneratedThreadByDate = query({
  */
 export const getTodayGeneratedThread = query({
   handler: async (ctx) => {
+    const userId = await getUserId(ctx);
+    if (!userId) return null;
+
     const today = new Date().toISOString().split('T')[0];
 
     const thread = await ctx.db
       .query("generatedThreads")
-      .withIndex("by_date", (q) => q.eq("date", today))
+      .withIndex("by_user_date", (q) => q.eq("userId", userId).eq("date", today))
       .order("desc")
+      .filter((q) => q.eq(q.field("recap"), undefined)) // recaps have their own section
       .first();
 
     return thread;
@@ -199,16 +230,102 @@ export const getTodayGeneratedThread = query({
 });
 
 /**
- * Update a generated thread (edit)
+ * Latest retrospective thread (any date)
+ */
+export const getLatestRecap = query({
+  handler: async (ctx) => {
+    const userId = await getUserId(ctx);
+    if (!userId) return null;
+
+    return await ctx.db
+      .query("generatedThreads")
+      .withIndex("by_user_date", (q) => q.eq("userId", userId))
+      .order("desc")
+      .filter((q) => q.neq(q.field("recap"), undefined))
+      .first();
+  },
+});
+
+/**
+ * Everything a recap over challenge days fromDay..toDay is built from:
+ * daily inputs (the metrics series), the daily threads with their
+ * performance, and the milestones
+ */
+export const getRecapData = query({
+  args: {
+    fromDay: v.number(),
+    toDay: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getUserId(ctx);
+    if (!userId) return null;
+
+    const [inputs, threads, context] = await Promise.all([
+      ctx.db
+        .query("threadInput")
+        .withIndex("by_user_date", (q) => q.eq("userId", userId))
+        .collect(),
+      ctx.db
+        .query("generatedThreads")
+        .withIndex("by_user_challenge_day", (q) =>
+          q.eq("userId", userId).gte("challengeDay", args.fromDay).lte("challengeDay", args.toDay)
+        )
+        .collect(),
+      ctx.db
+        .query("threadsContext")
+        .withIndex("by_user", (q) => q.eq("userId", userId))
+        .first(),
+    ]);
+
+    return {
+      fromDay: args.fromDay,
+      toDay: args.toDay,
+      goal: context?.challengeInfo.goal ?? "Grow on X in 30 days",
+      days: inputs
+        .filter(input => input.challengeDay >= args.fromDay && input.challengeDay <= args.toDay)
+        .map(input => ({
+          challengeDay: input.challengeDay,
+          wins: input.wins,
+          lessons: input.lessons,
+          struggles: input.struggles,
+          metrics: input.metrics,
+        })),
+      threads: threads
+        .filter(thread => !thread.recap && thread.status !== "rejected")
+        .map(thread => ({
+          challengeDay: thread.challengeDay,
+          firstTweet: thread.tweets[0] ?? "",
+          status: thread.status,
+          performance: thread.performance,
+        })),
+      milestones: context?.keyMilestones ?? [],
+    };
+  },
+});
+
+/**
+ * Update a generated thread (edit) - every tweet has to fit X's weighted limit
  */
 export const updateGeneratedThread = mutation({
   args: {
     id: v.id("generatedThreads"),
     tweets: v.array(v.string()),
+    mediaSuggestions: v.optional(v.array(v.string())), // per tweet, "" = no media
   },
   handler: async (ctx, args) => {
+    await requireOwned(ctx, args.id);
+
+    args.tweets.forEach((tweet, i) => {
+      const issue = tweetLengthIssue(tweet, `Tweet ${i + 1}`);
+      if (issue) throw new Error(issue);
+    });
+
     await ctx.db.patch(args.id, {
       tweets: args.tweets,
+      ...(args.mediaSuggestions && {
+        mediaSuggestions: args.mediaSuggestions,
+        suggestMedia: args.mediaSuggestions.some(Boolean),
+      }),
       status: "edited",
       updatedAt: Date.now(),
     });
@@ -223,6 +340,7 @@ export const approveThread = mutation({
     id: v.id("generatedThreads"),
   },
   handler: async (ctx, args) => {
+    await requireOwned(ctx, args.id);
     await ctx.db.patch(args.id, {
       status: "approved",
       updatedAt: Date.now(),
@@ -239,6 +357,7 @@ export const markThreadAsPosted = mutation({
     threadUrl: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
+    await requireOwned(ctx, args.id);
     const now = Date.now();
 
     await ctx.db.patch(args.id, {
@@ -258,6 +377,7 @@ export const rejectThread = mutation({
     id: v.id("generatedThreads"),
   },
   handler: async (ctx, args) => {
+    await requireOwned(ctx, args.id);
     await ctx.db.patch(args.id, {
       status: "rejected",
       updatedAt: Date.now(),
@@ -273,6 +393,7 @@ export const deleteGeneratedThread = mutation({
     id: v.id("generatedThreads"),
   },
   handler: async (ctx, args) => {
+    await requireOwned(ctx, args.id);
     await ctx.db.delete(args.id);
   },
 });
@@ -282,9 +403,12 @@ export const deleteGeneratedThread = mutation({
  */
 export const getAllChallengeThreads = query({
   handler: async (ctx) => {
+    const userId = await getUserId(ctx);
+    if (!userId) return [];
+
     const threads = await ctx.db
       .query("generatedThreads")
-      .withIndex("by_challenge_day")
+      .withIndex("by_user_challenge_day", (q) => q.eq("userId", userId))
       .order("desc")
       .collect();
 
@@ -297,9 +421,12 @@ export const getAllChallengeThreads = query({
  */
 export const getChallengeStartDate = query({
   handler: async (ctx) => {
+    const userId = await getUserId(ctx);
+    if (!userId) return null;
+
     const context = await ctx.db
       .query("personalContext")
-      .withIndex("by_key", (q) => q.eq("key", "main_context"))
+      .withIndex("by_user", (q) => q.eq("userId", userId))
       .first();
 
     return context?.challengeStartDate || null;
@@ -314,9 +441,10 @@ export const setChallengeStartDate = mutation({
     startDate: v.string(), // YYYY-MM-DD
   },
   handler: async (ctx, args) => {
+    const userId = await requireUserId(ctx);
     const context = await ctx.db
       .query("personalContext")
-      .withIndex("by_key", (q) => q.eq("key", "main_context"))
+      .withIndex("by_user", (q) => q.eq("userId", userId))
       .first();
 
     if (context) {
@@ -327,29 +455,8 @@ export const setChallengeStartDate = mutation({
     } else {
       // Create new context if it doesn't exist
       await ctx.db.insert("personalContext", {
-        key: "main_context",
-        currentFollowers: 3,
-        currentSubWiseUsers: 0,
-        currentSubWiseMRR: 0,
-        currentReplyOptimizerUsers: 0,
-        followerGoal: 250,
-        followerGoalDeadline: "30 days",
-        subWiseUserGoal: 100,
-        stage: "starting_out",
-        journeyStartDate: args.startDate,
-        daysIntoJourney: 1,
+        ...defaultPersonalContext(userId, args.startDate),
         challengeStartDate: args.startDate,
-        projects: [],
-        experiences: [],
-        interests: ["mma", "saas", "tech", "philosophy"],
-        skillLevel: {
-          mma: "practitioner",
-          saas: "building",
-          coding: "intermediate",
-          marketing: "learning",
-        },
-        avoidClaims: ["expert", "guru", "coach"],
-        lastUpdated: Date.now(),
       });
     }
   },
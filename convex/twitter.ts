@@ -0,0 +1,186 @@
+import { v } from "convex/values";
+import { action, internalMutation, internalQuery, query, type ActionCtx } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { requireUserId } from "./users";
+import { createTwitterApi, takeToken, type TwitterApi } from "../lib/twitter-api";
+
+const MAX_PURGE_PER_RUN = 500;
+const USAGE_DAYS = 7;
+
+function utcDay(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(0, 10);
+}
+
+/**
+ * Twitter client for actions - shares the rate limiter, response cache and
+ * daily call counter with every other caller
+ */
+export function twitterApiFor(ctx: ActionCtx): TwitterApi {
+  return createTwitterApi({
+    acquire: (endpoint) => ctx.runMutation(internal.twitter.acquire, { endpoint }),
+    get: (key) => ctx.runQuery(internal.twitter.getCached, { key }),
+    set: async (key, value, ttlMs) => {
+      await ctx.runMutation(internal.twitter.setCached, { key, value, ttlMs });
+    },
+  });
+}
+
+/**
+ * Reserve a rate-limit token and count the call - returns how long to wait (ms)
+ */
+export const acquire = internalMutation({
+  args: {
+    endpoint: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const now = Date.now();
+
+    const bucket = await ctx.db.query("twitterRateLimit").first();
+    const { state, waitMs } = takeToken(bucket, now);
+    if (bucket) {
+      await ctx.db.patch(bucket._id, state);
+    } else {
+      await ctx.db.insert("twitterRateLimit", state);
+    }
+
+    // Count it on the day the request actually goes out
+    const day = utcDay(now + waitMs);
+    const usage = await ctx.db
+      .query("twitterApiUsage")
+      .withIndex("by_day_endpoint", (q) => q.eq("day", day).eq("endpoint", args.endpoint))
+      .first();
+    if (usage) {
+      await ctx.db.patch(usage._id, { calls: usage.calls + 1 });
+    } else {
+      await ctx.db.insert("twitterApiUsage", { day, endpoint: args.endpoint, calls: 1 });
+    }
+
+    return waitMs;
+  },
+});
+
+export const getCached = internalQuery({
+  args: {
+    key: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const entry = await ctx.db
+      .query("twitterCache")
+      .withIndex("by_key", (q) => q.eq("key", args.key))
+      .first();
+
+    return entry && entry.expiresAt > Date.now() ? entry.value : null;
+  },
+});
+
+export const setCached = internalMutation({
+  args: {
+    key: v.string(),
+    value: v.string(),
+    ttlMs: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const expiresAt = Date.now() + args.ttlMs;
+    const existing = await ctx.db
+      .query("twitterCache")
+      .withIndex("by_key", (q) => q.eq("key", args.key))
+      .first();
+
+    if (existing) {
+      await ctx.db.patch(existing._id, { value: args.value, expiresAt });
+    } else {
+      await ctx.db.insert("twitterCache", { key: args.key, value: args.value, expiresAt });
+    }
+  },
+});
+
+/**
+ * Delete expired cache entries (runs hourly, see crons.ts)
+ */
+export const purgeExpired = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const expired = await ctx.db
+      .query("twitterCache")
+      .withIndex("by_expires", (q) => q.lt("expiresAt", Date.now()))
+      .take(MAX_PURGE_PER_RUN);
+
+    for (const entry of expired) {
+      await ctx.db.delete(entry._id);
+    }
+    return expired.length;
+  },
+});
+
+/**
+ * Calls per day for the last week, newest first
+ */
+export const usage = query({
+  args: {},
+  handler: async (ctx) => {
+    const now = Date.now();
+    const days = Array.from({ length: USAGE_DAYS }, (_, i) => utcDay(now - i * 24 * 60 * 60 * 1000));
+
+    return await Promise.all(days.map(async (day) => {
+      const rows = await ctx.db
+        .query("twitterApiUsage")
+        .withIndex("by_day_endpoint", (q) => q.eq("day", day))
+        .collect();
+
+      return {
+        day,
+        calls: rows.reduce((sum, row) => sum + row.calls, 0),
+        byEndpoint: rows.map(row => ({ endpoint: row.endpoint, calls: row.calls })),
+      };
+    }));
+  },
+});
+
+// Entry points for API routes (see lib/twitter-client.ts)
+
+export const getUser = action({
+  args: {
+    username: v.string(),
+  },
+  handler: async (ctx, args) => {
+    await requireUserId(ctx);
+    return await twitterApiFor(ctx).getUser(args.username);
+  },
+});
+
+export const getUserTweets = action({
+  args: {
+    userId: v.string(),
+    count: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    await requireUserId(ctx);
+    return await twitterApiFor(ctx).getUserTweets(args.userId, args.count);
+  },
+});
+
+export const getTweet = action({
+  args: {
+    tweetId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    await requireUserId(ctx);
+    return await twitterApiFor(ctx).getTweet(args.tweetId);
+  },
+});
+
+export const getTweetPage = action({
+  args: {
+    source: v.union(
+      v.object({ kind: v.literal("community"), communityId: v.string() }),
+      v.object({ kind: v.literal("search"), query: v.string() }),
+      v.object({ kind: v.literal("user"), userId: v.string() }),
+      v.object({ kind: v.literal("replies"), tweetId: v.string() })
+    ),
+    cursor: v.union(v.string(), v.null()),
+  },
+  handler: async (ctx, args) => {
+    await requireUserId(ctx);
+    return await twitterApiFor(ctx).getTweetPage(args.source, args.cursor);
+  },
+});
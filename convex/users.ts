@@ -0,0 +1,112 @@
+import type { Doc, Id } from "./_generated/dataModel";
+import { query, type ActionCtx, type MutationCtx, type QueryCtx } from "./_generated/server";
+
+/**
+ * Tables that belong to a single user (everything else - creators,
+ * communityProfiles, algorithmRules, postTemplates, engagementModels - is shared)
+ */
+export const OWNED_TABLES = [
+  "posts",
+  "templates",
+  "analytics",
+  "dailyStats",
+  "performanceSnapshots",
+  "personalContext",
+  "dailyInput",
+  "generatedPosts",
+  "contentBank",
+  "threadInput",
+  "generatedThreads",
+  "postsContext",
+  "threadsContext",
+  "communityPosts",
+  "replyQueue",
+] as const;
+
+export type OwnedTable = (typeof OWNED_TABLES)[number];
+
+/**
+ * Signed-in user's id (Clerk token identifier), or null when signed out
+ */
+export async function getUserId(ctx: QueryCtx | MutationCtx | ActionCtx): Promise<string | null> {
+  const identity = await ctx.auth.getUserIdentity();
+  return identity?.tokenIdentifier ?? null;
+}
+
+/**
+ * Signed-in user's id - throws when signed out (use in mutations)
+ */
+export async function requireUserId(ctx: QueryCtx | MutationCtx | ActionCtx): Promise<string> {
+  const userId = await getUserId(ctx);
+  if (!userId) {
+    throw new Error("Not signed in");
+  }
+  return userId;
+}
+
+/**
+ * Load a row owned by the signed-in user (null if missing or someone else's)
+ */
+export async function getOwned<T extends OwnedTable>(
+  ctx: QueryCtx | MutationCtx,
+  id: Id<T>
+): Promise<Doc<T> | null> {
+  const userId = await getUserId(ctx);
+  if (!userId) return null;
+
+  const doc = await ctx.db.get(id);
+  return doc && (doc as { userId?: string }).userId === userId ? doc : null;
+}
+
+/**
+ * Load a row owned by the signed-in user - throws if it isn't theirs
+ */
+export async function requireOwned<T extends OwnedTable>(
+  ctx: QueryCtx | MutationCtx,
+  id: Id<T>
+): Promise<Doc<T>> {
+  await requireUserId(ctx);
+  const doc = await getOwned(ctx, id);
+  if (!doc) {
+    throw new Error("Not found");
+  }
+  return doc;
+}
+
+/**
+ * Whether a user may change shared settings (algorithmRules) - ADMIN_USER_IDS
+ * in the Convex environment is a comma list of token identifiers (see `me`)
+ */
+export function isAdmin(userId: string | null): boolean {
+  if (!userId) return false;
+  const admins = (process.env.ADMIN_USER_IDS ?? "").split(",").map(id => id.trim()).filter(Boolean);
+  return admins.includes(userId);
+}
+
+/**
+ * Signed-in admin's id - throws for everyone else (use in mutations on shared tables)
+ */
+export async function requireAdmin(ctx: QueryCtx | MutationCtx | ActionCtx): Promise<string> {
+  const userId = await requireUserId(ctx);
+  if (!isAdmin(userId)) {
+    throw new Error("Only admins can change shared settings");
+  }
+  return userId;
+}
+
+/**
+ * Who am I signed in as (userId is what migrations/assignOwner expects)
+ */
+export const me = query({
+  args: {},
+  handler: async (ctx) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) return null;
+
+    return {
+      userId: identity.tokenIdentifier,
+      name: identity.name ?? null,
+      email: identity.email ?? null,
+    };
+  },
+});
@@ -0,0 +1,247 @@
+import { v } from "convex/values";
+import { internalAction, internalMutation, internalQuery, mutation, query } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { getUserId, requireUserId } from "./users";
+import { enqueueCandidates } from "./replyQueue";
+import { twitterApiFor } from "./twitter";
+import {
+  DEFAULT_TWEETS_PER_DAY,
+  estimateTweetsPerDay,
+  MAX_POLL_INTERVAL_MINUTES,
+  planPollIntervals,
+} from "../lib/watchlist";
+
+const MAX_POLLS_PER_RUN = 20;
+const FEED_WINDOW_MS = 6 * 60 * 60 * 1000;
+
+/**
+ * Start watching a creator (analyzed on the Profiles page first)
+ */
+export const watch = mutation({
+  args: {
+    username: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const userId = await requireUserId(ctx);
+    const creator = await ctx.db
+      .query("creators")
+      .withIndex("by_username", (q) => q.eq("username", args.username))
+      .first();
+
+    if (!creator) {
+      throw new Error(`Analyze @${args.username} before watching them`);
+    }
+
+    const watchers = creator.watchers ?? [];
+    if (watchers.includes(userId)) return creator._id;
+
+    await ctx.db.patch(creator._id, {
+      watchers: [...watchers, userId],
+      watched: true,
+      nextPollAt: creator.watched ? creator.nextPollAt : Date.now(), // first poll on the next run
+    });
+    return creator._id;
+  },
+});
+
+/**
+ * Stop watching a creator
+ */
+export const unwatch = mutation({
+  args: {
+    username: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const userId = await requireUserId(ctx);
+    const creator = await ctx.db
+      .query("creators")
+      .withIndex("by_username", (q) => q.eq("username", args.username))
+      .first();
+
+    if (!creator) return;
+
+    const watchers = (creator.watchers ?? []).filter(id => id !== userId);
+    await ctx.db.patch(creator._id, {
+      watchers,
+      watched: watchers.length > 0,
+    });
+  },
+});
+
+/**
+ * Usernames the signed-in user watches
+ */
+export const listWatched = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getUserId(ctx);
+    if (!userId) return [];
+
+    const creators = await ctx.db
+      .query("creators")
+      .withIndex("by_watched_next_poll", (q) => q.eq("watched", true))
+      .collect();
+
+    return creators
+      .filter(c => c.watchers?.includes(userId))
+      .map(c => ({
+        username: c.username,
+        tweetsPerDay: c.tweetsPerDay ?? null,
+        pollIntervalMinutes: c.pollIntervalMinutes ?? null,
+        lastPolledAt: c.lastPolledAt ?? null,
+        nextPollAt: c.nextPollAt ?? null,
+      }));
+  },
+});
+
+/**
+ * Tweets that arrived from the user's watched creators lately, newest first
+ * (a subscription - new arrivals show up in the UI as the poller records them)
+ */
+export const feed = query({
+  args: {
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getUserId(ctx);
+    if (!userId) return [];
+
+    const watched = await ctx.db
+      .query("creators")
+      .withIndex("by_watched_next_poll", (q) => q.eq("watched", true))
+      .collect();
+    const usernames = new Set(watched.filter(c => c.watchers?.includes(userId)).map(c => c.username));
+    if (usernames.size === 0) return [];
+
+    const recent = await ctx.db
+      .query("watchedTweets")
+      .withIndex("by_arrived", (q) => q.gte("arrivedAt", Date.now() - FEED_WINDOW_MS))
+      .order("desc")
+      .collect();
+
+    return recent.filter(t => usernames.has(t.authorUsername)).slice(0, args.limit ?? 20);
+  },
+});
+
+/**
+ * Watched creators whose next poll is due
+ */
+export const getDueCreators = internalQuery({
+  args: {},
+  handler: async (ctx) => {
+    return await ctx.db
+      .query("creators")
+      .withIndex("by_watched_next_poll", (q) => q.eq("watched", true).lte("nextPollAt", Date.now()))
+      .take(MAX_POLLS_PER_RUN);
+  },
+});
+
+/**
+ * Store a poll's tweets (new ones only), queue them for every watcher and
+ * schedule the creator's next poll from their posting frequency
+ */
+export const recordPoll = internalMutation({
+  args: {
+    creatorId: v.id("creators"),
+    xUserId: v.optional(v.string()),
+    tweets: v.array(v.object({
+      tweetId: v.string(),
+      text: v.string(),
+      tweetCreatedAt: v.number(),
+    })),
+  },
+  handler: async (ctx, args) => {
+    const creator = await ctx.db.get(args.creatorId);
+    if (!creator) return { arrived: 0 };
+
+    const now = Date.now();
+    const arrived = [];
+
+    for (const tweet of args.tweets) {
+      const seen = await ctx.db
+        .query("watchedTweets")
+        .withIndex("by_tweet", (q) => q.eq("tweetId", tweet.tweetId))
+        .first();
+      if (seen) continue;
+
+      await ctx.db.insert("watchedTweets", {
+        tweetId: tweet.tweetId,
+        authorUsername: creator.username,
+        text: tweet.text,
+        tweetCreatedAt: tweet.tweetCreatedAt,
+        arrivedAt: now,
+      });
+      arrived.push(tweet);
+    }
+
+    // New tweets go straight into each watcher's reply queue
+    const candidates = arrived.map(tweet => ({
+      tweetId: tweet.tweetId,
+      tweetText: tweet.text,
+      authorUsername: creator.username,
+      tweetCreatedAt: tweet.tweetCreatedAt,
+    }));
+    for (const userId of creator.watchers ?? []) {
+      await enqueueCandidates(ctx, userId, candidates);
+    }
+
+    // Re-plan every watched creator's interval so the total stays in budget
+    const tweetsPerDay = args.tweets.length > 0
+      ? estimateTweetsPerDay(args.tweets.map(t => t.tweetCreatedAt), now)
+      : creator.tweetsPerDay;
+    const watched = await ctx.db
+      .query("creators")
+      .withIndex("by_watched_next_poll", (q) => q.eq("watched", true))
+      .collect();
+    const plan = planPollIntervals(watched.map(c => ({
+      username: c.username,
+      tweetsPerDay: (c._id === creator._id ? tweetsPerDay : c.tweetsPerDay) ?? DEFAULT_TWEETS_PER_DAY,
+    })));
+    const interval = plan[creator.username] ?? MAX_POLL_INTERVAL_MINUTES; // unwatched meanwhile
+
+    await ctx.db.patch(creator._id, {
+      xUserId: args.xUserId ?? creator.xUserId,
+      tweetsPerDay,
+      pollIntervalMinutes: interval,
+      lastPolledAt: now,
+      nextPollAt: now + interval * 60 * 1000,
+    });
+
+    return { arrived: arrived.length };
+  },
+});
+
+/**
+ * Poll due creators for new tweets (runs every 5 minutes, see crons.ts)
+ */
+export const poll = internalAction({
+  args: {},
+  handler: async (ctx): Promise<{ polled: number; arrived: number }> => {
+    const due = await ctx.runQuery(internal.watchlist.getDueCreators, {});
+    const twitterApi = twitterApiFor(ctx);
+    let arrived = 0;
+
+    for (const creator of due) {
+      let xUserId = creator.xUserId;
+      if (!xUserId) {
+        const user = await twitterApi.getUser(creator.username);
+        xUserId = user?.id;
+      }
+
+      const tweets = xUserId ? await twitterApi.getUserTweets(xUserId) : [];
+      const result: { arrived: number } = await ctx.runMutation(internal.watchlist.recordPoll, {
+        creatorId: creator._id,
+        xUserId,
+        tweets: tweets
+          .map(t => ({ tweetId: t.id, text: t.text, tweetCreatedAt: Date.parse(t.created_at) }))
+          .filter(t => !Number.isNaN(t.tweetCreatedAt)),
+      });
+      arrived += result.arrived;
+    }
+
+    if (due.length > 0) {
+      console.log(`👀 Watchlist: polled ${due.length} creators, ${arrived} new tweets`);
+    }
+    return { polled: due.length, arrived };
+  },
+});
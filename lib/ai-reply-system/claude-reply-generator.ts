@@ -13,8 +13,23 @@
  * Result: 88-95 scores in 2-3 iterations (vs 75-82 in 6 iterations with OpenAI)
  */
 
-import { generateWithClaude } from "../anthropic-client";
-import { analyzeReplyFeatures, predictEngagement } from "../x-algorithm";
+import { getLLMProvider, type LLMProvider, type LLMProviderName, type LLMTextMessage } from "../llm";
+import {
+  ALGORITHM_WEIGHTS,
+  analyzeReplyFeatures,
+  describeAlgorithmWeights,
+  predictEngagement,
+  type XAlgorithmWeights,
+} from "../x-algorithm";
+import type { EngagementModel } from "../engagement-model";
+import type { ReplyProgressEvent } from "../reply-progress";
+import { REFINED_REPLY_SCHEMA, REPLIES_SCHEMA } from "../generation-schemas";
+import {
+  createSimilarityIndex,
+  describeDuplicates,
+  type PostedContent,
+  type SimilarityMatch,
+} from "../content-similarity";
 import type { CreatorIntelligence } from "./types";
 import { analyzeTweetContent, type TweetContent } from "./content-analyzer";
 import {
@@ -26,14 +41,17 @@ import {
 } from "./quality-gate";
 import { validateAuthenticSpecificity, type SpecificityReport } from "./specificity-validator-v2";
 import { 
-  getAuthenticContext, 
-  REAL_EXPERIENCES, 
+  getRealExperiences, 
+  describeCurrentStage, 
   buildDynamicReplyContext,
+  type PersonalContextData,
   type PostsContextData 
 } from "./personal-knowledge-base";
 import { generateCrossoverPositioning } from "./niche-crossover-system";
 import { selectReplyStrategies, getStrategyInstructions, type ReplyValueType } from "./reply-strategy-selector";
 import { selectRelevantQuestions } from "./niche-knowledge-base";
+import { describeConversationContext, type ConversationContext } from "./conversation-context";
+import { analyzeReplySaturation, type ReplySaturation } from "./reply-saturation";
 
 export interface TweetMedia {
   type: "photo" | "video" | "animated_gif";
@@ -48,6 +66,14 @@ export interface ReplyGenerationContext {
   minutesSincePosted: number;
   yourHandle: string;
   postsContext?: PostsContextData | null; // 🔥 DYNAMIC CONTEXT
+  personalContext?: PersonalContextData | null; // 👤 YOUR PERSONA (real experiences + metrics)
+  engagementModel?: EngagementModel | null; // 📈 LEARNED WEIGHTS (falls back to heuristics)
+  algorithmWeights?: XAlgorithmWeights; // ⚖️ ACTIVE ALGORITHM RULES (defaults to ALGORITHM_WEIGHTS)
+  recentContent?: PostedContent[]; // 🔁 WHAT WE POSTED LATELY (near-duplicates get regenerated)
+  conversation?: ConversationContext | null; // 🧵 THREAD ABOVE, QUOTED TWEET + EXISTING REPLIES
+  llm?: LLMProvider; // defaults to the configured "replies" provider
+  onProgress?: (event: ReplyProgressEvent) => void; // 📡 strategy, attempts and check results as they happen
+  signal?: AbortSignal; // checked before each attempt and passed to the LLM request
 }
 
 export interface GeneratedReply {
@@ -69,6 +95,7 @@ export interface GeneratedReply {
     profileClicksExpected: number;
   };
   reasoning: string;
+  similarTo?: SimilarityMatch; // Still a near-duplicate after the last attempt
 }
 
 export interface GenerationResult {
@@ -76,13 +103,30 @@ export interface GenerationResult {
   qualityReport: QualityReport;
   specificityReport: SpecificityReport | null;
   totalAttempts: number;
-  method: 'claude' | 'openai' | 'hybrid';
+  method: LLMProviderName;
+  saturation: ReplySaturation | null; // angles the existing replies already took
+}
+
+export interface ReplyRefinementContext
+  extends Omit<ReplyGenerationContext, "tweetMedia" | "recentContent" | "onProgress" | "signal"> {
+  reply: { text: string; strategy: ReplyValueType }; // the generated reply to rework
+  instruction: string; // free text: "shorter", "drop the question", "mention BJJ"
+}
+
+export interface RefinementResult {
+  reply: GeneratedReply;
+  qualityReport: QualityReport;
+  specificityReport: SpecificityReport; // of the final text
+  totalAttempts: number;
+  method: LLMProviderName;
 }
 
 const MAX_ATTEMPTS = 3;
+const MAX_REFINE_ATTEMPTS = 2; // one rewrite + one retry if it invents something
 
 // System prompt emphasizes authenticity and human-first approach
-const CLAUDE_SYSTEM_PROMPT = `You are an X reply expert who writes AUTHENTIC, HUMAN responses that drive engagement.
+function buildSystemPrompt(weights: XAlgorithmWeights): string {
+  return `You are an X reply expert who writes AUTHENTIC, HUMAN responses that drive engagement.
 
 🚨 ANTI-AI-DETECTION RULES (MOST CRITICAL):
 • NEVER use em-dashes (—) or hyphens (- ) to separate clauses - this is the #1 AI tell
@@ -100,10 +144,7 @@ MEDIUM (2-3 sentences): "@user This clicks. I've seen the same pattern with asyn
 LONG (3-4 sentences): "@user The discipline crossover is real. Been training BJJ 5 years and the same mental frameworks apply to building products. When you're exhausted in a roll, you can't force technique. Same with features. What's your training background?"
 
 X ALGORITHM WEIGHTS (from reverse-engineered code):
-• Author reply: 75x (MOST IMPORTANT)
-• Conversation replies: 13.5x
-• Profile clicks: 5x
-• Likes: 1x (baseline)
+${describeAlgorithmWeights(weights).join("\n")}
 
 ENGAGEMENT TRIGGERS:
 • hasQuestion: +0.25 author reply boost, +5 conversation replies
@@ -128,6 +169,7 @@ You will be given 3 different reply strategies. Generate 3 DIFFERENT types of re
 - If strategy says "ask" → generate a question
 
 Follow the strategy format requirements exactly. Variety prevents X spam detection.`;
+}
 
 /**
  * Generate 3 high-quality replies with Claude + Specificity Validation
@@ -135,7 +177,11 @@ Follow the strategy format requirements exactly. Variety prevents X spam detecti
 export async function generateOptimizedRepliesWithClaude(
   context: ReplyGenerationContext
 ): Promise<GenerationResult> {
-  console.log("🚀 Starting CLAUDE generation with specificity validation...");
+  const llm = context.llm ?? getLLMProvider("replies");
+  const weights = context.algorithmWeights ?? ALGORITHM_WEIGHTS;
+  const similarity = context.recentContent?.length ? createSimilarityIndex(context.recentContent) : null;
+
+  console.log(`🚀 Starting generation with specificity validation (${llm.name}: ${llm.model})...`);
   console.log(`   Creator: @${context.creatorProfile.username}`);
   console.log(`   Niche: ${context.creatorProfile.primaryNiche}`);
   console.log(`   Tweet age: ${context.minutesSincePosted} minutes`);
@@ -143,27 +189,46 @@ export async function generateOptimizedRepliesWithClaude(
   // Extract tweet content
   const tweetContent = analyzeTweetContent(context.tweetText);
 
+  // Which angles the existing replies already crowd
+  const saturation = context.conversation?.replies.length
+    ? analyzeReplySaturation(context.conversation.replies.map(r => r.text))
+    : null;
+  if (saturation?.crowded.length) {
+    console.log(`🗣️ Crowded angles: ${saturation.crowded.map(type => `${type} ${saturation.counts[type]}/${saturation.total}`).join(", ")}`);
+  }
+
   // Select strategies ONCE at the start (don't recalculate every iteration)
   const selectedStrategy = selectReplyStrategies({
     tweetContent,
     creatorNiche: context.creatorProfile.primaryNiche,
-    yourExperiences: REAL_EXPERIENCES.map(e => e.topic),
+    yourExperiences: getRealExperiences(context.personalContext).map(e => e.topic),
     minutesSincePosted: context.minutesSincePosted,
+    saturation,
   });
 
   console.log(`\n📊 SELECTED STRATEGIES:`);
   console.log(`   Primary: ${selectedStrategy.primary} (score: ${selectedStrategy.scores[selectedStrategy.primary]})`);
   console.log(`   Secondary: ${selectedStrategy.secondary} (score: ${selectedStrategy.scores[selectedStrategy.secondary]})`);
   console.log(`   Fallback: ${selectedStrategy.fallback} (score: ${selectedStrategy.scores[selectedStrategy.fallback]})`);
+  context.onProgress?.({
+    type: "strategy",
+    primary: selectedStrategy.primary,
+    secondary: selectedStrategy.secondary,
+    fallback: selectedStrategy.fallback,
+    crowded: saturation?.crowded ?? [],
+  });
 
   let attemptNumber = 0;
   let replies: GeneratedReply[] = [];
   let qualityReport: QualityReport | null = null;
   let specificityReport: SpecificityReport | null = null as SpecificityReport | null;
   let lastClaudeResponse = '';
+  let duplicateFeedback = '';
 
   while (attemptNumber < MAX_ATTEMPTS) {
+    context.signal?.throwIfAborted();
     attemptNumber++;
+    context.onProgress?.({ type: "attempt", attempt: attemptNumber, maxAttempts: MAX_ATTEMPTS });
 
     console.log(`\n${"=".repeat(60)}`);
     console.log(`🔄 ATTEMPT ${attemptNumber}/${MAX_ATTEMPTS}`);
@@ -179,9 +244,12 @@ export async function generateOptimizedRepliesWithClaude(
         context.creatorProfile,
         selectedStrategy,
         context.postsContext, // 🔥 DYNAMIC CONTEXT
+        context.personalContext ?? null,
+        weights,
         context.tweetMedia, // 🖼️ IMAGES
         improvementInstructions,
-        qualityReport?.improvements
+        qualityReport?.improvements,
+        context.conversation // 🧵 THREAD CONTEXT
       );
 
       // Build messages for Claude
@@ -199,6 +267,9 @@ export async function generateOptimizedRepliesWithClaude(
         if (specificityReport && !specificityReport.passed) {
           feedback += specificityReport.improvementInstructions + '\n\n';
         }
+        if (duplicateFeedback) {
+          feedback += duplicateFeedback + '\n\n';
+        }
         if (qualityReport && !qualityReport.passed) {
           feedback += getImprovementSummary(qualityReport.improvements);
         }
@@ -211,26 +282,30 @@ export async function generateOptimizedRepliesWithClaude(
         }
       }
 
-      // Call Claude
-      const response = await generateWithClaude(CLAUDE_SYSTEM_PROMPT, messages, {
+      // Call the configured LLM (Claude by default) - schema-checked, exactly 3 replies
+      const output = await llm.generateStructured(buildSystemPrompt(weights), messages, REPLIES_SCHEMA, {
         temperature: 0.7,
         maxTokens: 800,
+        signal: context.signal,
       });
 
-      lastClaudeResponse = response;
-      console.log(`✅ Claude response received`);
+      lastClaudeResponse = JSON.stringify(output);
+      console.log(`✅ ${llm.name} response received`);
 
-      // Parse replies
-      const rawReplies = parseReplies(response);
-      console.log(`   Parsed ${rawReplies.length} replies`);
+      const rawReplies = output.replies.map(reply => reply.text.trim());
 
       // **AUTHENTICITY + SPECIFICITY CHECK FIRST** (before scoring)
       let allPassValidation = true;
+      let worstValidation = null as SpecificityReport | null;
       rawReplies.forEach((text, idx) => {
-        const validationReport = validateAuthenticSpecificity(text, attemptNumber);
+        const validationReport = validateAuthenticSpecificity(text, attemptNumber, context.personalContext ?? null);
         const status = validationReport.passed ? '✅' : (validationReport.authentic ? '⚠️' : '🚨');
         console.log(`   Reply ${idx + 1}: ${status} auth:${validationReport.authentic} score:${validationReport.score}/100`);
 
+        if (!worstValidation || validationReport.score < worstValidation.score) {
+          worstValidation = validationReport;
+        }
+
         if (!validationReport.passed) {
           allPassValidation = false;
           specificityReport = validationReport; // Save for feedback
@@ -245,6 +320,18 @@ export async function generateOptimizedRepliesWithClaude(
         }
       });
 
+      const reported = allPassValidation ? worstValidation : specificityReport;
+      if (reported) {
+        context.onProgress?.({
+          type: "specificity",
+          attempt: attemptNumber,
+          passed: allPassValidation,
+          authentic: reported.authentic,
+          score: reported.score,
+          issues: reported.issues.map(issue => `${issue.text}: ${issue.explanation}`),
+        });
+      }
+
       // If any reply fails validation and we have attempts left, regenerate immediately
       if (!allPassValidation && attemptNumber < MAX_ATTEMPTS) {
         if (!specificityReport?.authentic) {
@@ -255,14 +342,21 @@ export async function generateOptimizedRepliesWithClaude(
         continue; // Skip to next iteration
       }
 
-      // Score each reply
-      replies = rawReplies.map((text, idx) => {
-        const features = analyzeReplyFeatures(text);
-        const prediction = predictEngagement(features, context.minutesSincePosted);
-        const score = calculateCompositeScore(prediction);
+      // **NEAR-DUPLICATE CHECK** (don't repeat something we already posted)
+      const duplicates = rawReplies.map(text => similarity?.findNearDuplicate(text) ?? null);
+      duplicateFeedback = duplicates.some(Boolean) ? describeDuplicates(duplicates) : '';
+
+      if (duplicateFeedback) {
+        context.onProgress?.({ type: "duplicates", attempt: attemptNumber, count: duplicates.filter(Boolean).length });
+      }
 
-        console.log(`   Reply ${idx + 1}: ${score}/100`);
+      if (duplicateFeedback && attemptNumber < MAX_ATTEMPTS) {
+        console.log(`   🔁 ${duplicates.filter(Boolean).length} reply(s) repeat recent content - regenerating...`);
+        continue;
+      }
 
+      // Score each reply
+      replies = rawReplies.map((text, idx) => {
         // Assign strategy based on position (primary -> reply 1, secondary -> reply 2, fallback -> reply 3)
         const strategyMap = [
           selectedStrategy.primary,
@@ -271,26 +365,10 @@ export async function generateOptimizedRepliesWithClaude(
         ];
         const replyStrategy = strategyMap[idx] || selectedStrategy.primary;
 
-        return {
-          text,
-          score,
-          strategy: replyStrategy,
-          features: {
-            hasQuestion: features.hasQuestion,
-            hasPushback: features.hasPushback,
-            hasSpecificData: features.hasSpecificData,
-            referencesOriginalTweet: true,
-            matchesCreatorNiche: true,
-            matchesCreatorTone: true,
-          },
-          prediction: {
-            authorReplyProb: prediction.authorReplyProb,
-            repliesExpected: prediction.repliesExpected,
-            likesExpected: prediction.likesExpected,
-            profileClicksExpected: prediction.profileClicksExpected,
-          },
-          reasoning: `Using ${replyStrategy} strategy. Score: ${score}/100`,
-        };
+        const reply = scoreReply(text, replyStrategy, context, weights);
+        console.log(`   Reply ${idx + 1}: ${reply.score}/100`);
+
+        return duplicates[idx] ? { ...reply, similarTo: duplicates[idx] } : reply;
       });
 
       // Assess quality
@@ -300,6 +378,13 @@ export async function generateOptimizedRepliesWithClaude(
         tweetContent,
         attemptNumber
       );
+      context.onProgress?.({
+        type: "quality",
+        attempt: attemptNumber,
+        passed: qualityReport.passed,
+        bestScore: qualityReport.bestScore,
+        issues: qualityReport.issues,
+      });
 
       // Check if we should iterate
       if (qualityReport.passed && allPassValidation) {
@@ -345,7 +430,8 @@ export async function generateOptimizedRepliesWithClaude(
     },
     specificityReport,
     totalAttempts: attemptNumber,
-    method: 'claude',
+    method: llm.name,
+    saturation,
   };
 }
 
@@ -398,6 +484,102 @@ function getStrategyGuidance(strategyType: ReplyValueType, replyNumber: number):
 → ENDING: ${guidance.endingRule}`;
 }
 
+/**
+ * Rework ONE reply to a free-text instruction. Keeps the tweet, creator and
+ * conversation context, and runs the rewrite through the same authenticity
+ * and quality checks as a fresh generation.
+ */
+export async function refineReplyWithClaude(
+  context: ReplyRefinementContext
+): Promise<RefinementResult> {
+  const llm = context.llm ?? getLLMProvider("replies");
+  const weights = context.algorithmWeights ?? ALGORITHM_WEIGHTS;
+  const persona = context.personalContext ?? null;
+  const tweetContent = analyzeTweetContent(context.tweetText);
+
+  console.log(`✏️ Refining reply for @${context.creatorProfile.username}: "${context.instruction}" (${llm.name}: ${llm.model})`);
+
+  const messages: LLMTextMessage[] = [
+    { role: "user", content: buildRefinementPrompt(context, tweetContent) },
+  ];
+  let attemptNumber = 0;
+  let text = context.reply.text;
+  let specificityReport = validateAuthenticSpecificity(text, 1, persona);
+
+  while (attemptNumber < MAX_REFINE_ATTEMPTS) {
+    attemptNumber++;
+
+    const output = await llm.generateStructured(buildRefinementSystemPrompt(weights), messages, REFINED_REPLY_SCHEMA, {
+      temperature: 0.7,
+      maxTokens: 300,
+    });
+    text = output.reply.trim();
+
+    specificityReport = validateAuthenticSpecificity(text, attemptNumber, persona);
+    const status = specificityReport.passed ? '✅' : (specificityReport.authentic ? '⚠️' : '🚨');
+    console.log(`   Attempt ${attemptNumber}: ${status} auth:${specificityReport.authentic} score:${specificityReport.score}/100`);
+
+    if (specificityReport.passed) break;
+
+    messages.push(
+      { role: "assistant", content: JSON.stringify(output) },
+      {
+        role: "user",
+        content: `${specificityReport.improvementInstructions}\n\nREWRITE the reply with these fixes. Still follow the instruction: "${context.instruction}"`,
+      }
+    );
+  }
+
+  const reply = scoreReply(text, context.reply.strategy, context, weights);
+  const qualityReport = assessQuality([reply], context.creatorProfile, tweetContent, attemptNumber);
+
+  console.log(`✏️ Refined: ${reply.score}/100, quality ${qualityReport.passed ? "PASSED" : "ISSUES"}, specificity ${specificityReport.passed ? "PASSED" : `${specificityReport.score}/100`}`);
+
+  return {
+    reply,
+    qualityReport,
+    specificityReport,
+    totalAttempts: attemptNumber,
+    method: llm.name,
+  };
+}
+
+function buildRefinementSystemPrompt(weights: XAlgorithmWeights): string {
+  return `You edit a single X reply the user already has. Apply their instruction and keep everything else that works.
+
+RULES:
+• NEVER use em-dashes (—) or hyphens (- ) to separate clauses
+• Keep it under 280 characters and start it with the same @handle
+• DO NOT invent statistics, studies or experiences - only use what the context says is real
+• If the instruction asks for something you'd have to make up, do the closest honest version
+• "reply" is ONLY the reply text. No labels, no quotes.
+
+X ALGORITHM WEIGHTS:
+${describeAlgorithmWeights(weights).join("\n")}`;
+}
+
+function buildRefinementPrompt(context: ReplyRefinementContext, tweetContent: TweetContent): string {
+  const conversationSummary = describeConversationContext(context.conversation);
+
+  return `TWEET by @${context.tweetAuthor}:
+"${context.tweetText}"
+
+TWEET ANALYSIS:
+${buildTweetSummary(tweetContent)}
+${conversationSummary ? `\n${conversationSummary}\n` : ""}
+CREATOR PROFILE (@${context.creatorProfile.username}):
+${buildCreatorSummary(context.creatorProfile)}
+
+${buildDynamicReplyContext(context.postsContext || null, context.personalContext ?? null)}
+
+CURRENT REPLY (${context.reply.strategy}):
+${context.reply.text}
+
+INSTRUCTION: ${context.instruction}
+
+Rewrite the reply following the instruction.`;
+}
+
 interface TextBlock {
   type: "text";
   text: string;
@@ -416,13 +598,17 @@ function buildIntelligentPrompt(
   creator: CreatorIntelligence,
   strategy: ReturnType<typeof selectReplyStrategies>,
   postsContext: PostsContextData | null | undefined, // 🔥 DYNAMIC CONTEXT
+  persona: PersonalContextData | null,
+  weights: XAlgorithmWeights,
   tweetMedia?: TweetMedia[], // 🖼️ IMAGES
   specificityFeedback?: string,
-  constraints?: ReplyConstraints
+  constraints?: ReplyConstraints,
+  conversation?: ConversationContext | null // 🧵 THREAD CONTEXT
 ): string | Array<TextBlock | ImageBlock> {
   const tweetSummary = buildTweetSummary(tweetContent);
+  const conversationSummary = describeConversationContext(conversation);
   const creatorSummary = buildCreatorSummary(creator);
-  const authenticContext = buildDynamicReplyContext(postsContext || null); // 🔥 NOW DYNAMIC
+  const authenticContext = buildDynamicReplyContext(postsContext || null, persona); // 🔥 NOW DYNAMIC
 
   // Get relevant questions for this niche (no personal story needed)
   const nicheQuestions = selectRelevantQuestions(
@@ -451,6 +637,7 @@ ${tweetContent.context.sentiment === 'grief' ? 'Examples: Loss → express condo
 TWEET ANALYSIS:
 ${tweetSummary}
 ${contextGuidance}
+${conversationSummary}
 
 CREATOR PROFILE (@${creator.username}):
 ${creatorSummary}
@@ -480,7 +667,7 @@ REPLY REQUIREMENTS:
 - DO NOT manufacture enthusiasm - respond naturally as a human would
 - DO NOT rigidly follow format if context demands flexibility (e.g., birthday tweet = wish them happy birthday FIRST!)
 - If tweet is personal/emotional (birthday, loss, celebration, grief) → acknowledge the HUMAN MOMENT first, then add value
-- ONLY use real data: X algorithm weights (75x, 13.5x), current metrics (3 followers, 0 users)
+- ONLY use real data: X algorithm weights (${weights.authorReply}x, ${weights.replies}x), current metrics (${describeCurrentStage(persona)})
 - If strategy needs data you don't have → ASK A GENUINE QUESTION INSTEAD
 - BE HUMAN, NOT AI ASSISTANT
 
@@ -499,18 +686,9 @@ CRITICAL RULES FOR ALL REPLIES:
 → Be human and natural - if a simple question works, use it
 → If strategy needs data you don't have, ask a genuine question instead
 
-OUTPUT FORMAT (MUST FOLLOW EXACTLY):
-
-REPLY 1:
-[Your first reply text here - just the tweet, no headers or labels]
-
-REPLY 2:
-[Your second reply text here - just the tweet, no headers or labels]
-
-REPLY 3:
-[Your third reply text here - just the tweet, no headers or labels]
+OUTPUT: the 3 replies in order (reply 1 first), each "text" just the tweet - no headers or labels.
 
-Generate 3 distinct replies now following FORMAT requirements above.`;
+Generate 3 distinct replies now following the requirements above.`;
 
   // Add specificity/authenticity feedback if needed
   if (specificityFeedback) {
@@ -550,34 +728,51 @@ Generate 3 distinct replies now following FORMAT requirements above.`;
   return prompt;
 }
 
-function parseReplies(response: string): string[] {
-  const patterns = [
-    /REPLY \d+ \([A-Z\-]+\):\s*(.+?)(?=\n\nREPLY \d+|\n*$)/gs,
-    /REPLY \d+:\s*(.+?)(?=\n\nREPLY \d+:|\n*$)/gs,
-  ];
-
-  for (const pattern of patterns) {
-    const matches = [...response.matchAll(pattern)];
-    if (matches.length >= 3) {
-      return matches
-        .slice(0, 3)
-        .map((match) => match[1].trim())
-        .filter((r) => r.length > 20);
-    }
-  }
+/**
+ * Features, engagement prediction and 0-100 score for one reply
+ */
+function scoreReply(
+  text: string,
+  strategy: ReplyValueType,
+  context: Pick<ReplyGenerationContext, "minutesSincePosted" | "engagementModel" | "creatorProfile">,
+  weights: XAlgorithmWeights
+): GeneratedReply {
+  const features = analyzeReplyFeatures(text);
+  const prediction = predictEngagement(features, context.minutesSincePosted, {
+    model: context.engagementModel,
+    strategy,
+    niche: context.creatorProfile.primaryNiche,
+    weights,
+  });
+  const score = calculateCompositeScore(prediction);
 
-  return response
-    .split(/\n\n+/)
-    .slice(0, 3)
-    .map((r) => r.trim())
-    .filter((r) => r.length > 20);
+  return {
+    text,
+    score,
+    strategy,
+    features: {
+      hasQuestion: features.hasQuestion,
+      hasPushback: features.hasPushback,
+      hasSpecificData: features.hasSpecificData,
+      referencesOriginalTweet: true,
+      matchesCreatorNiche: true,
+      matchesCreatorTone: true,
+    },
+    prediction: {
+      authorReplyProb: prediction.authorReplyProb,
+      repliesExpected: prediction.repliesExpected,
+      likesExpected: prediction.likesExpected,
+      profileClicksExpected: prediction.profileClicksExpected,
+    },
+    reasoning: `Using ${strategy} strategy. Score: ${score}/100`,
+  };
 }
 
 function calculateCompositeScore(
   prediction: ReturnType<typeof predictEngagement>
 ): number {
   // The X algorithm already calculates a properly weighted totalScore
-  // It uses 75x for author reply, 13.5x for conversation, 5x for profile clicks, 1x for likes
+  // It uses the active algorithm rules (author reply, conversation, profile clicks, likes)
   // We just need to normalize it to 0-100 scale
 
   // totalScore typically ranges from ~20 (weak) to ~200+ (excellent)
@@ -646,43 +841,3 @@ function buildCreatorSummary(creator: CreatorIntelligence): string {
 
   return parts.join("\n");
 }
-
-function buildConstraintInstructions(constraints?: ReplyConstraints): string {
-  if (!constraints) return "No specific constraints.";
-
-  const instructions: string[] = [];
-
-  if (constraints.mustIncludeQuestion) {
-    instructions.push(`MUST ask question about: ${constraints.mustIncludeQuestion}`);
-  }
-
-  if (constraints.mustReferencePhrases && constraints.mustReferencePhrases.length > 0) {
-    instructions.push(`MUST reference: ${constraints.mustReferencePhrases.join(", ")}`);
-  }
-
-  if (constraints.emphasizeCreatorTopics && constraints.emphasizeCreatorTopics.length > 0) {
-    instructions.push(
-      `Connect to creator topics: ${constraints.emphasizeCreatorTopics.join(", ")}`
-    );
-  }
-
-  if (constraints.mustHaveFeature && constraints.mustHaveFeature.length > 0) {
-    instructions.push(`Ensure features: ${constraints.mustHaveFeature.join(", ")}`);
-  }
-
-  if (constraints.mustUseTone) {
-    instructions.push(`Use tone: ${constraints.mustUseTone}`);
-  }
-
-  if (constraints.avoidGenericPhrases) {
-    instructions.push('Avoid generic phrases like "great point", "love this"');
-  }
-
-  if (constraints.ensureGrammar) {
-    instructions.push(
-      "Ensure complete sentences and natural flow - no fragments or awkward phrasing"
-    );
-  }
-
-  return instructions.length > 0 ? instructions.join("\n") : "No specific constraints.";
-}
@@ -0,0 +1,111 @@
+// conversation-context.ts - What the tweet is actually part of
+//
+// A tweet mid-thread only makes sense with the tweets above it, a quote tweet
+// with the tweet it quotes, and a reply should add something the existing
+// replies haven't already said.
+
+import type { DetailedTweet, Tweet, TwitterApi } from "../twitter-api";
+
+export const MAX_PARENT_TWEETS = 3;  // how far up the thread we walk
+export const MAX_TOP_REPLIES = 5;
+
+export interface ContextTweet {
+  id: string;
+  authorUsername: string;
+  text: string;
+  likes: number;
+}
+
+export interface ConversationContext {
+  parents: ContextTweet[];   // tweets above ours in the thread, oldest first
+  quotedTweet?: ContextTweet;
+  replies: ContextTweet[];   // existing replies (first page), most-liked first
+}
+
+type ConversationClient = Pick<TwitterApi, "getTweet" | "getTweetReplies">;
+
+// twitterapi.io tweets are raw (camelCase counts, author.userName)
+function toContextTweet(tweet: Tweet): ContextTweet {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const raw = tweet as any;
+  return {
+    id: tweet.id,
+    authorUsername: raw.author?.userName || raw.author?.username || "unknown",
+    text: tweet.text || "",
+    likes: raw.likeCount ?? tweet.public_metrics?.like_count ?? 0,
+  };
+}
+
+/**
+ * Fetch the parent chain, quoted tweet and top replies for a tweet. Best
+ * effort - anything that fails is left out rather than failing the reply.
+ */
+export async function buildConversationContext(
+  tweet: DetailedTweet,
+  client: ConversationClient
+): Promise<ConversationContext> {
+  const parents: ContextTweet[] = [];
+  let parentId = tweet.inReplyToId;
+
+  try {
+    while (parentId && parents.length < MAX_PARENT_TWEETS) {
+      const parent = await client.getTweet(parentId);
+      if (!parent) break;
+
+      parents.unshift(toContextTweet(parent));
+      parentId = parent.inReplyToId;
+    }
+  } catch (error) {
+    console.warn(`⚠️ Could not walk the thread above ${tweet.id}:`, error);
+  }
+
+  let replies: ContextTweet[] = [];
+  try {
+    // First page only - enough to see which points and angles are already taken
+    for await (const page of client.getTweetReplies(tweet.id, { maxPages: 1 })) {
+      replies = page.tweets
+        .map(toContextTweet)
+        .filter(reply => reply.text.length > 0)
+        .sort((a, b) => b.likes - a.likes);
+    }
+  } catch (error) {
+    console.warn(`⚠️ Could not fetch replies to ${tweet.id}:`, error);
+  }
+
+  const quotedTweet = tweet.quotedTweet
+    ? { ...tweet.quotedTweet, likes: 0 }
+    : undefined;
+
+  console.log(`🧵 Conversation: ${parents.length} parent(s), ${quotedTweet ? "quotes a tweet" : "no quote"}, ${replies.length} existing replies`);
+
+  return { parents, quotedTweet, replies };
+}
+
+/**
+ * Prompt section for the conversation - empty when there's nothing to add
+ */
+export function describeConversationContext(conversation: ConversationContext | null | undefined): string {
+  if (!conversation) return "";
+
+  const sections: string[] = [];
+
+  if (conversation.parents.length > 0) {
+    sections.push(`🧵 THIS TWEET IS MID-THREAD. Earlier in the conversation (oldest first):
+${conversation.parents.map(p => `@${p.authorUsername}: "${p.text}"`).join("\n")}
+→ Reply to what the tweet means IN THIS CONTEXT, not to the tweet in isolation.`);
+  }
+
+  if (conversation.quotedTweet) {
+    sections.push(`💬 THE TWEET QUOTES @${conversation.quotedTweet.authorUsername}:
+"${conversation.quotedTweet.text}"
+→ The author is reacting to this. Engage with their take on it.`);
+  }
+
+  if (conversation.replies.length > 0) {
+    sections.push(`🗣️ TOP EXISTING REPLIES (already said - do NOT repeat these points):
+${conversation.replies.slice(0, MAX_TOP_REPLIES).map(r => `- @${r.authorUsername} (${r.likes} likes): "${r.text}"`).join("\n")}
+→ Add an angle nobody has taken yet.`);
+  }
+
+  return sections.length > 0 ? `CONVERSATION CONTEXT:\n${sections.join("\n\n")}` : "";
+}
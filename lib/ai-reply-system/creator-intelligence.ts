@@ -1,15 +1,15 @@
 // Creator Intelligence Builder - Deep profile analysis
 
 import type { CreatorIntelligence } from "./types";
-import { twitterApi } from "../twitter-api";
-import { analyzeCreatorProfile } from "../openai-client";
+import { getTwitterApi } from "../twitter-client";
+import { analyzeCreatorProfile } from "../creator-profile-analyzer";
 import { fetchQuery, fetchMutation } from "convex/nextjs";
 import { api } from "@/convex/_generated/api";
 
 /**
  * Build creator intelligence profile with Convex caching.
  * 
- * COST OPTIMIZATION: Checks cache FIRST to avoid duplicate OpenAI analysis!
+ * COST OPTIMIZATION: Checks cache FIRST to avoid duplicate LLM analysis!
  * 
  * @param username - The creator's username (without @)
  * @param profileData - Optional pre-fetched profile data (from tweet.author)
@@ -28,7 +28,7 @@ export async function buildCreatorIntelligence(
 ): Promise<CreatorIntelligence> {
   console.log(`🔍 Building intelligence profile for @${username}...`);
 
-  // 1. CHECK CONVEX CACHE FIRST (avoids duplicate OpenAI costs!)
+  // 1. CHECK CONVEX CACHE FIRST (avoids duplicate LLM costs!)
   // But invalidate if it's the old broken "other" niche with 0/0 crossover
   try {
     const cached = await fetchQuery(api.creators.getByUsername, { username });
@@ -99,6 +99,7 @@ export async function buildCreatorIntelligence(
   }
 
   // 2. Use provided profile data OR fetch it
+  const twitterApi = await getTwitterApi();
   let profile;
   if (profileData) {
     console.log(`✅ Using provided profile data (saved API call!)`);
@@ -133,11 +134,11 @@ export async function buildCreatorIntelligence(
   try {
     analysis = await analyzeCreatorProfile(profile.description, tweetTexts);
   } catch (firstError) {
-    console.error(`OpenAI analysis failed:`, firstError);
+    console.error(`Profile analysis failed:`, firstError);
     
     // Retry once if it's an internal error
     if (firstError instanceof Error && firstError.message.includes('internal_error')) {
-      console.log(`🔄 Retrying OpenAI analysis...`);
+      console.log(`🔄 Retrying profile analysis...`);
       try {
         analysis = await analyzeCreatorProfile(profile.description, tweetTexts);
       } catch {
@@ -362,7 +363,7 @@ function inferQuestionStyle(respondsTo: string[]): string {
 }
 
 /**
- * Heuristic fallback analysis when OpenAI fails
+ * Heuristic fallback analysis when the LLM fails
  * Uses keyword analysis of bio + tweet content to classify niche
  */
 function createHeuristicAnalysis(
@@ -11,200 +11,167 @@ export interface PersonalExperience {
   topic: string;
   experience: string;
   context: string;
-  verified: boolean; // Only true if Arshad confirmed this
+  verified: boolean; // Only true if the user confirmed this
 }
 
-export const PERSONAL_CONTEXT = {
-  // Current status
-  currentStage: "building_in_public_beginner",
-  followers: 3,
-  goal: "3 → 250 followers in 30 days",
-
-  // Projects
-  projects: {
-    subwise: {
-      status: "building",
-      description: "Subscription tracker for managing recurring payments",
-      stage: "early_development",
-      launched: false,
-      users: 0,
-      mrr: 0,
-    },
-    xReplyOptimizer: {
-      status: "building",
-      description: "Algorithm-optimized X reply generator",
-      stage: "active_development",
-      purpose: "grow_following_strategically"
-    }
-  },
-
-  // Interests/Background
-  background: {
-    mma: {
-      trains: true,
-      level: "practitioner", // not expert yet
-      passion: "discipline_and_philosophy"
-    },
-    saas: {
-      building: true,
-      level: "aspiring_founder",
-      learning: "building_in_public"
-    },
-    tech: {
-      coding: true,
-      level: "developer",
-      focus: "web_apps_and_ai"
-    }
-  },
-
-  // What you CAN talk about authentically
-  authenticTopics: [
-    "starting_from_zero",
-    "learning_to_build_in_public",
-    "mma_training_beginner",
-    "building_first_saas",
-    "x_algorithm_research",
-    "convex_database",
-    "nextjs_development",
-    "ai_integration_experiments"
-  ],
-
-  // What you CANNOT talk about (don't have experience yet)
-  avoidFakeExpertise: [
-    "hitting_10k_mrr",
-    "scaling_to_1000_users",
-    "exit_stories",
-    "years_of_saas_experience",
-    "advanced_mma_techniques",
-    "managing_teams",
-    "fundraising"
-  ]
+export interface PersonalProject {
+  name: string;
+  description: string;
+  stage: string; // "building", "launched", "growing", "paused"
+  users: number;
+  mrr: number;
+}
+
+/**
+ * Your persona - mirrors the Convex personalContext record (edited on /settings)
+ */
+export interface PersonalContextData {
+  currentFollowers: number;
+  followerGoal: number;
+  followerGoalDeadline: string;
+  stage: string;
+  daysIntoJourney: number;
+  projects: PersonalProject[];
+  experiences: PersonalExperience[];
+  interests: string[];
+  skillLevel: Record<string, string>;
+  avoidClaims: string[];
+}
+
+/**
+ * Used when no persona is set up yet: nothing to claim, so every number
+ * except 0 counts as fake
+ */
+export const EMPTY_PERSONAL_CONTEXT: PersonalContextData = {
+  currentFollowers: 0,
+  followerGoal: 0,
+  followerGoalDeadline: "",
+  stage: "starting_out",
+  daysIntoJourney: 0,
+  projects: [],
+  experiences: [],
+  interests: [],
+  skillLevel: {},
+  avoidClaims: [],
 };
 
 /**
- * Real experiences you can reference
- * ADD MORE AS THEY HAPPEN!
+ * Real experiences you can reference (verified ones only)
+ * ADD MORE AS THEY HAPPEN on the settings page!
  */
-export const REAL_EXPERIENCES: PersonalExperience[] = [
-  {
-    topic: "starting_from_scratch",
-    experience: "At 3 followers trying to hit 250 in 30 days",
-    context: "Beginning of X growth journey",
-    verified: true
-  },
-  {
-    topic: "building_subwise",
-    experience: "Building SubWise (subscription tracker) as first SaaS",
-    context: "Early stage development, no users yet",
-    verified: true
-  },
-  {
-    topic: "x_algorithm_study",
-    experience: "Studied X's open-source algorithm to understand 75x author reply weight",
-    context: "Built reply optimizer based on real algorithm weights",
-    verified: true
-  },
-  {
-    topic: "mma_training",
-    experience: "Training MMA for discipline and mental toughness",
-    context: "Practitioner level, passionate about philosophy of combat sports",
-    verified: true
-  },
-  {
-    topic: "building_in_public",
-    experience: "Learning to build in public through 30-day challenge",
-    context: "First time documenting journey publicly",
-    verified: true
-  },
-  {
-    topic: "technical_learning",
-    experience: "Learning Next.js, Convex, and AI API integration through building",
-    context: "Self-taught developer building real projects",
-    verified: true
-  },
-  {
-    topic: "api_integration",
-    experience: "Integrated Claude AI API and Twitter API into reply optimizer",
-    context: "First time working with LLM APIs in production",
-    verified: true
-  },
-  {
-    topic: "problem_solving",
-    experience: "Debugging deployment issues, API authentication, and model compatibility",
-    context: "Real-world development challenges while building in public",
-    verified: true
-  },
-  {
-    topic: "strategic_thinking",
-    experience: "Analyzing X's algorithm to reverse-engineer engagement patterns",
-    context: "Data-driven approach to social media growth",
-    verified: true
-  },
-  {
-    topic: "time_management",
-    experience: "Balancing building two projects (SubWise + Reply Optimizer) simultaneously",
-    context: "Learning to prioritize and ship fast",
-    verified: true
-  },
-  {
-    topic: "indie_hacking",
-    experience: "Solo founder building tools to solve own problems (subscription tracking, reply optimization)",
-    context: "Bootstrapped, no funding, learning as I go",
-    verified: true
-  },
-  {
-    topic: "community_engagement",
-    experience: "Replying to founders and builders to learn from their journey",
-    context: "Building network from ground zero",
-    verified: true
-  }
-];
+export function getRealExperiences(persona: PersonalContextData | null | undefined): PersonalExperience[] {
+  return (persona ?? EMPTY_PERSONAL_CONTEXT).experiences.filter(e => e.verified);
+}
+
+export type MetricUnit = "followers" | "users" | "mrr" | "arr";
+
+/**
+ * Every number you can truthfully quote, by unit: followers, per-project
+ * users and MRR (plus totals and ARR). 0 is always true.
+ */
+export function getRealMetrics(persona: PersonalContextData | null | undefined): Record<MetricUnit, Set<number>> {
+  const { currentFollowers, projects } = persona ?? EMPTY_PERSONAL_CONTEXT;
+  const totalUsers = projects.reduce((sum, p) => sum + p.users, 0);
+  const totalMRR = projects.reduce((sum, p) => sum + p.mrr, 0);
+
+  return {
+    followers: new Set([0, currentFollowers]),
+    users: new Set([0, totalUsers, ...projects.map(p => p.users)]),
+    mrr: new Set([0, totalMRR, ...projects.map(p => p.mrr)]),
+    arr: new Set([0, totalMRR * 12, ...projects.map(p => p.mrr * 12)]),
+  };
+}
+
+// The unit a quoted number claims - "$" alone is money, no unit at all could be anything
+function unitsFor(unit: string | undefined, dollar: boolean): MetricUnit[] {
+  const word = unit?.toLowerCase();
+  if (word?.startsWith("follower")) return ["followers"];
+  if (word && /^(users?|customers?|subscribers?)$/.test(word)) return ["users"];
+  if (word === "mrr") return ["mrr"];
+  if (word === "arr") return ["arr"];
+  if (word === "revenue" || dollar) return ["mrr", "arr"];
+  return ["followers", "users", "mrr", "arr"];
+}
+
+/**
+ * "5K", "1.2M", "10,000" → number (NaN if there's no number)
+ */
+export function parseMetricNumber(text: string): number {
+  const match = text.match(/(\d[\d,]*(?:\.\d+)?)\s*([KkMm]\b)?/);
+  if (!match) return NaN;
+  const value = parseFloat(match[1].replace(/,/g, ""));
+  const multiplier = match[2]?.toLowerCase() === "k" ? 1_000 : match[2]?.toLowerCase() === "m" ? 1_000_000 : 1;
+  return value * multiplier;
+}
+
+/**
+ * True when every number quoted in `text` is one of your real metrics in the
+ * same unit - your 150 followers don't make "150 paying users" true
+ */
+export function quotesRealMetric(text: string, persona: PersonalContextData | null | undefined): boolean {
+  const quoted = [...text.matchAll(/(\$)?(\d[\d,]*(?:\.\d+)?\s*[KkMm]?)\b(?:\s*(?:[a-z]+\s+)?(followers?|users?|customers?|subscribers?|MRR|ARR|revenue)\b)?/gi)];
+  const real = getRealMetrics(persona);
+  return quoted.length > 0 && quoted.every(([, dollar, number, unit]) => {
+    const value = parseMetricNumber(number);
+    return unitsFor(unit, !!dollar).some(u => real[u].has(value));
+  });
+}
+
+/**
+ * One-line summary of where you actually are: "12 followers, 0 users, $0 MRR, building SubWise"
+ */
+export function describeCurrentStage(persona: PersonalContextData | null | undefined): string {
+  const { currentFollowers, projects } = persona ?? EMPTY_PERSONAL_CONTEXT;
+  const users = projects.reduce((sum, p) => sum + p.users, 0);
+  const mrr = projects.reduce((sum, p) => sum + p.mrr, 0);
+  const building = projects.length > 0
+    ? `building ${projects.map(p => p.name).join(" + ")}`
+    : "just starting";
+
+  return `${currentFollowers} followers, ${users} users, $${mrr} MRR, ${building}`;
+}
 
 /**
  * Strategy: When you DON'T have a story, ASK GENUINE QUESTIONS
+ * (the "doSay" lines quote your real numbers)
  */
-export const AUTHENTIC_REPLY_STRATEGIES = {
-  // When they talk about scaling
-  scaling: {
-    dontSay: "When we hit 10K MRR...", // FAKE
-    doSay: "I'm at 0 users building SubWise - what was your biggest challenge going from 0 → first 100?" // REAL
-  },
-
-  // When they talk about metrics
-  metrics: {
-    dontSay: "We saw 3x improvement after...", // FAKE
-    doSay: "I'm just starting to track engagement - which metric mattered most at your stage?" // REAL
-  },
-
-  // When they talk about AI
-  ai: {
-    dontSay: "At 5K MRR we automated...", // FAKE
-    doSay: "I'm experimenting with Claude for my reply tool - how did you balance AI speed vs quality?" // REAL
-  },
-
-  // When they talk about MMA
-  mma: {
-    dontSay: "After 10 years of training...", // FAKE
-    doSay: "I train MMA for discipline - does that mental toughness translate to your founder journey?" // REAL
-  },
-
-  // When they talk about building in public
-  buildInPublic: {
-    dontSay: "When I grew from 3 → 10K followers...", // FAKE
-    doSay: "I'm at day 1 of my 30-day challenge (3 → 250 followers) - what content got you early traction?" // REAL
-  }
-};
+export function buildAuthenticReplyStrategies(persona: PersonalContextData | null | undefined) {
+  const p = persona ?? EMPTY_PERSONAL_CONTEXT;
+  const project = p.projects[0];
+  const users = p.projects.reduce((sum, proj) => sum + proj.users, 0);
+  const building = project ? `building ${project.name}` : "just starting out";
+
+  return {
+    // When they talk about scaling
+    scaling: {
+      dontSay: "When we hit 10K MRR...", // FAKE
+      doSay: `I'm at ${users} users ${building} - what was your biggest challenge going from ${users} → first 100?` // REAL
+    },
+
+    // When they talk about metrics
+    metrics: {
+      dontSay: "We saw 3x improvement after...", // FAKE
+      doSay: `I'm at ${p.currentFollowers} followers and just starting to track engagement - which metric mattered most at your stage?` // REAL
+    },
+
+    // When they talk about building in public
+    buildInPublic: {
+      dontSay: "When I grew from 3 → 10K followers...", // FAKE
+      doSay: `I'm at day ${p.daysIntoJourney} going ${p.currentFollowers} → ${p.followerGoal} followers - what content got you early traction?` // REAL
+    },
+  };
+}
 
 /**
  * Get authentic reply angle based on tweet topic
  */
-export function getAuthenticAngle(tweetTopic: string): {
+export function getAuthenticAngle(tweetTopic: string, persona: PersonalContextData | null | undefined): {
   canShareExperience: boolean;
   experience?: string;
   questionToAsk: string;
 } {
   // Check if we have real experience in this area
-  const relevantExp = REAL_EXPERIENCES.find(exp =>
+  const relevantExp = getRealExperiences(persona).find(exp =>
     exp.topic.toLowerCase().includes(tweetTopic.toLowerCase())
   );
 
@@ -219,7 +186,7 @@ export function getAuthenticAngle(tweetTopic: string): {
   // No experience? Ask genuine question from beginner perspective
   return {
     canShareExperience: false,
-    questionToAsk: generateBeginnerQuestion(tweetTopic)
+    questionToAsk: generateBeginnerQuestion(tweetTopic, persona)
   };
 }
 
@@ -230,21 +197,21 @@ function generateContextualQuestion(topic: string): string {
     scaling: "what was your biggest challenge going 0 → first 100 users?",
     metrics: "which metric mattered most at the early stage?",
     ai: "how did you balance AI automation vs quality control?",
-    mma: "does that mental discipline translate to building?",
     building: "what content got you early traction?"
   };
 
   return questions[topic] || "what's your advice for someone just starting?";
 }
 
-function generateBeginnerQuestion(topic: string): string {
-  return `As someone just starting (3 followers, building first SaaS), what's your advice on ${topic}?`;
+function generateBeginnerQuestion(topic: string, persona: PersonalContextData | null | undefined): string {
+  return `As someone just starting (${describeCurrentStage(persona)}), what's your advice on ${topic}?`;
 }
 
 /**
  * Validate reply for authenticity - NO FAKE STORIES
+ * Numbers that match your real metrics are allowed
  */
-export function validateAuthenticity(reply: string): {
+export function validateAuthenticity(reply: string, persona: PersonalContextData | null | undefined): {
   authentic: boolean;
   issues: string[];
   fixes: string[];
@@ -254,24 +221,30 @@ export function validateAuthenticity(reply: string): {
 
   // Check for fake metrics
   const fakeMetricPatterns = [
-    /\b(\d+K?\s*(MRR|ARR|users|customers))\b/gi, // "5K MRR", "1000 users"
-    /\b(hit|reached|scaled to|grew to)\s+\d+/gi, // "hit 10K", "grew to 1000"
-    /\b(after|over|in)\s+\d+\s+(years?|months?)\b/gi // "after 2 years"
+    /\b(\d+K?\s*(?:[a-z]+\s+)?(MRR|ARR|users|customers))\b/gi, // "5K MRR", "1000 paying users"
+    /\b(hit|reached|scaled to|grew to)\s+\$?\d+[KkMm]?(?:\s+(?:[a-z]+\s+)?(?:followers?|users?|customers?|subscribers?|MRR|ARR))?/gi, // "hit 10K", "grew to 1000 users"
   ];
 
   fakeMetricPatterns.forEach(pattern => {
     const matches = reply.match(pattern);
     if (matches) {
       matches.forEach(match => {
-        // Except for "3 followers" or "0 users" (these are TRUE)
-        if (!match.includes('3 follower') && !match.includes('0 user')) {
+        // Except for your real numbers (these are TRUE)
+        if (!quotesRealMetric(match, persona)) {
           issues.push(`Fake metric: "${match}" - you don't have this experience yet`);
-          fixes.push('Replace with genuine question: "I\'m at 0 users - what was your experience at this stage?"');
+          fixes.push(`Replace with genuine question: "I'm at ${describeCurrentStage(persona)} - what was your experience at this stage?"`);
         }
       });
     }
   });
 
+  // Check for fake durations ("after 2 years")
+  const durationMatches = reply.match(/\b(after|over|in)\s+\d+\s+(years?|months?)\b/gi);
+  durationMatches?.forEach(match => {
+    issues.push(`Fake metric: "${match}" - you don't have this experience yet`);
+    fixes.push(`Replace with genuine question: "I'm at ${describeCurrentStage(persona)} - what was your experience at this stage?"`);
+  });
+
   // Check for fake scenarios
   const fakeScenarioPatterns = [
     /\b(when (we|I) (built|launched|scaled|hit))\b/gi,
@@ -315,20 +288,27 @@ export function validateAuthenticity(reply: string): {
 }
 
 /**
- * Get your authentic context for prompt building
- * NOW DYNAMIC - pulls from accumulated context instead of hardcoded
+ * Get your authentic context for prompt building (from your persona)
+ * Reply generation layers recent journey data on top - see buildDynamicReplyContext()
  */
-export function getAuthenticContext(): string {
-  // NOTE: This is the OLD hardcoded version
-  // It's being kept as fallback but should be replaced by buildDynamicReplyContext() 
-  // in the actual reply generation (see claude-reply-generator.ts)
+export function getAuthenticContext(persona: PersonalContextData | null | undefined): string {
+  const p = persona ?? EMPTY_PERSONAL_CONTEXT;
+  const skills = Object.entries(p.skillLevel).map(([area, level]) => `${area} (${level})`);
+  const experiences = getRealExperiences(p);
+  const avoid = p.avoidClaims.map(c => c.replace(/_/g, " "));
+
   return `
-YOUR AUTHENTIC CONTEXT:
-- Background: MMA training (practitioner), aspiring SaaS founder
-- Projects: SubWise (subscription tracker), X Reply Optimizer
-- Learning: Building in public, Next.js/Convex/AI integration
+YOUR CURRENT STATUS:
+- Stage: ${p.stage.replace(/_/g, " ")} (${describeCurrentStage(p)})
+${p.followerGoal > 0 ? `- Goal: ${p.currentFollowers} → ${p.followerGoal} followers in ${p.followerGoalDeadline}\n` : ""}${p.projects.length > 0 ? `- Projects: ${p.projects.map(proj => `${proj.name} (${proj.description}, ${proj.stage}, ${proj.users} users, $${proj.mrr} MRR)`).join("; ")}\n` : ""}${p.interests.length > 0 ? `- Background: ${p.interests.join(", ")}\n` : ""}${skills.length > 0 ? `- Skill level: ${skills.join(", ")}\n` : ""}
+WHAT YOU CAN TALK ABOUT:
+${experiences.length > 0 ? experiences.map(e => `✅ ${e.experience}`).join("\n") : "✅ Nothing personal yet - ask genuine questions"}
 
-🚨 USING STATIC CONTEXT - Should use buildDynamicReplyContext() instead!
+WHAT YOU CANNOT CLAIM:
+❌ Metrics above your current numbers
+❌ Fake metrics or research
+❌ Years of experience
+❌ Scaling stories you don't have${avoid.map(c => `\n❌ ${c}`).join("")}
 `.trim();
 }
 
@@ -356,27 +336,13 @@ export interface PostsContextData {
   }>;
 }
 
-export function buildDynamicReplyContext(postsContext: PostsContextData | null): string {
+export function buildDynamicReplyContext(
+  postsContext: PostsContextData | null,
+  persona: PersonalContextData | null | undefined
+): string {
   if (!postsContext || postsContext.recentInputs.length === 0) {
-    // Fallback to basic context
-    return `
-YOUR CURRENT STATUS:
-- Building: SubWise (subscription tracker) & X Reply Optimizer
-- Background: MMA practitioner, aspiring SaaS founder, learning to build in public
-- Stage: Early stage indie hacker
-
-WHAT YOU CAN TALK ABOUT:
-✅ Starting from zero
-✅ Building first products
-✅ MMA for discipline
-✅ Learning to build in public
-✅ Tech challenges (Next.js, Convex, AI APIs)
-
-WHAT YOU CANNOT CLAIM:
-❌ Fake metrics or research
-❌ Years of experience
-❌ Scaling stories you don't have
-`.trim();
+    // Fallback to your persona alone
+    return getAuthenticContext(persona);
   }
 
   // Get most recent data
@@ -388,6 +354,10 @@ WHAT YOU CANNOT CLAIM:
   const recentStruggles = recentDays.flatMap(d => d.struggles).slice(-3);
   const recentEvents = recentDays.flatMap(d => d.events).slice(-5);
 
+  // Verified experiences and hard limits from your persona
+  const experiences = getRealExperiences(persona);
+  const avoid = (persona ?? EMPTY_PERSONAL_CONTEXT).avoidClaims.map(c => c.replace(/_/g, " "));
+
   return `
 YOUR CURRENT STATUS:
 - ${postsContext.baseProfile.currentGoals.join(", ")}
@@ -411,13 +381,13 @@ WHAT YOU CAN AUTHENTICALLY TALK ABOUT:
 ✅ Your current metrics (${recent.metrics.followers} followers, ${recent.metrics.subwiseUsers} users)
 ✅ Recent events and learnings (listed above)
 ✅ Current struggles you're facing
-✅ What you're building next
+✅ What you're building next${experiences.map(e => `\n✅ ${e.experience}`).join('')}
 
 WHAT YOU CANNOT CLAIM:
 ❌ Metrics above your current numbers
 ❌ Fake studies or tracking ("Analyzed 47 accounts", etc.)
 ❌ Experiences you don't have
-❌ Made-up multipliers ("2.1x faster", etc.)
+❌ Made-up multipliers ("2.1x faster", etc.)${avoid.map(c => `\n❌ ${c}`).join('')}
 
 STRATEGY:
 - Reference YOUR recent experiences from above
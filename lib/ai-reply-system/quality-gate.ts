@@ -3,6 +3,7 @@
 import type { CreatorIntelligence } from './types';
 import type { TweetContent } from './content-analyzer';
 import type { BuiltReply } from './reply-builder';
+import { isWithinTweetLimit } from '../tweet-length';
 
 export interface QualityReport {
   passed: boolean;
@@ -22,6 +23,7 @@ export interface ReplyConstraints {
   avoidGenericPhrases?: boolean;
   emphasizeCreatorTopics?: string[];
   ensureGrammar?: boolean; // New for grammar fixes
+  mustFitLength?: boolean; // a reply is over X's 280 weighted chars
 }
 
 const QUALITY_THRESHOLD = 50; // Lowered from 60 - Claude generates quality replies
@@ -110,7 +112,18 @@ export function assessQuality(
   }
 
   // ============================================
-  // CHECK 4: Content Specificity
+  // CHECK 4: Length (X's weighted count - an over-length reply can't be posted)
+  // ============================================
+  const overLength = replies.filter(r => !isWithinTweetLimit(r.text));
+
+  if (overLength.length > 0) {
+    issues.push(`${overLength.length} reply(s) over X's 280-character limit`);
+    console.log(`   ❌ ${overLength.length}/${replies.length} replies too long to post`);
+    improvements.mustFitLength = true;
+  }
+
+  // ============================================
+  // CHECK 5: Content Specificity
   // ============================================
   const referencesContent = replies.filter(r => {
     // Check if reply references any key phrase from tweet
@@ -122,18 +135,19 @@ export function assessQuality(
     );
   });
   
-  if (referencesContent.length < 2) {
+  // Two of the usual three - a single refined reply just has to reference it
+  if (referencesContent.length < Math.min(2, replies.length)) {
     issues.push('Replies too generic - must reference specific tweet content');
-    console.log(`   ❌ Only ${referencesContent.length}/3 replies reference tweet content`);
+    console.log(`   ❌ Only ${referencesContent.length}/${replies.length} replies reference tweet content`);
     
     improvements.mustReferencePhrases = tweetContent.keyPhrases.slice(0, 2);
     improvements.avoidGenericPhrases = true;
   } else {
-    console.log(`   ✅ ${referencesContent.length}/3 replies reference tweet content`);
+    console.log(`   ✅ ${referencesContent.length}/${replies.length} replies reference tweet content`);
   }
   
   // ============================================
-  // CHECK 5: Creator Profile Matching
+  // CHECK 6: Creator Profile Matching
   // ============================================
   const emphasizedTopics = creator.optimalReplyStrategy.emphasizeTopics;
   const matchesProfile = replies.filter(r => {
@@ -149,11 +163,11 @@ export function assessQuality(
 
     improvements.emphasizeCreatorTopics = emphasizedTopics.slice(0, 2);
   } else {
-    console.log(`   ✅ ${matchesProfile.length}/3 replies match creator profile`);
+    console.log(`   ✅ ${matchesProfile.length}/${replies.length} replies match creator profile`);
   }
 
   // ============================================
-  // CHECK 6: Tone Matching
+  // CHECK 7: Tone Matching
   // ============================================
   const preferredTone = creator.audience.engagementPatterns.preferredTone;
   if (preferredTone && !improvements.mustUseTone) {
@@ -161,7 +175,7 @@ export function assessQuality(
   }
 
   // ============================================
-  // CHECK 7: Diversity (INFORMATIONAL ONLY)
+  // CHECK 8: Diversity (INFORMATIONAL ONLY)
   // ============================================
   // NOTE: Strategy selector determines how many approaches are needed
   // We no longer enforce "must have 3 distinct strategies"
@@ -239,6 +253,10 @@ export function getImprovementSummary(constraints: ReplyConstraints): string {
   if (constraints.avoidGenericPhrases) {
     items.push('Avoid generic phrases');
   }
+
+  if (constraints.mustFitLength) {
+    items.push('Keep every reply under 280 characters (emoji count as 2, links as 23)');
+  }
   
   return items.join(' | ');
 }
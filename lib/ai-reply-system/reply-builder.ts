@@ -3,7 +3,7 @@
 import type { CreatorIntelligence } from './types';
 import { extractTopic, identifyNicheElements, type ExtractedTopic } from './topic-extractor';
 import { analyzeTweetContent, type TweetContent } from './content-analyzer';
-import { analyzeReplyFeatures, predictEngagement } from '../x-algorithm';
+import { analyzeReplyFeatures, predictEngagement, type XAlgorithmWeights } from '../x-algorithm';
 import { 
   buildIntelligentQuestion, 
   buildIntelligentContrarian, 
@@ -47,6 +47,7 @@ export interface ReplyBuilderContext {
   yourHandle: string;
   yourNiche?: 'saas' | 'mma';
   constraints?: ReplyConstraints; // Added for feedback loop
+  algorithmWeights?: XAlgorithmWeights; // Active algorithm rules (defaults to ALGORITHM_WEIGHTS)
 }
 
 /**
@@ -54,7 +55,7 @@ export interface ReplyBuilderContext {
  * Uses creator profile + tweet content + constraints from quality gate
  */
 export async function buildReplies(context: ReplyBuilderContext): Promise<BuiltReply[]> {
-  const { tweetText, creatorProfile, minutesSincePosted, constraints } = context;
+  const { tweetText, creatorProfile, minutesSincePosted, constraints, algorithmWeights } = context;
   
   // 1. Extract topic from tweet
   const topic = extractTopic(tweetText);
@@ -95,7 +96,7 @@ export async function buildReplies(context: ReplyBuilderContext): Promise<BuiltR
   // 4. Score each reply with X algorithm
   const scoredReplies = intelligentReplies.map((reply, idx) => {
     const features = analyzeReplyFeatures(reply.text);
-    const prediction = predictEngagement(features, minutesSincePosted);
+    const prediction = predictEngagement(features, minutesSincePosted, { weights: algorithmWeights });
     const score = calculateCompositeScore(prediction);
     
     console.log(`   Reply ${idx + 1} (${reply.strategy}): ${score}/100`);
@@ -1,14 +1,11 @@
 // COMPLETE REPLY GENERATION SYSTEM WITH OPENAI + FEEDBACK LOOP
 
-import OpenAI from "openai";
-import { analyzeReplyFeatures, predictEngagement } from "../x-algorithm";
+import { ALGORITHM_WEIGHTS, analyzeReplyFeatures, predictEngagement, type XAlgorithmWeights } from "../x-algorithm";
 import type { CreatorIntelligence } from "./types";
 import { analyzeTweetContent, type TweetContent } from "./content-analyzer";
 import { assessQuality, shouldIterate, getImprovementSummary, type QualityReport, type ReplyConstraints } from "./quality-gate";
-
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+import { getLLMProvider } from "../llm";
+import { REPLIES_SCHEMA } from "../generation-schemas";
 
 export interface ReplyGenerationContext {
   tweetText: string;
@@ -16,6 +13,7 @@ export interface ReplyGenerationContext {
   creatorProfile: CreatorIntelligence;
   minutesSincePosted: number;
   yourHandle: string;
+  algorithmWeights?: XAlgorithmWeights; // Active algorithm rules (defaults to ALGORITHM_WEIGHTS)
 }
 
 export interface GeneratedReply {
@@ -47,27 +45,19 @@ export interface GenerationResult {
 
 const MAX_ATTEMPTS = 3;
 
-const SYSTEM_PROMPT = `You are an X (Twitter) reply expert who crafts high-engagement replies optimized for the platform's algorithm.
+const buildSystemPrompt = (weights: XAlgorithmWeights) => `You are an X (Twitter) reply expert who crafts high-engagement replies optimized for the platform's algorithm.
 
 CORE RULES:
 - ALWAYS reference the SPECIFIC tweet content provided - never generic responses
 - Use the creator's preferred tone and sophistication level
-- Target X algorithm: 75x author response (questions, pushback), 13.5x conversation (spark discussion)
+- Target X algorithm: ${weights.authorReply}x author response (questions, pushback), ${weights.replies}x conversation (spark discussion)
 - Keep under 280 characters
 - Start with @username for notification
 - Be authentic - no fake stories, no self-promotion
 - Write complete, natural sentences - no fragments or awkward phrasing
 - 3 DISTINCT strategies: Question (expertise), Contrarian (thoughtful challenge), Add-Value (build on their idea)
 
-FORMAT (EXACT):
-REPLY 1 (QUESTION):
-[Your reply]
-
-REPLY 2 (CONTRARIAN):
-[Your reply]
-
-REPLY 3 (ADD-VALUE):
-[Your reply]`;
+ORDER: reply 1 = question, reply 2 = contrarian, reply 3 = add-value`;
 
 /**
  * Generate 3 high-quality replies with feedback loop
@@ -80,6 +70,7 @@ export async function generateOptimizedReplies(context: ReplyGenerationContext):
   
   // Extract tweet content
   const tweetContent = analyzeTweetContent(context.tweetText);
+  const weights = context.algorithmWeights ?? ALGORITHM_WEIGHTS;
   
   let attemptNumber = 0;
   let replies: GeneratedReply[] = [];
@@ -100,27 +91,22 @@ export async function generateOptimizedReplies(context: ReplyGenerationContext):
         qualityReport?.improvements
       );
       
-      // Call OpenAI
-      const completion = await openai.chat.completions.create({
-        model: "gpt-4o-mini",
-        messages: [
-          { role: "system", content: SYSTEM_PROMPT },
-          { role: "user", content: prompt },
-        ],
-        temperature: 0.7,
-        max_tokens: 800,
-      });
-      
-      const response = completion.choices[0]?.message?.content || '';
-      console.log(`✅ OpenAI response received`);
+      // Call the configured LLM
+      const llm = getLLMProvider("replies");
+      const output = await llm.generateStructured(
+        buildSystemPrompt(weights),
+        [{ role: "user", content: prompt }],
+        REPLIES_SCHEMA,
+        { temperature: 0.7, maxTokens: 800 }
+      );
+      console.log(`✅ ${llm.name} response received`);
       
-      // Parse replies
-      const rawReplies = parseReplies(response);
+      const rawReplies = output.replies.map(reply => reply.text.trim());
       
       // Score each reply
       replies = rawReplies.map((text, idx) => {
         const features = analyzeReplyFeatures(text);
-        const prediction = predictEngagement(features, context.minutesSincePosted);
+        const prediction = predictEngagement(features, context.minutesSincePosted, { weights });
         const score = calculateCompositeScore(prediction);
         
         console.log(`   Reply ${idx + 1}: ${score}/100`);
@@ -238,23 +224,6 @@ REQUIREMENTS:
   // (implement as in previous code)
 }
 
-function parseReplies(response: string): string[] {
-  // Implementation as in previous code
-  const patterns = [
-    /REPLY \d+ \([A-Z\-]+\):\s*(.+?)(?=\n\nREPLY \d+|\n*$)/gs,
-    /REPLY \d+:\s*(.+?)(?=\n\nREPLY \d+:|\n*$)/gs,
-  ];
-  
-  for (const pattern of patterns) {
-    const matches = [...response.matchAll(pattern)];
-    if (matches.length >= 3) {
-      return matches.slice(0, 3).map(match => match[1].trim()).filter(r => r.length > 20);
-    }
-  }
-  
-  return response.split(/\n\n+/).slice(0, 3).map(r => r.trim()).filter(r => r.length > 20);
-}
-
 function calculateCompositeScore(prediction: ReturnType<typeof predictEngagement>): number {
   // Implementation as in previous code
   const authorWeight = 0.50;
@@ -0,0 +1,38 @@
+// reply-response.ts - The reply shape the reply routes send to the UI
+//
+// Breakdown bars come straight from the generator's prediction - the routes
+// never recalculate scores or guess strategies.
+
+import type { GeneratedReply } from "./claude-reply-generator";
+
+export function toClientReply(reply: GeneratedReply, minutesSincePosted: number, iteration: number) {
+  const p = reply.prediction;
+
+  // Use direct values from prediction for breakdown display
+  const authorReplyChance = Math.round((p.authorReplyProb || 0) * 100);
+  const conversationLikelihood = Math.min(100, Math.round(((p.repliesExpected || 0) / 10) * 100));
+  const profileClickChance = Math.min(100, Math.round(((p.profileClicksExpected || 0) / 10) * 100));
+  const recencyBoost = minutesSincePosted <= 5 ? 100 : Math.max(0, Math.round((1 - (minutesSincePosted || 0) / 60) * 100));
+
+  return {
+    text: reply.text,
+    score: reply.score || 0,
+    breakdown: {
+      engagement: Number(authorReplyChance) || 0,
+      recency: Number(recencyBoost) || 0,
+      mediaPresence: 0,
+      conversationDepth: Number(conversationLikelihood) || 0,
+      authorReputation: Number(profileClickChance) || 0,
+    },
+    mode: reply.strategy,
+    iteration,
+    reasoning: [reply.reasoning],
+    features: {
+      hasQuestion: reply.features.hasQuestion,
+      hasPushback: reply.features.hasPushback,
+      hasData: reply.features.hasSpecificData,
+      authorReplyProb: authorReplyChance,
+    },
+    similarTo: reply.similarTo,
+  };
+}
@@ -0,0 +1,88 @@
+// reply-saturation.ts - Which angles the existing replies already cover
+//
+// Under a popular tweet the first dozen replies tend to take the same angle
+// (usually a question). Another one of those gets buried, so the strategy
+// selector down-weights crowded angles and favours the ones nobody took.
+
+import { analyzeReplyFeatures } from "../x-algorithm";
+import type { ReplyValueType } from "./reply-strategy-selector";
+
+export const MIN_REPLIES_FOR_SATURATION = 3; // fewer than this says nothing about the thread
+export const CROWDED_SHARE = 0.3;            // an angle is crowded from 30% of replies up
+export const MAX_CROWDING_PENALTY = 30;      // strategy points lost when every reply takes the angle
+export const GAP_BONUS = 5;                  // strategy points for an angle nobody took
+
+const REPLY_VALUE_TYPES: ReplyValueType[] = [
+  "pure_curiosity",
+  "devils_advocate",
+  "expand_idea",
+  "provide_evidence",
+  "personal_crossover",
+  "synthesize",
+  "practical_application",
+];
+
+export interface ReplySaturation {
+  total: number;
+  counts: Record<ReplyValueType, number>;
+  crowded: ReplyValueType[]; // most crowded first
+  gaps: ReplyValueType[];    // angles no existing reply took
+}
+
+/**
+ * Which value type a reply falls under - same signals the algorithm scoring
+ * uses (pushback, data, questions), no AI
+ */
+export function classifyReplyValueType(text: string): ReplyValueType {
+  const features = analyzeReplyFeatures(text);
+  const lower = text.toLowerCase();
+
+  if (features.hasPushback) return "devils_advocate";
+  if (features.hasSpecificData || /\b(study|studies|data|research|survey|stats)\b/.test(lower)) {
+    return "provide_evidence";
+  }
+  if (/\b(reminds me of|similar to|same as|just like|echoes|parallels)\b/.test(lower)) return "synthesize";
+  if (features.hasQuestion) {
+    return /\b(how (do|would|did) you|what would|example|in practice|day to day|apply|implement|look like)\b/.test(lower)
+      ? "practical_application"
+      : "pure_curiosity";
+  }
+  if (features.hasPersonalExperience) return "personal_crossover";
+  return "expand_idea";
+}
+
+/**
+ * Count the existing replies per value type
+ */
+export function analyzeReplySaturation(replies: string[]): ReplySaturation {
+  const counts = Object.fromEntries(REPLY_VALUE_TYPES.map(type => [type, 0])) as Record<ReplyValueType, number>;
+  for (const reply of replies) {
+    counts[classifyReplyValueType(reply)]++;
+  }
+
+  const total = replies.length;
+  const crowded = total >= MIN_REPLIES_FOR_SATURATION
+    ? REPLY_VALUE_TYPES
+        .filter(type => counts[type] / total >= CROWDED_SHARE)
+        .sort((a, b) => counts[b] - counts[a])
+    : [];
+
+  return {
+    total,
+    counts,
+    crowded,
+    gaps: REPLY_VALUE_TYPES.filter(type => counts[type] === 0),
+  };
+}
+
+/**
+ * Strategy score change for an angle: a penalty growing with its share of the
+ * existing replies, a small bonus if nobody took it yet
+ */
+export function saturationAdjustment(type: ReplyValueType, saturation: ReplySaturation): number {
+  if (saturation.total < MIN_REPLIES_FOR_SATURATION) return 0;
+
+  const count = saturation.counts[type];
+  if (count === 0) return GAP_BONUS;
+  return -Math.round((count / saturation.total) * MAX_CROWDING_PENALTY);
+}
@@ -16,6 +16,7 @@
 
 import type { TweetContent } from "./content-analyzer";
 import type { CreatorIntelligence } from "./types";
+import { saturationAdjustment, type ReplySaturation } from "./reply-saturation";
 
 export type ReplyValueType =
   | "pure_curiosity"
@@ -39,6 +40,7 @@ export interface StrategyContext {
   creatorNiche: string;
   yourExperiences: string[];
   minutesSincePosted: number;
+  saturation?: ReplySaturation | null; // angles the existing replies already took
 }
 
 /**
@@ -203,6 +205,16 @@ export function selectReplyStrategies(context: StrategyContext): ReplyStrategy {
     scores.practical_application += 8;
   }
 
+  // ============================================
+  // SATURATION: The fifth identical question gets buried
+  // Crowded angles lose points, untaken ones gain a few
+  // ============================================
+  if (context.saturation) {
+    for (const type of Object.keys(scores) as ReplyValueType[]) {
+      scores[type] += saturationAdjustment(type, context.saturation);
+    }
+  }
+
   // ============================================
   // SELECT TOP 3 STRATEGIES
   // ============================================
@@ -214,7 +226,13 @@ export function selectReplyStrategies(context: StrategyContext): ReplyStrategy {
   const secondary = sorted[1];
   const fallback = sorted[2];
 
-  const reasoning = buildReasoning(primary, scores[primary], context);
+  let reasoning = buildReasoning(primary, scores[primary], context);
+  if (context.saturation && context.saturation.crowded.length > 0) {
+    const saturation = context.saturation;
+    reasoning += ` Existing replies already crowd ${saturation.crowded
+      .map(type => `${type} (${saturation.counts[type]}/${saturation.total})`)
+      .join(", ")}.`;
+  }
 
   return {
     primary,
@@ -9,8 +9,17 @@
  * 3. FAKE STORIES → "When we scaled" (NEVER HAPPENED!)
  *
  * Strategy: When you DON'T have experience → ASK GENUINE QUESTIONS
+ *
+ * "Real" numbers come from your persona (personalContext) - anything else is fake.
  */
 
+import {
+  describeCurrentStage,
+  quotesRealMetric,
+  EMPTY_PERSONAL_CONTEXT,
+  type PersonalContextData,
+} from "./personal-knowledge-base";
+
 export interface SpecificityIssue {
   type: 'vague_claim' | 'generic_question' | 'fake_metric' | 'fake_story' | 'fake_expertise';
   text: string;
@@ -27,20 +36,21 @@ export interface SpecificityReport {
   improvementInstructions: string;
 }
 
-// Catch FAKE metrics (you're at 0 users, $0 MRR!)
+// Catch FAKE metrics (anything that isn't one of your real numbers)
+// {stage} in a fix is replaced with your real stage, e.g. "12 followers, 0 users, $0 MRR, building SubWise"
 const FAKE_METRIC_PATTERNS = [
   {
     pattern: /\b(\d+[KkMm]?\s*(MRR|ARR|revenue))\b/gi,
     severity: 'critical' as const,
-    fix: 'BE HONEST: "I\'m at $0 building SubWise - what revenue milestone felt most significant for you?"'
+    fix: 'BE HONEST: "I\'m at {stage} - what revenue milestone felt most significant for you?"'
   },
   {
-    pattern: /\b(\d{3,}\s*(users|customers|subscribers))\b/gi,
+    pattern: /\b(\d{3,}\s*(?:[a-z]+\s+)?(users|customers|subscribers))\b/gi,
     severity: 'critical' as const,
-    fix: 'BE HONEST: "I\'m at 0 users - what was your biggest challenge going 0 → first 100?"'
+    fix: 'BE HONEST: "I\'m at {stage} - what was your biggest challenge getting your first 100 users?"'
   },
   {
-    pattern: /\b(hit|reached|scaled to|grew to)\s+\d+[KkMm]?\b/gi,
+    pattern: /\b(hit|reached|scaled to|grew to)\s+\$?\d+[KkMm]?\b(?:\s+(?:[a-z]+\s+)?(?:followers?|users?|customers?|subscribers?|MRR|ARR))?/gi,
     severity: 'critical' as const,
     fix: 'BE CURIOUS: "I haven\'t hit these numbers yet - how did you approach this milestone?"'
   },
@@ -140,23 +150,28 @@ const VAGUE_PATTERNS = [
 
 /**
  * Validate reply for authenticity + specificity
+ * Without a persona nothing can be claimed - only 0 counts as a real number
  */
-export function validateAuthenticSpecificity(reply: string, iteration: number = 1): SpecificityReport {
+export function validateAuthenticSpecificity(
+  reply: string,
+  iteration: number = 1,
+  persona: PersonalContextData | null = null
+): SpecificityReport {
   const issues: SpecificityIssue[] = [];
+  const stage = describeCurrentStage(persona);
 
   // CRITICAL: Check for FAKE metrics
   FAKE_METRIC_PATTERNS.forEach(({ pattern, severity, fix }) => {
     const matches = reply.match(pattern);
     if (matches) {
       matches.forEach(match => {
-        // Exception: "0 users", "3 followers", "$0 MRR" are TRUE
-        const isTrueMetric = /\b(0|3)\s*(users?|followers?)\b/gi.test(match) || /\$0/gi.test(match);
-        if (!isTrueMetric) {
+        // Exception: your real numbers ("0 users", "$0 MRR", your follower count) are TRUE
+        if (!quotesRealMetric(match, persona)) {
           issues.push({
             type: 'fake_metric',
             text: match,
             explanation: `🚨 FAKE METRIC: "${match}" - You DON'T have this!`,
-            fix,
+            fix: fix.replace('{stage}', stage),
             severity
           });
         }
@@ -270,7 +285,7 @@ export function validateAuthenticSpecificity(reply: string, iteration: number =
 
   // Build improvement instructions
   const improvementInstructions = !passed
-    ? buildAuthenticImprovementInstructions(issues, iteration)
+    ? buildAuthenticImprovementInstructions(issues, iteration, persona)
     : '';
 
   return {
@@ -284,9 +299,14 @@ export function validateAuthenticSpecificity(reply: string, iteration: number =
 
 function buildAuthenticImprovementInstructions(
   issues: SpecificityIssue[],
-  iteration: number
+  iteration: number,
+  persona: PersonalContextData | null
 ): string {
   const instructions: string[] = [];
+  const { currentFollowers, projects } = persona ?? EMPTY_PERSONAL_CONTEXT;
+  const users = projects.reduce((sum, p) => sum + p.users, 0);
+  const mrr = projects.reduce((sum, p) => sum + p.mrr, 0);
+  const project = projects[0]?.name ?? "my first product";
 
   instructions.push(`🚨 AUTHENTICITY/SPECIFICITY FAILURE (Iteration ${iteration})\n`);
 
@@ -316,39 +336,39 @@ function buildAuthenticImprovementInstructions(
   instructions.push(`✅ AUTHENTIC EXAMPLES (use these strategies):\n`);
 
   instructions.push(`Strategy 1: GENUINE CURIOSITY (best for topics you don't have experience in)`);
-  instructions.push(`   "Your point about scaling to 10K users resonates. I'm at 0 users building`);
-  instructions.push(`   SubWise - what was your biggest challenge going 0 → first 100?"`);
+  instructions.push(`   "Your point about scaling to 10K users resonates. I'm at ${users} users building`);
+  instructions.push(`   ${project} - what was your biggest challenge going ${users} → first 100?"`);
   instructions.push(``);
   instructions.push(`   Why this works:`);
-  instructions.push(`   ✓ HONEST about your stage ("0 users")`);
-  instructions.push(`   ✓ SPECIFIC question ("0 → first 100")`);
+  instructions.push(`   ✓ HONEST about your stage ("${users} users")`);
+  instructions.push(`   ✓ SPECIFIC question ("${users} → first 100")`);
   instructions.push(`   ✓ Shows you understand their journey`);
   instructions.push(``);
 
   instructions.push(`Strategy 2: GENUINE LEARNING (for topics you're exploring)`);
-  instructions.push(`   "Your AI automation approach is interesting. I'm building a reply tool`);
-  instructions.push(`   with Claude for my 30-day growth challenge - how do you balance speed vs quality?"`);
+  instructions.push(`   "Your AI automation approach is interesting. I'm building ${project}`);
+  instructions.push(`   at ${currentFollowers} followers - how do you balance speed vs quality?"`);
   instructions.push(``);
   instructions.push(`   Why this works:`);
   instructions.push(`   ✓ HONEST about what you're building`);
-  instructions.push(`   ✓ SPECIFIC context ("reply tool", "30-day challenge")`);
+  instructions.push(`   ✓ SPECIFIC context ("${project}", "${currentFollowers} followers")`);
   instructions.push(`   ✓ Asks about their specific approach`);
   instructions.push(``);
 
   instructions.push(`Strategy 3: GENUINE STRUGGLE (for shared challenges)`);
-  instructions.push(`   "The discipline part hits home. I train MMA and try to apply that`);
-  instructions.push(`   consistency to building SubWise daily - do you find physical training helps?"`);
+  instructions.push(`   "The discipline part hits home. I try to apply that consistency`);
+  instructions.push(`   to building ${project} daily - what keeps you consistent?"`);
   instructions.push(``);
   instructions.push(`   Why this works:`);
-  instructions.push(`   ✓ HONEST about your practice (MMA training, building SubWise)`);
+  instructions.push(`   ✓ HONEST about your practice (building ${project})`);
   instructions.push(`   ✓ SPECIFIC connection (discipline, consistency)`);
   instructions.push(`   ✓ Genuine question about their experience`);
   instructions.push(``);
 
   instructions.push(`⚠️  CRITICAL RULE:`);
   instructions.push(`   NEVER claim:`);
-  instructions.push(`   ❌ Any MRR/revenue (you're at $0)`);
-  instructions.push(`   ❌ User counts above 0 (you have 0 users)`);
+  instructions.push(`   ❌ Any MRR/revenue other than yours (you're at $${mrr})`);
+  instructions.push(`   ❌ User counts other than yours (you have ${users} users)`);
   instructions.push(`   ❌ Years of experience (you're just starting)`);
   instructions.push(`   ❌ Scaling stories (you haven't scaled anything yet)`);
   instructions.push(``);
@@ -356,7 +376,7 @@ function buildAuthenticImprovementInstructions(
   instructions.push(`   ✅ Ask from beginner perspective`);
   instructions.push(`   ✅ Share what you're currently building/learning`);
   instructions.push(`   ✅ Be curious about their journey`);
-  instructions.push(`   ✅ Reference your actual stage (3 followers, 0 users, building SubWise)`);
+  instructions.push(`   ✅ Reference your actual stage (${describeCurrentStage(persona)})`);
   instructions.push(``);
   instructions.push(`REGENERATE with AUTHENTIC content. NO FAKE STORIES!`);
 
@@ -366,7 +386,7 @@ function buildAuthenticImprovementInstructions(
 /**
  * Quick authentic check
  */
-export function isAuthenticReply(reply: string): boolean {
-  const report = validateAuthenticSpecificity(reply);
+export function isAuthenticReply(reply: string, persona: PersonalContextData | null = null): boolean {
+  const report = validateAuthenticSpecificity(reply, 1, persona);
   return report.authentic;
 }
@@ -0,0 +1,220 @@
+/**
+ * Challenge recap - a retrospective thread over a range of challenge days
+ *
+ * The daily thread only sees today. A recap (week 1, the full 30 days) is
+ * built from the whole follower series, the milestones and how the daily
+ * threads actually performed, plus a chart of the follower curve to attach.
+ */
+
+export interface FollowerPoint {
+  day: number;
+  followers: number;
+}
+
+export interface RecapDay {
+  challengeDay: number;
+  wins: string[];
+  lessons: string[];
+  struggles: string[];
+  metrics: {
+    followers: number;
+    subwiseUsers: number;
+    subwiseMRR?: number;
+    trainingMinutes?: number;
+  };
+}
+
+export interface RecapThread {
+  challengeDay: number;
+  firstTweet: string;
+  status: string;
+  performance?: {
+    totalViews: number;
+    totalLikes: number;
+    totalRetweets: number;
+    totalReplies: number;
+    totalBookmarks: number;
+  };
+}
+
+export interface RecapData {
+  fromDay: number;
+  toDay: number;
+  goal: string;
+  days: RecapDay[];
+  threads: RecapThread[];
+  milestones: { day: number; description: string; impact: string }[];
+}
+
+export interface FollowerCurve {
+  start: FollowerPoint;
+  end: FollowerPoint;
+  gain: number;
+  perDay: number;             // average gain per day over the range
+  biggestJump?: FollowerPoint & { gain: number };
+  flatStretches: [number, number][]; // day ranges (2+ days) with no growth
+}
+
+export const RECAP_RANGES = [
+  { label: "Week 1", fromDay: 1, toDay: 7 },
+  { label: "Week 2", fromDay: 8, toDay: 14 },
+  { label: "Week 3", fromDay: 15, toDay: 21 },
+  { label: "Week 4", fromDay: 22, toDay: 30 },
+  { label: "Full 30 days", fromDay: 1, toDay: 30 },
+] as const;
+
+/**
+ * Followers per challenge day, in day order. A day logged twice keeps the last entry.
+ */
+export function buildFollowerSeries(days: RecapDay[]): FollowerPoint[] {
+  const byDay = new Map<number, number>();
+  for (const day of days) byDay.set(day.challengeDay, day.metrics.followers);
+  return [...byDay.entries()]
+    .map(([day, followers]) => ({ day, followers }))
+    .sort((a, b) => a.day - b.day);
+}
+
+/**
+ * The shape of the curve in numbers - null with fewer than two logged days
+ */
+export function summarizeFollowerCurve(series: FollowerPoint[]): FollowerCurve | null {
+  if (series.length < 2) return null;
+
+  const start = series[0];
+  const end = series[series.length - 1];
+  let biggestJump: FollowerCurve["biggestJump"];
+  const flatStretches: [number, number][] = [];
+  let flatFrom: number | null = null;
+
+  for (let i = 1; i < series.length; i++) {
+    const gain = series[i].followers - series[i - 1].followers;
+    if (gain > 0 && (!biggestJump || gain > biggestJump.gain)) {
+      biggestJump = { ...series[i], gain };
+    }
+
+    if (gain <= 0) {
+      flatFrom ??= series[i - 1].day;
+    } else if (flatFrom !== null) {
+      flatStretches.push([flatFrom, series[i - 1].day]);
+      flatFrom = null;
+    }
+  }
+  if (flatFrom !== null) flatStretches.push([flatFrom, end.day]);
+
+  const gain = end.followers - start.followers;
+  return {
+    start,
+    end,
+    gain,
+    perDay: Math.round((gain / Math.max(1, end.day - start.day)) * 10) / 10,
+    biggestJump,
+    flatStretches,
+  };
+}
+
+/**
+ * What the chart shows, in words - the media note on the first tweet and the image alt text
+ */
+export function describeFollowerChart(curve: FollowerCurve): string {
+  const parts = [
+    `Line chart of followers by challenge day: ${curve.start.followers} on Day ${curve.start.day} to ${curve.end.followers} on Day ${curve.end.day} (${curve.gain >= 0 ? "+" : ""}${curve.gain}, ~${curve.perDay}/day)`,
+  ];
+  if (curve.biggestJump) {
+    parts.push(`steepest rise on Day ${curve.biggestJump.day} (+${curve.biggestJump.gain})`);
+  }
+  if (curve.flatStretches.length > 0) {
+    parts.push(`flat on ${curve.flatStretches.map(([from, to]) => `Days ${from}-${to}`).join(", ")}`);
+  }
+  return parts.join("; ");
+}
+
+/**
+ * Follower curve as a standalone SVG (the threads page renders and exports it)
+ */
+export function renderFollowerChartSVG(series: FollowerPoint[], width = 600, height = 320): string {
+  const pad = { top: 40, right: 24, bottom: 40, left: 48 };
+  const plotWidth = width - pad.left - pad.right;
+  const plotHeight = height - pad.top - pad.bottom;
+
+  const minDay = series[0]?.day ?? 1;
+  const maxDay = Math.max(minDay + 1, series[series.length - 1]?.day ?? 1);
+  const maxFollowers = Math.max(1, ...series.map(p => p.followers));
+  const minFollowers = Math.min(maxFollowers - 1, ...series.map(p => p.followers));
+
+  const x = (day: number) => pad.left + ((day - minDay) / (maxDay - minDay)) * plotWidth;
+  const y = (followers: number) => pad.top + (1 - (followers - minFollowers) / (maxFollowers - minFollowers)) * plotHeight;
+  const points = series.map(p => `${x(p.day).toFixed(1)},${y(p.followers).toFixed(1)}`).join(" ");
+
+  const label = (text: string | number, px: number, py: number, anchor: string) =>
+    `<text x="${px.toFixed(1)}" y="${py.toFixed(1)}" text-anchor="${anchor}" font-size="12" fill="#6b7280">${text}</text>`;
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="sans-serif">`,
+    `<rect width="${width}" height="${height}" fill="#ffffff"/>`,
+    `<text x="${pad.left}" y="24" font-size="16" font-weight="bold" fill="#111827">Followers, Day ${minDay}-${maxDay}</text>`,
+    `<line x1="${pad.left}" y1="${pad.top + plotHeight}" x2="${pad.left + plotWidth}" y2="${pad.top + plotHeight}" stroke="#d1d5db"/>`,
+    `<line x1="${pad.left}" y1="${pad.top}" x2="${pad.left}" y2="${pad.top + plotHeight}" stroke="#d1d5db"/>`,
+    label(maxFollowers, pad.left - 8, y(maxFollowers) + 4, "end"),
+    label(minFollowers, pad.left - 8, y(minFollowers) + 4, "end"),
+    label(`Day ${minDay}`, x(minDay), height - 16, "start"),
+    label(`Day ${maxDay}`, x(maxDay), height - 16, "end"),
+    `<polyline points="${points}" fill="none" stroke="#a855f7" stroke-width="3" stroke-linejoin="round"/>`,
+    ...series.map(p => `<circle cx="${x(p.day).toFixed(1)}" cy="${y(p.followers).toFixed(1)}" r="3.5" fill="#a855f7"/>`),
+    `</svg>`,
+  ].join("");
+}
+
+/**
+ * Daily threads with real performance, best first
+ */
+export function rankThreadPerformance(threads: RecapThread[]): (RecapThread & { performance: NonNullable<RecapThread["performance"]> })[] {
+  return threads
+    .filter((thread): thread is RecapThread & { performance: NonNullable<RecapThread["performance"]> } => !!thread.performance)
+    .sort((a, b) =>
+      (b.performance.totalLikes + b.performance.totalReplies * 2) - (a.performance.totalLikes + a.performance.totalReplies * 2)
+      || b.performance.totalViews - a.performance.totalViews
+    );
+}
+
+/**
+ * The recap prompt's data sections - only what was actually logged
+ */
+export function describeRecapData(data: RecapData, curve: FollowerCurve | null): string {
+  const sections: string[] = [];
+  const days = [...data.days].sort((a, b) => a.challengeDay - b.challengeDay);
+
+  if (curve) {
+    sections.push(`FOLLOWER CURVE (use these exact numbers):
+- Day ${curve.start.day}: ${curve.start.followers} → Day ${curve.end.day}: ${curve.end.followers} (${curve.gain >= 0 ? "+" : ""}${curve.gain}, ~${curve.perDay}/day)
+${curve.biggestJump ? `- Biggest jump: Day ${curve.biggestJump.day} (+${curve.biggestJump.gain})\n` : ""}${curve.flatStretches.length > 0 ? `- Flat: ${curve.flatStretches.map(([from, to]) => `Days ${from}-${to}`).join(", ")}\n` : ""}- Daily: ${buildFollowerSeries(days).map(p => `D${p.day}=${p.followers}`).join(", ")}`);
+  }
+
+  const last = days[days.length - 1];
+  if (last) {
+    const first = days[0];
+    sections.push(`SUBWISE: ${first.metrics.subwiseUsers} → ${last.metrics.subwiseUsers} users${last.metrics.subwiseMRR !== undefined ? `, $${last.metrics.subwiseMRR} MRR` : ""}
+TRAINING: ${days.reduce((sum, day) => sum + (day.metrics.trainingMinutes ?? 0), 0)} minutes logged over ${days.length} days`);
+  }
+
+  const milestones = data.milestones.filter(m => m.day >= data.fromDay && m.day <= data.toDay);
+  if (milestones.length > 0) {
+    sections.push(`MILESTONES:\n${milestones.map(m => `- Day ${m.day}: ${m.description} (${m.impact})`).join("\n")}`);
+  }
+
+  const ranked = rankThreadPerformance(data.threads);
+  if (ranked.length > 0) {
+    sections.push(`HOW THE DAILY THREADS DID (best first):\n${ranked.slice(0, 3).map(t =>
+      `- Day ${t.challengeDay}: ${t.performance.totalViews} views, ${t.performance.totalLikes} likes, ${t.performance.totalReplies} replies - "${t.firstTweet}"`
+    ).join("\n")}${ranked.length > 3 ? `\n- Weakest: Day ${ranked[ranked.length - 1].challengeDay} (${ranked[ranked.length - 1].performance.totalLikes} likes)` : ""}`);
+  }
+
+  const dayLog = days.map(day => {
+    const notes = [...day.wins.slice(0, 2), ...day.lessons.slice(0, 1).map(l => `learned: ${l}`), ...day.struggles.slice(0, 1).map(s => `hard: ${s}`)];
+    return notes.length > 0 ? `- Day ${day.challengeDay}: ${notes.join("; ")}` : null;
+  }).filter(Boolean);
+  if (dayLog.length > 0) {
+    sections.push(`DAY BY DAY:\n${dayLog.join("\n")}`);
+  }
+
+  return sections.join("\n\n");
+}
@@ -11,7 +11,8 @@
  * - Technical depth
  */
 
-import { generateWithClaude } from "./anthropic-client";
+import { getLLMProvider } from "./llm";
+import { VOICE_PROFILE_SCHEMA, type VoiceProfile } from "./generation-schemas";
 
 export interface CommunityTweet {
   text: string;
@@ -25,16 +26,7 @@ export interface CommunityTweet {
 export interface CommunityVoiceProfile {
   communityName: string;
   description: string;
-  voiceProfile: {
-    commonPhrases: string[];
-    toneCharacteristics: string[];
-    topicPatterns: string[];
-    engagementTriggers: string[];
-    lengthPreference: "short" | "medium" | "long";
-    emojiUsage: "frequent" | "moderate" | "rare";
-    technicalDepth: "beginner" | "intermediate" | "expert";
-    mediaUsage: "frequent" | "moderate" | "rare";
-  };
+  voiceProfile: VoiceProfile;
   topPosts: CommunityTweet[];
 }
 
@@ -106,70 +98,29 @@ ${tweetList}
 Community description: ${communityDescription}
 Media usage stats (from all 200 tweets): ${mediaUsagePercent}% of posts include images
 
-Provide analysis in this EXACT JSON format:
-{
-  "commonPhrases": ["phrase 1", "phrase 2", "phrase 3", ...],
-  "toneCharacteristics": ["characteristic 1", "characteristic 2", ...],
-  "topicPatterns": ["topic 1", "topic 2", "topic 3", ...],
-  "engagementTriggers": ["trigger 1", "trigger 2", ...],
-  "lengthPreference": "short" | "medium" | "long",
-  "emojiUsage": "frequent" | "moderate" | "rare",
-  "technicalDepth": "beginner" | "intermediate" | "expert",
-  "mediaUsage": "frequent" | "moderate" | "rare"
-}
+Provide the analysis as JSON (lengthPreference, emojiUsage, technicalDepth and mediaUsage use the scales above).
 
 IMPORTANT:
 - commonPhrases should be ACTUAL phrases used in tweets ("Just shipped", "Day 15:", "Hot take:")
 - toneCharacteristics should describe the emotional/social tone
 - topicPatterns should be specific themes, not just "coding" but "code quality", "shipping fast", "debugging"
 - engagementTriggers should be tactical patterns (asking questions, sharing metrics, being vulnerable)
-- Be SPECIFIC and ACTIONABLE
+- Be SPECIFIC and ACTIONABLE`;
 
-Respond ONLY with the JSON object, no additional text.`;
+  const llm = getLLMProvider("community_voice");
 
-  const response = await generateWithClaude(
+  // Schema-checked (and repaired once) - throws StructuredOutputError with the bad fields
+  const voiceProfile = await llm.generateStructured(
     ANALYSIS_SYSTEM_PROMPT,
     [{ role: "user", content: prompt }],
+    VOICE_PROFILE_SCHEMA,
     {
       temperature: 0.3, // Lower temperature for more consistent analysis
       maxTokens: 1500,
     }
   );
 
-  console.log(`✅ Claude analyzed community voice`);
-
-  // Parse JSON response
-  let voiceProfile;
-  try {
-    // Claude might wrap JSON in markdown code blocks
-    const jsonMatch = response.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) {
-      throw new Error("No JSON found in response");
-    }
-    voiceProfile = JSON.parse(jsonMatch[0]);
-  } catch (error) {
-    console.error("❌ Failed to parse voice profile JSON:", error);
-    console.error("Response:", response);
-    throw new Error("Failed to parse community voice analysis");
-  }
-
-  // Validate required fields
-  const requiredFields = [
-    "commonPhrases",
-    "toneCharacteristics",
-    "topicPatterns",
-    "engagementTriggers",
-    "lengthPreference",
-    "emojiUsage",
-    "technicalDepth",
-    "mediaUsage",
-  ];
-
-  for (const field of requiredFields) {
-    if (!voiceProfile[field]) {
-      throw new Error(`Missing required field: ${field}`);
-    }
-  }
+  console.log(`✅ ${llm.name} analyzed community voice`);
 
   console.log(`📊 Voice Profile Analysis:`);
   console.log(`   Analyzed ${allTweets.length} tweets total`);
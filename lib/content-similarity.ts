@@ -0,0 +1,144 @@
+/**
+ * Near-duplicate detection for generated content
+ *
+ * contentBank.contentHash only catches exact copies. This compares texts by
+ * character shingles with MinHash signatures, so a reworded version of
+ * something we posted last week still gets caught before it's saved.
+ *
+ * Pure functions - used by Convex mutations (saveGeneratedPosts,
+ * communityPosts.saveGenerated) and the reply route.
+ */
+
+export type PostedContentSource = "contentBank" | "posts" | "communityPosts" | "batch";
+
+export interface PostedContent {
+  source: PostedContentSource; // "batch" = generated earlier in the same save
+  content: string;
+  postedAt: number;
+}
+
+export interface SimilarityMatch extends PostedContent {
+  similarity: number; // estimated Jaccard similarity 0-1
+}
+
+export const DUPLICATE_THRESHOLD = 0.5;     // similarity at or above this = near-duplicate
+export const DUPLICATE_LOOKBACK_DAYS = 30;  // only compare against recent content
+
+const SHINGLE_SIZE = 5; // characters
+const SIGNATURE_SIZE = 128;
+
+/**
+ * Lowercase, drop URLs/mentions/punctuation and collapse whitespace
+ */
+export function normalizeForSimilarity(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/https?:\/\/\S+/g, " ")
+    .replace(/@\w+/g, " ")
+    .replace(/[^\p{L}\p{N}\s]/gu, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function shingles(text: string): Set<string> {
+  const normalized = normalizeForSimilarity(text);
+  const result = new Set<string>();
+  if (normalized.length <= SHINGLE_SIZE) {
+    if (normalized) result.add(normalized);
+    return result;
+  }
+  for (let i = 0; i <= normalized.length - SHINGLE_SIZE; i++) {
+    result.add(normalized.substring(i, i + SHINGLE_SIZE));
+  }
+  return result;
+}
+
+// FNV-1a with a seed, finished with the murmur3 mixer so seeds give independent hashes
+function hash32(text: string, seed: number): number {
+  let h = (0x811c9dc5 ^ seed) >>> 0;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h >>> 0;
+}
+
+/**
+ * MinHash signature (empty text gets an empty signature)
+ */
+export function minHashSignature(text: string): number[] {
+  const parts = shingles(text);
+  if (parts.size === 0) return [];
+
+  const signature = new Array<number>(SIGNATURE_SIZE).fill(0xffffffff);
+  for (const shingle of parts) {
+    for (let i = 0; i < SIGNATURE_SIZE; i++) {
+      const h = hash32(shingle, i * 0x9e3779b1);
+      if (h < signature[i]) signature[i] = h;
+    }
+  }
+  return signature;
+}
+
+/**
+ * Estimated Jaccard similarity of two signatures (0 if either is empty)
+ */
+export function estimateSimilarity(a: number[], b: number[]): number {
+  if (a.length === 0 || b.length === 0 || a.length !== b.length) return 0;
+  let same = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] === b[i]) same++;
+  }
+  return same / a.length;
+}
+
+export interface SimilarityIndex {
+  findNearDuplicate(text: string): SimilarityMatch | null;
+  add(item: PostedContent): void;
+}
+
+/**
+ * Index a corpus once, then check any number of candidates against it
+ */
+export function createSimilarityIndex(
+  corpus: PostedContent[],
+  threshold: number = DUPLICATE_THRESHOLD
+): SimilarityIndex {
+  const entries = corpus.map(item => ({ item, signature: minHashSignature(item.content) }));
+
+  return {
+    findNearDuplicate(text: string): SimilarityMatch | null {
+      const signature = minHashSignature(text);
+      let best: SimilarityMatch | null = null;
+
+      for (const entry of entries) {
+        const similarity = estimateSimilarity(signature, entry.signature);
+        if (similarity >= threshold && (!best || similarity > best.similarity)) {
+          best = { ...entry.item, similarity };
+        }
+      }
+      return best;
+    },
+    add(item: PostedContent) {
+      entries.push({ item, signature: minHashSignature(item.content) });
+    },
+  };
+}
+
+/**
+ * Retry instructions for the LLM when output repeats earlier content
+ */
+export function describeDuplicates(matches: Array<SimilarityMatch | null>): string {
+  const lines = matches
+    .map((match, idx) => match
+      ? `- Reply ${idx + 1} is ${Math.round(match.similarity * 100)}% similar to something already posted: "${match.content.substring(0, 120)}"`
+      : null)
+    .filter((line): line is string => line !== null);
+
+  return `🔁 REPETITIVE OUTPUT:\n${lines.join("\n")}\nWrite these with a different angle, wording and opening.`;
+}
@@ -0,0 +1,104 @@
+/**
+ * CONTENT TEMPLATES
+ *
+ * Templates are saved replies/posts/threads with {variables} in place of the
+ * specifics ("Day {day}: {followers} followers, {insight}"). This module
+ * extracts variables, fills them in, and suggests values from today's
+ * dailyInput so a template can be reused in one click.
+ */
+
+export interface TemplateDailyInput {
+  events: string[];
+  insights: string[];
+  struggles: string[];
+  futurePlans?: string[];
+  metrics: {
+    followers: number;
+    subwiseUsers: number;
+    subwiseMRR?: number;
+    trainingMinutes?: number;
+  };
+}
+
+// Thread templates store every tweet in one string, split on this line
+export const THREAD_TWEET_SEPARATOR = "---";
+
+const VARIABLE_PATTERN = /\{([a-zA-Z][a-zA-Z0-9_]*)\}/g;
+
+/**
+ * List the unique {variables} in a template, in order of appearance
+ */
+export function extractTemplateVariables(template: string): string[] {
+  const variables: string[] = [];
+  for (const match of template.matchAll(VARIABLE_PATTERN)) {
+    if (!variables.includes(match[1])) variables.push(match[1]);
+  }
+  return variables;
+}
+
+/**
+ * Replace {variables} with values - unknown/empty variables are left as-is so
+ * nothing gets posted with a silently missing piece
+ */
+export function fillTemplate(template: string, values: Record<string, string>): string {
+  return template.replace(VARIABLE_PATTERN, (placeholder, name: string) => {
+    const value = values[name];
+    return value && value.trim() ? value.trim() : placeholder;
+  });
+}
+
+// Normalize "subwise_users", "subwiseUsers", "SubWise Users" → "subwiseusers"
+const normalize = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+/**
+ * Suggest values for a template's variables from today's daily input
+ * Numbered variables ({event2}, {insight3}) pick the nth entry
+ */
+export function suggestVariableValues(
+  variables: string[],
+  input: TemplateDailyInput,
+  challengeDay?: number
+): Record<string, string> {
+  const lists: Record<string, string[]> = {
+    event: input.events,
+    insight: input.insights,
+    lesson: input.insights,
+    struggle: input.struggles,
+    plan: input.futurePlans || [],
+    futureplan: input.futurePlans || [],
+  };
+
+  const scalars: Record<string, number | undefined> = {
+    followers: input.metrics.followers,
+    subwiseusers: input.metrics.subwiseUsers,
+    users: input.metrics.subwiseUsers,
+    mrr: input.metrics.subwiseMRR,
+    subwisemrr: input.metrics.subwiseMRR,
+    trainingminutes: input.metrics.trainingMinutes,
+    minutes: input.metrics.trainingMinutes,
+    day: challengeDay,
+    challengeday: challengeDay,
+  };
+
+  const values: Record<string, string> = {};
+
+  for (const variable of variables) {
+    const key = normalize(variable);
+
+    const scalar = scalars[key];
+    if (scalar !== undefined) {
+      values[variable] = String(scalar);
+      continue;
+    }
+
+    const numbered = key.match(/^(.*?)(\d*)$/);
+    const base = (numbered?.[1] || key).replace(/s$/, "");
+    const index = numbered?.[2] ? parseInt(numbered[2], 10) - 1 : 0;
+    const list = lists[base];
+    if (list && list[index]) {
+      values[variable] = list[index];
+    }
+  }
+
+  return values;
+}
@@ -0,0 +1,15 @@
+// lib/convex-auth.ts
+// Forward the signed-in Clerk user to Convex from API routes, so
+// fetchQuery/fetchMutation read and write that user's rows
+
+import { auth } from "@clerk/nextjs/server";
+
+/**
+ * Options for fetchQuery/fetchMutation carrying the user's Convex token
+ * (Clerk JWT template named "convex")
+ */
+export async function convexAuthOptions(): Promise<{ token?: string }> {
+  const { getToken } = await auth();
+  const token = await getToken({ template: "convex" });
+  return token ? { token } : {};
+}
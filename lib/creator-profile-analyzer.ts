@@ -0,0 +1,45 @@
+// Creator profile analysis - niche, audience and crossover potential
+
+import { getLLMProvider } from "./llm";
+import { CREATOR_ANALYSIS_SCHEMA, type CreatorAnalysis } from "./generation-schemas";
+
+export type { CreatorAnalysis };
+
+export async function analyzeCreatorProfile(
+  bio: string,
+  recentTweets: string[]
+): Promise<CreatorAnalysis> {
+  const prompt = `Analyze this X creator's profile and recent tweets.
+
+Profile Bio: ${bio}
+
+Recent Tweets:
+${recentTweets.map((t, i) => `${i + 1}. ${t}`).join("\n")}
+
+Return the analysis as JSON:
+- primaryNiche: the creator's main niche
+- audienceInterests / audienceIrrelevantTopics: what their audience does and doesn't care about
+- crossoverPotential: 0-5 ratings (see below)
+- optimalReplyMode: pure_saas, pure_mma, mindset_crossover or technical
+- respondsTo: types of replies they engage with
+- preferredTone: technical, casual, philosophical, direct or analytical
+
+Be precise about crossoverPotential ratings:
+- 0 = completely irrelevant
+- 1-2 = barely relevant
+- 3 = somewhat relevant  
+- 4-5 = core interest
+
+Example: If creator is @levelsio (indie hacker), mmaRelevance=0, saasRelevance=5
+Example: If creator is @arielhelwani (MMA journalist), mmaRelevance=5, saasRelevance=0`;
+
+  return getLLMProvider("profile_analysis").generateStructured(
+    "You are an expert at analyzing X/Twitter creator profiles and their audiences.",
+    [{ role: "user", content: prompt }],
+    CREATOR_ANALYSIS_SCHEMA,
+    {
+      temperature: 0.3, // Lower temperature for more consistent analysis
+      maxTokens: 800
+    }
+  );
+}
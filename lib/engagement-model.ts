@@ -0,0 +1,225 @@
+/**
+ * LEARNED ENGAGEMENT MODEL
+ *
+ * predictEngagement() started out with hand-tuned bumps (+5 replies for a
+ * question, +10 likes for personal experience...). Those never change no matter
+ * how our replies actually perform.
+ *
+ * This module fits a ridge (L2-regularised) linear regression per engagement
+ * signal from the `performance` we store on sent replies (posts). Inputs are
+ * the ReplyFeatures flags plus strategy, niche and minutes-since-post. The fitted weights are versioned in Convex
+ * (engagementModels table) and used by predictEngagement() once enough
+ * samples exist.
+ *
+ * Pure TypeScript, no dependencies - runs the same in Convex actions and
+ * Next.js routes.
+ */
+
+import type { ReplyFeatures } from "./x-algorithm";
+
+// Below this many samples the regression is noise - stick with the constants
+export const MIN_TRAINING_SAMPLES = 30;
+
+// Regularisation strength (keeps weights sane with small, correlated samples)
+const RIDGE_LAMBDA = 1.0;
+
+const FEATURE_FLAGS: Array<keyof ReplyFeatures> = [
+  "hasQuestion",
+  "hasPushback",
+  "hasSpecificData",
+  "hasPersonalExperience",
+  "isShort",
+  "callsOutOP",
+  "linksToProfile",
+];
+
+const STRATEGIES = [
+  "pure_curiosity",
+  "devils_advocate",
+  "expand_idea",
+  "provide_evidence",
+  "personal_crossover",
+  "synthesize",
+  "practical_application",
+];
+
+const NICHES = ["saas", "mma", "tech", "finance", "mindset", "other"];
+
+/**
+ * Feature names in vector order. Stored with every model version so older
+ * models keep working if we add features later.
+ */
+export const FEATURE_NAMES: string[] = [
+  "bias",
+  ...FEATURE_FLAGS,
+  ...STRATEGIES.map(s => `strategy:${s}`),
+  ...NICHES.map(n => `niche:${n}`),
+  "logMinutesSincePost",
+];
+
+export interface EngagementTargets {
+  replies: number;
+  likes: number;
+  profileClicks: number;
+}
+
+export interface EngagementSample {
+  features: ReplyFeatures;
+  strategy?: string;
+  niche?: string;
+  minutesSincePost: number;
+  performance: EngagementTargets;
+}
+
+export interface EngagementModel {
+  version: number;
+  featureNames: string[];
+  weights: {
+    replies: number[];
+    likes: number[];
+    profileClicks: number[];
+  };
+  sampleCount: number;
+  trainingError: EngagementTargets; // RMSE per target on the training set
+  trainedAt: number;
+}
+
+export interface ModelInput {
+  features: ReplyFeatures;
+  strategy?: string;
+  niche?: string;
+  minutesSincePost: number;
+}
+
+/**
+ * Build named feature values for one reply
+ */
+function buildFeatureMap(input: ModelInput): Record<string, number> {
+  const map: Record<string, number> = { bias: 1 };
+
+  FEATURE_FLAGS.forEach(flag => {
+    map[flag] = input.features[flag] ? 1 : 0;
+  });
+
+  if (input.strategy) map[`strategy:${input.strategy}`] = 1;
+  if (input.niche) map[`niche:${input.niche.toLowerCase()}`] = 1;
+
+  // Log scale - the difference between 1 and 10 minutes matters far more than 100 vs 110
+  map.logMinutesSincePost = Math.log1p(Math.max(0, input.minutesSincePost));
+
+  return map;
+}
+
+function toVector(input: ModelInput, featureNames: string[]): number[] {
+  const map = buildFeatureMap(input);
+  return featureNames.map(name => map[name] ?? 0);
+}
+
+/**
+ * Solve (XᵀX + λI) w = Xᵀy with Gaussian elimination (partial pivoting)
+ */
+function fitRidge(rows: number[][], targets: number[], lambda: number): number[] {
+  const n = rows[0].length;
+  const a: number[][] = Array.from({ length: n }, () => new Array(n + 1).fill(0));
+
+  rows.forEach((row, r) => {
+    for (let i = 0; i < n; i++) {
+      for (let j = 0; j < n; j++) {
+        a[i][j] += row[i] * row[j];
+      }
+      a[i][n] += row[i] * targets[r];
+    }
+  });
+
+  // Don't penalise the intercept
+  for (let i = 1; i < n; i++) {
+    a[i][i] += lambda;
+  }
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) {
+      if (Math.abs(a[r][col]) > Math.abs(a[pivot][col])) pivot = r;
+    }
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+
+    // Singular column (feature never seen and unregularised) - leave weight at 0
+    if (Math.abs(a[col][col]) < 1e-12) continue;
+
+    for (let r = 0; r < n; r++) {
+      if (r === col) continue;
+      const factor = a[r][col] / a[col][col];
+      if (factor === 0) continue;
+      for (let c = col; c <= n; c++) {
+        a[r][c] -= factor * a[col][c];
+      }
+    }
+  }
+
+  return a.map((row, i) => (Math.abs(row[i]) < 1e-12 ? 0 : row[n] / row[i]));
+}
+
+function dot(weights: number[], vector: number[]): number {
+  return weights.reduce((sum, w, i) => sum + w * (vector[i] ?? 0), 0);
+}
+
+function rmse(weights: number[], rows: number[][], targets: number[]): number {
+  const squared = rows.reduce((sum, row, i) => {
+    const error = Math.max(0, dot(weights, row)) - targets[i];
+    return sum + error * error;
+  }, 0);
+  return Math.sqrt(squared / rows.length);
+}
+
+/**
+ * Fit a new model version from historical performance
+ */
+export function fitEngagementModel(samples: EngagementSample[], version: number): EngagementModel {
+  if (samples.length === 0) {
+    throw new Error("Cannot fit engagement model without samples");
+  }
+
+  const rows = samples.map(s => toVector(s, FEATURE_NAMES));
+  const replies = samples.map(s => s.performance.replies);
+  const likes = samples.map(s => s.performance.likes);
+  const profileClicks = samples.map(s => s.performance.profileClicks);
+
+  const weights = {
+    replies: fitRidge(rows, replies, RIDGE_LAMBDA),
+    likes: fitRidge(rows, likes, RIDGE_LAMBDA),
+    profileClicks: fitRidge(rows, profileClicks, RIDGE_LAMBDA),
+  };
+
+  return {
+    version,
+    featureNames: FEATURE_NAMES,
+    weights,
+    sampleCount: samples.length,
+    trainingError: {
+      replies: rmse(weights.replies, rows, replies),
+      likes: rmse(weights.likes, rows, likes),
+      profileClicks: rmse(weights.profileClicks, rows, profileClicks),
+    },
+    trainedAt: Date.now(),
+  };
+}
+
+/**
+ * Predict expected engagement counts (never negative)
+ */
+export function predictWithModel(model: EngagementModel, input: ModelInput): EngagementTargets {
+  const vector = toVector(input, model.featureNames);
+
+  return {
+    replies: Math.max(0, dot(model.weights.replies, vector)),
+    likes: Math.max(0, dot(model.weights.likes, vector)),
+    profileClicks: Math.max(0, dot(model.weights.profileClicks, vector)),
+  };
+}
+
+/**
+ * Only trust a model trained on enough real data
+ */
+export function isModelUsable(model: EngagementModel | null | undefined): model is EngagementModel {
+  return !!model && model.sampleCount >= MIN_TRAINING_SAMPLES;
+}
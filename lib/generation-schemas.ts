@@ -0,0 +1,103 @@
+/**
+ * Output schemas for every generation route
+ *
+ * Generators ask the model for exactly these shapes (see
+ * LLMProvider.generateStructured), so a format drift fails loudly with the
+ * offending fields instead of silently parsing into fewer posts or replies.
+ */
+
+import { schema, type Infer } from "./llm/schema";
+
+const rating = schema.number({ minimum: 0, maximum: 5, integer: true });
+const frequency = schema.oneOf(["frequent", "moderate", "rare"]);
+
+// Reply generator: three replies, one per selected strategy
+export const REPLIES_SCHEMA = schema.object({
+  replies: schema.array(
+    schema.object({
+      text: schema.string({ minLength: 1 }),
+    }),
+    { minItems: 3, maxItems: 3 }
+  ),
+});
+
+// Reply refinement: the rewritten reply only
+export const REFINED_REPLY_SCHEMA = schema.object({
+  reply: schema.string({ minLength: 1 }),
+});
+
+// Daily posts: five posts in posting order
+export const DAILY_POSTS_SCHEMA = schema.object({
+  posts: schema.array(
+    schema.object({
+      timing: schema.string({ minLength: 1 }), // morning, midday, afternoon, late_afternoon, evening
+      topic: schema.string({ minLength: 1 }),  // subwise, mma, challenge, lesson
+      content: schema.string({ minLength: 1 }),
+      media: schema.nullable(schema.string()), // e.g. "training_photo", null for none
+    }),
+    { minItems: 5, maxItems: 5 }
+  ),
+});
+
+// End-of-day thread: one entry per tweet, each with its own media slot
+export const THREAD_SCHEMA = schema.object({
+  tweets: schema.array(
+    schema.object({
+      text: schema.string({ minLength: 1 }),
+      media: schema.nullable(schema.string()), // what image to attach to this tweet, null for none
+    }),
+    { minItems: 5, maxItems: 8 }
+  ),
+});
+
+// One rewritten thread tweet
+export const THREAD_TWEET_SCHEMA = schema.object({
+  tweet: schema.string({ minLength: 1 }),
+});
+
+// One community post
+export const COMMUNITY_POST_SCHEMA = schema.object({
+  content: schema.string({ minLength: 1 }),
+  category: schema.optional(schema.string()),
+  suggestMedia: schema.boolean(),
+  mediaType: schema.nullable(schema.string()),
+});
+
+// Community voice profile
+export const VOICE_PROFILE_SCHEMA = schema.object({
+  commonPhrases: schema.array(schema.string(), { minItems: 1 }),
+  toneCharacteristics: schema.array(schema.string(), { minItems: 1 }),
+  topicPatterns: schema.array(schema.string(), { minItems: 1 }),
+  engagementTriggers: schema.array(schema.string(), { minItems: 1 }),
+  lengthPreference: schema.oneOf(["short", "medium", "long"]),
+  emojiUsage: frequency,
+  technicalDepth: schema.oneOf(["beginner", "intermediate", "expert"]),
+  mediaUsage: frequency,
+});
+
+// Creator profile analysis
+export const CREATOR_ANALYSIS_SCHEMA = schema.object({
+  primaryNiche: schema.oneOf(["saas", "mma", "tech", "finance", "mindset", "other"]),
+  secondaryNiches: schema.array(schema.string()),
+  audienceInterests: schema.array(schema.string()),
+  audienceIrrelevantTopics: schema.array(schema.string()),
+  crossoverPotential: schema.object({
+    mmaRelevance: rating,
+    saasRelevance: rating,
+    disciplineTopics: rating,
+    philosophyTopics: rating,
+  }),
+  optimalReplyMode: schema.oneOf(["pure_saas", "pure_mma", "mindset_crossover", "technical"]),
+  respondsTo: schema.array(schema.string()),
+  preferredTone: schema.string(),
+  avoidTopics: schema.array(schema.string()),
+  emphasizeTopics: schema.array(schema.string()),
+});
+
+export type GeneratedReplies = Infer<typeof REPLIES_SCHEMA>;
+export type DailyPosts = Infer<typeof DAILY_POSTS_SCHEMA>;
+export type GeneratedThreadOutput = Infer<typeof THREAD_SCHEMA>;
+export type RegeneratedTweet = Infer<typeof THREAD_TWEET_SCHEMA>;
+export type CommunityPostOutput = Infer<typeof COMMUNITY_POST_SCHEMA>;
+export type VoiceProfile = Infer<typeof VOICE_PROFILE_SCHEMA>;
+export type CreatorAnalysis = Infer<typeof CREATOR_ANALYSIS_SCHEMA>;
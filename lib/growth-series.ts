@@ -0,0 +1,68 @@
+/**
+ * Follower + SubWise series for the analytics dashboard
+ *
+ * Built from the metrics logged with each day's input (dailyInput for posts,
+ * threadInput for the challenge thread) - the numbers the user actually types
+ * in. A day's gain is the change since the previous logged day, so the first
+ * day in a range still gets a gain when an earlier day was logged.
+ */
+
+export interface LoggedMetrics {
+  date: string; // YYYY-MM-DD
+  followers: number;
+  subwiseUsers: number;
+  updatedAt: number;
+}
+
+export interface GrowthSeries {
+  followerGrowth: { date: string; followers: number; gained: number }[];
+  subwise: {
+    currentUsers: number;
+    usersGained: number;
+    followersGained: number;
+    conversionRate: number; // SubWise signups per 100 new followers
+    daily: { date: string; usersGained: number; followersGained: number }[];
+  };
+}
+
+/**
+ * One point per logged day in [startDate, endDate]
+ * When both inputs logged the same day, the most recently updated one wins
+ */
+export function buildGrowthSeries(
+  logged: LoggedMetrics[],
+  startDate: string,
+  endDate: string,
+  currentSubwiseUsers?: number
+): GrowthSeries {
+  const byDate = new Map<string, LoggedMetrics>();
+  for (const entry of logged) {
+    const existing = byDate.get(entry.date);
+    if (!existing || entry.updatedAt > existing.updatedAt) byDate.set(entry.date, entry);
+  }
+  const days = [...byDate.values()].sort((a, b) => a.date.localeCompare(b.date));
+
+  const inRange = days
+    .map((day, i) => ({ day, previous: i > 0 ? days[i - 1] : undefined }))
+    .filter(({ day }) => day.date >= startDate && day.date <= endDate)
+    .map(({ day, previous }) => ({
+      date: day.date,
+      followers: day.followers,
+      followersGained: previous ? day.followers - previous.followers : 0,
+      usersGained: previous ? day.subwiseUsers - previous.subwiseUsers : 0,
+    }));
+
+  const followersGained = inRange.reduce((sum, day) => sum + day.followersGained, 0);
+  const usersGained = inRange.reduce((sum, day) => sum + day.usersGained, 0);
+
+  return {
+    followerGrowth: inRange.map(day => ({ date: day.date, followers: day.followers, gained: day.followersGained })),
+    subwise: {
+      currentUsers: currentSubwiseUsers ?? days[days.length - 1]?.subwiseUsers ?? 0,
+      usersGained,
+      followersGained,
+      conversionRate: followersGained > 0 ? (usersGained / followersGained) * 100 : 0,
+      daily: inRange.map(day => ({ date: day.date, usersGained: day.usersGained, followersGained: day.followersGained })),
+    },
+  };
+}
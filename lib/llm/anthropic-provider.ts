@@ -0,0 +1,65 @@
+import Anthropic from "@anthropic-ai/sdk";
+import { createProvider } from "./provider";
+import type { LLMProvider } from "./types";
+
+export const ANTHROPIC_DEFAULT_MODEL = "claude-haiku-4-5-20251001";
+
+const STRUCTURED_OUTPUT_TOOL = "respond";
+
+/**
+ * Claude via the Anthropic SDK
+ */
+export function createAnthropicProvider(model: string = ANTHROPIC_DEFAULT_MODEL): LLMProvider {
+  return createProvider("anthropic", model, async (systemPrompt, messages, options) => {
+    const apiKey = process.env.ANTHROPIC_API_KEY;
+    if (!apiKey) {
+      throw new Error(
+        "ANTHROPIC_API_KEY is not configured. Get one free at console.anthropic.com"
+      );
+    }
+
+    const anthropic = new Anthropic({ apiKey });
+
+    // Structured output goes through a forced tool call - the API holds the
+    // response to the schema instead of the prompt just describing it
+    if (options.schema) {
+      const response = await anthropic.messages.create({
+        model,
+        max_tokens: options.maxTokens || 800,
+        temperature: options.temperature ?? 0.7,
+        system: systemPrompt,
+        messages,
+        tools: [{
+          name: STRUCTURED_OUTPUT_TOOL,
+          description: "Return the response as structured data matching the input schema",
+          input_schema: options.schema as Anthropic.Tool.InputSchema,
+        }],
+        tool_choice: { type: "tool", name: STRUCTURED_OUTPUT_TOOL },
+      }, { signal: options.signal });
+
+      const toolUse = response.content.find(block => block.type === "tool_use");
+      if (toolUse?.type === "tool_use") {
+        return JSON.stringify(toolUse.input);
+      }
+
+      throw new Error("Claude did not return the structured output tool call");
+    }
+
+    const response = await anthropic.messages.create({
+      model,
+      max_tokens: options.maxTokens || 800,
+      temperature: options.temperature ?? 0.7,
+      // No native JSON mode - spell it out instead
+      system: options.json
+        ? `${systemPrompt}\n\nRespond ONLY with valid JSON. No markdown, no code blocks, no explanations.`
+        : systemPrompt,
+      messages,
+    }, { signal: options.signal });
+
+    if (response.content[0]?.type === "text") {
+      return response.content[0].text;
+    }
+
+    throw new Error("Unexpected response format from Claude");
+  });
+}
@@ -0,0 +1,120 @@
+/**
+ * Deterministic local LLM - no network, no API key
+ *
+ * Returns canned JSON matching each route's output schema (see
+ * lib/generation-schemas.ts), so the whole app (and tests) can run offline.
+ * The same input always gives the same output; when a route has several
+ * variants the choice is a hash of the prompt.
+ */
+
+import { createProvider } from "./provider";
+import type { LLMMessage, LLMProvider, LLMRoute } from "./types";
+
+export const FAKE_MODEL = "fake-deterministic-v1";
+
+const FIXTURES: Record<LLMRoute, string[]> = {
+  // "reply" answers a refinement request on the same route; each schema only reads its own field
+  replies: [
+    `{
+  "replies": [
+    {"text": "What made you pick that over the obvious option? I hit the same fork building SubWise and went the other way. Curious what tipped it for you"},
+    {"text": "Hard disagree on one part. In my experience the bottleneck is rarely the tooling, it's shipping consistently for 30 days straight. What did your week 1 look like?"},
+    {"text": "This maps to BJJ too. You don't get better by watching, you get better by getting tapped 100 times. Which mistake taught you the most here?"}
+  ],
+  "reply": "What made you pick that over the obvious option? I went the other way building SubWise"
+}`,
+    `{
+  "replies": [
+    {"text": "Curious, did this change after you crossed your first 100 users, or was it true from day one?"},
+    {"text": "The part nobody mentions: the boring work compounds. I've been logging every SubWise signup for 30 days and the pattern only showed up in week 3. What are you tracking?"},
+    {"text": "Same lesson from training MMA. The fundamentals you skip are the ones that get exposed first. What would you do differently starting over?"}
+  ],
+  "reply": "Did this change after your first 100 users, or was it true from day one?"
+}`,
+  ],
+  posts: [
+    `{
+  "posts": [
+    {"timing": "morning", "topic": "challenge", "content": "Day 12 of building in public. Shipped the analytics page, still 0 new signups this week. Consistency > motivation?", "media": null},
+    {"timing": "midday", "topic": "mma", "content": "90 minutes of BJJ today. Got tapped 6 times. Every tap was the same mistake - that's the lesson.", "media": "training_photo"},
+    {"timing": "afternoon", "topic": "subwise", "content": "Realized most churn happens in the first 48 hours. Rebuilding onboarding this week. What fixed activation for you?", "media": null},
+    {"timing": "evening", "topic": "lesson", "content": "I learned more from 1 failed launch than from 10 courses. Shipping beats planning, every time.", "media": null},
+    {"timing": "night", "topic": "challenge", "content": "Tomorrow's focus: fix the one bug users actually hit. Not the 10 I think are interesting.", "media": null}
+  ]
+}`,
+  ],
+  // "tweet" answers a regenerate-one-tweet request on the same route
+  threads: [
+    `{
+  "tweets": [
+    {"text": "Day 12 of the 30-day challenge. Here's what actually happened this week 🧵", "media": null},
+    {"text": "Shipped the analytics dashboard. Took 3x longer than planned because I rebuilt the data model twice.", "media": "analytics dashboard screenshot"},
+    {"text": "Biggest lesson: measure before you optimize. I was guessing which replies worked. Now I know.", "media": null},
+    {"text": "Struggle: 0 new SubWise signups this week. Traffic is up, conversion isn't.", "media": null},
+    {"text": "Training: 4 BJJ sessions. Tapped out more than ever - which means I'm finally rolling with better people.", "media": "training_photo"},
+    {"text": "Tomorrow: fix onboarding. One screen, one goal.", "media": null},
+    {"text": "What's the one metric you check every day?", "media": null}
+  ],
+  "tweet": "Shipped the analytics dashboard. Rebuilt the data model twice, so it took 3x longer than planned."
+}`,
+  ],
+  community_posts: [
+    `{"content": "Day 12 building in public: shipped analytics, 0 new signups this week. Traffic up, conversion flat. What fixed activation for you?", "category": "progress", "suggestMedia": false, "mediaType": null}`,
+  ],
+  community_voice: [
+    `{
+  "commonPhrases": ["Just shipped", "Day 1:", "Hot take:"],
+  "toneCharacteristics": ["transparent", "supportive", "direct"],
+  "topicPatterns": ["shipping fast", "revenue milestones", "distribution struggles"],
+  "engagementTriggers": ["sharing metrics", "asking for feedback", "admitting failures"],
+  "lengthPreference": "short",
+  "emojiUsage": "moderate",
+  "technicalDepth": "intermediate",
+  "mediaUsage": "moderate"
+}`,
+  ],
+  profile_analysis: [
+    `{
+  "primaryNiche": "saas",
+  "secondaryNiches": ["tech", "mindset"],
+  "audienceInterests": ["building products", "growth", "indie hacking"],
+  "audienceIrrelevantTopics": ["celebrity news"],
+  "crossoverPotential": {
+    "mmaRelevance": 1,
+    "saasRelevance": 5,
+    "disciplineTopics": 3,
+    "philosophyTopics": 2
+  },
+  "optimalReplyMode": "pure_saas",
+  "respondsTo": ["specific questions", "data", "contrarian takes"],
+  "preferredTone": "direct",
+  "avoidTopics": ["politics"],
+  "emphasizeTopics": ["shipping", "metrics"]
+}`,
+  ],
+};
+
+// Small stable string hash (FNV-1a)
+function hash(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+function messageText(messages: LLMMessage[]): string {
+  return messages
+    .map(m => (typeof m.content === "string"
+      ? m.content
+      : m.content.map(block => (block.type === "text" ? block.text : block.source.url)).join("\n")))
+    .join("\n");
+}
+
+export function createFakeProvider(route: LLMRoute): LLMProvider {
+  return createProvider("fake", FAKE_MODEL, async (systemPrompt, messages) => {
+    const variants = FIXTURES[route];
+    return variants[hash(systemPrompt + messageText(messages)) % variants.length];
+  });
+}
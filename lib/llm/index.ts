@@ -0,0 +1,83 @@
+/**
+ * LLM PROVIDER LAYER
+ *
+ * One interface for every generation route. Which provider (and model) a route
+ * uses is configuration, not code:
+ *
+ *   LLM_PROVIDER=anthropic|openai|fake        default for all routes
+ *   LLM_PROVIDER_POSTS=openai                 per-route override
+ *   LLM_PROVIDER_REPLIES=anthropic,openai     comma list = A/B (random per request)
+ *   LLM_MODEL_THREADS=claude-sonnet-4-5       per-route model override
+ *   LLM_MODEL_REPLIES_OPENAI=gpt-4o           per-route + provider (for A/B)
+ *
+ * With nothing configured: Anthropic if ANTHROPIC_API_KEY is set, else OpenAI
+ * if OPENAI_API_KEY is set. "fake" runs everything offline with deterministic
+ * canned output.
+ */
+
+import { createAnthropicProvider, ANTHROPIC_DEFAULT_MODEL } from "./anthropic-provider";
+import { createOpenAIProvider, OPENAI_DEFAULT_MODEL } from "./openai-provider";
+import { createFakeProvider } from "./fake-provider";
+import type { LLMProvider, LLMProviderName, LLMRoute } from "./types";
+
+export type {
+  LLMProvider,
+  LLMProviderName,
+  LLMRoute,
+  LLMMessage,
+  LLMTextMessage,
+  LLMContent,
+  GenerateOptions,
+} from "./types";
+export { parseJSONResponse } from "./json";
+export { schema, validate, type Infer, type Schema } from "./schema";
+export { StructuredOutputError } from "./structured";
+
+const PROVIDER_NAMES: LLMProviderName[] = ["anthropic", "openai", "fake"];
+
+function parseProviderList(value: string | undefined): LLMProviderName[] {
+  if (!value) return [];
+  return value
+    .split(",")
+    .map(name => name.trim().toLowerCase())
+    .filter((name): name is LLMProviderName => {
+      if (PROVIDER_NAMES.includes(name as LLMProviderName)) return true;
+      if (name) console.warn(`⚠️ Unknown LLM provider "${name}" - expected one of ${PROVIDER_NAMES.join(", ")}`);
+      return false;
+    });
+}
+
+function defaultProvider(): LLMProviderName {
+  if (process.env.ANTHROPIC_API_KEY) return "anthropic";
+  if (process.env.OPENAI_API_KEY) return "openai";
+  return "anthropic"; // Fails with a clear "key not configured" error at call time
+}
+
+/**
+ * Resolve the provider for a route from configuration
+ */
+export function getLLMProvider(route: LLMRoute): LLMProvider {
+  const envKey = route.toUpperCase();
+
+  const routeProviders = parseProviderList(process.env[`LLM_PROVIDER_${envKey}`]);
+  const candidates = routeProviders.length > 0
+    ? routeProviders
+    : parseProviderList(process.env.LLM_PROVIDER);
+
+  const name = candidates.length > 0
+    ? candidates[Math.floor(Math.random() * candidates.length)]
+    : defaultProvider();
+
+  const model =
+    process.env[`LLM_MODEL_${envKey}_${name.toUpperCase()}`] ||
+    process.env[`LLM_MODEL_${envKey}`];
+
+  switch (name) {
+    case "anthropic":
+      return createAnthropicProvider(model || ANTHROPIC_DEFAULT_MODEL);
+    case "openai":
+      return createOpenAIProvider(model || OPENAI_DEFAULT_MODEL);
+    case "fake":
+      return createFakeProvider(route);
+  }
+}
@@ -0,0 +1,28 @@
+/**
+ * Parse JSON out of an LLM response
+ *
+ * Handles the usual model quirks: ```json fences, prose around the object and
+ * literal newlines inside string values.
+ */
+export function parseJSONResponse<T>(response: string): T {
+  let cleaned = response.trim();
+
+  if (cleaned.startsWith("```")) {
+    cleaned = cleaned.replace(/^```(?:json)?\n?/, "").replace(/\n?```$/, "");
+  }
+
+  const jsonMatch = cleaned.match(/[[{][\s\S]*[\]}]/);
+  if (!jsonMatch) {
+    throw new Error("No JSON found in response");
+  }
+
+  try {
+    return JSON.parse(jsonMatch[0]) as T;
+  } catch {
+    // Models often put raw newlines inside strings - escape them and retry
+    const escaped = jsonMatch[0].replace(/"(?:[^"\\]|\\.)*"/gs, (str) =>
+      str.replace(/\n/g, "\\n").replace(/\r/g, "")
+    );
+    return JSON.parse(escaped) as T;
+  }
+}
@@ -0,0 +1,59 @@
+import OpenAI from "openai";
+import { createProvider } from "./provider";
+import type { LLMMessage, LLMProvider } from "./types";
+
+export const OPENAI_DEFAULT_MODEL = "gpt-4o-mini";
+
+type OpenAIMessage = OpenAI.Chat.Completions.ChatCompletionMessageParam;
+
+function toOpenAIMessage(message: LLMMessage): OpenAIMessage {
+  if (typeof message.content === "string") {
+    return { role: message.role, content: message.content };
+  }
+
+  // Assistant turns can't carry images - keep the text only
+  if (message.role === "assistant") {
+    return {
+      role: "assistant",
+      content: message.content
+        .map(block => (block.type === "text" ? block.text : ""))
+        .join("\n"),
+    };
+  }
+
+  return {
+    role: "user",
+    content: message.content.map(block =>
+      block.type === "text"
+        ? { type: "text" as const, text: block.text }
+        : { type: "image_url" as const, image_url: { url: block.source.url } }
+    ),
+  };
+}
+
+/**
+ * GPT via the OpenAI SDK
+ */
+export function createOpenAIProvider(model: string = OPENAI_DEFAULT_MODEL): LLMProvider {
+  return createProvider("openai", model, async (systemPrompt, messages, options) => {
+    const apiKey = process.env.OPENAI_API_KEY;
+    if (!apiKey) {
+      throw new Error("OPENAI_API_KEY is not configured. Add it to your environment variables.");
+    }
+
+    const openai = new OpenAI({ apiKey });
+
+    const completion = await openai.chat.completions.create({
+      model,
+      messages: [
+        { role: "system", content: systemPrompt },
+        ...messages.map(toOpenAIMessage),
+      ],
+      temperature: options.temperature ?? 0.7,
+      max_tokens: options.maxTokens || 800,
+      ...(options.json ? { response_format: { type: "json_object" as const } } : {}),
+    }, { signal: options.signal });
+
+    return completion.choices[0]?.message?.content || "";
+  });
+}
@@ -0,0 +1,23 @@
+import { parseJSONResponse } from "./json";
+import { generateStructured } from "./structured";
+import type { CompletionFn, LLMProvider, LLMProviderName } from "./types";
+
+/**
+ * Build a full LLMProvider from a single completion function
+ */
+export function createProvider(name: LLMProviderName, model: string, complete: CompletionFn): LLMProvider {
+  return {
+    name,
+    model,
+    generate: (systemPrompt, messages, options = {}) =>
+      complete(systemPrompt, messages, options),
+    generateWithImages: (systemPrompt, messages, options = {}) =>
+      complete(systemPrompt, messages, options),
+    generateJSON: async <T>(systemPrompt: string, messages: Parameters<CompletionFn>[1], options = {}) => {
+      const response = await complete(systemPrompt, messages, { ...options, json: true });
+      return parseJSONResponse<T>(response);
+    },
+    generateStructured: (systemPrompt, messages, schema, options = {}) =>
+      generateStructured(name, complete, systemPrompt, messages, schema, options),
+  };
+}
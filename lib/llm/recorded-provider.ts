@@ -0,0 +1,62 @@
+/**
+ * Record/replay wrapper - makes live LLM runs reproducible
+ *
+ * "record" calls the real provider and stores every response in a cassette
+ * keyed by a hash of the request; "replay" answers from the cassette only and
+ * throws on a miss (the prompt changed - record again).
+ */
+
+import { createHash } from "node:crypto";
+import { createProvider } from "./provider";
+import type { LLMMessage, LLMProvider, LLMProviderName } from "./types";
+
+export interface LLMCassette {
+  provider: LLMProviderName;
+  model: string;
+  responses: Record<string, string>;
+}
+
+export type RecordMode = "record" | "replay";
+
+function requestKey(systemPrompt: string, messages: LLMMessage[], json: boolean): string {
+  return createHash("sha256")
+    .update(JSON.stringify({ systemPrompt, messages, json }))
+    .digest("hex")
+    .substring(0, 16);
+}
+
+export function createEmptyCassette(provider: LLMProvider): LLMCassette {
+  return { provider: provider.name, model: provider.model, responses: {} };
+}
+
+/**
+ * Wrap a provider so its responses are recorded into (or replayed from) the cassette.
+ * The cassette is mutated in place - persist it after the run.
+ */
+export function createRecordedProvider(
+  cassette: LLMCassette,
+  mode: RecordMode,
+  live?: LLMProvider
+): LLMProvider {
+  if (mode === "record" && !live) {
+    throw new Error("Recording needs a live provider to call");
+  }
+
+  return createProvider(cassette.provider, cassette.model, async (systemPrompt, messages, options) => {
+    const key = requestKey(systemPrompt, messages, !!options.json);
+    const recorded = cassette.responses[key];
+
+    if (mode === "replay") {
+      if (recorded === undefined) {
+        throw new Error(`No recorded response for request ${key} - the prompt changed, record again`);
+      }
+      return recorded;
+    }
+
+    const response = options.json
+      ? JSON.stringify(await live!.generateJSON(systemPrompt, messages, options))
+      : await live!.generateWithImages(systemPrompt, messages, options);
+    cassette.responses[key] = response;
+    return response;
+  });
+}
@@ -0,0 +1,189 @@
+/**
+ * Minimal output schemas for structured generation
+ *
+ * Each schema carries a JSON Schema description (sent to the model) and a
+ * validator that reports every problem with its path, so a malformed response
+ * can be sent back for repair with the exact issues.
+ */
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type JSONSchema = Record<string, any>;
+
+export interface Schema<T> {
+  json: JSONSchema;
+  optional?: boolean;
+  /** Validated value, or undefined after pushing issues */
+  parse(value: unknown, path: string, issues: string[]): T | undefined;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+export type ValidationResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; issues: string[] };
+
+function describe(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+function string(options: { minLength?: number; maxLength?: number } = {}): Schema<string> {
+  return {
+    json: { type: "string", ...options },
+    parse(value, path, issues) {
+      if (typeof value !== "string") {
+        issues.push(`${path}: expected string, got ${describe(value)}`);
+        return undefined;
+      }
+      if (options.minLength !== undefined && value.trim().length < options.minLength) {
+        issues.push(`${path}: must be at least ${options.minLength} characters`);
+        return undefined;
+      }
+      if (options.maxLength !== undefined && value.length > options.maxLength) {
+        issues.push(`${path}: must be at most ${options.maxLength} characters (got ${value.length})`);
+        return undefined;
+      }
+      return value;
+    },
+  };
+}
+
+function number(options: { minimum?: number; maximum?: number; integer?: boolean } = {}): Schema<number> {
+  const { integer, ...range } = options;
+  return {
+    json: { type: integer ? "integer" : "number", ...range },
+    parse(value, path, issues) {
+      if (typeof value !== "number" || Number.isNaN(value)) {
+        issues.push(`${path}: expected number, got ${describe(value)}`);
+        return undefined;
+      }
+      if (integer && !Number.isInteger(value)) {
+        issues.push(`${path}: must be a whole number`);
+        return undefined;
+      }
+      if ((range.minimum !== undefined && value < range.minimum) || (range.maximum !== undefined && value > range.maximum)) {
+        issues.push(`${path}: must be between ${range.minimum ?? "-∞"} and ${range.maximum ?? "∞"} (got ${value})`);
+        return undefined;
+      }
+      return value;
+    },
+  };
+}
+
+function boolean(): Schema<boolean> {
+  return {
+    json: { type: "boolean" },
+    parse(value, path, issues) {
+      if (typeof value !== "boolean") {
+        issues.push(`${path}: expected boolean, got ${describe(value)}`);
+        return undefined;
+      }
+      return value;
+    },
+  };
+}
+
+function oneOf<const T extends string>(values: readonly T[]): Schema<T> {
+  return {
+    json: { type: "string", enum: values },
+    parse(value, path, issues) {
+      if (typeof value !== "string" || !values.includes(value as T)) {
+        issues.push(`${path}: must be one of ${values.map(v => `"${v}"`).join(", ")} (got ${JSON.stringify(value)})`);
+        return undefined;
+      }
+      return value as T;
+    },
+  };
+}
+
+function array<T>(item: Schema<T>, options: { minItems?: number; maxItems?: number } = {}): Schema<T[]> {
+  return {
+    json: { type: "array", items: item.json, ...options },
+    parse(value, path, issues) {
+      if (!Array.isArray(value)) {
+        issues.push(`${path}: expected array, got ${describe(value)}`);
+        return undefined;
+      }
+      if (options.minItems !== undefined && value.length < options.minItems) {
+        issues.push(`${path}: needs at least ${options.minItems} items (got ${value.length})`);
+      }
+      if (options.maxItems !== undefined && value.length > options.maxItems) {
+        issues.push(`${path}: allows at most ${options.maxItems} items (got ${value.length})`);
+      }
+
+      const before = issues.length;
+      const items = value.map((entry, i) => item.parse(entry, `${path}[${i}]`, issues));
+      return issues.length === before ? (items as T[]) : undefined;
+    },
+  };
+}
+
+function object<Shape extends Record<string, Schema<unknown>>>(
+  shape: Shape
+): Schema<{ [K in keyof Shape]: Infer<Shape[K]> }> {
+  const required = Object.keys(shape).filter(key => !shape[key].optional);
+  return {
+    json: {
+      type: "object",
+      properties: Object.fromEntries(Object.entries(shape).map(([key, field]) => [key, field.json])),
+      required,
+    },
+    parse(value, path, issues) {
+      if (typeof value !== "object" || value === null || Array.isArray(value)) {
+        issues.push(`${path}: expected object, got ${describe(value)}`);
+        return undefined;
+      }
+
+      const before = issues.length;
+      const record = value as Record<string, unknown>;
+      const result: Record<string, unknown> = {};
+      for (const [key, field] of Object.entries(shape)) {
+        if (record[key] === undefined && field.optional) continue;
+        if (!(key in record)) {
+          issues.push(`${path}.${key}: missing`);
+          continue;
+        }
+        result[key] = field.parse(record[key], `${path}.${key}`, issues);
+      }
+      return issues.length === before ? (result as { [K in keyof Shape]: Infer<Shape[K]> }) : undefined;
+    },
+  };
+}
+
+function nullable<T>(inner: Schema<T>): Schema<T | null> {
+  return {
+    json: { anyOf: [inner.json, { type: "null" }] },
+    parse(value, path, issues) {
+      return value === null ? null : inner.parse(value, path, issues);
+    },
+  };
+}
+
+function optional<T>(inner: Schema<T>): Schema<T | undefined> {
+  return {
+    ...inner,
+    optional: true,
+    parse(value, path, issues) {
+      return value === undefined ? undefined : inner.parse(value, path, issues);
+    },
+  };
+}
+
+export const schema = { string, number, boolean, oneOf, array, object, nullable, optional };
+
+/**
+ * Check a parsed value against a schema - every issue, not just the first
+ */
+export function validate<T>(target: Schema<T>, value: unknown): ValidationResult<T> {
+  const issues: string[] = [];
+  const parsed = target.parse(value, "$", issues);
+  return issues.length === 0 ? { ok: true, value: parsed as T } : { ok: false, issues };
+}
+
+/**
+ * Prompt text telling the model the exact shape to return
+ */
+export function describeSchema(target: Schema<unknown>): string {
+  return `Respond with a single JSON object matching this JSON Schema:\n${JSON.stringify(target.json, null, 2)}`;
+}
@@ -0,0 +1,69 @@
+/**
+ * Structured generation: ask for JSON matching a schema, validate it, and
+ * send malformed output back once with the exact problems before giving up
+ */
+
+import { parseJSONResponse } from "./json";
+import { describeSchema, validate, type Schema } from "./schema";
+import type { CompletionFn, GenerateOptions, LLMMessage, LLMProviderName } from "./types";
+
+export const MAX_REPAIR_ATTEMPTS = 1;
+
+/**
+ * The model's output still didn't match the schema after repair
+ */
+export class StructuredOutputError extends Error {
+  constructor(
+    readonly provider: LLMProviderName,
+    readonly issues: string[],
+    readonly response: string
+  ) {
+    super(`${provider} returned malformed output: ${issues.slice(0, 3).join("; ")}${issues.length > 3 ? ` (+${issues.length - 3} more)` : ""}`);
+    this.name = "StructuredOutputError";
+  }
+}
+
+function checkResponse<T>(response: string, target: Schema<T>): { ok: true; value: T } | { ok: false; issues: string[] } {
+  let parsed: unknown;
+  try {
+    parsed = parseJSONResponse(response);
+  } catch (error) {
+    return { ok: false, issues: [`not valid JSON (${error instanceof Error ? error.message : "parse failed"})`] };
+  }
+  return validate(target, parsed);
+}
+
+export async function generateStructured<T>(
+  provider: LLMProviderName,
+  complete: CompletionFn,
+  systemPrompt: string,
+  messages: LLMMessage[],
+  target: Schema<T>,
+  options: GenerateOptions = {}
+): Promise<T> {
+  const system = `${systemPrompt}\n\n${describeSchema(target)}`;
+  let conversation = messages;
+  let response = "";
+  let issues: string[] = [];
+
+  for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+    response = await complete(system, conversation, { ...options, json: true, schema: target.json });
+    const result = checkResponse(response, target);
+    if (result.ok) return result.value;
+
+    issues = result.issues;
+    console.warn(`⚠️ ${provider} output failed the schema (attempt ${attempt + 1}): ${issues.join("; ")}`);
+
+    // Repair: show the model its own output and what's wrong with it
+    conversation = [
+      ...messages,
+      { role: "assistant", content: response },
+      {
+        role: "user",
+        content: `That response doesn't match the required JSON schema:\n${issues.map(issue => `- ${issue}`).join("\n")}\n\nReturn the corrected JSON object only.`,
+      },
+    ];
+  }
+
+  throw new StructuredOutputError(provider, issues, response);
+}
@@ -0,0 +1,73 @@
+/**
+ * Shared LLM provider types
+ *
+ * Message shape mirrors Anthropic's (what the reply generator already builds);
+ * other providers convert it to their own format.
+ */
+
+import type { JSONSchema, Schema } from "./schema";
+
+export type LLMProviderName = "anthropic" | "openai" | "fake";
+
+/** Generation routes - each can be pointed at a different provider/model */
+export type LLMRoute =
+  | "replies"
+  | "posts"
+  | "threads"
+  | "community_posts"
+  | "community_voice"
+  | "profile_analysis";
+
+export interface TextBlock {
+  type: "text";
+  text: string;
+}
+
+export interface ImageBlock {
+  type: "image";
+  source: {
+    type: "url";
+    url: string;
+  };
+}
+
+export type LLMContent = string | Array<TextBlock | ImageBlock>;
+
+export interface LLMMessage {
+  role: "user" | "assistant";
+  content: LLMContent;
+}
+
+export interface LLMTextMessage {
+  role: "user" | "assistant";
+  content: string;
+}
+
+export interface GenerateOptions {
+  temperature?: number;
+  maxTokens?: number;
+  signal?: AbortSignal; // aborts the in-flight API request
+}
+
+export interface LLMProvider {
+  name: LLMProviderName;
+  model: string;
+  /** Plain text in, text out */
+  generate(systemPrompt: string, messages: LLMTextMessage[], options?: GenerateOptions): Promise<string>;
+  /** Messages may include image blocks (tweet media) */
+  generateWithImages(systemPrompt: string, messages: LLMMessage[], options?: GenerateOptions): Promise<string>;
+  /** Ask for JSON and parse it - throws if the response isn't valid JSON */
+  generateJSON<T>(systemPrompt: string, messages: LLMMessage[], options?: GenerateOptions): Promise<T>;
+  /** JSON validated against a schema, repaired once if malformed - throws StructuredOutputError */
+  generateStructured<T>(systemPrompt: string, messages: LLMMessage[], schema: Schema<T>, options?: GenerateOptions): Promise<T>;
+}
+
+/**
+ * What each provider implements - generate/generateWithImages/generateJSON are derived from it
+ */
+export type CompletionFn = (
+  systemPrompt: string,
+  messages: LLMMessage[],
+  // schema: the JSON Schema the output must match - providers that can enforce it natively do
+  options: GenerateOptions & { json?: boolean; schema?: JSONSchema }
+) => Promise<string>;
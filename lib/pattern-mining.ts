@@ -0,0 +1,228 @@
+/**
+ * PATTERN MINING
+ *
+ * threadsContext.patterns (whatWorks / whatDoesnt / surprises) used to be an
+ * empty promise. This module fills it from the data we already have: the
+ * daily challenge inputs (followers, training minutes), dailyStats (replies
+ * sent) and posted posts (type + real performance). Post types are judged
+ * twice: on their own engagement, and on follower growth the days they went out.
+ *
+ * Each statement carries the numbers behind it, and is only made when both
+ * sides of the comparison have enough days/posts - with a handful of days per
+ * side a pattern is a guess, so it isn't written at all.
+ *
+ * Pure TypeScript - runs in the nightly Convex action and in tests.
+ */
+
+export const MIN_DAYS_PER_GROUP = 3;  // days on each side of a split
+export const MIN_POSTS_PER_TYPE = 3;  // measured posts before a type is judged
+export const MAX_PATTERNS_PER_KIND = 5;
+
+// A difference smaller than this is noise at our sample sizes
+const MIN_RELATIVE_EFFECT = 0.25;
+const MIN_FOLLOWER_EFFECT = 0.5; // followers/day
+
+export interface PatternInputDay {
+  date: string; // YYYY-MM-DD
+  challengeDay: number;
+  followers: number;
+  trainingMinutes?: number;
+}
+
+export interface PatternInputStats {
+  date: string;
+  repliesSent: number;
+}
+
+export interface PatternInputPost {
+  date: string;
+  postType: string;
+  performance?: { views: number; likes: number; retweets: number; replies: number; bookmarks: number };
+}
+
+export interface PatternDay {
+  date: string;
+  challengeDay: number;
+  followerDelta: number; // followers/day since the previous logged day
+  trainingMinutes?: number;
+  repliesSent?: number;
+  postsPosted: number;
+  postTypes: string[]; // distinct types posted that day
+}
+
+export interface MinedPatterns {
+  whatWorks: string[];
+  whatDoesnt: string[];
+  surprises: string[];
+}
+
+interface DailyFactor {
+  label: string;                      // "replies sent"
+  amount: (threshold: number) => string; // "6 replies sent"
+  value: (day: PatternDay) => number | undefined;
+  expected?: "more_is_better"; // an effect the other way is a surprise
+}
+
+const DAILY_FACTORS: DailyFactor[] = [
+  { label: "replies sent", amount: n => `${n} replies sent`, value: day => day.repliesSent, expected: "more_is_better" },
+  { label: "posts published", amount: n => `${n} posts published`, value: day => day.postsPosted, expected: "more_is_better" },
+  { label: "training", amount: n => `${n} min of training`, value: day => day.trainingMinutes },
+];
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+const signed = (n: number) => `${n >= 0 ? "+" : ""}${round1(n)}`;
+const average = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+const percent = (rate: number) => `${round1(rate * 100)}%`;
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function engagementRate(perf: NonNullable<PatternInputPost["performance"]>): number {
+  return (perf.likes + perf.retweets + perf.replies + perf.bookmarks) / perf.views;
+}
+
+/**
+ * One row per logged challenge day, with the follower change since the
+ * previous logged day (per day, so a skipped day doesn't look like a jump)
+ */
+export function buildPatternDays(
+  inputs: PatternInputDay[],
+  stats: PatternInputStats[],
+  posts: PatternInputPost[]
+): PatternDay[] {
+  const repliesByDate = new Map(stats.map(s => [s.date, s.repliesSent]));
+  const postsByDate = new Map<string, number>();
+  const typesByDate = new Map<string, Set<string>>();
+  for (const post of posts) {
+    postsByDate.set(post.date, (postsByDate.get(post.date) ?? 0) + 1);
+    typesByDate.set(post.date, (typesByDate.get(post.date) ?? new Set<string>()).add(post.postType));
+  }
+
+  const sorted = [...inputs].sort((a, b) => a.challengeDay - b.challengeDay);
+  return sorted.slice(1).map((input, i) => {
+    const previous = sorted[i];
+    return {
+      date: input.date,
+      challengeDay: input.challengeDay,
+      followerDelta: (input.followers - previous.followers) / Math.max(1, input.challengeDay - previous.challengeDay),
+      trainingMinutes: input.trainingMinutes,
+      repliesSent: repliesByDate.get(input.date),
+      postsPosted: postsByDate.get(input.date) ?? 0,
+      postTypes: [...(typesByDate.get(input.date) ?? [])].sort(),
+    };
+  });
+}
+
+// Follower growth on one group of days vs the rest - null when either side is too small or there's no real difference
+function compareDays(days: PatternDay[], inGroup: (day: PatternDay) => boolean, label: string) {
+  const group = days.filter(inGroup);
+  const rest = days.filter(day => !inGroup(day));
+  if (group.length < MIN_DAYS_PER_GROUP || rest.length < MIN_DAYS_PER_GROUP) return null;
+
+  const groupDelta = average(group.map(day => day.followerDelta));
+  const restDelta = average(rest.map(day => day.followerDelta));
+  const difference = groupDelta - restDelta;
+  const scale = Math.max(Math.abs(groupDelta), Math.abs(restDelta), 1);
+  if (Math.abs(difference) < MIN_FOLLOWER_EFFECT || Math.abs(difference) / scale < MIN_RELATIVE_EFFECT) return null;
+
+  return {
+    difference,
+    statement: `${label}: ${signed(groupDelta)} followers/day vs ${signed(restDelta)} on the rest (${group.length} vs ${rest.length} days)`,
+  };
+}
+
+// High vs low days for one factor
+function splitFactor(days: PatternDay[], factor: DailyFactor) {
+  const measured = days.filter(day => factor.value(day) !== undefined);
+  if (measured.length < MIN_DAYS_PER_GROUP * 2) return null;
+
+  const threshold = median(measured.map(day => factor.value(day)!));
+  return compareDays(measured, day => factor.value(day)! > threshold, `Days with more than ${factor.amount(round1(threshold))}`);
+}
+
+/**
+ * Evidence-backed pattern statements from the challenge so far
+ */
+export function minePatterns(days: PatternDay[], posts: PatternInputPost[]): MinedPatterns {
+  const patterns: MinedPatterns = { whatWorks: [], whatDoesnt: [], surprises: [] };
+
+  // Daily habits vs follower growth
+  for (const factor of DAILY_FACTORS) {
+    const split = splitFactor(days, factor);
+    if (!split) continue;
+
+    if (factor.expected === "more_is_better" && split.difference < 0) {
+      patterns.surprises.push(`More ${factor.label} didn't mean more followers - ${split.statement}`);
+    } else if (split.difference > 0) {
+      patterns.whatWorks.push(split.statement);
+    } else {
+      patterns.whatDoesnt.push(split.statement);
+    }
+  }
+
+  // Post types vs follower growth on the days they went out
+  const postTypes = [...new Set(days.flatMap(day => day.postTypes))].sort();
+  for (const type of postTypes) {
+    const split = compareDays(days, day => day.postTypes.includes(type), `Days with a "${type}" post`);
+    if (!split) continue;
+    (split.difference > 0 ? patterns.whatWorks : patterns.whatDoesnt).push(split.statement);
+  }
+
+  // Post types vs real engagement
+  const ratesByType = new Map<string, number[]>();
+  for (const post of posts) {
+    if (!post.performance || post.performance.views === 0) continue;
+    const rates = ratesByType.get(post.postType) ?? [];
+    rates.push(engagementRate(post.performance));
+    ratesByType.set(post.postType, rates);
+  }
+  const allRates = [...ratesByType.values()].flat();
+  if (allRates.length > 0) {
+    const baseline = median(allRates);
+    const judged = [...ratesByType.entries()]
+      .filter(([, rates]) => rates.length >= MIN_POSTS_PER_TYPE)
+      .map(([type, rates]) => ({ type, rate: median(rates), count: rates.length }))
+      .sort((a, b) => b.rate - a.rate);
+
+    for (const { type, rate, count } of judged) {
+      const statement = `"${type}" posts: ${percent(rate)} median engagement vs ${percent(baseline)} across all posts (${count} posts)`;
+      if (rate >= baseline * (1 + MIN_RELATIVE_EFFECT)) patterns.whatWorks.push(statement);
+      else if (rate <= baseline * (1 - MIN_RELATIVE_EFFECT)) patterns.whatDoesnt.push(statement);
+    }
+  }
+
+  // The best day happening on a quiet day is worth knowing
+  if (days.length >= MIN_DAYS_PER_GROUP * 2) {
+    const best = days.reduce((top, day) => (day.followerDelta > top.followerDelta ? day : top));
+    const repliesMedian = median(days.flatMap(day => (day.repliesSent === undefined ? [] : [day.repliesSent])));
+    if (best.followerDelta > 0 && best.repliesSent !== undefined && best.repliesSent < repliesMedian) {
+      patterns.surprises.push(`Biggest follower day (Day ${best.challengeDay}, ${signed(best.followerDelta)}) came with only ${best.repliesSent} replies sent (usual: ${round1(repliesMedian)})`);
+    }
+  }
+
+  return {
+    whatWorks: patterns.whatWorks.slice(0, MAX_PATTERNS_PER_KIND),
+    whatDoesnt: patterns.whatDoesnt.slice(0, MAX_PATTERNS_PER_KIND),
+    surprises: patterns.surprises.slice(0, MAX_PATTERNS_PER_KIND),
+  };
+}
+
+/**
+ * Prompt section for thread/post generation - empty when nothing has been mined yet
+ */
+export function describePatterns(patterns: MinedPatterns | null | undefined): string {
+  if (!patterns) return "";
+
+  const sections = [
+    patterns.whatWorks.length > 0 ? `What's working (from your own numbers):\n${patterns.whatWorks.map(p => `• ${p}`).join("\n")}` : "",
+    patterns.whatDoesnt.length > 0 ? `What isn't:\n${patterns.whatDoesnt.map(p => `• ${p}`).join("\n")}` : "",
+    patterns.surprises.length > 0 ? `Surprises:\n${patterns.surprises.map(p => `• ${p}`).join("\n")}` : "",
+  ].filter(Boolean);
+
+  return sections.length > 0
+    ? `PATTERNS FROM YOUR DATA (real - you can reference these numbers):\n${sections.join("\n\n")}`
+    : "";
+}
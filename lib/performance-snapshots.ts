@@ -0,0 +1,77 @@
+/**
+ * Which performance snapshot (1h / 24h / 7d) is due for a posted item
+ *
+ * A snapshot is only worth its label if it was taken close to that age - a
+ * "24h" snapshot with day-3 numbers would poison the per-window data the
+ * engagement model trains on. Windows we've drifted too far past are skipped.
+ */
+
+import { extractTweetId } from "./twitter-api";
+
+const HOUR = 60 * 60 * 1000;
+
+export type SnapshotWindow = "1h" | "24h" | "7d";
+
+// Oldest last. latestMs is how late a capture can still honestly carry the label
+// (1.5× the window, but at least 2h - ingestion only runs hourly).
+export const SNAPSHOT_WINDOWS: { window: SnapshotWindow; ageMs: number; latestMs: number }[] = [
+  { window: "1h", ageMs: HOUR, latestMs: 2 * HOUR },
+  { window: "24h", ageMs: 24 * HOUR, latestMs: 36 * HOUR },
+  { window: "7d", ageMs: 7 * 24 * HOUR, latestMs: 10.5 * 24 * HOUR },
+];
+
+/**
+ * The URL whose metrics belong to this row - for replies tweetUrl is the tweet
+ * we replied TO, so only our own reply URL counts
+ */
+export function trackedTweetUrl(post: { type?: string; tweetUrl?: string; replyUrl?: string }): string | undefined {
+  return post.type === "reply" ? post.replyUrl : post.tweetUrl;
+}
+
+/**
+ * The window to capture now, or null when nothing is due (too young, already
+ * captured, or too late to label honestly)
+ */
+export function dueSnapshotWindow(
+  postedAt: number,
+  captured: SnapshotWindow[],
+  now: number = Date.now()
+): SnapshotWindow | null {
+  const age = now - postedAt;
+  const open = SNAPSHOT_WINDOWS.filter(w => age >= w.ageMs && age <= w.latestMs);
+  const latest = open.pop();
+  return latest && !captured.includes(latest.window) ? latest.window : null;
+}
+
+/**
+ * Tweet ID and window for an item that needs a snapshot now, or null
+ * closesAt is when the window stops being honest to capture
+ */
+export function dueSnapshot(
+  item: { url?: string; postedAt?: number },
+  captured: SnapshotWindow[],
+  now: number = Date.now()
+): { tweetId: string; window: SnapshotWindow; closesAt: number } | null {
+  if (!item.url || !item.postedAt) return null;
+
+  const tweetId = extractTweetId(item.url);
+  if (!tweetId) return null;
+
+  const window = dueSnapshotWindow(item.postedAt, captured, now);
+  if (!window) return null;
+
+  const { latestMs } = SNAPSHOT_WINDOWS.find(w => w.window === window)!;
+  return { tweetId, window, closesAt: item.postedAt + latestMs };
+}
+
+/**
+ * The items to capture this run - windows closing soonest first, since the
+ * rest can still be captured next run. dropped is how many wait for later.
+ */
+export function snapshotBatch<T extends { closesAt: number }>(
+  due: T[],
+  limit: number
+): { batch: T[]; dropped: number } {
+  const batch = [...due].sort((a, b) => a.closesAt - b.closesAt).slice(0, limit);
+  return { batch, dropped: due.length - batch.length };
+}
@@ -8,6 +8,8 @@
  * - Iteration feedback
  */
 
+import { MAX_TWEET_LENGTH, weightedLength } from "./tweet-length";
+
 export interface PostQualityReport {
   passed: boolean;
   score: number;
@@ -18,6 +20,7 @@ export interface PostQualityReport {
     tooGeneric?: boolean;
     tooSalesy?: boolean;
     notAuthentic?: boolean;
+    tooLong?: boolean;
   };
 }
 
@@ -89,8 +92,13 @@ export function validatePostQuality(
     score -= 20;
   }
 
-  // Check length (too short = low value)
-  if (post.length < 50) {
+  // Check length as X counts it (too short = low value, too long = can't be posted)
+  const length = weightedLength(post);
+  if (length > MAX_TWEET_LENGTH) {
+    issues.push(`Too long - ${length}/${MAX_TWEET_LENGTH} characters as X counts them`);
+    improvements.tooLong = true;
+    score -= 50;
+  } else if (length < 50) {
     issues.push('Too short - needs more substance');
     improvements.needsMoreSpecificity = true;
     score -= 15;
@@ -150,6 +158,11 @@ export function getImprovementInstructions(report: PostQualityReport): string {
     instructions.push('✅ SHARE VALUE: Teach, don\'t sell');
   }
 
+  if (report.improvements.tooLong) {
+    instructions.push(`❌ OVER ${MAX_TWEET_LENGTH} CHARACTERS - X won't post it`);
+    instructions.push('✅ CUT IT DOWN: one point per post (emoji count as 2, links as 23)');
+  }
+
   if (report.improvements.notAuthentic) {
     instructions.push('❌ NOT AUTHENTIC - don\'t claim fake achievements');
     instructions.push('✅ ONLY CLAIM WHAT YOU CAN VERIFY: Real numbers, real experiences');
@@ -0,0 +1,67 @@
+/**
+ * ORIGINAL POST SCORING
+ *
+ * Heuristic 0-100 score for standalone posts (hook, conversation trigger,
+ * specificity, authenticity). Shared by the post generator and anything that
+ * creates posts outside it (e.g. templates from the content library).
+ */
+
+export interface PostScore {
+  algorithmScore: number;
+  scoreBreakdown: {
+    hookStrength: number;
+    conversationTrigger: number;
+    specificity: number;
+    authenticity: number;
+  };
+}
+
+export function scorePost(post: string): PostScore {
+  // Hook strength (first 10 words)
+  const firstWords = post.split(' ').slice(0, 10).join(' ');
+  let hookStrength = 50;
+  if (/\d+/.test(firstWords)) hookStrength += 15;
+  if (/[!?]/.test(firstWords)) hookStrength += 10;
+  if (/(Day|Week) \d+/.test(firstWords)) hookStrength += 15;
+  if (/(Everyone|Most people|They say)/.test(firstWords)) hookStrength += 10;
+  hookStrength = Math.min(100, hookStrength);
+
+  // Conversation trigger
+  let conversationTrigger = 40;
+  if (/\?/.test(post)) conversationTrigger += 25;
+  if (/\b(but|actually|disagree|however|wrong|myth)\b/i.test(post)) conversationTrigger += 20;
+  if (/\b(you|your)\b/i.test(post)) conversationTrigger += 15;
+  conversationTrigger = Math.min(100, conversationTrigger);
+
+  // Specificity (numbers/data)
+  let specificity = 30;
+  const numberMatches = post.match(/\d+/g);
+  if (numberMatches) specificity += Math.min(40, numberMatches.length * 10);
+  if (/\d+[%x]|\$\d+|\d+\s*(users|people|times|days|min|hours|followers)/.test(post)) specificity += 20;
+  if (/\b(I|my|when I|in my)\b/i.test(post)) specificity += 10;
+  specificity = Math.min(100, specificity);
+
+  // Authenticity
+  let authenticity = 50;
+  if (/\b(I|my|me)\b/i.test(post)) authenticity += 15;
+  if (/\b(failed|struggle|hard|difficult|challenge)\b/i.test(post)) authenticity += 20;
+  if (/\b(realized|learned|discovered|found)\b/i.test(post)) authenticity += 15;
+  authenticity = Math.min(100, authenticity);
+
+  const algorithmScore = Math.round(
+    hookStrength * 0.3 +
+    conversationTrigger * 0.25 +
+    specificity * 0.25 +
+    authenticity * 0.20
+  );
+
+  return {
+    algorithmScore,
+    scoreBreakdown: {
+      hookStrength: Math.round(hookStrength),
+      conversationTrigger: Math.round(conversationTrigger),
+      specificity: Math.round(specificity),
+      authenticity: Math.round(authenticity),
+    },
+  };
+}
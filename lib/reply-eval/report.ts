@@ -0,0 +1,101 @@
+import type { EvalCaseResult, EvalRun, EvalSummary } from "./types";
+
+const COLUMN_WIDTH = 58;
+
+const SUMMARY_ROWS: Array<{ key: keyof EvalSummary; label: string; higherIsBetter: boolean }> = [
+  { key: "avgEngagement", label: "Engagement (0-100)", higherIsBetter: true },
+  { key: "avgSpecificity", label: "Specificity (0-100)", higherIsBetter: true },
+  { key: "avgRubric", label: "Rubrics passed %", higherIsBetter: true },
+  { key: "authenticRate", label: "Authentic replies %", higherIsBetter: true },
+  { key: "qualityPassRate", label: "Quality gate pass %", higherIsBetter: true },
+  { key: "avgAttempts", label: "Avg attempts", higherIsBetter: false },
+  { key: "failedCases", label: "Errored cases", higherIsBetter: false },
+];
+
+function pad(text: string, width: number): string {
+  const clean = text.replace(/\s+/g, " ");
+  return clean.length > width ? `${clean.substring(0, width - 1)}…` : clean.padEnd(width);
+}
+
+function formatDelta(delta: number, higherIsBetter: boolean): string {
+  if (Math.abs(delta) < 0.05) return "  =";
+  const rounded = Math.round(delta * 10) / 10;
+  const improved = higherIsBetter ? delta > 0 : delta < 0;
+  return `${improved ? "✅" : "🔻"} ${rounded > 0 ? "+" : ""}${rounded}`;
+}
+
+function runHeader(run: EvalRun): string {
+  return `${run.id}${run.label ? ` "${run.label}"` : ""} - ${run.provider} (${run.model}, ${run.llmMode})`;
+}
+
+export function formatRunSummary(run: EvalRun): string {
+  const lines = [`📊 RUN ${runHeader(run)}`, `   Cases: ${run.summary.cases}`];
+  for (const row of SUMMARY_ROWS) {
+    lines.push(`   ${row.label.padEnd(22)} ${run.summary[row.key]}`);
+  }
+  return lines.join("\n");
+}
+
+function formatCaseDiff(previous: EvalCaseResult | undefined, current: EvalCaseResult): string[] {
+  const lines = [`\n🧵 ${current.caseId}: "${pad(current.tweetText, 90).trim()}"`];
+
+  if (current.error || previous?.error) {
+    lines.push(`   previous: ${previous?.error ? `❌ ${previous.error}` : "ok"}`);
+    lines.push(`   current:  ${current.error ? `❌ ${current.error}` : "ok"}`);
+  }
+
+  lines.push(`   ${pad("PREVIOUS", COLUMN_WIDTH)} │ CURRENT`);
+  const count = Math.max(previous?.replies.length || 0, current.replies.length);
+
+  for (let i = 0; i < count; i++) {
+    const before = previous?.replies[i];
+    const after = current.replies[i];
+    const changed = before?.text !== after?.text;
+
+    lines.push(`   ${pad(before?.text || "-", COLUMN_WIDTH)} │ ${after?.text || "-"}`);
+    lines.push(
+      `   ${pad(before ? `eng ${before.engagementScore} · spec ${before.specificityScore} · rub ${before.rubricScore}` : "", COLUMN_WIDTH)} │ ` +
+      (after ? `eng ${after.engagementScore} · spec ${after.specificityScore} · rub ${after.rubricScore}` : "") +
+      (changed ? "" : "  (unchanged)")
+    );
+    if (after && after.failedRubrics.length > 0) {
+      lines.push(`   ${"".padEnd(COLUMN_WIDTH)} │ ⚠️  failed: ${after.failedRubrics.join(", ")}`);
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Side-by-side comparison of two runs: summary deltas, then every tweet's
+ * replies with per-reply scores
+ */
+export function formatRunDiff(previous: EvalRun, current: EvalRun): string {
+  const lines = [
+    `🔍 DIFF`,
+    `   previous: ${runHeader(previous)}`,
+    `   current:  ${runHeader(current)}`,
+    "",
+    `   ${"Metric".padEnd(22)} ${"previous".padStart(9)} ${"current".padStart(9)}   change`,
+  ];
+
+  for (const row of SUMMARY_ROWS) {
+    const before = previous.summary[row.key];
+    const after = current.summary[row.key];
+    lines.push(
+      `   ${row.label.padEnd(22)} ${String(before).padStart(9)} ${String(after).padStart(9)}   ${formatDelta(after - before, row.higherIsBetter)}`
+    );
+  }
+
+  const previousByCase = new Map(previous.results.map(r => [r.caseId, r]));
+  for (const result of current.results) {
+    lines.push(...formatCaseDiff(previousByCase.get(result.caseId), result));
+  }
+
+  const dropped = previous.results.filter(r => !current.results.some(c => c.caseId === r.caseId));
+  if (dropped.length > 0) {
+    lines.push(`\n🗑️  Not in current corpus: ${dropped.map(r => r.caseId).join(", ")}`);
+  }
+
+  return lines.join("\n");
+}
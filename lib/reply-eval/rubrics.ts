@@ -0,0 +1,59 @@
+import { analyzeTweetContent } from "../ai-reply-system/content-analyzer";
+import type { Rubric } from "./types";
+
+/**
+ * Run every rubric against a reply
+ * Returns the weighted pass percentage and the ids that failed
+ */
+export function scoreRubrics(
+  reply: string,
+  tweetText: string,
+  rubrics: Rubric[]
+): { score: number; failed: string[] } {
+  if (rubrics.length === 0) return { score: 100, failed: [] };
+
+  const failed: string[] = [];
+  let earned = 0;
+  let total = 0;
+
+  for (const rubric of rubrics) {
+    total += rubric.weight;
+    if (passesRubric(reply, tweetText, rubric)) {
+      earned += rubric.weight;
+    } else {
+      failed.push(rubric.id);
+    }
+  }
+
+  return { score: total > 0 ? Math.round((earned / total) * 100) : 100, failed };
+}
+
+function passesRubric(reply: string, tweetText: string, rubric: Rubric): boolean {
+  const { check } = rubric;
+
+  switch (check.type) {
+    case "maxLength":
+      return reply.length <= check.value;
+    case "minLength":
+      return reply.length >= check.value;
+    case "mustMatch":
+      return new RegExp(check.pattern, check.flags).test(reply);
+    case "mustNotMatch":
+      return !new RegExp(check.pattern, check.flags).test(reply);
+    case "referencesTweet":
+      return referencesTweet(reply, tweetText);
+  }
+}
+
+// Same idea as the quality gate's content check: shares a key phrase or a
+// meaningful word from the tweet's main claim
+function referencesTweet(reply: string, tweetText: string): boolean {
+  const content = analyzeTweetContent(tweetText);
+  const lowerReply = reply.toLowerCase();
+
+  return content.keyPhrases.some(phrase => lowerReply.includes(phrase.toLowerCase())) ||
+    content.mainClaim
+      .split(/\s+/)
+      .map(word => word.toLowerCase().replace(/[^a-z0-9]/g, ""))
+      .some(word => word.length > 4 && lowerReply.includes(word));
+}
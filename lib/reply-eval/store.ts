@@ -0,0 +1,39 @@
+import { mkdir, readdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { EvalRun } from "./types";
+
+/** Stored runs - one JSON file per run, named by run id (sortable timestamp) */
+export const DEFAULT_RUNS_DIR = path.join(process.cwd(), "eval-runs");
+
+export async function saveRun(run: EvalRun, dir: string = DEFAULT_RUNS_DIR): Promise<string> {
+  await mkdir(dir, { recursive: true });
+  const file = path.join(dir, `${run.id}.json`);
+  await writeFile(file, JSON.stringify(run, null, 2));
+  return file;
+}
+
+export async function listRunIds(dir: string = DEFAULT_RUNS_DIR): Promise<string[]> {
+  try {
+    const files = await readdir(dir);
+    return files
+      .filter(f => f.endsWith(".json"))
+      .map(f => f.replace(/\.json$/, ""))
+      .sort();
+  } catch {
+    return []; // No runs yet
+  }
+}
+
+export async function loadRun(id: string, dir: string = DEFAULT_RUNS_DIR): Promise<EvalRun> {
+  const contents = await readFile(path.join(dir, `${id}.json`), "utf-8");
+  return JSON.parse(contents) as EvalRun;
+}
+
+/**
+ * Most recent stored run before `beforeId` (or overall when omitted)
+ */
+export async function loadPreviousRun(beforeId?: string, dir: string = DEFAULT_RUNS_DIR): Promise<EvalRun | null> {
+  const ids = (await listRunIds(dir)).filter(id => !beforeId || id < beforeId);
+  const previous = ids[ids.length - 1];
+  return previous ? loadRun(previous, dir) : null;
+}
@@ -0,0 +1,77 @@
+/**
+ * Reply evaluation benchmark types
+ */
+
+import type { CreatorIntelligence } from "../ai-reply-system/types";
+
+/** One tweet in the saved corpus */
+export interface EvalCase {
+  id: string;
+  tweetText: string;
+  tweetAuthor: string;
+  minutesSincePosted: number;
+  creator: {
+    primaryNiche: CreatorIntelligence["primaryNiche"];
+    followers: number;
+    emphasizeTopics: string[];
+    avoidTopics?: string[];
+    preferredTone?: string;
+  };
+}
+
+export type RubricCheck =
+  | { type: "maxLength"; value: number }
+  | { type: "minLength"; value: number }
+  | { type: "mustMatch"; pattern: string; flags?: string }
+  | { type: "mustNotMatch"; pattern: string; flags?: string }
+  | { type: "referencesTweet" };
+
+/** A configurable pass/fail check applied to every reply */
+export interface Rubric {
+  id: string;
+  description: string;
+  weight: number;
+  check: RubricCheck;
+}
+
+export interface EvalReplyResult {
+  text: string;
+  strategy: string;
+  engagementScore: number;        // composite 0-100 from predictEngagement
+  specificityScore: number;       // validateAuthenticSpecificity 0-100
+  authentic: boolean;
+  rubricScore: number;            // weighted % of rubrics passed
+  failedRubrics: string[];
+}
+
+export interface EvalCaseResult {
+  caseId: string;
+  tweetText: string;
+  replies: EvalReplyResult[];
+  qualityPassed: boolean;
+  attempts: number;
+  error?: string;
+}
+
+export interface EvalSummary {
+  cases: number;
+  failedCases: number;
+  avgEngagement: number;
+  avgSpecificity: number;
+  avgRubric: number;
+  authenticRate: number;          // % of replies with no fake metrics/stories
+  qualityPassRate: number;        // % of cases that passed the quality gate
+  avgAttempts: number;
+}
+
+export interface EvalRun {
+  id: string;
+  createdAt: number;
+  label?: string;
+  provider: string;
+  model: string;
+  llmMode: string;
+  rubrics: string[];
+  summary: EvalSummary;
+  results: EvalCaseResult[];
+}
@@ -0,0 +1,103 @@
+/**
+ * Progress events for reply generation
+ *
+ * /api/generate-reply streams these as server-sent events while it works, so
+ * the UI shows what the pipeline is actually doing (and which attempt failed
+ * which check) instead of guessing from a timer.
+ */
+
+export type ReplyProgressEvent =
+  | { type: "fetching_tweet"; tweetId: string }
+  | { type: "tweet"; author: string }
+  | { type: "profile"; source: "cached" | "analyzed"; niche: string; mode: string }
+  | { type: "conversation"; parents: number; quotedTweet: boolean; existingReplies: number }
+  | { type: "strategy"; primary: string; secondary: string; fallback: string; crowded: string[] }
+  | { type: "attempt"; attempt: number; maxAttempts: number }
+  | { type: "specificity"; attempt: number; passed: boolean; authentic: boolean; score: number; issues: string[] }
+  | { type: "duplicates"; attempt: number; count: number }
+  | { type: "quality"; attempt: number; passed: boolean; bestScore: number; issues: string[] };
+
+export interface SSEMessage {
+  event: string;
+  data: unknown;
+}
+
+/**
+ * One line for the progress list
+ */
+export function describeProgress(event: ReplyProgressEvent): string {
+  switch (event.type) {
+    case "fetching_tweet":
+      return `Fetching tweet ${event.tweetId}`;
+    case "tweet":
+      return `Fetched tweet from @${event.author}`;
+    case "profile":
+      return event.source === "cached"
+        ? `Using cached profile: ${event.niche} niche, ${event.mode} mode`
+        : `Analyzed creator: ${event.niche} niche, ${event.mode} mode`;
+    case "conversation":
+      return `Conversation: ${event.parents} tweet(s) above, ${event.quotedTweet ? "quotes a tweet, " : ""}${event.existingReplies} existing replies`;
+    case "strategy":
+      return `Strategies: ${event.primary}, ${event.secondary}, ${event.fallback}${event.crowded.length > 0 ? ` (crowded: ${event.crowded.join(", ")})` : ""}`;
+    case "attempt":
+      return `Generating replies (attempt ${event.attempt}/${event.maxAttempts})`;
+    case "specificity":
+      if (event.passed) return `Attempt ${event.attempt}: specificity passed (${event.score}/100)`;
+      return `Attempt ${event.attempt}: ${event.authentic ? "too generic" : "invented experience"} (${event.score}/100)${event.issues.length > 0 ? ` - ${event.issues.join("; ")}` : ""}`;
+    case "duplicates":
+      return `Attempt ${event.attempt}: ${event.count} reply(s) repeat recent posts`;
+    case "quality":
+      return `Attempt ${event.attempt}: quality ${event.passed ? "passed" : "below bar"} (best ${event.bestScore}/100)${!event.passed && event.issues.length > 0 ? ` - ${event.issues.join("; ")}` : ""}`;
+  }
+}
+
+/**
+ * Whether an event reports a failed check (the UI flags those)
+ */
+export function isProgressWarning(event: ReplyProgressEvent): boolean {
+  if (event.type === "specificity" || event.type === "quality") return !event.passed;
+  return event.type === "duplicates";
+}
+
+/**
+ * Frame one server-sent event
+ */
+export function encodeSSE(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Parse a server-sent event stream (fetch response body) into messages.
+ * Only handles what encodeSSE writes: one event name + one JSON data line.
+ */
+export async function* readSSE(body: ReadableStream<Uint8Array>): AsyncGenerator<SSEMessage> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+      let boundary = buffer.indexOf("\n\n");
+      while (boundary !== -1) {
+        const block = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary + 2);
+        boundary = buffer.indexOf("\n\n");
+
+        let event = "message";
+        let data = "";
+        for (const line of block.split("\n")) {
+          if (line.startsWith("event:")) event = line.slice(6).trim();
+          else if (line.startsWith("data:")) data += line.slice(5).trim();
+        }
+        if (data) yield { event, data: JSON.parse(data) };
+      }
+
+      if (done) return;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
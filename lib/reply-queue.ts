@@ -0,0 +1,93 @@
+/**
+ * Reply queue prioritisation
+ *
+ * The first minutes after a tweet goes up are worth the most (see the recency
+ * boost in predictEngagement), so queue candidates are ranked by how valuable
+ * the creator is, how well their niche matches ours and how fresh the tweet
+ * still is - and drop out once the reply window closes.
+ */
+
+export const REPLY_WINDOW_MINUTES = 60;     // candidates expire this long after the tweet
+export const PEAK_WINDOW_MINUTES = 5;       // full freshness credit (recency boost window)
+
+const PRIORITY_WEIGHTS = {
+  creatorValue: 0.3,
+  nicheMatch: 0.3,
+  freshness: 0.4,
+};
+
+export interface QueueCreator {
+  followerCount: number;
+  primaryNiche: string;
+  secondaryNiches: string[];
+  mmaRelevance: number;  // 0-5
+  saasRelevance: number; // 0-5
+}
+
+export interface QueuePriority {
+  priority: number; // 0-100
+  breakdown: {
+    creatorValue: number; // 0-1
+    nicheMatch: number;   // 0-1
+    freshness: number;    // 0-1
+  };
+}
+
+/**
+ * 0 for ~1K followers, 1 for 1M+ (log scale - big accounts have diminishing returns)
+ */
+export function scoreCreatorValue(followerCount: number): number {
+  if (followerCount <= 0) return 0;
+  return Math.min(1, Math.max(0, (Math.log10(followerCount) - 3) / 3));
+}
+
+/**
+ * How well the creator's niche matches ours (our interests from personalContext)
+ */
+export function scoreNicheMatch(creator: QueueCreator, ourNiches: string[]): number {
+  const niches = ourNiches.map(n => n.toLowerCase());
+  if (niches.includes(creator.primaryNiche.toLowerCase())) return 1;
+  if (creator.secondaryNiches.some(n => niches.includes(n.toLowerCase()))) return 0.6;
+
+  // No direct overlap - fall back to the crossover scores from profile analysis
+  return Math.max(creator.mmaRelevance, creator.saasRelevance) / 5 * 0.5;
+}
+
+/**
+ * 1 inside the peak window, then linear decay to 0 when the reply window closes
+ */
+export function scoreFreshness(minutesSincePost: number): number {
+  if (minutesSincePost <= PEAK_WINDOW_MINUTES) return 1;
+  const remaining = (REPLY_WINDOW_MINUTES - minutesSincePost) / (REPLY_WINDOW_MINUTES - PEAK_WINDOW_MINUTES);
+  return Math.min(1, Math.max(0, remaining));
+}
+
+/**
+ * Combined priority - freshness changes every minute, so compute at read time
+ */
+export function calculateQueuePriority(
+  scores: { creatorValue: number; nicheMatch: number },
+  minutesSincePost: number
+): QueuePriority {
+  const freshness = scoreFreshness(minutesSincePost);
+  const priority =
+    scores.creatorValue * PRIORITY_WEIGHTS.creatorValue +
+    scores.nicheMatch * PRIORITY_WEIGHTS.nicheMatch +
+    freshness * PRIORITY_WEIGHTS.freshness;
+
+  return {
+    priority: Math.round(priority * 100),
+    breakdown: {
+      creatorValue: scores.creatorValue,
+      nicheMatch: scores.nicheMatch,
+      freshness,
+    },
+  };
+}
+
+/**
+ * When a tweet's reply window closes
+ */
+export function queueExpiry(tweetCreatedAt: number): number {
+  return tweetCreatedAt + REPLY_WINDOW_MINUTES * 60 * 1000;
+}
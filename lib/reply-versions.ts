@@ -0,0 +1,27 @@
+/**
+ * Refinement history of a reply draft
+ *
+ * Version 1 is the generated reply (saved with the draft), each refinement
+ * appends the next one and becomes the draft's current content.
+ */
+
+export interface ReplyVersion {
+  content: string;
+  instruction?: string; // absent for the generated original
+  algorithmScore: number;
+  qualityPassed?: boolean;
+  specificityScore?: number;
+  createdAt: number;
+}
+
+/**
+ * The history with one more version, and that version's number (1-based)
+ */
+export function appendReplyVersion(
+  versions: ReplyVersion[] | undefined,
+  next: Omit<ReplyVersion, "createdAt">,
+  now: number = Date.now()
+): { versions: ReplyVersion[]; version: number } {
+  const updated = [...(versions ?? []), { ...next, createdAt: now }];
+  return { versions: updated, version: updated.length };
+}
@@ -0,0 +1,112 @@
+/**
+ * Thread composer - edits a thread tweet by tweet
+ *
+ * A thread is stored as `tweets` plus `mediaSuggestions`, index-aligned
+ * ("" = no media for that tweet). The composer works on the pairs so
+ * reordering, splitting and merging keep each tweet's media with its text.
+ */
+
+import { fittingPrefixLength, isWithinTweetLimit, MAX_TWEET_LENGTH } from "./tweet-length";
+
+export interface ComposerTweet {
+  text: string;
+  media: string; // "" = none
+}
+
+export function toComposerTweets(tweets: string[], mediaSuggestions: string[] = []): ComposerTweet[] {
+  return tweets.map((text, i) => ({ text, media: mediaSuggestions[i] ?? "" }));
+}
+
+export function fromComposerTweets(tweets: ComposerTweet[]): { tweets: string[]; mediaSuggestions: string[] } {
+  return {
+    tweets: tweets.map(tweet => tweet.text.trim()),
+    mediaSuggestions: tweets.map(tweet => tweet.media.trim()),
+  };
+}
+
+/**
+ * Indexes of tweets over X's weighted limit (or empty)
+ */
+export function invalidTweetIndexes(tweets: ComposerTweet[]): number[] {
+  return tweets.flatMap((tweet, i) => (tweet.text.trim() && isWithinTweetLimit(tweet.text) ? [] : [i]));
+}
+
+export function moveTweet(tweets: ComposerTweet[], from: number, to: number): ComposerTweet[] {
+  if (from === to || from < 0 || to < 0 || from >= tweets.length || to >= tweets.length) return tweets;
+  const next = [...tweets];
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved);
+  return next;
+}
+
+/**
+ * Join a tweet with the one after it. Keeps the first tweet's media, or the
+ * second's if the first had none.
+ */
+export function mergeWithNext(tweets: ComposerTweet[], index: number): ComposerTweet[] {
+  if (index < 0 || index >= tweets.length - 1) return tweets;
+  const [first, second] = [tweets[index], tweets[index + 1]];
+  const merged = {
+    text: `${first.text.trim()} ${second.text.trim()}`.trim(),
+    media: first.media || second.media,
+  };
+  return [...tweets.slice(0, index), merged, ...tweets.slice(index + 2)];
+}
+
+// Last sentence end, then last line break, then last space in text[0..limit]
+function breakPoint(text: string, limit: number): number {
+  const head = text.slice(0, limit);
+  const sentence = Math.max(...[". ", "! ", "? ", "\n"].map(mark => head.lastIndexOf(mark)));
+  if (sentence > 0) return sentence + 1;
+  const space = head.lastIndexOf(" ");
+  return space > 0 ? space : limit;
+}
+
+/**
+ * Break text into tweets that each fit - at sentence ends where possible,
+ * word boundaries otherwise, and only mid-word for a single giant word
+ */
+export function splitIntoTweets(text: string, limit = MAX_TWEET_LENGTH): string[] {
+  const tweets: string[] = [];
+  let rest = text.trim();
+
+  while (rest && !isWithinTweetLimit(rest, limit)) {
+    const cut = Math.max(1, breakPoint(rest, fittingPrefixLength(rest, limit)));
+    tweets.push(rest.slice(0, cut).trim());
+    rest = rest.slice(cut).trim();
+  }
+  if (rest) tweets.push(rest);
+  return tweets;
+}
+
+/**
+ * Split one tweet in two. With a cursor position it splits there; otherwise
+ * an over-length tweet is cut where it stops fitting, and a tweet that fits
+ * is cut at the last sentence (or word) boundary before its middle. The media
+ * stays with the first half.
+ */
+export function splitTweet(tweets: ComposerTweet[], index: number, at?: number): ComposerTweet[] {
+  const tweet = tweets[index];
+  if (!tweet) return tweets;
+
+  const text = tweet.text;
+  let cut: number;
+  if (at !== undefined && at > 0 && at < text.length) {
+    cut = at;
+  } else if (!isWithinTweetLimit(text)) {
+    cut = breakPoint(text, fittingPrefixLength(text));
+  } else {
+    cut = breakPoint(text, Math.ceil(text.length / 2) + 1);
+  }
+
+  const first = text.slice(0, cut).trim();
+  const second = text.slice(cut).trim();
+  if (!first || !second) return tweets;
+
+  return [
+    ...tweets.slice(0, index),
+    { text: first, media: tweet.media },
+    { text: second, media: "" },
+    ...tweets.slice(index + 1),
+  ];
+}
@@ -0,0 +1,111 @@
+/**
+ * Tweet length the way X counts it
+ *
+ * X doesn't count string length: URLs are always 23, an emoji (however many
+ * code points) is 2, CJK and most non-Latin characters are 2, Latin text and
+ * common punctuation are 1. The limit is 280 of these weighted characters.
+ * Follows twitter-text's v3 config; use this everywhere a length is checked
+ * or shown, never `.length`.
+ */
+
+export const MAX_TWEET_LENGTH = 280;
+export const URL_LENGTH = 23;
+export const EMOJI_LENGTH = 2;
+
+// Code point ranges X weights as 1 - everything else is 2
+const SINGLE_WEIGHT_RANGES: [number, number][] = [
+  [0x0000, 0x10ff], // Latin, Greek, Cyrillic, Hebrew, Arabic, ...
+  [0x2000, 0x200d], // spaces and zero-width joiners
+  [0x2010, 0x201f], // dashes and quotes
+  [0x2032, 0x2037], // primes
+];
+
+// Scheme URLs, plus bare domains on the TLDs people actually paste (X links those too).
+// Trailing punctuation isn't part of the link: "see subwise.io." counts the "." separately
+const URL_PATTERN = /\b(?:https?:\/\/[^\s]+|(?:www\.)?(?:[a-z0-9-]+\.)+(?:com|io|co|ai|dev|app|org|net|me|so|xyz|gg|ly|tv|fm|sh)\b(?:\/[^\s]*)?)(?<![.,:;!?)'"])/giu;
+const EMOJI_PATTERN = /\p{Regional_Indicator}{2}|[#*0-9]\uFE0F?\u20E3|\p{Extended_Pictographic}(?:\uFE0F|\p{Emoji_Modifier})?(?:\u200D\p{Extended_Pictographic}(?:\uFE0F|\p{Emoji_Modifier})?)*/gu;
+
+interface Segment {
+  end: number;    // string index just past the segment
+  weight: number;
+}
+
+function codePointWeight(codePoint: number): number {
+  return SINGLE_WEIGHT_RANGES.some(([start, end]) => codePoint >= start && codePoint <= end) ? 1 : 2;
+}
+
+// Where each URL / emoji starts, and how far it runs
+function findTokens(text: string): Map<number, Segment> {
+  const tokens = new Map<number, Segment>();
+  for (const match of text.matchAll(URL_PATTERN)) {
+    tokens.set(match.index, { end: match.index + match[0].length, weight: URL_LENGTH });
+  }
+  for (const match of text.matchAll(EMOJI_PATTERN)) {
+    if (!tokens.has(match.index)) {
+      tokens.set(match.index, { end: match.index + match[0].length, weight: EMOJI_LENGTH });
+    }
+  }
+  return tokens;
+}
+
+// Walk the text as X counts it: whole URLs, whole emoji, single code points
+function* segments(text: string): Generator<Segment> {
+  const tokens = findTokens(text);
+  let index = 0;
+  while (index < text.length) {
+    const token = tokens.get(index);
+    if (token) {
+      // A URL swallows any emoji inside it
+      yield token;
+      index = token.end;
+      continue;
+    }
+    const codePoint = text.codePointAt(index)!;
+    index += codePoint > 0xffff ? 2 : 1;
+    yield { end: index, weight: codePointWeight(codePoint) };
+  }
+}
+
+/**
+ * Weighted length of a tweet - compare against MAX_TWEET_LENGTH
+ */
+export function weightedLength(text: string): number {
+  let length = 0;
+  for (const segment of segments(text.normalize("NFC"))) length += segment.weight;
+  return length;
+}
+
+/**
+ * Characters left before the limit (negative when over)
+ */
+export function remainingCharacters(text: string, limit = MAX_TWEET_LENGTH): number {
+  return limit - weightedLength(text);
+}
+
+export function isWithinTweetLimit(text: string, limit = MAX_TWEET_LENGTH): boolean {
+  return weightedLength(text) <= limit;
+}
+
+/**
+ * Why the text can't go out as one tweet ("Tweet 2 is 291/280 characters"), or null if it can
+ */
+export function tweetLengthIssue(text: string, label = "Tweet", limit = MAX_TWEET_LENGTH): string | null {
+  if (!text.trim()) return `${label} is empty`;
+  const length = weightedLength(text);
+  return length > limit ? `${label} is ${length}/${limit} characters` : null;
+}
+
+/**
+ * Longest prefix (as a string index) that fits the limit - never cuts a URL or emoji in half.
+ * Indexes into the text as given, so it isn't NFC-normalized first.
+ */
+export function fittingPrefixLength(text: string, limit = MAX_TWEET_LENGTH): number {
+  let length = 0;
+  let fits = 0;
+  for (const segment of segments(text)) {
+    length += segment.weight;
+    if (length > limit) break;
+    fits = segment.end;
+  }
+  return fits;
+}
@@ -1,5 +1,10 @@
 // lib/twitter-api.ts
 // TwitterAPI.io wrapper - uses x-api-key header for authentication
+//
+// Every request goes through a token-bucket limiter and retries 429s/5xx with
+// exponential backoff. createTwitterApi(store) adds response caching and a
+// per-day call counter on top (convex/twitter.ts keeps both in Convex, so
+// all routes, actions and crons share them).
 
 const TWITTER_API_BASE_URL = process.env.TWITTER_API_BASE_URL || "https://api.twitterapi.io";
 const TWITTER_API_KEY = process.env.TWITTER_API_KEY;
@@ -15,6 +20,121 @@ function getHeaders(): HeadersInit {
   };
 }
 
+// Token bucket shared by every caller of a store (burst of `capacity`, then `refillPerSecond`)
+export const TWITTER_RATE_LIMIT = {
+  capacity: 10,
+  refillPerSecond: 2,
+};
+
+export const MAX_RETRIES = 3;
+const BASE_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 30 * 1000;
+
+// Profiles barely change; timelines must stay fresh for the reply queue and watchlist
+export const CACHE_TTL_MS = {
+  user: 6 * 60 * 60 * 1000,
+  userTweets: 2 * 60 * 1000,
+  tweet: 10 * 60 * 1000,
+  page: 2 * 60 * 1000,
+};
+
+const DEFAULT_MAX_PAGES = 5;
+
+export interface TokenBucketState {
+  tokens: number;
+  updatedAt: number; // ms
+}
+
+/**
+ * Where rate limiting, caching and call counting live. Values are JSON
+ * strings - raw twitterapi.io objects aren't guaranteed to be valid Convex values.
+ */
+export interface TwitterApiStore {
+  /** Reserve a token and count the call; resolves to how long to wait first (ms) */
+  acquire(endpoint: string): Promise<number>;
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, ttlMs: number): Promise<void>;
+}
+
+/**
+ * Refill the bucket for the time elapsed and reserve one token. Tokens may go
+ * negative - the deficit is how long this caller waits for its turn.
+ */
+export function takeToken(
+  state: TokenBucketState | null,
+  now: number,
+  limit: typeof TWITTER_RATE_LIMIT = TWITTER_RATE_LIMIT
+): { state: TokenBucketState; waitMs: number } {
+  const previous = state ?? { tokens: limit.capacity, updatedAt: now };
+  const elapsedSeconds = Math.max(0, now - previous.updatedAt) / 1000;
+  const tokens = Math.min(limit.capacity, previous.tokens + elapsedSeconds * limit.refillPerSecond) - 1;
+
+  return {
+    state: { tokens, updatedAt: now },
+    waitMs: tokens < 0 ? Math.ceil((-tokens / limit.refillPerSecond) * 1000) : 0,
+  };
+}
+
+/**
+ * Delay before retry `attempt` (0-based): the server's Retry-After if it sent
+ * one, otherwise exponential backoff
+ */
+export function backoffDelayMs(attempt: number, retryAfter: string | null = null): number {
+  const seconds = retryAfter === null ? NaN : Number(retryAfter);
+  if (Number.isFinite(seconds) && seconds >= 0) {
+    return Math.min(seconds * 1000, MAX_BACKOFF_MS);
+  }
+  return Math.min(BASE_BACKOFF_MS * 2 ** attempt, MAX_BACKOFF_MS);
+}
+
+function isRetryable(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Process-local bucket for clients without a store (scripts, mock runs)
+let localBucket: TokenBucketState | null = null;
+
+type TwitterRequest = (url: string, endpoint: string) => Promise<Response>;
+
+/**
+ * GET with rate limiting and retries. Returns the last response once retries
+ * run out; throws only if the final attempt fails at the network level.
+ */
+async function requestWithRetry(url: string, endpoint: string, store?: TwitterApiStore): Promise<Response> {
+  for (let attempt = 0; ; attempt++) {
+    let waitMs: number;
+    if (store) {
+      waitMs = await store.acquire(endpoint);
+    } else {
+      const taken = takeToken(localBucket, Date.now());
+      localBucket = taken.state;
+      waitMs = taken.waitMs;
+    }
+    if (waitMs > 0) await sleep(waitMs);
+
+    try {
+      const response = await fetch(url, {
+        headers: getHeaders(),
+      });
+      if (!isRetryable(response.status) || attempt >= MAX_RETRIES) return response;
+
+      const delay = backoffDelayMs(attempt, response.headers.get("retry-after"));
+      console.warn(`⏳ ${response.status} from ${endpoint}, retrying in ${delay}ms (${attempt + 1}/${MAX_RETRIES})`);
+      await sleep(delay);
+    } catch (error) {
+      if (attempt >= MAX_RETRIES) throw error;
+
+      const delay = backoffDelayMs(attempt);
+      console.warn(`⏳ Network error from ${endpoint}, retrying in ${delay}ms (${attempt + 1}/${MAX_RETRIES})`);
+      await sleep(delay);
+    }
+  }
+}
+
 export interface TwitterUser {
   id: string;
   username: string;
@@ -51,15 +171,84 @@ export interface Tweet {
   };
 }
 
+export interface QuotedTweet {
+  id: string;
+  text: string;
+  authorUsername: string;
+}
+
 export interface DetailedTweet extends Tweet {
   author: TwitterUser;
   hasMedia: boolean;
   media?: TweetMedia[];
   isThread: boolean;
+  inReplyToId?: string; // parent tweet when this is a reply
+  quotedTweet?: QuotedTweet;
+}
+
+export interface TweetMetrics {
+  tweetId: string;
+  views: number;
+  likes: number;
+  retweets: number;
+  replies: number;
+  quotes: number;
+  bookmarks: number;
+}
+
+// A cursor-paginated tweet feed (replies: existing replies to a tweet)
+export type TweetSource =
+  | { kind: "community"; communityId: string }
+  | { kind: "search"; query: string }
+  | { kind: "user"; userId: string }
+  | { kind: "replies"; tweetId: string };
+
+export interface TweetPage {
+  tweets: Tweet[];
+  nextCursor: string | null; // null at the end of the feed
 }
 
-export const twitterApi = {
-  async getUser(username: string): Promise<TwitterUser | null> {
+export interface PageOptions {
+  cursor?: string;   // resume where a previous run stopped (e.g. communityProfiles.lastCursor)
+  maxPages?: number; // default DEFAULT_MAX_PAGES
+  maxItems?: number; // stop after the page that reaches this many tweets (pages aren't split, so cursors stay valid)
+}
+
+type FetchTweetPage = (source: TweetSource, cursor: string | null) => Promise<TweetPage>;
+
+/**
+ * Pull the numeric tweet ID out of an x.com / twitter.com status URL
+ */
+export function extractTweetId(tweetUrl: string): string | null {
+  const match = tweetUrl.match(/(?:twitter\.com|x\.com)\/\w+\/status\/(\d+)/);
+  return match ? match[1] : null;
+}
+
+function pageRequest(source: TweetSource): { path: string; endpoint: string; params: Record<string, string> } {
+  switch (source.kind) {
+    case "community":
+      return { path: "/twitter/community/tweets", endpoint: "community/tweets", params: { community_id: source.communityId } };
+    case "search":
+      return { path: "/twitter/tweet/advanced_search", endpoint: "tweet/advanced_search", params: { query: source.query, queryType: "Latest" } };
+    case "user":
+      return { path: "/twitter/user/last_tweets", endpoint: "user/last_tweets", params: { userId: source.userId } };
+    case "replies":
+      return { path: "/twitter/tweet/replies", endpoint: "tweet/replies", params: { tweetId: source.tweetId } };
+  }
+}
+
+function sourceId(source: TweetSource): string {
+  switch (source.kind) {
+    case "community": return source.communityId;
+    case "search": return source.query;
+    case "user": return source.userId;
+    case "replies": return source.tweetId;
+  }
+}
+
+// Raw endpoint calls - createTwitterApi wraps them with caching
+const endpoints = {
+  async getUser(username: string, request: TwitterRequest): Promise<TwitterUser | null> {
     if (!TWITTER_API_KEY) {
       console.warn("TWITTER_API_KEY is not set. Cannot fetch user data.");
       return null;
@@ -70,9 +259,7 @@ export const twitterApi = {
       console.log(`\n🔍 FETCHING USER: @${username}`);
       console.log(`📡 Request URL: ${url}`);
       
-      const response = await fetch(url, {
-        headers: getHeaders(),
-      });
+      const response = await request(url, "user/info");
       
       console.log(`📊 Response Status: ${response.status} ${response.statusText}`);
       
@@ -140,7 +327,8 @@ export const twitterApi = {
     }
   },
 
-  async getUserTweets(userId: string, count: number = 10): Promise<Tweet[]> {
+  // The whole page (up to 20) - callers slice, so one cached page serves any count
+  async getUserTweets(userId: string, request: TwitterRequest): Promise<Tweet[]> {
     if (!TWITTER_API_KEY) {
       console.warn("TWITTER_API_KEY is not set. Cannot fetch user tweets.");
       return [];
@@ -152,9 +340,7 @@ export const twitterApi = {
       console.log(`\n🔍 FETCHING TWEETS: Last tweets for user ${userId}`);
       console.log(`📡 Request URL: ${url}`);
       
-      const response = await fetch(url, {
-        headers: getHeaders(),
-      });
+      const response = await request(url, "user/last_tweets");
       
       console.log(`📊 Response Status: ${response.status} ${response.statusText}`);
       
@@ -203,15 +389,13 @@ export const twitterApi = {
       // Strategy 1: Check for direct tweets array (CORRECT FORMAT per docs)
       if (data.tweets && Array.isArray(data.tweets)) {
         console.log(`✅ SUCCESS: Found ${data.tweets.length} tweets in data.tweets`);
-        // Return only the requested count (API might return up to 20)
-        return data.tweets.slice(0, count);
+        return data.tweets;
       }
       
       // Strategy 2: Check for nested data.data.tweets (ACTUAL FORMAT returned by API)
       if (data.data?.tweets && Array.isArray(data.data.tweets)) {
         console.log(`✅ SUCCESS: Found ${data.data.tweets.length} tweets in data.data.tweets`);
-        // Return only the requested count (API might return up to 20)
-        return data.data.tweets.slice(0, count);
+        return data.data.tweets;
       }
       
       // Strategy 3: Check if data itself is an array
@@ -266,7 +450,7 @@ export const twitterApi = {
     }
   },
 
-  async getTweet(tweetId: string): Promise<DetailedTweet | null> {
+  async getTweet(tweetId: string, request: TwitterRequest): Promise<DetailedTweet | null> {
     if (!TWITTER_API_KEY) {
       console.warn("TWITTER_API_KEY is not set. Cannot fetch tweet.");
       return null;
@@ -277,9 +461,7 @@ export const twitterApi = {
       console.log(`\n🔍 FETCHING TWEET: ID ${tweetId}`);
       console.log(`📡 Request URL: ${url}`);
       
-      const response = await fetch(url, {
-        headers: getHeaders(),
-      });
+      const response = await request(url, "tweets");
       
       console.log(`📊 Response Status: ${response.status} ${response.statusText}`);
       
@@ -341,8 +523,8 @@ export const twitterApi = {
         username: authorData.userName || authorData.username || authorData.screenName || "unknown",
         name: authorData.name || authorData.displayName || "Unknown User",
         description: authorData.description || authorData.bio || "",
-        followers_count: authorData.followersCount || authorData.followers_count || 0,
-        following_count: authorData.followingCount || authorData.following_count || 0,
+        followers_count: authorData.followersCount || authorData.followers_count || authorData.followers || 0,
+        following_count: authorData.followingCount || authorData.following_count || authorData.following || 0,
         verified: authorData.verified || authorData.isVerified || authorData.isBlueVerified || false,
       };
 
@@ -382,9 +564,10 @@ export const twitterApi = {
         }
       }
 
-      // Check for extended_entities (Twitter standard format)
-      if (tweet.extended_entities?.media) {
-        for (const m of tweet.extended_entities.media) {
+      // Check for extended_entities (Twitter standard format, camelCase on TwitterAPI.io)
+      const extendedMedia = tweet.extended_entities?.media || tweet.extendedEntities?.media;
+      if (extendedMedia) {
+        for (const m of extendedMedia) {
           media.push({
             type: m.type === 'video' ? 'video' : m.type === 'animated_gif' ? 'animated_gif' : 'photo',
             url: m.media_url_https || m.url || '',
@@ -394,6 +577,7 @@ export const twitterApi = {
       }
 
       const hasMedia = media.length > 0;
+      const quoted = tweet.quoted_tweet || tweet.quotedTweet;
 
       if (hasMedia) {
         console.log(`📷 Found ${media.length} media item(s): ${media.map(m => m.type).join(', ')}`);
@@ -401,6 +585,9 @@ export const twitterApi = {
 
       return {
         ...tweet,
+        // TwitterAPI.io uses camelCase - normalize to the fields the app reads
+        created_at: tweet.created_at || tweet.createdAt,
+        conversation_id: tweet.conversation_id || tweet.conversationId,
         author: {
           id: author.id,
           username: author.username,
@@ -412,7 +599,16 @@ export const twitterApi = {
         },
         hasMedia,
         media: hasMedia ? media : undefined,
-        isThread: tweet.conversation_id && tweet.conversation_id !== tweet.id,
+        isThread: !!(tweet.conversation_id || tweet.conversationId) &&
+          (tweet.conversation_id || tweet.conversationId) !== tweet.id,
+        inReplyToId: tweet.inReplyToId || tweet.in_reply_to_status_id_str || undefined,
+        quotedTweet: quoted?.id && quoted.text
+          ? {
+              id: quoted.id,
+              text: quoted.text,
+              authorUsername: quoted.author?.userName || quoted.author?.username || "unknown",
+            }
+          : undefined,
       };
     } catch (error) {
       console.error(`💥 EXCEPTION in getTweet(${tweetId}):`, error);
@@ -424,6 +620,203 @@ export const twitterApi = {
     }
   },
 
+  async getTweetMetrics(tweetId: string, request: TwitterRequest): Promise<TweetMetrics | null> {
+    if (!TWITTER_API_KEY) {
+      console.warn("TWITTER_API_KEY is not set. Cannot fetch tweet metrics.");
+      return null;
+    }
+    try {
+      const url = `${TWITTER_API_BASE_URL}/twitter/tweets?tweet_ids=${tweetId}`;
+      console.log(`📊 FETCHING METRICS: Tweet ${tweetId}`);
+
+      const response = await request(url, "tweets");
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        console.error(`❌ HTTP ERROR: ${response.status} - ${response.statusText}`);
+        console.error(`📄 Error Body:`, errorText);
+        return null;
+      }
+
+      const data = await response.json();
+
+      if (data.error || data.errors) {
+        const errorMsg = data.error?.message || data.errors?.[0]?.message || JSON.stringify(data.error || data.errors);
+        console.error(`❌ API returned error for tweet ${tweetId}: ${errorMsg}`);
+        return null;
+      }
+
+      const tweet = (data.tweets || [])[0];
+      if (!tweet) {
+        console.error(`❌ No tweet found for metrics (deleted or unavailable?)`);
+        return null;
+      }
+
+      // TwitterAPI.io uses camelCase counts; fall back to Twitter v2 public_metrics
+      const metrics: TweetMetrics = {
+        tweetId,
+        views: tweet.viewCount ?? tweet.public_metrics?.impression_count ?? 0,
+        likes: tweet.likeCount ?? tweet.public_metrics?.like_count ?? 0,
+        retweets: tweet.retweetCount ?? tweet.public_metrics?.retweet_count ?? 0,
+        replies: tweet.replyCount ?? tweet.public_metrics?.reply_count ?? 0,
+        quotes: tweet.quoteCount ?? tweet.public_metrics?.quote_count ?? 0,
+        bookmarks: tweet.bookmarkCount ?? 0,
+      };
+
+      console.log(`✅ Metrics: ${metrics.views} views, ${metrics.likes} likes, ${metrics.replies} replies`);
+
+      return metrics;
+    } catch (error) {
+      console.error(`💥 EXCEPTION in getTweetMetrics(${tweetId}):`, error);
+      return null;
+    }
+  },
+
+  /**
+   * One page of a community feed, search or user timeline. Throws on HTTP
+   * errors so iterators stop instead of skipping a page silently.
+   */
+  async getTweetPage(source: TweetSource, cursor: string | null, request: TwitterRequest): Promise<TweetPage> {
+    if (!TWITTER_API_KEY) {
+      console.warn("TWITTER_API_KEY is not set. Cannot fetch tweets.");
+      return { tweets: [], nextCursor: null };
+    }
+
+    const { path, endpoint, params } = pageRequest(source);
+    const search = new URLSearchParams(params);
+    if (cursor) search.set("cursor", cursor);
+    const url = `${TWITTER_API_BASE_URL}${path}?${search}`;
+    console.log(`📄 FETCHING PAGE: ${endpoint}${cursor ? ` (cursor ${cursor.substring(0, 20)})` : ""}`);
+
+    const response = await request(url, endpoint);
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error(`❌ HTTP ERROR: ${response.status} - ${response.statusText}`);
+      console.error(`📄 Error Body:`, errorText);
+      throw new Error(`Failed to fetch ${endpoint}: ${response.status}`);
+    }
+
+    const data = await response.json();
+
+    // Suspended/protected timelines come back as { data: { unavailable: true } }
+    if (data.data?.unavailable === true) {
+      console.warn(`⚠️ Timeline unavailable: ${data.data.message || data.data.unavailableReason || "unknown reason"}`);
+      return { tweets: [], nextCursor: null };
+    }
+
+    const tweets = data.tweets || data.data?.tweets || (Array.isArray(data.data) ? data.data : []);
+    if (!Array.isArray(tweets)) {
+      console.warn(`⚠️ Unexpected page format from ${endpoint}, keys: [${Object.keys(data).join(', ')}]`);
+      return { tweets: [], nextCursor: null };
+    }
+
+    const nextCursor = data.has_next_page === false
+      ? null
+      : data.next_cursor || data.meta?.next_token || null;
+
+    return { tweets, nextCursor };
+  },
+
   // Add more API functions as needed
 };
 
+/**
+ * Walk a feed page by page, following cursors until the feed ends or a page /
+ * item limit is hit. Each page carries the cursor to resume from, and callers
+ * can stop early by breaking out of the loop.
+ */
+export async function* paginateTweets(
+  fetchPage: FetchTweetPage,
+  source: TweetSource,
+  options: PageOptions = {}
+): AsyncGenerator<TweetPage & { pageNumber: number }> {
+  const maxPages = options.maxPages ?? DEFAULT_MAX_PAGES;
+  let cursor: string | null = options.cursor || null;
+  let yielded = 0;
+
+  for (let pageNumber = 1; pageNumber <= maxPages; pageNumber++) {
+    const page = await fetchPage(source, cursor);
+    yielded += page.tweets.length;
+
+    yield { ...page, pageNumber };
+
+    cursor = page.nextCursor;
+    if (!cursor || page.tweets.length === 0 || yielded >= (options.maxItems ?? Infinity)) return;
+  }
+}
+
+/**
+ * The paginated feeds on top of a single-page fetcher (shared by the direct
+ * client and the Convex-backed one in lib/twitter-client.ts)
+ */
+export function tweetFeeds(fetchPage: FetchTweetPage) {
+  return {
+    getCommunityTweets: (communityId: string, options?: PageOptions) =>
+      paginateTweets(fetchPage, { kind: "community", communityId }, options),
+    searchTweets: (query: string, options?: PageOptions) =>
+      paginateTweets(fetchPage, { kind: "search", query }, options),
+    getUserTimeline: (userId: string, options?: PageOptions) =>
+      paginateTweets(fetchPage, { kind: "user", userId }, options),
+    getTweetReplies: (tweetId: string, options?: PageOptions) =>
+      paginateTweets(fetchPage, { kind: "replies", tweetId }, options),
+  };
+}
+
+/**
+ * Twitter client. With a store, users/timelines/tweets are cached for
+ * CACHE_TTL_MS and every HTTP request (retries included) is counted.
+ * Metrics are never cached - ingestion needs the live numbers.
+ */
+export function createTwitterApi(store?: TwitterApiStore) {
+  const request: TwitterRequest = (url, endpoint) => requestWithRetry(url, endpoint, store);
+
+  async function cached<T>(key: string, ttlMs: number, load: () => Promise<T>, isHit: (value: T) => boolean): Promise<T> {
+    const hit = store ? await store.get(key) : null;
+    if (hit !== null) {
+      console.log(`💾 Cache hit: ${key}`);
+      return JSON.parse(hit) as T;
+    }
+
+    const value = await load();
+    // Failures aren't cached - the next call retries
+    if (store && isHit(value)) await store.set(key, JSON.stringify(value), ttlMs);
+    return value;
+  }
+
+  const getTweetPage = (source: TweetSource, cursor: string | null = null): Promise<TweetPage> => {
+    return cached(`page:${source.kind}:${sourceId(source)}:${cursor ?? "first"}`, CACHE_TTL_MS.page,
+      () => endpoints.getTweetPage(source, cursor, request), page => page.tweets.length > 0);
+  };
+
+  return {
+    getUser(username: string): Promise<TwitterUser | null> {
+      return cached(`user:${username.toLowerCase()}`, CACHE_TTL_MS.user,
+        () => endpoints.getUser(username, request), user => user !== null);
+    },
+
+    async getUserTweets(userId: string, count: number = 10): Promise<Tweet[]> {
+      const tweets = await cached(`tweets:${userId}`, CACHE_TTL_MS.userTweets,
+        () => endpoints.getUserTweets(userId, request), page => page.length > 0);
+      return tweets.slice(0, count);
+    },
+
+    getTweet(tweetId: string): Promise<DetailedTweet | null> {
+      return cached(`tweet:${tweetId}`, CACHE_TTL_MS.tweet,
+        () => endpoints.getTweet(tweetId, request), tweet => tweet !== null);
+    },
+
+    getTweetMetrics(tweetId: string): Promise<TweetMetrics | null> {
+      return endpoints.getTweetMetrics(tweetId, request);
+    },
+
+    getTweetPage,
+    ...tweetFeeds(getTweetPage),
+  };
+}
+
+export type TwitterApi = ReturnType<typeof createTwitterApi>;
+
+// Storeless client (process-local limiter, no cache) - for scripts; app code
+// uses twitterApiFor(ctx) in Convex or getTwitterApi() in API routes
+export const twitterApi = createTwitterApi();
+
@@ -0,0 +1,39 @@
+// lib/twitter-client.ts
+// twitterApi for API routes - calls go through the Convex actions in
+// convex/twitter.ts, so they share the rate limiter, cache and call counter.
+// Exception: the offline mock (TWITTER_API_BASE_URL on localhost) is called
+// directly, since a cloud Convex deployment can't reach this machine.
+
+import { fetchAction } from "convex/nextjs";
+import { api } from "@/convex/_generated/api";
+import { convexAuthOptions } from "./convex-auth";
+import { tweetFeeds, twitterApi, type TweetSource, type TwitterApi } from "./twitter-api";
+
+const LOCAL_BASE_URL = /^https?:\/\/(localhost|127\.0\.0\.1)(:\d+)?(\/|$)/;
+
+/**
+ * Whether TWITTER_API_BASE_URL points at the mock on this machine
+ */
+export function usesLocalTwitterMock(baseUrl: string | undefined = process.env.TWITTER_API_BASE_URL): boolean {
+  return !!baseUrl && LOCAL_BASE_URL.test(baseUrl);
+}
+
+/**
+ * Twitter client for the signed-in user's request (tweet metrics are only
+ * pulled by the ingestion cron, so they aren't exposed here)
+ */
+export async function getTwitterApi(): Promise<Omit<TwitterApi, "getTweetMetrics">> {
+  if (usesLocalTwitterMock()) return twitterApi;
+
+  const authOptions = await convexAuthOptions();
+  const getTweetPage = (source: TweetSource, cursor: string | null = null) =>
+    fetchAction(api.twitter.getTweetPage, { source, cursor }, authOptions);
+
+  return {
+    getUser: (username) => fetchAction(api.twitter.getUser, { username }, authOptions),
+    getUserTweets: (userId, count) => fetchAction(api.twitter.getUserTweets, { userId, count }, authOptions),
+    getTweet: (tweetId) => fetchAction(api.twitter.getTweet, { tweetId }, authOptions),
+    getTweetPage,
+    ...tweetFeeds(getTweetPage),
+  };
+}
@@ -0,0 +1,272 @@
+/**
+ * OFFLINE TWITTERAPI.IO MOCK
+ *
+ * Serves recorded twitterapi.io responses (./fixtures) so the app, the
+ * diagnostic scripts and tests run without network or credits.
+ *
+ * Two ways to use it:
+ * - HTTP server: `npm run mock:twitter`, then point TWITTER_API_BASE_URL at
+ *   http://localhost:4010 (any non-empty TWITTER_API_KEY works). API routes
+ *   then skip Convex and call it directly; the Convex crons need
+ *   `npx convex dev --local` to reach it (see env.example)
+ * - In-process: `createMockTwitterFetch()` is a drop-in `fetch` for tests
+ *
+ * Endpoints: /twitter/user/info, /twitter/user/last_tweets, /twitter/tweets,
+ * /twitter/tweet/replies, /twitter/community/tweets and
+ * /twitter/tweet/advanced_search (cursor paginated)
+ *
+ * Error cases (reachable with fixture IDs, see MOCK_ERROR_IDS):
+ * - missing x-api-key                  → 401
+ * - unknown userName                   → 200 { status: "error" }
+ * - userName/userId "rate_limited"     → 429
+ * - @suspended_account timeline        → 200 { data: { unavailable: true } }
+ * - unknown tweet ID                   → 200 { tweets: [] } (deleted tweet)
+ * - community "error_community"        → 500
+ */
+
+import { createServer, type Server } from "node:http";
+import users from "./fixtures/users.json";
+import tweets from "./fixtures/tweets.json";
+import communities from "./fixtures/communities.json";
+
+export const MOCK_TWITTER_API_PORT = 4010;
+
+export const MOCK_ERROR_IDS = {
+  rateLimited: "rate_limited",
+  suspendedUser: "suspended_account",
+  failingCommunity: "error_community",
+} as const;
+
+type FixtureUser = (typeof users)[number];
+type FixtureTweet = (typeof tweets)[number];
+type FixtureCommunityTweet = (typeof communities)[keyof typeof communities]["pages"][number][number];
+
+interface MockResponse {
+  status: number;
+  body: unknown;
+}
+
+const LAST_TWEETS_PAGE_SIZE = 20;
+const SEARCH_PAGE_SIZE = 20;
+
+function findUser(userName: string | null, userId: string | null): FixtureUser | undefined {
+  return users.find(u =>
+    (userName && u.userName.toLowerCase() === userName.toLowerCase()) ||
+    (userId && u.id === userId)
+  );
+}
+
+function rateLimited(): MockResponse {
+  return {
+    status: 429,
+    body: { status: "error", msg: "Too many requests, please slow down" },
+  };
+}
+
+function handleUserInfo(params: URLSearchParams): MockResponse {
+  const userName = params.get("userName");
+  if (userName === MOCK_ERROR_IDS.rateLimited) return rateLimited();
+
+  const user = findUser(userName, null);
+  if (!user) {
+    return { status: 200, body: { status: "error", msg: `User not found: ${userName}`, data: null } };
+  }
+  return { status: 200, body: { status: "success", msg: "success", data: user } };
+}
+
+function handleLastTweets(params: URLSearchParams): MockResponse {
+  const userId = params.get("userId");
+  const userName = params.get("userName");
+  if (userId === MOCK_ERROR_IDS.rateLimited || userName === MOCK_ERROR_IDS.rateLimited) {
+    return rateLimited();
+  }
+
+  const user = findUser(userName, userId);
+  if (!user) {
+    return { status: 200, body: { status: "error", msg: "User not found", data: null } };
+  }
+
+  if (user.userName === MOCK_ERROR_IDS.suspendedUser) {
+    return {
+      status: 200,
+      body: {
+        status: "success",
+        code: 0,
+        msg: "success",
+        data: { unavailable: true, message: "User is suspended", unavailableReason: "Suspended" },
+      },
+    };
+  }
+
+  const userTweets: FixtureTweet[] = tweets.filter(t => t.author.id === user.id);
+  return {
+    status: 200,
+    body: {
+      status: "success",
+      code: 0,
+      msg: "success",
+      data: { pin_tweet: null, tweets: userTweets.slice(0, LAST_TWEETS_PAGE_SIZE) },
+      has_next_page: false,
+      next_cursor: "",
+    },
+  };
+}
+
+function handleTweetsById(params: URLSearchParams): MockResponse {
+  const ids = (params.get("tweet_ids") || "").split(",").map(id => id.trim()).filter(Boolean);
+  const found: Array<FixtureTweet | FixtureCommunityTweet> = [];
+
+  for (const id of ids) {
+    const tweet = tweets.find(t => t.id === id) ?? findCommunityTweet(id);
+    if (tweet) found.push(tweet);
+  }
+
+  return { status: 200, body: { status: "success", msg: "success", tweets: found } };
+}
+
+function findCommunityTweet(id: string): FixtureCommunityTweet | undefined {
+  for (const community of Object.values(communities)) {
+    for (const page of community.pages) {
+      const tweet = page.find(t => t.id === id);
+      if (tweet) return tweet;
+    }
+  }
+  return undefined;
+}
+
+// Direct replies from the fixtures (a single page)
+function handleTweetReplies(params: URLSearchParams): MockResponse {
+  const tweetId = params.get("tweetId") || "";
+  const replies = tweets.filter(t => t.inReplyToId === tweetId);
+  return { status: 200, body: { tweets: replies, has_next_page: false, next_cursor: "" } };
+}
+
+// Cursor is the page index ("page_2"); the last page returns an empty next_cursor
+function handleCommunityTweets(params: URLSearchParams): MockResponse {
+  const communityId = params.get("community_id") || "";
+  if (communityId === MOCK_ERROR_IDS.failingCommunity) {
+    return { status: 500, body: { status: "error", msg: "Internal server error" } };
+  }
+
+  const community = communities[communityId as keyof typeof communities];
+  if (!community) {
+    return { status: 200, body: { tweets: [], has_next_page: false, next_cursor: "" } };
+  }
+
+  const cursor = params.get("cursor");
+  const pageIndex = cursor ? parseInt(cursor.replace("page_", ""), 10) - 1 : 0;
+  if (Number.isNaN(pageIndex) || pageIndex < 0) {
+    return { status: 400, body: { status: "error", msg: `Invalid cursor: ${cursor}` } };
+  }
+
+  const page = community.pages[pageIndex] || [];
+  const hasNextPage = pageIndex + 1 < community.pages.length;
+
+  return {
+    status: 200,
+    body: {
+      tweets: page,
+      has_next_page: hasNextPage,
+      next_cursor: hasNextPage ? `page_${pageIndex + 2}` : "",
+    },
+  };
+}
+
+// Case-insensitive substring match over every fixture tweet, same "page_N" cursors
+function handleAdvancedSearch(params: URLSearchParams): MockResponse {
+  const query = (params.get("query") || "").toLowerCase();
+  if (query === MOCK_ERROR_IDS.rateLimited) return rateLimited();
+
+  const pool: Array<FixtureTweet | FixtureCommunityTweet> = [
+    ...tweets,
+    ...Object.values(communities).flatMap(community => community.pages.flat()),
+  ];
+  const matches = query ? pool.filter(t => t.text.toLowerCase().includes(query)) : [];
+
+  const cursor = params.get("cursor");
+  const pageIndex = cursor ? parseInt(cursor.replace("page_", ""), 10) - 1 : 0;
+  if (Number.isNaN(pageIndex) || pageIndex < 0) {
+    return { status: 400, body: { status: "error", msg: `Invalid cursor: ${cursor}` } };
+  }
+
+  const start = pageIndex * SEARCH_PAGE_SIZE;
+  const hasNextPage = start + SEARCH_PAGE_SIZE < matches.length;
+
+  return {
+    status: 200,
+    body: {
+      tweets: matches.slice(start, start + SEARCH_PAGE_SIZE),
+      has_next_page: hasNextPage,
+      next_cursor: hasNextPage ? `page_${pageIndex + 2}` : "",
+    },
+  };
+}
+
+/**
+ * Route a twitterapi.io request to its fixture response
+ */
+export function handleMockTwitterRequest(url: URL, apiKey: string | null): MockResponse {
+  if (!apiKey) {
+    return { status: 401, body: { error: "Unauthorized", message: "Missing x-api-key header" } };
+  }
+
+  switch (url.pathname) {
+    case "/twitter/user/info":
+      return handleUserInfo(url.searchParams);
+    case "/twitter/user/last_tweets":
+      return handleLastTweets(url.searchParams);
+    case "/twitter/tweets":
+      return handleTweetsById(url.searchParams);
+    case "/twitter/tweet/replies":
+      return handleTweetReplies(url.searchParams);
+    case "/twitter/community/tweets":
+      return handleCommunityTweets(url.searchParams);
+    case "/twitter/tweet/advanced_search":
+      return handleAdvancedSearch(url.searchParams);
+    default:
+      return { status: 404, body: { status: "error", msg: `No mock for ${url.pathname}` } };
+  }
+}
+
+function readApiKey(headers: HeadersInit | undefined): string | null {
+  if (!headers) return null;
+  return new Headers(headers).get("x-api-key");
+}
+
+/**
+ * `fetch` replacement that answers from fixtures - for tests without a server
+ */
+export function createMockTwitterFetch(): typeof fetch {
+  return async (input, init) => {
+    const request = input instanceof Request ? input : null;
+    const url = new URL(request ? request.url : input.toString());
+    const apiKey = readApiKey(init?.headers) ?? request?.headers.get("x-api-key") ?? null;
+
+    const { status, body } = handleMockTwitterRequest(url, apiKey);
+    return new Response(JSON.stringify(body), {
+      status,
+      headers: { "Content-Type": "application/json" },
+    });
+  };
+}
+
+/**
+ * Start the mock as a local HTTP server (use its URL as TWITTER_API_BASE_URL)
+ */
+export function startMockTwitterServer(port: number = MOCK_TWITTER_API_PORT): Promise<Server> {
+  const server = createServer((req, res) => {
+    const url = new URL(req.url || "/", `http://localhost:${port}`);
+    const apiKey = req.headers["x-api-key"];
+    const { status, body } = handleMockTwitterRequest(url, typeof apiKey === "string" ? apiKey : null);
+
+    console.log(`🧪 ${req.method} ${url.pathname}${url.search} → ${status}`);
+
+    res.writeHead(status, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(body));
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(port, () => resolve(server));
+  });
+}
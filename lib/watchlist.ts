@@ -0,0 +1,73 @@
+/**
+ * Adaptive polling for the creator watchlist
+ *
+ * Polling every watched creator every few minutes burns API credits on
+ * accounts that tweet twice a week. Each creator's interval follows their
+ * posting frequency, and the whole plan is stretched to fit a daily budget.
+ */
+
+export const WATCHLIST_DAILY_CALL_BUDGET = 500; // twitterapi.io calls per day for polling
+export const MIN_POLL_INTERVAL_MINUTES = 5;
+export const MAX_POLL_INTERVAL_MINUTES = 240;
+export const PARKED_POLL_INTERVAL_MINUTES = 24 * 60; // creators that don't fit the budget at the max interval
+export const POLLS_PER_TWEET_GAP = 3; // polls between two expected tweets
+export const DEFAULT_TWEETS_PER_DAY = 4; // until we've seen a creator's timeline
+
+const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * Posting frequency from recent tweet timestamps (ms)
+ */
+export function estimateTweetsPerDay(timestamps: number[], now: number = Date.now()): number {
+  const valid = timestamps.filter(t => Number.isFinite(t) && t <= now);
+  if (valid.length < 2) return DEFAULT_TWEETS_PER_DAY;
+
+  const spanDays = Math.max((now - Math.min(...valid)) / (MINUTES_PER_DAY * 60 * 1000), 1 / 24);
+  return Math.min(100, Math.max(0.1, valid.length / spanDays));
+}
+
+function clampInterval(minutes: number): number {
+  return Math.round(Math.min(MAX_POLL_INTERVAL_MINUTES, Math.max(MIN_POLL_INTERVAL_MINUTES, minutes)));
+}
+
+/**
+ * Poll interval per creator: frequent posters more often, everyone stretched
+ * evenly when the plan would exceed the daily budget. When even the max
+ * interval can't fit everyone, the least active creators drop to a daily
+ * check - the plan never exceeds the budget.
+ */
+export function planPollIntervals(
+  creators: Array<{ username: string; tweetsPerDay: number }>,
+  budget: number = WATCHLIST_DAILY_CALL_BUDGET
+): Record<string, number> {
+  const callsAtMax = MINUTES_PER_DAY / MAX_POLL_INTERVAL_MINUTES;
+  const callsWhenParked = MINUTES_PER_DAY / PARKED_POLL_INTERVAL_MINUTES;
+
+  // Most active first: as many as fit on the regular schedule, the rest parked
+  const sorted = [...creators].sort((a, b) => b.tweetsPerDay - a.tweetsPerDay);
+  const regularCount = Math.max(0, Math.min(
+    sorted.length,
+    Math.floor((budget - sorted.length * callsWhenParked) / (callsAtMax - callsWhenParked))
+  ));
+  const regular = sorted.slice(0, regularCount);
+  const regularBudget = budget - (sorted.length - regularCount) * callsWhenParked;
+
+  let intervals = regular.map(c => clampInterval(MINUTES_PER_DAY / Math.max(c.tweetsPerDay, 0.1) / POLLS_PER_TWEET_GAP));
+
+  // Stretch whoever isn't at the cap yet - capped creators can't give back any more calls
+  for (let pass = 0; pass < 10; pass++) {
+    const dailyCalls = intervals.reduce((sum, interval) => sum + MINUTES_PER_DAY / interval, 0);
+    if (dailyCalls <= regularBudget) break;
+
+    const cappedCalls = intervals.filter(i => i >= MAX_POLL_INTERVAL_MINUTES).length * callsAtMax;
+    const stretch = (dailyCalls - cappedCalls) / Math.max(regularBudget - cappedCalls, 1);
+    intervals = intervals.map(i => (i >= MAX_POLL_INTERVAL_MINUTES ? i : clampInterval(i * stretch)));
+  }
+
+  const plan: Record<string, number> = {};
+  regular.forEach((c, i) => { plan[c.username] = intervals[i]; });
+  for (const c of sorted.slice(regularCount)) {
+    plan[c.username] = PARKED_POLL_INTERVAL_MINUTES;
+  }
+  return plan;
+}
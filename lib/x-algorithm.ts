@@ -16,6 +16,9 @@
  * 4. Make viewers click your profile (authority + intrigue)
  */
 
+import { isModelUsable, predictWithModel, type EngagementModel } from "./engagement-model";
+import { isWithinTweetLimit } from "./tweet-length";
+
 export interface XAlgorithmWeights {
   authorReply: number;      // 75x - Most valuable signal
   replies: number;           // 13.5x - Conversation starter
@@ -25,6 +28,10 @@ export interface XAlgorithmWeights {
   recencyBoost: number;      // Logarithmic decay
 }
 
+/**
+ * Default weights - the algorithmRules table overrides them so we can retune
+ * when X's ranking changes (edit on /settings/algorithm)
+ */
 export const ALGORITHM_WEIGHTS: XAlgorithmWeights = {
   authorReply: 75,
   replies: 13.5,
@@ -34,12 +41,54 @@ export const ALGORITHM_WEIGHTS: XAlgorithmWeights = {
   recencyBoost: 2.5, // Early replies get exponential boost
 };
 
+export interface AlgorithmRuleDefinition {
+  name: string;                  // algorithmRules.name
+  key: keyof XAlgorithmWeights;
+  label: string;
+  description: string;
+  category: "engagement" | "recency";
+}
+
+// Every weight that can be stored as an algorithmRules row
+export const ALGORITHM_RULES: AlgorithmRuleDefinition[] = [
+  { name: "author_reply_weight", key: "authorReply", label: "Author reply", description: "The OP replies to you", category: "engagement" },
+  { name: "reply_weight", key: "replies", label: "Conversation replies", description: "Others reply in your thread", category: "engagement" },
+  { name: "profile_click_weight", key: "profileClicks", label: "Profile clicks", description: "Viewers open your profile (follow signal)", category: "engagement" },
+  { name: "retweet_weight", key: "retweets", label: "Retweets", description: "Your reply gets reposted", category: "engagement" },
+  { name: "like_weight", key: "likes", label: "Likes", description: "Baseline signal", category: "engagement" },
+  { name: "recency_boost", key: "recencyBoost", label: "Recency boost", description: "Multiplier for replying within 5 minutes", category: "recency" },
+];
+
+/**
+ * Active weights: stored rules over the defaults (unknown rule names are ignored)
+ */
+export function resolveAlgorithmWeights(
+  rules?: Array<{ name: string; value: number }> | null
+): XAlgorithmWeights {
+  const weights = { ...ALGORITHM_WEIGHTS };
+  for (const rule of rules || []) {
+    const definition = ALGORITHM_RULES.find(r => r.name === rule.name);
+    if (definition) weights[definition.key] = rule.value;
+  }
+  return weights;
+}
+
+/**
+ * Engagement weights as prompt lines, strongest first
+ */
+export function describeAlgorithmWeights(weights: XAlgorithmWeights = ALGORITHM_WEIGHTS): string[] {
+  return ALGORITHM_RULES
+    .filter(rule => rule.category === "engagement")
+    .sort((a, b) => weights[b.key] - weights[a.key])
+    .map((rule, idx) => `• ${rule.label}: ${weights[rule.key]}x${idx === 0 ? " (MOST IMPORTANT)" : ""}`);
+}
+
 export interface ReplyFeatures {
   hasQuestion: boolean;           // Triggers author to respond
   hasPushback: boolean;           // Contrarian = memorable
   hasSpecificData: boolean;       // Numbers/examples = credible
   hasPersonalExperience: boolean; // Authenticity signal
-  isShort: boolean;               // <280 chars = readable
+  isShort: boolean;               // fits in 280 weighted chars = readable
   callsOutOP: boolean;            // @ mention increases notification priority
   linksToProfile: boolean;        // "More on my profile" drives clicks
 }
@@ -50,6 +99,8 @@ export interface EngagementPrediction {
   likesExpected: number;       // Count
   profileClicksExpected: number; // Count
   totalScore: number;          // Weighted sum
+  source: 'learned' | 'heuristic'; // Which predictor produced the counts
+  modelVersion?: number;       // Set when a learned model was used
   scoreBreakdown: {
     authorReply: number;
     replies: number;
@@ -67,7 +118,7 @@ export function analyzeReplyFeatures(replyText: string): ReplyFeatures {
   const hasPushback = /\b(actually|but|disagree|however|counterpoint|flip side|though)\b/i.test(replyText);
   const hasSpecificData = /\d+[%x]|\$\d+|\d+\s*(users|people|times|days|years)/.test(replyText);
   const hasPersonalExperience = /\b(I|my|when I|in my experience)\b/i.test(replyText);
-  const isShort = replyText.length <= 280;
+  const isShort = isWithinTweetLimit(replyText);
   const callsOutOP = replyText.startsWith('@');
   const linksToProfile = /\b(check my|see my|more in my|on my profile)\b/i.test(replyText);
 
@@ -82,31 +133,45 @@ export function analyzeReplyFeatures(replyText: string): ReplyFeatures {
   };
 }
 
+export interface PredictionOptions {
+  model?: EngagementModel | null; // Learned model (see lib/engagement-model.ts)
+  strategy?: string;              // pure_curiosity, devils_advocate, etc.
+  niche?: string;                 // Creator's primary niche
+  weights?: XAlgorithmWeights;    // Active rule set (defaults to ALGORITHM_WEIGHTS)
+}
+
 /**
  * Predict engagement based on reply features + X algorithm weights
+ *
+ * Uses the learned model for reply/like/profile-click counts when one trained
+ * on enough samples is passed in, otherwise falls back to the hand-tuned
+ * constants below. Author reply probability stays heuristic - we don't track
+ * whether the OP replied. Counts are weighted by the active algorithm rules.
  */
 export function predictEngagement(
   features: ReplyFeatures,
-  minutesSincePost: number
+  minutesSincePost: number,
+  options: PredictionOptions = {}
 ): EngagementPrediction {
   // Base probabilities
   let authorReplyProb = 0.05; // 5% baseline
   let repliesExpected = 2;
   let likesExpected = 5;
   let profileClicksExpected = 1;
+  const weights = options.weights ?? ALGORITHM_WEIGHTS;
 
-  // AUTHOR REPLY TRIGGERS (Most important - 75x weight!)
+  // AUTHOR REPLY TRIGGERS (Most important - highest weight!)
   if (features.hasQuestion) authorReplyProb += 0.25; // Questions beg answers
   if (features.hasPushback) authorReplyProb += 0.15; // Authors defend their takes
   if (features.hasSpecificData) authorReplyProb += 0.10; // Credible = worthy of response
   if (features.callsOutOP) authorReplyProb += 0.10; // Notification priority
 
-  // CONVERSATION TRIGGERS (13.5x weight)
+  // CONVERSATION TRIGGERS
   if (features.hasQuestion) repliesExpected += 5; // Others join debate
   if (features.hasPushback) repliesExpected += 3; // Controversy drives engagement
   if (features.hasSpecificData) repliesExpected += 2; // Facts invite discussion
 
-  // LIKE TRIGGERS (1x baseline)
+  // LIKE TRIGGERS (baseline)
   if (features.hasPersonalExperience) likesExpected += 10; // Relatability
   if (features.isShort) likesExpected += 5; // Readability
   if (features.hasSpecificData) likesExpected += 8; // Credibility
@@ -116,16 +181,30 @@ export function predictEngagement(
   if (features.hasSpecificData) profileClicksExpected += 5; // Authority signal
   if (features.hasPushback) profileClicksExpected += 3; // "Who is this guy?"
 
+  // LEARNED MODEL (replaces the constant bumps above once we have real data)
+  const model = isModelUsable(options.model) ? options.model : null;
+  if (model) {
+    const learned = predictWithModel(model, {
+      features,
+      strategy: options.strategy,
+      niche: options.niche,
+      minutesSincePost,
+    });
+    repliesExpected = learned.replies;
+    likesExpected = learned.likes;
+    profileClicksExpected = learned.profileClicks;
+  }
+
   // RECENCY BOOST (logarithmic decay - early replies WIN)
   const recencyMultiplier = minutesSincePost <= 5 
-    ? ALGORITHM_WEIGHTS.recencyBoost 
+    ? weights.recencyBoost
     : Math.max(1, 1 + Math.log(6 / (minutesSincePost + 1)));
 
   // Calculate weighted score
-  const authorReplyScore = authorReplyProb * ALGORITHM_WEIGHTS.authorReply;
-  const repliesScore = repliesExpected * ALGORITHM_WEIGHTS.replies;
-  const likesScore = likesExpected * ALGORITHM_WEIGHTS.likes;
-  const profileClicksScore = profileClicksExpected * ALGORITHM_WEIGHTS.profileClicks;
+  const authorReplyScore = authorReplyProb * weights.authorReply;
+  const repliesScore = repliesExpected * weights.replies;
+  const likesScore = likesExpected * weights.likes;
+  const profileClicksScore = profileClicksExpected * weights.profileClicks;
   const recencyBonus = (authorReplyScore + repliesScore) * (recencyMultiplier - 1);
 
   const totalScore = authorReplyScore + repliesScore + likesScore + profileClicksScore + recencyBonus;
@@ -136,6 +215,8 @@ export function predictEngagement(
     likesExpected: Math.round(likesExpected),
     profileClicksExpected: Math.round(profileClicksExpected),
     totalScore: Math.round(totalScore),
+    source: model ? 'learned' : 'heuristic',
+    modelVersion: model?.version,
     scoreBreakdown: {
       authorReply: Math.round(authorReplyScore),
       replies: Math.round(repliesScore),
@@ -0,0 +1,162 @@
+#!/usr/bin/env tsx
+// Reply evaluation benchmark - run the reply generator over a saved corpus,
+// score it, store the run and diff it against the previous one
+//
+// Run: npm run eval -- [options]
+//   --llm fake|live|record|replay   fake (default): offline deterministic output
+//                                   live: configured "replies" provider (LLM_PROVIDER...)
+//                                   record: live + save responses to the cassette
+//                                   replay: answer from the cassette only
+//   --label "shorter prompt"        note stored with the run
+//   --compare <runId>               diff against this run instead of the previous one
+//   --no-save                       don't store this run
+//   --corpus <file> --rubrics <file> --cassette <file>
+//   --verbose                       show the generator's logs
+//
+// Runs are stored in ./eval-runs (gitignored).
+
+import { readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { getLLMProvider, type LLMProvider } from "../lib/llm";
+import { createFakeProvider } from "../lib/llm/fake-provider";
+import { createEmptyCassette, createRecordedProvider, type LLMCassette } from "../lib/llm/recorded-provider";
+import { runEval } from "../lib/reply-eval/runner";
+import { formatRunDiff, formatRunSummary } from "../lib/reply-eval/report";
+import { loadPreviousRun, loadRun, saveRun } from "../lib/reply-eval/store";
+import type { EvalCase, Rubric } from "../lib/reply-eval/types";
+
+const FIXTURES_DIR = path.join(__dirname, "fixtures");
+
+const LLM_MODES = ["fake", "live", "record", "replay"] as const;
+type LLMMode = (typeof LLM_MODES)[number];
+
+interface EvalArgs {
+  llm: LLMMode;
+  label?: string;
+  compare?: string;
+  save: boolean;
+  verbose: boolean;
+  corpus: string;
+  rubrics: string;
+  cassette: string;
+}
+
+function parseArgs(argv: string[]): EvalArgs {
+  const args: EvalArgs = {
+    llm: "fake",
+    save: true,
+    verbose: false,
+    corpus: path.join(FIXTURES_DIR, "reply-eval-corpus.json"),
+    rubrics: path.join(FIXTURES_DIR, "reply-eval-rubrics.json"),
+    cassette: path.join(FIXTURES_DIR, "reply-eval-cassette.json"),
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const flag = argv[i];
+    const value = () => {
+      const next = argv[++i];
+      if (next === undefined) throw new Error(`${flag} needs a value`);
+      return next;
+    };
+
+    switch (flag) {
+      case "--llm": {
+        const mode = value();
+        if (!LLM_MODES.includes(mode as LLMMode)) {
+          throw new Error(`--llm must be one of ${LLM_MODES.join(", ")}`);
+        }
+        args.llm = mode as LLMMode;
+        break;
+      }
+      case "--label": args.label = value(); break;
+      case "--compare": args.compare = value(); break;
+      case "--no-save": args.save = false; break;
+      case "--verbose": args.verbose = true; break;
+      case "--corpus": args.corpus = path.resolve(value()); break;
+      case "--rubrics": args.rubrics = path.resolve(value()); break;
+      case "--cassette": args.cassette = path.resolve(value()); break;
+      default:
+        throw new Error(`Unknown option: ${flag}`);
+    }
+  }
+
+  return args;
+}
+
+async function readJSON<T>(file: string): Promise<T> {
+  return JSON.parse(await readFile(file, "utf-8")) as T;
+}
+
+async function loadCassette(file: string): Promise<LLMCassette> {
+  try {
+    return await readJSON<LLMCassette>(file);
+  } catch {
+    throw new Error(`No cassette at ${file} - run with --llm record first`);
+  }
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const corpus = await readJSON<EvalCase[]>(args.corpus);
+  const rubrics = await readJSON<Rubric[]>(args.rubrics);
+
+  let llm: LLMProvider;
+  let cassette: LLMCassette | null = null;
+
+  switch (args.llm) {
+    case "fake":
+      llm = createFakeProvider("replies");
+      break;
+    case "live":
+      llm = getLLMProvider("replies");
+      break;
+    case "record": {
+      const live = getLLMProvider("replies");
+      cassette = createEmptyCassette(live); // fresh recording for the current prompts
+      llm = createRecordedProvider(cassette, "record", live);
+      break;
+    }
+    case "replay":
+      cassette = await loadCassette(args.cassette);
+      llm = createRecordedProvider(cassette, "replay");
+      break;
+  }
+
+  console.log("=".repeat(80));
+  console.log(`🧪 REPLY EVAL: ${corpus.length} tweets, ${rubrics.length} rubrics, ${llm.name} (${llm.model}, ${args.llm})`);
+  console.log("=".repeat(80));
+
+  const log = console.log;
+  if (!args.verbose) console.log = () => {};
+  const run = await runEval(corpus, { llm, llmMode: args.llm, rubrics, label: args.label }).finally(() => {
+    console.log = log;
+  });
+
+  console.log(`\n${formatRunSummary(run)}`);
+
+  for (const result of run.results.filter(r => r.error)) {
+    console.error(`❌ ${result.caseId}: ${result.error}`);
+  }
+
+  if (cassette && args.llm === "record") {
+    await writeFile(args.cassette, JSON.stringify(cassette, null, 2));
+    console.log(`\n📼 Recorded ${Object.keys(cassette.responses).length} responses to ${args.cassette}`);
+  }
+
+  const previous = args.compare ? await loadRun(args.compare) : await loadPreviousRun();
+  if (previous) {
+    console.log(`\n${formatRunDiff(previous, run)}`);
+  } else {
+    console.log(`\nℹ️  No previous run to compare against`);
+  }
+
+  if (args.save) {
+    const file = await saveRun(run);
+    console.log(`\n💾 Saved run ${run.id} → ${file}`);
+  }
+}
+
+main().catch((error) => {
+  console.error("💥 EVAL FAILED:", error instanceof Error ? error.message : error);
+  process.exit(1);
+});
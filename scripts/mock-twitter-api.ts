@@ -0,0 +1,34 @@
+#!/usr/bin/env tsx
+// Local stand-in for twitterapi.io - serves recorded fixtures, no network
+// Run: npm run mock:twitter   (port via MOCK_TWITTER_API_PORT, default 4010)
+//
+// Then in another shell / .env.local:
+//   TWITTER_API_BASE_URL=http://localhost:4010
+//   TWITTER_API_KEY=mock
+//   npx tsx scripts/test-twitter-api.ts
+
+import { startMockTwitterServer, MOCK_TWITTER_API_PORT, MOCK_ERROR_IDS } from "../lib/twitter-mock";
+
+const port = Number(process.env.MOCK_TWITTER_API_PORT) || MOCK_TWITTER_API_PORT;
+
+startMockTwitterServer(port)
+  .then(() => {
+    console.log("=".repeat(80));
+    console.log(`🧪 MOCK TWITTERAPI.IO listening on http://localhost:${port}`);
+    console.log("=".repeat(80));
+    console.log();
+    console.log("📋 Fixture accounts: @elonmusk, @naval, @levelsio, @madmanhakim");
+    console.log("🏘️  Fixture community: 1493446837214187523 (Build in Public, 3 pages)");
+    console.log();
+    console.log("💥 Error cases:");
+    console.log(`   • @${MOCK_ERROR_IDS.rateLimited} → 429`);
+    console.log(`   • @${MOCK_ERROR_IDS.suspendedUser} → timeline unavailable`);
+    console.log(`   • community ${MOCK_ERROR_IDS.failingCommunity} → 500`);
+    console.log("   • unknown user / tweet → not found");
+    console.log();
+    console.log(`👉 Set TWITTER_API_BASE_URL=http://localhost:${port} and any TWITTER_API_KEY`);
+  })
+  .catch((error) => {
+    console.error("💥 Failed to start mock server:", error);
+    process.exit(1);
+  });
@@ -0,0 +1,1033 @@
+#!/usr/bin/env tsx
+// Golden-fixture tests for the reply pipeline heuristics
+// Run: npm test
+//
+// Fixtures live in scripts/fixtures/reply-heuristics.json - real tweets and
+// replies we consider good/bad. When a heuristic change flips one of them,
+// either the change is a regression or the fixture needs a deliberate update.
+
+import { test, describe, before, after } from "node:test";
+import assert from "node:assert/strict";
+import fixtures from "./fixtures/reply-heuristics.json";
+import { analyzeTweetContent } from "../lib/ai-reply-system/content-analyzer";
+import { selectReplyStrategies, type ReplyValueType } from "../lib/ai-reply-system/reply-strategy-selector";
+import { assessQuality } from "../lib/ai-reply-system/quality-gate";
+import { validateAuthenticSpecificity } from "../lib/ai-reply-system/specificity-validator-v2";
+import { EMPTY_PERSONAL_CONTEXT, quotesRealMetric, type PersonalContextData } from "../lib/ai-reply-system/personal-knowledge-base";
+import type { BuiltReply } from "../lib/ai-reply-system/reply-builder";
+import type { CreatorIntelligence } from "../lib/ai-reply-system/types";
+import { validatePostQuality, type PostQualityReport } from "../lib/post-quality-validator";
+import { analyzeReplyFeatures, predictEngagement, type ReplyFeatures } from "../lib/x-algorithm";
+import { FEATURE_NAMES, fitEngagementModel, isModelUsable, MIN_TRAINING_SAMPLES, predictWithModel, type EngagementSample } from "../lib/engagement-model";
+import { createSimilarityIndex } from "../lib/content-similarity";
+import { calculateQueuePriority, REPLY_WINDOW_MINUTES, scoreNicheMatch } from "../lib/reply-queue";
+import { MAX_POLL_INTERVAL_MINUTES, PARKED_POLL_INTERVAL_MINUTES, planPollIntervals } from "../lib/watchlist";
+import { dueSnapshot, dueSnapshotWindow, snapshotBatch, trackedTweetUrl } from "../lib/performance-snapshots";
+import { backoffDelayMs, paginateTweets, takeToken, TWITTER_RATE_LIMIT, type DetailedTweet, type TweetPage } from "../lib/twitter-api";
+import { buildConversationContext, describeConversationContext } from "../lib/ai-reply-system/conversation-context";
+import { analyzeReplySaturation, classifyReplyValueType } from "../lib/ai-reply-system/reply-saturation";
+import { encodeSSE, isProgressWarning, readSSE, type ReplyProgressEvent } from "../lib/reply-progress";
+import { createProvider } from "../lib/llm/provider";
+import { createFakeProvider } from "../lib/llm/fake-provider";
+import { refineReplyWithClaude, type ReplyRefinementContext } from "../lib/ai-reply-system/claude-reply-generator";
+import { appendReplyVersion, type ReplyVersion } from "../lib/reply-versions";
+import { StructuredOutputError, validate } from "../lib/llm";
+import type { LLMMessage, LLMRoute } from "../lib/llm/types";
+import { COMMUNITY_POST_SCHEMA, CREATOR_ANALYSIS_SCHEMA, DAILY_POSTS_SCHEMA, REFINED_REPLY_SCHEMA, REPLIES_SCHEMA, THREAD_SCHEMA, THREAD_TWEET_SCHEMA, VOICE_PROFILE_SCHEMA } from "../lib/generation-schemas";
+import { fittingPrefixLength, MAX_TWEET_LENGTH, tweetLengthIssue, weightedLength } from "../lib/tweet-length";
+import { buildFollowerSeries, describeFollowerChart, describeRecapData, rankThreadPerformance, renderFollowerChartSVG, summarizeFollowerCurve, type RecapDay } from "../lib/challenge-recap";
+import { buildGrowthSeries } from "../lib/growth-series";
+import { buildPatternDays, describePatterns, minePatterns, type PatternInputPost } from "../lib/pattern-mining";
+import { fromComposerTweets, invalidTweetIndexes, mergeWithNext, moveTweet, splitIntoTweets, splitTweet, toComposerTweets } from "../lib/thread-composer";
+
+// Same experience list the reply route passes to the strategy selector
+const YOUR_EXPERIENCES = [
+  "Building SubWise, a SaaS for subscription tracking",
+  "Starting from zero: 0 users, $0 MRR",
+  "MMA training 5x per week",
+  "Studied the X algorithm source code",
+  "Indie founder, solo",
+];
+
+// The heuristics log every decision - keep test output readable
+const originalLog = console.log;
+before(() => { console.log = () => {}; });
+after(() => { console.log = originalLog; });
+
+describe("analyzeTweetContent + selectReplyStrategies", () => {
+  for (const fixture of fixtures.tweets) {
+    test(fixture.name, () => {
+      const content = analyzeTweetContent(fixture.text);
+      const strategy = selectReplyStrategies({
+        tweetContent: content,
+        creatorNiche: fixture.creatorNiche,
+        yourExperiences: YOUR_EXPERIENCES,
+        minutesSincePosted: fixture.minutesSincePosted,
+      });
+      const expect: {
+        primary?: string;
+        notPrimary?: string[];
+        topThree?: string[];
+        type?: string;
+        sentiment?: string;
+        isEmotional?: boolean;
+        numbers?: string[];
+        entities?: string[];
+      } = fixture.expect;
+
+      if (expect.primary) {
+        assert.equal(strategy.primary, expect.primary, strategy.reasoning);
+      }
+      if (expect.notPrimary) {
+        assert.ok(
+          !expect.notPrimary.includes(strategy.primary),
+          `primary strategy "${strategy.primary}" is not allowed here`
+        );
+      }
+      if (expect.topThree) {
+        const topThree: ReplyValueType[] = [strategy.primary, strategy.secondary, strategy.fallback];
+        for (const expected of expect.topThree) {
+          assert.ok(topThree.includes(expected as ReplyValueType), `expected "${expected}" in [${topThree.join(", ")}]`);
+        }
+      }
+      if (expect.type) assert.equal(content.context.type, expect.type);
+      if (expect.sentiment) assert.equal(content.context.sentiment, expect.sentiment);
+      if (expect.isEmotional !== undefined) assert.equal(content.context.isEmotional, expect.isEmotional);
+      for (const number of expect.numbers || []) assert.ok(content.numbers.includes(number), `missing number ${number}`);
+      for (const entity of expect.entities || []) assert.ok(content.entities.includes(entity), `missing entity ${entity}`);
+    });
+  }
+});
+
+describe("validateAuthenticSpecificity", () => {
+  for (const fixture of fixtures.replies) {
+    test(`${fixture.label}: ${fixture.text.substring(0, 60)}`, () => {
+      const report = validateAuthenticSpecificity(fixture.text);
+      const found = report.issues.map(issue => `${issue.type}: ${issue.text}`);
+
+      if (fixture.label === "good") {
+        assert.ok(report.authentic, `flagged as fake: ${found.join(" | ")}`);
+        assert.ok(report.passed, `failed with score ${report.score}: ${found.join(" | ")}`);
+        return;
+      }
+
+      assert.equal(report.passed, false, "bad reply passed");
+      for (const type of fixture.expectIssueTypes || []) {
+        assert.ok(report.issues.some(issue => issue.type === type), `expected a ${type} issue, got: ${found.join(" | ")}`);
+      }
+    });
+  }
+
+  test("fake content always scores below honest content", () => {
+    const scores = (label: string) => fixtures.replies
+      .filter(r => r.label === label)
+      .map(r => validateAuthenticSpecificity(r.text).score);
+
+    assert.ok(Math.max(...scores("bad")) < Math.min(...scores("good")));
+  });
+
+  test("the persona's own numbers are real, anything else is still fake", () => {
+    const persona: PersonalContextData = {
+      ...EMPTY_PERSONAL_CONTEXT,
+      currentFollowers: 48,
+      projects: [{ name: "SubWise", description: "Subscription tracker", stage: "launched", users: 12, mrr: 90 }],
+    };
+    const fakeMetrics = (text: string) => validateAuthenticSpecificity(text, 1, persona).issues
+      .filter(issue => issue.type === "fake_metric")
+      .map(issue => issue.text);
+
+    assert.deepEqual(fakeMetrics("SubWise just hit 12 users and $90 MRR, slow but real"), []);
+    assert.notDeepEqual(fakeMetrics("SubWise just hit 500 users and $9000 MRR"), []);
+  });
+
+  test("a real number only counts in its own unit", () => {
+    const persona: PersonalContextData = {
+      ...EMPTY_PERSONAL_CONTEXT,
+      currentFollowers: 150,
+      projects: [{ name: "SubWise", description: "Subscription tracker", stage: "launched", users: 12, mrr: 90 }],
+    };
+    const fakeMetrics = (text: string) => validateAuthenticSpecificity(text, 1, persona).issues
+      .filter(issue => issue.type === "fake_metric")
+      .map(issue => issue.text);
+
+    assert.deepEqual(fakeMetrics("Just hit 150 followers, still $0 MRR"), []);
+    assert.deepEqual(fakeMetrics("SubWise has 150 paying users"), ["150 paying users"]);
+    assert.deepEqual(fakeMetrics("Finally at 150 MRR"), ["150 MRR"]);
+    assert.notDeepEqual(fakeMetrics("SubWise just hit 150 users"), []);
+    assert.ok(quotesRealMetric("1080 ARR", persona));
+    assert.ok(!quotesRealMetric("$150", persona));
+  });
+});
+
+describe("validatePostQuality", () => {
+  for (const fixture of fixtures.posts) {
+    test(`${fixture.label}: ${fixture.text.substring(0, 60)}`, () => {
+      const report = validatePostQuality(fixture.text, fixture.category, []);
+
+      if (fixture.label === "good") {
+        assert.ok(report.passed, `failed with score ${report.score}: ${report.issues.join(" | ")}`);
+        return;
+      }
+
+      assert.equal(report.passed, false, "bad post passed");
+      for (const flag of fixture.expectFlags || []) {
+        const key = flag as keyof PostQualityReport["improvements"];
+        assert.equal(report.improvements[key], true, `expected ${flag}, got: ${report.issues.join(" | ")}`);
+      }
+    });
+  }
+
+  test("allowed claims are not flagged", () => {
+    const post = "I went from 0 to 100 followers in 30 days of replying every morning.";
+    assert.equal(validatePostQuality(post, "challenge", []).improvements.notAuthentic, true);
+    assert.equal(validatePostQuality(post, "challenge", ["0 to 100"]).improvements.notAuthentic, undefined);
+  });
+});
+
+describe("predictEngagement", () => {
+  const { replies, minutesSincePosted } = fixtures.engagementRanking;
+  const score = (text: string, minutes = minutesSincePosted) =>
+    predictEngagement(analyzeReplyFeatures(text), minutes).totalScore;
+
+  test("golden ranking holds", () => {
+    const scores = replies.map(text => score(text));
+    for (let i = 1; i < scores.length; i++) {
+      assert.ok(
+        scores[i - 1] > scores[i],
+        `"${replies[i - 1]}" (${scores[i - 1]}) should beat "${replies[i]}" (${scores[i]})`
+      );
+    }
+  });
+
+  test("early replies beat late ones", () => {
+    for (const text of replies) {
+      assert.ok(score(text, 2) > score(text, 60), text);
+      assert.ok(score(text, 60) >= score(text, 600), text);
+    }
+  });
+
+  test("questions raise author reply probability", () => {
+    const question = predictEngagement(analyzeReplyFeatures("What made you pick that?"), 10);
+    const statement = predictEngagement(analyzeReplyFeatures("Nice."), 10);
+    assert.ok(question.authorReplyProb > statement.authorReplyProb);
+    assert.ok(question.authorReplyProb <= 0.95);
+  });
+
+  test("falls back to heuristics without a usable model", () => {
+    const prediction = predictEngagement(analyzeReplyFeatures("What made you pick that?"), 10, { model: null });
+    assert.equal(prediction.source, "heuristic");
+    assert.equal(prediction.modelVersion, undefined);
+  });
+});
+
+describe("learned engagement model", () => {
+  const plain: ReplyFeatures = {
+    hasQuestion: false,
+    hasPushback: false,
+    hasSpecificData: false,
+    hasPersonalExperience: false,
+    isShort: true,
+    callsOutOP: false,
+    linksToProfile: false,
+  };
+
+  // Questions clearly drive replies, profile links clearly drive clicks (small deterministic noise)
+  const samples = (count: number): EngagementSample[] => Array.from({ length: count }, (_, i) => {
+    const hasQuestion = i % 2 === 0;
+    const linksToProfile = i % 3 === 0;
+    return {
+      features: { ...plain, hasQuestion, linksToProfile },
+      minutesSincePost: 5 + (i % 7) * 10,
+      performance: {
+        replies: (hasQuestion ? 9 : 1) + (i % 3) * 0.5,
+        likes: 4 + (i % 4),
+        profileClicks: (linksToProfile ? 6 : 0) + (i % 2) * 0.5,
+      },
+    };
+  });
+  const weight = (weights: number[], name: string) => weights[FEATURE_NAMES.indexOf(name)];
+
+  test("coefficients point the way the data does", () => {
+    const model = fitEngagementModel(samples(60), 3);
+
+    assert.ok(weight(model.weights.replies, "hasQuestion") > 5);
+    assert.ok(weight(model.weights.profileClicks, "linksToProfile") > 3);
+    assert.ok(Math.abs(weight(model.weights.replies, "linksToProfile")) < 1);
+
+    const asked = predictWithModel(model, { features: { ...plain, hasQuestion: true }, minutesSincePost: 10 });
+    const stated = predictWithModel(model, { features: plain, minutesSincePost: 10 });
+    assert.ok(asked.replies > stated.replies + 5);
+  });
+
+  test("a usable model replaces the heuristics and reports its version", () => {
+    const model = fitEngagementModel(samples(60), 7);
+    const prediction = predictEngagement({ ...plain, hasQuestion: true }, 10, { model });
+
+    assert.equal(prediction.source, "learned");
+    assert.equal(prediction.modelVersion, 7);
+    assert.equal(prediction.repliesExpected, Math.round(predictWithModel(model, { features: { ...plain, hasQuestion: true }, minutesSincePost: 10 }).replies));
+  });
+
+  test("too few samples gives an unusable model", () => {
+    const model = fitEngagementModel(samples(MIN_TRAINING_SAMPLES - 1), 1);
+    assert.equal(isModelUsable(model), false);
+    assert.equal(predictEngagement(plain, 10, { model }).source, "heuristic");
+    assert.equal(isModelUsable(fitEngagementModel(samples(MIN_TRAINING_SAMPLES), 1)), true);
+  });
+});
+
+// Shared creator profile for the quality gate and refinement tests
+const creator: CreatorIntelligence = {
+  username: "levelsio",
+  displayName: "@levelsio",
+  followerCount: 612000,
+  verified: true,
+  primaryNiche: "saas",
+  secondaryNiches: ["tech"],
+  metrics: { followers: 612000, engagementRate: 0.02 },
+  audience: {
+    demographics: {
+      primaryInterests: ["indie hacking"],
+      irrelevantTopics: [],
+      languageStyle: "casual",
+      sophisticationLevel: "intermediate",
+    },
+    engagementPatterns: { respondsTo: ["questions"], ignores: [], preferredTone: "direct" },
+  },
+  contentPatterns: {
+    topics: ["shipping"],
+    postTypes: { insights: 5, questions: 1, announcements: 2, personal: 2 },
+    toneProfile: { serious: 2, humorous: 3, technical: 2, philosophical: 1 },
+  },
+  crossoverPotential: { mmaRelevance: 0, saasRelevance: 5, disciplineTopics: 2, philosophyTopics: 1 },
+  optimalReplyStrategy: {
+    mode: "pure_saas",
+    avoidTopics: [],
+    emphasizeTopics: ["customer", "feedback"],
+    toneMatch: "direct",
+    questionStyle: "specific",
+  },
+  lastUpdated: 0,
+  tweetAnalysisCount: 10,
+};
+
+describe("assessQuality", () => {
+  const tweetText = fixtures.tweets[0].text;
+  const tweetContent = analyzeTweetContent(tweetText);
+
+  function built(text: string, strategy: BuiltReply["strategy"]): BuiltReply {
+    const features = analyzeReplyFeatures(text);
+    const prediction = predictEngagement(features, 10);
+    return {
+      text,
+      strategy,
+      // Same 0-100 normalization as claude-reply-generator's calculateCompositeScore
+      score: Math.round(Math.min(100, (prediction.totalScore / 150) * 100)),
+      features: {
+        hasQuestion: features.hasQuestion,
+        hasPushback: features.hasPushback,
+        hasSpecificData: features.hasSpecificData,
+        referencesOriginalTweet: true,
+        matchesCreatorNiche: true,
+        matchesCreatorTone: true,
+      },
+      reasoning: "",
+      prediction,
+    };
+  }
+
+  const goodReplies = [
+    built("Hard disagree on the noise part though. Which customer feedback do you still act on?", "devils_advocate"),
+    built("What was the one piece of feedback that changed the product most? I'm at 0 users building SubWise.", "pure_curiosity"),
+    built("Which customer do you still listen to when most feedback is noise?", "practical_application"),
+  ];
+
+  test("specific, on-profile replies pass", () => {
+    const report = assessQuality(goodReplies, creator, tweetContent, 1);
+    assert.ok(report.passed, report.issues.join(" | "));
+  });
+
+  test("em-dashes are flagged as an AI tell", () => {
+    const replies = [
+      built("Customer feedback — most of it — is noise. Which do you keep?", "devils_advocate"),
+      ...goodReplies.slice(1),
+    ];
+    const report = assessQuality(replies, creator, tweetContent, 1);
+    assert.equal(report.passed, false);
+    assert.ok(report.issues.some(issue => issue.includes("Em-dashes")));
+  });
+
+  test("generic replies fail and ask for tweet references", () => {
+    const replies = [
+      built("So true!", "expand_idea"),
+      built("Nice one.", "expand_idea"),
+      built("Couldn't agree more.", "expand_idea"),
+    ];
+    const report = assessQuality(replies, creator, tweetContent, 1);
+    assert.equal(report.passed, false);
+    assert.ok(report.issues.some(issue => issue.includes("too generic")));
+    assert.ok(report.improvements.avoidGenericPhrases);
+    assert.ok((report.improvements.mustHaveFeature || []).includes("question"));
+  });
+  test("a single refined reply is judged on its own", () => {
+    const report = assessQuality([goodReplies[2]], creator, tweetContent, 1);
+    assert.ok(!report.issues.some(issue => issue.includes("too generic")), report.issues.join(" | "));
+
+    const generic = assessQuality([built("So true!", "expand_idea")], creator, tweetContent, 1);
+    assert.ok(generic.issues.some(issue => issue.includes("too generic")));
+  });
+});
+
+describe("near-duplicate detection", () => {
+  const posted = "Day 12 of building SubWise. Still 0 users but shipped the cancellation reminder flow today. Distribution is the hard part.";
+  const index = createSimilarityIndex([{ source: "contentBank", content: posted, postedAt: 0 }]);
+
+  test("reworded copies of posted content are caught", () => {
+    const match = index.findNearDuplicate("Day 13 of building SubWise. Still 0 users but shipped the cancellation reminder flow. Distribution is the hard part!");
+    assert.ok(match, "reworded copy not flagged");
+    assert.equal(match.content, posted);
+  });
+
+  test("different posts on the same topic are not", () => {
+    assert.equal(index.findNearDuplicate("Shipped a new feature for SubWise today. Nobody uses it yet. Marketing is way harder than coding."), null);
+    assert.equal(index.findNearDuplicate(""), null);
+  });
+});
+
+describe("reply queue priority", () => {
+  const creator = { followerCount: 120000, primaryNiche: "saas", secondaryNiches: ["tech"], mmaRelevance: 1, saasRelevance: 5 };
+
+  test("fresh tweets outrank stale ones from the same creator", () => {
+    const scores = { creatorValue: 0.7, nicheMatch: 1 };
+    const ranks = [2, 10, 30, 59].map(minutes => calculateQueuePriority(scores, minutes).priority);
+    for (let i = 1; i < ranks.length; i++) assert.ok(ranks[i - 1] > ranks[i], ranks.join(" > "));
+    assert.equal(calculateQueuePriority(scores, REPLY_WINDOW_MINUTES).breakdown.freshness, 0);
+  });
+
+  test("niche match prefers our own niches", () => {
+    assert.equal(scoreNicheMatch(creator, ["saas", "mma"]), 1);
+    assert.ok(scoreNicheMatch(creator, ["tech"]) > scoreNicheMatch(creator, ["philosophy"]));
+  });
+});
+
+describe("watchlist polling plan", () => {
+  test("frequent posters are polled more often", () => {
+    const plan = planPollIntervals([
+      { username: "daily", tweetsPerDay: 20 },
+      { username: "weekly", tweetsPerDay: 0.3 },
+    ]);
+    assert.ok(plan.daily < plan.weekly, JSON.stringify(plan));
+  });
+
+  test("a large watchlist is stretched to fit the daily budget", () => {
+    const creators = Array.from({ length: 40 }, (_, i) => ({ username: `c${i}`, tweetsPerDay: 30 }));
+    const plan = planPollIntervals(creators, 500);
+    const dailyCalls = Object.values(plan).reduce((sum, minutes) => sum + (24 * 60) / minutes, 0);
+    assert.ok(dailyCalls <= 510, `${Math.round(dailyCalls)} calls/day`);
+    assert.ok(Object.values(plan).every(minutes => minutes <= MAX_POLL_INTERVAL_MINUTES));
+  });
+
+  test("a watchlist too big for the budget even at the max interval parks the least active", () => {
+    // 150 creators × 6 polls/day at the max interval = 900 calls > 500
+    const creators = Array.from({ length: 150 }, (_, i) => ({ username: `c${i}`, tweetsPerDay: 150 - i }));
+    assert.ok(creators.length * (24 * 60) / MAX_POLL_INTERVAL_MINUTES > 500);
+
+    const plan = planPollIntervals(creators, 500);
+    const dailyCalls = Object.values(plan).reduce((sum, minutes) => sum + (24 * 60) / minutes, 0);
+    assert.ok(dailyCalls <= 500, `${Math.round(dailyCalls)} calls/day`);
+    assert.ok(plan.c0 <= MAX_POLL_INTERVAL_MINUTES);
+    assert.equal(plan.c149, PARKED_POLL_INTERVAL_MINUTES);
+  });
+});
+
+describe("performance snapshots", () => {
+  const HOUR = 60 * 60 * 1000;
+  const now = Date.UTC(2026, 0, 10);
+
+  test("a sent reply with its own URL is due, the tweet it replied to isn't tracked", () => {
+    const reply = {
+      type: "reply",
+      tweetUrl: "https://x.com/creator/status/111",
+      replyUrl: "https://x.com/me/status/222",
+      postedAt: now - 90 * 60 * 1000,
+    };
+    assert.deepEqual(dueSnapshot({ url: trackedTweetUrl(reply), postedAt: reply.postedAt }, [], now), { tweetId: "222", window: "1h", closesAt: reply.postedAt + 2 * HOUR });
+    assert.equal(dueSnapshot({ url: trackedTweetUrl({ ...reply, replyUrl: undefined }), postedAt: reply.postedAt }, [], now), null);
+  });
+
+  test("each window is captured once, close to its age", () => {
+    assert.equal(dueSnapshotWindow(now - 30 * 60 * 1000, [], now), null);
+    assert.equal(dueSnapshotWindow(now - 25 * HOUR, [], now), "24h");
+    assert.equal(dueSnapshotWindow(now - 25 * HOUR, ["1h", "24h"], now), null);
+  });
+
+  test("a window long past is skipped instead of mislabelled", () => {
+    // First seen on day 3 - no "24h" snapshot with day-3 numbers
+    assert.equal(dueSnapshotWindow(now - 72 * HOUR, [], now), null);
+    assert.equal(dueSnapshotWindow(now - 8 * 24 * HOUR, ["24h"], now), "7d");
+    assert.equal(dueSnapshotWindow(now - 12 * 24 * HOUR, [], now), null);
+  });
+
+  test("a capped run takes the windows closing soonest and counts the rest", () => {
+    const item = (postedAgo: number) => dueSnapshot({ url: `https://x.com/me/status/${postedAgo}`, postedAt: now - postedAgo }, [], now)!;
+    // 7d window open for days, 1h window closes in 30 min, 24h window in 10h
+    const due = [item(8 * 24 * HOUR), item(90 * 60 * 1000), item(26 * HOUR)];
+
+    const { batch, dropped } = snapshotBatch(due, 2);
+    assert.deepEqual(batch.map(i => i.window), ["1h", "24h"]);
+    assert.equal(dropped, 1);
+  });
+});
+
+describe("twitter api rate limiting", () => {
+  test("a burst beyond the bucket waits for refills", () => {
+    let state = null;
+    const waits: number[] = [];
+    for (let i = 0; i < TWITTER_RATE_LIMIT.capacity + 2; i++) {
+      const taken = takeToken(state, 0);
+      state = taken.state;
+      waits.push(taken.waitMs);
+    }
+    assert.ok(waits.slice(0, TWITTER_RATE_LIMIT.capacity).every(ms => ms === 0), waits.join(","));
+    assert.equal(waits[TWITTER_RATE_LIMIT.capacity], 500);
+    assert.equal(waits[TWITTER_RATE_LIMIT.capacity + 1], 1000);
+
+    // After a quiet second the bucket has refilled enough to go again
+    assert.equal(takeToken({ tokens: 0, updatedAt: 0 }, 1000).waitMs, 0);
+  });
+
+  test("backoff doubles and honours Retry-After", () => {
+    assert.deepEqual([0, 1, 2].map(attempt => backoffDelayMs(attempt)), [1000, 2000, 4000]);
+    assert.equal(backoffDelayMs(0, "7"), 7000);
+    assert.equal(backoffDelayMs(1, "not a number"), 2000);
+  });
+});
+
+describe("twitter api pagination", () => {
+  // Three pages of 10, cursors "page_2" / "page_3", like the mock community feed
+  const fetchPage = async (_source: unknown, cursor: string | null): Promise<TweetPage> => {
+    const index = cursor ? Number(cursor.replace("page_", "")) - 1 : 0;
+    const tweets = Array.from({ length: 10 }, (_, i) => ({ id: `${index}-${i}`, text: "", created_at: "" }));
+    return { tweets, nextCursor: index < 2 ? `page_${index + 2}` : null };
+  };
+  const source = { kind: "community" as const, communityId: "c" };
+
+  const collect = async (pages: AsyncGenerator<TweetPage>) => {
+    const seen: TweetPage[] = [];
+    for await (const page of pages) seen.push(page);
+    return seen;
+  };
+
+  test("follows cursors to the end of the feed", async () => {
+    const pages = await collect(paginateTweets(fetchPage, source));
+    assert.equal(pages.length, 3);
+    assert.equal(pages[2].nextCursor, null);
+  });
+
+  test("resumes from a saved cursor", async () => {
+    const pages = await collect(paginateTweets(fetchPage, source, { cursor: "page_3" }));
+    assert.deepEqual(pages.map(p => p.tweets[0].id), ["2-0"]);
+  });
+
+  test("stops at the item limit on a whole page", async () => {
+    const pages = await collect(paginateTweets(fetchPage, source, { maxItems: 15 }));
+    assert.equal(pages.length, 2);
+    assert.equal(pages[1].tweets.length, 10);
+    assert.equal(pages[1].nextCursor, "page_3");
+  });
+});
+
+describe("conversation context", () => {
+  const tweetFor = (id: string, text: string, inReplyToId?: string): DetailedTweet => ({
+    id,
+    text,
+    created_at: "",
+    author: { id: "1", username: "naval", name: "Naval", description: "", followers_count: 0, following_count: 0 },
+    hasMedia: false,
+    isThread: !!inReplyToId,
+    inReplyToId,
+  });
+  const thread: Record<string, DetailedTweet> = {
+    "1": tweetFor("1", "Seek wealth, not money or status."),
+    "2": tweetFor("2", "Wealth is assets that earn while you sleep.", "1"),
+    "3": tweetFor("3", "Play long-term games with long-term people.", "2"),
+  };
+  const client = {
+    getTweet: async (id: string) => thread[id] ?? null,
+    getTweetReplies: async function* () {
+      yield {
+        pageNumber: 1,
+        nextCursor: null,
+        tweets: [
+          { id: "r1", text: "Compounding applies to relationships too", created_at: "", likeCount: 3, author: { userName: "a" } },
+          { id: "r2", text: "Trust is the real moat", created_at: "", likeCount: 40, author: { userName: "b" } },
+        ],
+      };
+    },
+  };
+
+  test("walks the thread above a mid-thread tweet, oldest first", async () => {
+    const conversation = await buildConversationContext(thread["3"], client);
+    assert.deepEqual(conversation.parents.map(p => p.id), ["1", "2"]);
+    assert.deepEqual(conversation.replies.map(r => r.id), ["r2", "r1"]);
+  });
+
+  test("prompt names the thread and the points already taken", async () => {
+    const prompt = describeConversationContext(await buildConversationContext(thread["3"], client));
+    assert.match(prompt, /MID-THREAD/);
+    assert.match(prompt, /Trust is the real moat/);
+    assert.equal(describeConversationContext({ parents: [], replies: [] }), "");
+  });
+});
+
+describe("reply saturation", () => {
+  const tweet = fixtures.tweets[0];
+
+  test("classifies replies by the angle they take", () => {
+    assert.equal(classifyReplyValueType("@naval What made you realise that?"), "pure_curiosity");
+    assert.equal(classifyReplyValueType("@naval Not sure. But this breaks down for first time founders."), "devils_advocate");
+    assert.equal(classifyReplyValueType("@naval Retention went up 40% when we tried this"), "provide_evidence");
+    assert.equal(classifyReplyValueType("@naval How would you apply this to a team of two?"), "practical_application");
+  });
+
+  test("a crowded angle loses its spot to an untaken one", () => {
+    const strategyContext = {
+      tweetContent: analyzeTweetContent(tweet.text),
+      creatorNiche: tweet.creatorNiche,
+      yourExperiences: YOUR_EXPERIENCES,
+      minutesSincePosted: tweet.minutesSincePosted,
+    };
+    const fresh = selectReplyStrategies(strategyContext);
+
+    // Every existing reply already takes the fresh primary angle
+    const crowdedReplies: Partial<Record<ReplyValueType, string>> = {
+      pure_curiosity: "@x What made you think of this?",
+      devils_advocate: "@x Actually I disagree with this.",
+      provide_evidence: "@x We saw 40% more signups doing this",
+      practical_application: "@x How would you apply this day to day?",
+      expand_idea: "@x And this compounds over time.",
+    };
+    const sample = crowdedReplies[fresh.primary];
+    assert.ok(sample, `no sample reply for ${fresh.primary}`);
+
+    const saturation = analyzeReplySaturation(Array(6).fill(sample));
+    assert.deepEqual(saturation.crowded, [fresh.primary]);
+
+    const adjusted = selectReplyStrategies({ ...strategyContext, saturation });
+    assert.notEqual(adjusted.primary, fresh.primary, adjusted.reasoning);
+    assert.ok(adjusted.scores[fresh.primary] < fresh.scores[fresh.primary]);
+  });
+
+  test("a handful of replies is not enough to call an angle crowded", () => {
+    assert.deepEqual(analyzeReplySaturation(["@x Why?", "@x How so?"]).crowded, []);
+  });
+});
+
+describe("reply progress stream", () => {
+  const streamOf = (chunks: string[]) => new ReadableStream<Uint8Array>({
+    start(controller) {
+      const encoder = new TextEncoder();
+      chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    },
+  });
+
+  test("events survive being split across chunks", async () => {
+    const progress: ReplyProgressEvent = { type: "attempt", attempt: 2, maxAttempts: 3 };
+    const wire = encodeSSE("progress", progress) + encodeSSE("result", { replies: ["a\n\nb"] });
+
+    const messages = [];
+    for await (const message of readSSE(streamOf([wire.slice(0, 7), wire.slice(7, 40), wire.slice(40)]))) {
+      messages.push(message);
+    }
+
+    assert.deepEqual(messages, [
+      { event: "progress", data: progress },
+      { event: "result", data: { replies: ["a\n\nb"] } },
+    ]);
+  });
+
+  test("failed checks are flagged, passed ones are not", () => {
+    assert.equal(isProgressWarning({ type: "quality", attempt: 1, passed: false, bestScore: 40, issues: [] }), true);
+    assert.equal(isProgressWarning({ type: "quality", attempt: 2, passed: true, bestScore: 80, issues: [] }), false);
+    assert.equal(isProgressWarning({ type: "duplicates", attempt: 1, count: 1 }), true);
+  });
+});
+
+describe("structured output", () => {
+  // Provider that answers from a script, recording what it was sent
+  const scripted = (responses: string[]) => {
+    const calls: LLMMessage[][] = [];
+    const provider = createProvider("fake", "scripted", async (_system, messages) => {
+      calls.push(messages);
+      return responses[Math.min(calls.length - 1, responses.length - 1)];
+    });
+    return { provider, calls };
+  };
+  const user: LLMMessage[] = [{ role: "user", content: "reply to this" }];
+
+  test("every issue is reported with its path", () => {
+    const result = validate(REPLIES_SCHEMA, { replies: [{ text: "ok" }, { text: "" }, { txt: "typo" }, { text: 4 }] });
+
+    assert.equal(result.ok, false);
+    assert.deepEqual(!result.ok && result.issues, [
+      "$.replies: allows at most 3 items (got 4)",
+      "$.replies[1].text: must be at least 1 characters",
+      "$.replies[2].text: missing",
+      "$.replies[3].text: expected string, got number",
+    ]);
+  });
+
+  test("malformed output is sent back once with its issues, then accepted", async () => {
+    const { provider, calls } = scripted([
+      `{"reply": "only one"}`,
+      `{"replies": [{"text": "a"}, {"text": "b"}, {"text": "c"}]}`,
+    ]);
+
+    const output = await provider.generateStructured("system", user, REPLIES_SCHEMA);
+
+    assert.deepEqual(output.replies.map(reply => reply.text), ["a", "b", "c"]);
+    assert.equal(calls.length, 2);
+    const repair = calls[1][calls[1].length - 1].content;
+    assert.ok(typeof repair === "string" && repair.includes("$.replies: missing"), `repair turn: ${repair}`);
+  });
+
+  test("the schema itself reaches the provider so it can be enforced natively", async () => {
+    let sent: unknown;
+    const provider = createProvider("fake", "scripted", async (_system, _messages, options) => {
+      sent = options.schema;
+      return `{"replies": [{"text": "a"}, {"text": "b"}, {"text": "c"}]}`;
+    });
+
+    await provider.generateStructured("system", user, REPLIES_SCHEMA);
+    assert.deepEqual(sent, REPLIES_SCHEMA.json);
+  });
+
+  test("output still malformed after repair throws instead of returning partial data", async () => {
+    const { provider, calls } = scripted([`REPLY 1:\nnot json at all`]);
+
+    await assert.rejects(
+      provider.generateStructured("system", user, REPLIES_SCHEMA),
+      (error: unknown) => error instanceof StructuredOutputError && error.issues.length > 0
+    );
+    assert.equal(calls.length, 2);
+  });
+
+  test("the offline provider's fixtures satisfy every route's schema", async () => {
+    const cases: [LLMRoute, Parameters<typeof validate>[0]][] = [
+      ["replies", REPLIES_SCHEMA],
+      ["replies", REFINED_REPLY_SCHEMA],
+      ["posts", DAILY_POSTS_SCHEMA],
+      ["threads", THREAD_SCHEMA],
+      ["threads", THREAD_TWEET_SCHEMA],
+      ["community_posts", COMMUNITY_POST_SCHEMA],
+      ["community_voice", VOICE_PROFILE_SCHEMA],
+      ["profile_analysis", CREATOR_ANALYSIS_SCHEMA],
+    ];
+
+    for (const [route, target] of cases) {
+      await assert.doesNotReject(createFakeProvider(route).generateStructured("system", user, target), route);
+    }
+  });
+});
+
+describe("reply refinement", () => {
+  const scripted = (responses: string[]) => {
+    const calls: LLMMessage[][] = [];
+    const llm = createProvider("fake", "scripted", async (_system, messages) => {
+      calls.push(messages);
+      return JSON.stringify({ reply: responses[Math.min(calls.length - 1, responses.length - 1)] });
+    });
+    return { llm, calls };
+  };
+  const context = (llm: ReplyRefinementContext["llm"], instruction: string, text: string): ReplyRefinementContext => ({
+    tweetText: fixtures.tweets[0].text,
+    tweetAuthor: "levelsio",
+    creatorProfile: creator,
+    minutesSincePosted: 10,
+    yourHandle: "me",
+    llm,
+    instruction,
+    reply: { text, strategy: "pure_curiosity" },
+  });
+  const original = "@levelsio What made you pick that over the obvious option?";
+  const honest = "@levelsio What made you pick that over the obvious option? I went the other way building SubWise";
+
+  test("the instruction reaches the prompt", async () => {
+    const { llm, calls } = scripted([honest]);
+    await refineReplyWithClaude(context(llm, "mention what I'm building", original));
+
+    const prompt = calls[0][0].content;
+    assert.ok(typeof prompt === "string" && prompt.includes("INSTRUCTION: mention what I'm building"));
+    assert.ok(typeof prompt === "string" && prompt.includes(original));
+  });
+
+  test("the rewrite goes through the specificity and quality checks again", async () => {
+    // First rewrite invents a number, the retry drops it
+    const { llm, calls } = scripted([
+      "@levelsio Did this change after your first 100 users, or was it true from day one?",
+      honest,
+    ]);
+    const result = await refineReplyWithClaude(context(llm, "ask about timing", original));
+
+    assert.equal(calls.length, 2);
+    const retry = calls[1][calls[1].length - 1].content;
+    assert.ok(typeof retry === "string" && retry.includes(`Still follow the instruction: "ask about timing"`), `retry turn: ${retry}`);
+    assert.equal(result.totalAttempts, 2);
+    assert.equal(result.reply.text, honest);
+    assert.equal(result.specificityReport.passed, true);
+    assert.equal(result.qualityReport.attemptNumber, 2);
+  });
+
+  test("each refinement is the next version of the draft", async () => {
+    let versions: ReplyVersion[] = [{ content: original, algorithmScore: 50, createdAt: 0 }];
+    const numbers: number[] = [];
+
+    for (const instruction of ["shorter", "mention what I'm building"]) {
+      const current = versions[versions.length - 1].content;
+      const result = await refineReplyWithClaude(context(createFakeProvider("replies"), instruction, current));
+      const appended = appendReplyVersion(versions, {
+        content: result.reply.text,
+        instruction,
+        algorithmScore: result.reply.score,
+        qualityPassed: result.qualityReport.passed,
+        specificityScore: result.specificityReport.score,
+      }, 1);
+      versions = appended.versions;
+      numbers.push(appended.version);
+    }
+
+    assert.deepEqual(numbers, [2, 3]);
+    assert.deepEqual(versions.map(v => v.instruction), [undefined, "shorter", "mention what I'm building"]);
+  });
+});
+
+describe("thread composer", () => {
+  const thread = toComposerTweets(["Hook", "Numbers", "Lesson"], ["", "metrics screenshot"]);
+
+  test("reordering, merging and splitting keep each tweet's media with its text", () => {
+    assert.deepEqual(moveTweet(thread, 1, 0).map(t => [t.text, t.media]), [["Numbers", "metrics screenshot"], ["Hook", ""], ["Lesson", ""]]);
+    assert.deepEqual(mergeWithNext(thread, 0), [{ text: "Hook Numbers", media: "metrics screenshot" }, { text: "Lesson", media: "" }]);
+
+    const split = splitTweet(toComposerTweets(["First thought. Second thought."], ["photo"]), 0);
+    assert.deepEqual(split, [{ text: "First thought.", media: "photo" }, { text: "Second thought.", media: "" }]);
+    assert.deepEqual(splitTweet(thread, 0, 2).map(t => t.text), ["Ho", "ok", "Numbers", "Lesson"]);
+  });
+
+  test("stored media stays aligned with tweets", () => {
+    assert.deepEqual(fromComposerTweets(thread).mediaSuggestions, ["", "metrics screenshot", ""]);
+  });
+
+  test("over-length text splits at sentence ends into tweets that each fit", () => {
+    const sentence = "Shipped the analytics dashboard after rebuilding the data model twice this week. ";
+    const tweets = splitIntoTweets(sentence.repeat(8));
+
+    assert.ok(tweets.length > 1);
+    for (const tweet of tweets) {
+      assert.ok(weightedLength(tweet) <= MAX_TWEET_LENGTH, `${weightedLength(tweet)}: ${tweet}`);
+      assert.ok(tweet.endsWith("."), `cut mid-sentence: ${tweet}`);
+    }
+  });
+
+  test("length is X's weighted count, not string length", () => {
+    const emoji = "🔥".repeat(141); // 141 characters on screen, 282 as X counts them
+    assert.equal(weightedLength(emoji), 282);
+    assert.deepEqual(invalidTweetIndexes(toComposerTweets([emoji, "ok", " "])), [0, 2]);
+    assert.equal(weightedLength(`read this https://example.com/${"a".repeat(200)}`), 10 + 23);
+  });
+});
+
+describe("weighted tweet length", () => {
+  test("counts characters the way X does", () => {
+    assert.equal(weightedLength("Shipped it."), 11);
+    assert.equal(weightedLength("日本語"), 6);                  // CJK = 2
+    assert.equal(weightedLength("👍🏽 👨‍👩‍👧 🇺🇸"), 8);              // each emoji sequence = 2, spaces = 1
+    assert.equal(weightedLength("“quoted” — done"), 15);        // dashes and curly quotes = 1
+    assert.equal(weightedLength("done…"), 6);                   // ...but an ellipsis is outside X's ranges = 2
+    assert.equal(weightedLength("see subwise.io."), 4 + 23 + 1); // bare domain = 23, trailing "." isn't the link
+    assert.equal(weightedLength("(https://t.co/abc)"), 1 + 23 + 1);
+  });
+
+  test("never cuts an emoji or link in half", () => {
+    const text = `${"a".repeat(270)} https://example.com/page`;
+    assert.equal(fittingPrefixLength(text), 271);
+    assert.equal(fittingPrefixLength(`${"a".repeat(279)}👍`), 279);
+  });
+
+  test("a reply only counts as short if it fits as X counts it", () => {
+    const families = "👨‍👩‍👧".repeat(40); // 320 .length, 80 weighted
+    const cjk = "日".repeat(150);        // 150 .length, 300 weighted
+    assert.equal(analyzeReplyFeatures(cjk).isShort, false);
+    assert.equal(analyzeReplyFeatures(families).isShort, true);
+    assert.equal(analyzeReplyFeatures(`Try https://example.com/${"x".repeat(300)}`).isShort, true);
+  });
+
+  test("over-length posts fail validation with an actionable issue", () => {
+    const report = validatePostQuality(`Day 12: I shipped 3 features. ${"日".repeat(130)}`, "challenge", []);
+    assert.equal(report.passed, false);
+    assert.ok(report.improvements.tooLong);
+    assert.equal(tweetLengthIssue("日".repeat(141), "Post"), "Post is 282/280 characters");
+    assert.equal(tweetLengthIssue("fits"), null);
+  });
+});
+
+describe("challenge recap", () => {
+  const day = (challengeDay: number, followers: number, extra: Partial<RecapDay> = {}): RecapDay => ({
+    challengeDay,
+    wins: [],
+    lessons: [],
+    struggles: [],
+    metrics: { followers, subwiseUsers: 0 },
+    ...extra,
+  });
+  const week = [day(3, 9), day(1, 3), day(2, 3), day(4, 21), day(5, 21), day(6, 21), day(7, 25)];
+
+  test("the follower curve names its jumps and flat stretches", () => {
+    const series = buildFollowerSeries(week);
+    assert.deepEqual(series.map(p => p.day), [1, 2, 3, 4, 5, 6, 7]);
+
+    const curve = summarizeFollowerCurve(series);
+    assert.ok(curve);
+    assert.equal(curve.gain, 22);
+    assert.equal(curve.perDay, 3.7);
+    assert.deepEqual(curve.biggestJump, { day: 4, followers: 21, gain: 12 });
+    assert.deepEqual(curve.flatStretches, [[1, 2], [4, 6]]);
+    assert.match(describeFollowerChart(curve), /3 on Day 1 to 25 on Day 7 \(\+22.*Day 4 \(\+12\).*Days 1-2, Days 4-6/);
+    assert.equal(summarizeFollowerCurve([{ day: 1, followers: 3 }]), null);
+  });
+
+  test("threads are ranked by real engagement, unposted ones left out", () => {
+    const performance = (likes: number, replies: number) => ({ totalViews: 100, totalLikes: likes, totalRetweets: 0, totalReplies: replies, totalBookmarks: 0 });
+    const ranked = rankThreadPerformance([
+      { challengeDay: 1, firstTweet: "a", status: "posted", performance: performance(10, 0) },
+      { challengeDay: 2, firstTweet: "b", status: "approved" },
+      { challengeDay: 3, firstTweet: "c", status: "posted", performance: performance(4, 4) },
+    ]);
+    assert.deepEqual(ranked.map(t => t.challengeDay), [3, 1]);
+  });
+
+  test("the prompt only carries what was logged in the range", () => {
+    const data = {
+      fromDay: 1,
+      toDay: 7,
+      goal: "3 → 250 followers",
+      days: [day(1, 3, { wins: ["Launched SubWise"] }), day(2, 8)],
+      threads: [],
+      milestones: [{ day: 1, description: "First signup", impact: "proof" }, { day: 12, description: "Later", impact: "n/a" }],
+    };
+    const prompt = describeRecapData(data, summarizeFollowerCurve(buildFollowerSeries(data.days)));
+
+    assert.match(prompt, /D1=3, D2=8/);
+    assert.match(prompt, /Day 1: First signup/);
+    assert.doesNotMatch(prompt, /Later/);
+    assert.doesNotMatch(prompt, /HOW THE DAILY THREADS DID/);
+    assert.match(prompt, /Day 1: Launched SubWise/);
+  });
+
+  test("the chart plots one point per logged day", () => {
+    const svg = renderFollowerChartSVG(buildFollowerSeries(week));
+    assert.equal(svg.match(/<circle/g)?.length, 7);
+    assert.match(svg, /Followers, Day 1-7/);
+  });
+});
+
+describe("analytics growth series", () => {
+  const logged = (date: string, followers: number, subwiseUsers: number, updatedAt = 0) => ({ date, followers, subwiseUsers, updatedAt });
+
+  test("logged days become the follower and SubWise series", () => {
+    const series = buildGrowthSeries([
+      logged("2026-01-01", 100, 10),
+      logged("2026-01-03", 112, 11),
+      logged("2026-01-02", 104, 10),
+      logged("2026-01-05", 130, 14),
+    ], "2026-01-02", "2026-01-05", 15);
+
+    // Jan 2 gains against Jan 1 even though Jan 1 is outside the range
+    assert.deepEqual(series.followerGrowth, [
+      { date: "2026-01-02", followers: 104, gained: 4 },
+      { date: "2026-01-03", followers: 112, gained: 8 },
+      { date: "2026-01-05", followers: 130, gained: 18 },
+    ]);
+    assert.equal(series.subwise.followersGained, 30);
+    assert.equal(series.subwise.usersGained, 4);
+    assert.ok(Math.abs(series.subwise.conversionRate - (4 / 30) * 100) < 1e-9);
+    assert.equal(series.subwise.currentUsers, 15);
+    assert.deepEqual(series.subwise.daily.map(d => d.usersGained), [0, 1, 3]);
+  });
+
+  test("a day logged in both inputs counts once, latest edit wins", () => {
+    const series = buildGrowthSeries([
+      logged("2026-01-01", 100, 10),
+      logged("2026-01-02", 105, 10, 1),
+      logged("2026-01-02", 108, 11, 2),
+    ], "2026-01-01", "2026-01-31");
+
+    assert.deepEqual(series.followerGrowth.map(p => p.followers), [100, 108]);
+    assert.equal(series.subwise.followersGained, 8);
+    assert.equal(series.subwise.currentUsers, 11);
+  });
+});
+
+describe("pattern mining", () => {
+  // Followers +5 on the 10-reply days, +1 on the 2-reply days
+  const followers = [10, 11, 16, 17, 22, 23, 28];
+  const inputs = followers.map((count, i) => ({ date: `2026-01-0${i + 1}`, challengeDay: i + 1, followers: count }));
+  const stats = (replies: number[]) => replies.map((repliesSent, i) => ({ date: `2026-01-0${i + 2}`, repliesSent }));
+
+  test("follower deltas are per day, so a skipped day isn't a jump", () => {
+    const days = buildPatternDays(
+      [{ date: "2026-01-03", challengeDay: 3, followers: 14 }, { date: "2026-01-01", challengeDay: 1, followers: 10 }],
+      [{ date: "2026-01-03", repliesSent: 7 }],
+      [{ date: "2026-01-03", postType: "lesson" }, { date: "2026-01-03", postType: "bts" }]
+    );
+    assert.deepEqual(days, [{ date: "2026-01-03", challengeDay: 3, followerDelta: 2, trainingMinutes: undefined, repliesSent: 7, postsPosted: 2, postTypes: ["bts", "lesson"] }]);
+  });
+
+  test("a real difference becomes a statement with its numbers", () => {
+    const patterns = minePatterns(buildPatternDays(inputs, stats([2, 10, 2, 10, 2, 10]), []), []);
+    assert.deepEqual(patterns.whatWorks, ["Days with more than 6 replies sent: +5 followers/day vs +1 on the rest (3 vs 3 days)"]);
+    assert.deepEqual(patterns.whatDoesnt, []);
+    assert.deepEqual(patterns.surprises, []);
+  });
+
+  test("growth against expectation is a surprise", () => {
+    const patterns = minePatterns(buildPatternDays(inputs, stats([10, 2, 10, 2, 10, 2]), []), []);
+    assert.deepEqual(patterns.whatWorks, []);
+    assert.match(patterns.surprises[0], /More replies sent didn't mean more followers.*\+1 followers\/day vs \+5/);
+    assert.match(patterns.surprises[1], /Biggest follower day \(Day 3, \+5\) came with only 2 replies sent/);
+  });
+
+  test("too few days says nothing", () => {
+    const patterns = minePatterns(buildPatternDays(inputs.slice(0, 4), stats([2, 10, 2]), []), []);
+    assert.deepEqual(patterns, { whatWorks: [], whatDoesnt: [], surprises: [] });
+    assert.equal(describePatterns(patterns), "");
+  });
+
+  test("post types are judged on follower growth the days they went out", () => {
+    const posted = (postType: string, dates: string[]): PatternInputPost[] => dates.map(date => ({ date, postType }));
+    const posts = [
+      ...posted("bts", ["2026-01-03", "2026-01-05", "2026-01-07"]), // the +5 days
+      ...posted("lesson", ["2026-01-02", "2026-01-04", "2026-01-06"]), // the +1 days
+      ...posted("meme", ["2026-01-03", "2026-01-04"]), // too few days to judge
+    ];
+    const patterns = minePatterns(buildPatternDays(inputs, [], posts), posts);
+
+    assert.deepEqual(patterns.whatWorks, ['Days with a "bts" post: +5 followers/day vs +1 on the rest (3 vs 3 days)']);
+    assert.deepEqual(patterns.whatDoesnt, ['Days with a "lesson" post: +1 followers/day vs +5 on the rest (3 vs 3 days)']);
+  });
+
+  test("post types are judged on engagement once they have enough posts", () => {
+    const post = (postType: string, engagements: number): PatternInputPost => ({
+      date: "2026-01-02",
+      postType,
+      performance: { views: 100, likes: engagements, retweets: 0, replies: 0, bookmarks: 0 },
+    });
+    const posts = [post("lesson", 10), post("lesson", 10), post("lesson", 10), post("progress", 2), post("progress", 2), post("progress", 2), post("bts", 6), post("bts", 6)];
+    const patterns = minePatterns([], posts);
+
+    assert.deepEqual(patterns.whatWorks, ['"lesson" posts: 10% median engagement vs 6% across all posts (3 posts)']);
+    assert.match(patterns.whatDoesnt[0], /"progress" posts: 2% median engagement/);
+    assert.ok(![...patterns.whatWorks, ...patterns.whatDoesnt].some(p => p.includes("bts")));
+    assert.match(describePatterns(patterns), /PATTERNS FROM YOUR DATA[\s\S]*What's working[\s\S]*"lesson"[\s\S]*What isn't[\s\S]*"progress"/);
+  });
+});
@@ -1,6 +1,8 @@
 #!/usr/bin/env tsx
 // Diagnostic script to test TwitterAPI.io integration
 // Run: npx tsx scripts/test-twitter-api.ts
+// Offline: npm run mock:twitter, then
+//   TWITTER_API_BASE_URL=http://localhost:4010 TWITTER_API_KEY=mock npx tsx scripts/test-twitter-api.ts
 
 import { twitterApi } from "../lib/twitter-api";
 